@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler
+} from '../../src/contexts/enrollment/application/commands/index';
+import type { ApproveEnrollmentCommand } from '../../src/contexts/enrollment/application/commands/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import {
+  MockNotificationService,
+  MockEventPublisher
+} from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+
+describe('履修承認コマンドハンドラー', () => {
+  let requestHandler: RequestEnrollmentCommandHandler;
+  let approveHandler: ApproveEnrollmentCommandHandler;
+  let enrollmentRepo: InMemoryEnrollmentRepository;
+  let eventPublisher: MockEventPublisher;
+  let dispatcher: OutboxDispatcher;
+
+  beforeEach(async () => {
+    enrollmentRepo = new InMemoryEnrollmentRepository();
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    eventPublisher = new MockEventPublisher();
+
+    requestHandler = new RequestEnrollmentCommandHandler(
+      enrollmentRepo,
+      studentRepo,
+      courseRepo
+    );
+    approveHandler = new ApproveEnrollmentCommandHandler(enrollmentRepo);
+    dispatcher = new OutboxDispatcher(enrollmentRepo, eventPublisher, new MockNotificationService());
+
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 10 }
+    ]);
+
+    await requestHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    await dispatcher.dispatchPending();
+    eventPublisher.clear();
+  });
+
+  test('申請中の履修を承認できる', async () => {
+    const command: ApproveEnrollmentCommand = {
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01'
+    };
+
+    const result = await approveHandler.handle(command);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.status).toBe('approved');
+      expect(result.data.approvedBy).toBe('ADVISOR01');
+      expect(result.data.approvedAt).toBeDefined();
+      expect(result.data.version).toBe(2);
+    }
+
+    // 永続化とイベント発行の確認
+    const stored = await enrollmentRepo.findByStudentCourseAndSemester('ST001', 'CS101', '2025-spring');
+    expect(stored.success && stored.data?.status).toBe('approved');
+    expect(enrollmentRepo.getEventCount()).toBe(2);
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('EnrollmentApproved')).toHaveLength(1);
+  });
+
+  test('承認済みの履修を再承認するとビジネスルールエラー', async () => {
+    const command: ApproveEnrollmentCommand = {
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01'
+    };
+    await approveHandler.handle(command);
+
+    const result = await approveHandler.handle(command);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('BusinessRuleError');
+      expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+    }
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('EnrollmentApproved')).toHaveLength(1);
+  });
+
+  test('存在しない履修申請の承認はNotFoundError', async () => {
+    const result = await approveHandler.handle({
+      studentId: 'ST999',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01'
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('NotFoundError');
+      expect(result.error.code).toBe('NOT_FOUND');
+    }
+  });
+
+  test('承認者が未指定の場合はコマンド形式エラー', async () => {
+    const result = await approveHandler.handle({
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: ''
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('INVALID_COMMAND_FORMAT');
+    }
+  });
+});
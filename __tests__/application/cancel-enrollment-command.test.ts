@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler,
+  CancelEnrollmentCommandHandler
+} from '../../src/contexts/enrollment/application/commands/index';
+import type { CancelEnrollmentCommand } from '../../src/contexts/enrollment/application/commands/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import {
+  MockNotificationService,
+  MockEventPublisher
+} from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+
+describe('履修取消コマンドハンドラー', () => {
+  let approveHandler: ApproveEnrollmentCommandHandler;
+  let cancelHandler: CancelEnrollmentCommandHandler;
+  let enrollmentRepo: InMemoryEnrollmentRepository;
+  let eventPublisher: MockEventPublisher;
+  let dispatcher: OutboxDispatcher;
+
+  const command: CancelEnrollmentCommand = {
+    studentId: 'ST001',
+    courseId: 'CS101',
+    semester: '2025-spring',
+    reason: 'schedule change'
+  };
+
+  beforeEach(async () => {
+    enrollmentRepo = new InMemoryEnrollmentRepository();
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    eventPublisher = new MockEventPublisher();
+
+    const requestHandler = new RequestEnrollmentCommandHandler(
+      enrollmentRepo,
+      studentRepo,
+      courseRepo
+    );
+    approveHandler = new ApproveEnrollmentCommandHandler(enrollmentRepo);
+    cancelHandler = new CancelEnrollmentCommandHandler(enrollmentRepo, courseRepo);
+    dispatcher = new OutboxDispatcher(enrollmentRepo, eventPublisher, new MockNotificationService());
+
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 10 }
+    ]);
+
+    await requestHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    await dispatcher.dispatchPending();
+    eventPublisher.clear();
+  });
+
+  test('申請中の履修を取消できる', async () => {
+    const result = await cancelHandler.handle(command);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.status).toBe('cancelled');
+      expect(result.data.cancelReason).toBe('schedule change');
+      expect(result.data.cancelledAt).toBeDefined();
+      expect(result.data.version).toBe(2);
+    }
+
+    const stored = await enrollmentRepo.findByStudentCourseAndSemester('ST001', 'CS101', '2025-spring');
+    expect(stored.success && stored.data?.status).toBe('cancelled');
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('EnrollmentCancelled')).toHaveLength(1);
+  });
+
+  test('承認済みの履修を取消できる', async () => {
+    await approveHandler.handle({
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01'
+    });
+
+    const result = await cancelHandler.handle(command);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.status).toBe('cancelled');
+      expect(result.data.version).toBe(3);
+    }
+  });
+
+  test('取消済みの履修を再取消するとビジネスルールエラー', async () => {
+    await cancelHandler.handle(command);
+
+    const result = await cancelHandler.handle(command);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('BusinessRuleError');
+      expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+    }
+  });
+
+  test('存在しない履修申請の取消はNotFoundError', async () => {
+    const result = await cancelHandler.handle({ ...command, studentId: 'ST999' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('NotFoundError');
+    }
+  });
+});
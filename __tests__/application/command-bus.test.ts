@@ -0,0 +1,308 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import {
+  CommandBus,
+  validationMiddleware,
+  loggingMiddleware,
+  timingMiddleware,
+  idempotencyMiddleware,
+  authorizationMiddleware,
+  concurrencyRetryMiddleware
+} from '../../src/contexts/enrollment/application/bus/index';
+import type {
+  CommandMiddleware,
+  CommandHandler,
+  CommandLogger,
+  CommandTiming
+} from '../../src/contexts/enrollment/application/bus/index';
+import {
+  RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler,
+  mapErrorToResponse
+} from '../../src/contexts/enrollment/application/commands/index';
+import type {
+  ApproveEnrollmentCommand,
+  EnrollmentResponse
+} from '../../src/contexts/enrollment/application/commands/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { InMemoryIdempotencyStore } from '../../src/contexts/enrollment/infrastructure/idempotency/index';
+import {
+  createConcurrencyError,
+  createNotFoundError
+} from '../../src/contexts/enrollment/domain/errors/errors';
+import { Ok, Err } from '../../src/shared/types/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+describe('コマンドバス', () => {
+  let enrollmentRepo: InMemoryEnrollmentRepository;
+  let studentRepo: MockStudentRepository;
+  let courseRepo: MockCourseRepository;
+
+  const request = { type: 'RequestEnrollment', payload: { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' } } as const;
+  const approve = {
+    type: 'ApproveEnrollment',
+    payload: { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring', approvedBy: 'ADVISOR01' }
+  } as const;
+
+  const approvedResponse: EnrollmentResponse = {
+    id: 'ST001-CS101-2025-spring',
+    studentId: 'ST001',
+    courseId: 'CS101',
+    semester: '2025-spring',
+    status: 'approved',
+    requestedAt: '2025-04-01T09:00:00.000Z',
+    version: 2
+  };
+
+  // 呼び出し回数を数え、順に結果を返すハンドラー
+  const scriptedHandler = (
+    ...outcomes: Array<Awaited<ReturnType<CommandHandler<ApproveEnrollmentCommand>['handle']>>>
+  ) => {
+    const handler = {
+      calls: 0,
+      async handle() {
+        const outcome = outcomes[Math.min(handler.calls, outcomes.length - 1)]!;
+        handler.calls++;
+        return outcome;
+      }
+    };
+    return handler;
+  };
+
+  const createBus = (middlewares: CommandMiddleware[] = []) => {
+    const bus = new CommandBus(middlewares);
+    bus.register('RequestEnrollment', new RequestEnrollmentCommandHandler(enrollmentRepo, studentRepo, courseRepo));
+    bus.register('ApproveEnrollment', new ApproveEnrollmentCommandHandler(enrollmentRepo));
+    return bus;
+  };
+
+  beforeEach(() => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: {
+        ...DEFAULT_ENROLLMENT_CONFIG.processing,
+        retry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, exponentialBackoff: false }
+      }
+    });
+    enrollmentRepo = new InMemoryEnrollmentRepository();
+    studentRepo = new MockStudentRepository();
+    courseRepo = new MockCourseRepository();
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 10 }
+    ]);
+  });
+
+  afterEach(() => {
+    reloadConfig();
+  });
+
+  describe('振り分け', () => {
+    test('コマンド種別ごとに登録したハンドラーで実行する', async () => {
+      const bus = createBus();
+
+      const requested = await bus.execute(request);
+      const approved = await bus.execute(approve);
+
+      expect(requested.success && requested.data.status).toBe('requested');
+      expect(approved.success && approved.data.status).toBe('approved');
+      expect(enrollmentRepo.getEventCount()).toBe(2);
+    });
+
+    test('ハンドラー未登録のコマンド種別はエラー', async () => {
+      const result = await new CommandBus().execute(request);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('UNKNOWN_COMMAND_TYPE');
+      }
+    });
+
+    test('同じコマンド種別への二重登録はエラー', () => {
+      const bus = createBus();
+
+      const result = bus.register('ApproveEnrollment', new ApproveEnrollmentCommandHandler(enrollmentRepo));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('COMMAND_HANDLER_ALREADY_REGISTERED');
+      }
+    });
+
+    test('ミドルウェアは登録順に外側から実行される', async () => {
+      const calls: string[] = [];
+      const tracing = (name: string): CommandMiddleware => async (command, _context, next) => {
+        calls.push(`${name}:before`);
+        const outcome = await next(command);
+        calls.push(`${name}:after`);
+        return outcome;
+      };
+      const bus = createBus([tracing('outer')]).use(tracing('inner'));
+
+      await bus.execute(request);
+
+      expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+    });
+  });
+
+  describe('入力検証', () => {
+    test('不正なコマンドはハンドラーに届かない', async () => {
+      const handler = scriptedHandler(Ok(approvedResponse));
+      const bus = new CommandBus([validationMiddleware()]);
+      bus.register('ApproveEnrollment', handler);
+
+      const result = await bus.execute({ type: 'ApproveEnrollment', payload: { ...approve.payload, approvedBy: '' } });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_COMMAND_FORMAT');
+      }
+      expect(handler.calls).toBe(0);
+    });
+  });
+
+  describe('ログと計測', () => {
+    test('設定したログレベル以上の開始・結果を記録する', async () => {
+      const logs: Array<{ level: string; message: string; fields: Record<string, unknown> }> = [];
+      const logger: CommandLogger = { log: (level, message, fields) => logs.push({ level, message, fields }) };
+      const bus = createBus([loggingMiddleware(logger)]);
+
+      await bus.execute(request);
+      await bus.execute(request);
+
+      expect(logs).toEqual([
+        {
+          level: 'info',
+          message: 'Command succeeded',
+          fields: { commandType: 'RequestEnrollment', actorId: undefined, version: 1, status: 'requested' }
+        },
+        {
+          level: 'warn',
+          message: 'Command failed',
+          fields: { commandType: 'RequestEnrollment', actorId: undefined, errorType: 'BusinessRuleError', errorCode: 'DUPLICATE_ENROLLMENT' }
+        }
+      ]);
+    });
+
+    test('コマンドごとの所要時間と結果を記録する', async () => {
+      const timings: CommandTiming[] = [];
+      const bus = createBus([timingMiddleware(timing => timings.push(timing))]);
+
+      await bus.execute(request);
+      await bus.execute({ type: 'ApproveEnrollment', payload: { ...approve.payload, studentId: 'ST999' } });
+
+      expect(timings).toMatchObject([
+        { commandType: 'RequestEnrollment', success: true },
+        { commandType: 'ApproveEnrollment', success: false, errorCode: 'NOT_FOUND' }
+      ]);
+      expect(timings[0]?.durationMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('冪等性キー', () => {
+    test('同じキーの再送はハンドラーを実行せずに記録済みの結果を返す', async () => {
+      const handler = scriptedHandler(Ok(approvedResponse), Err(mapErrorToResponse(createNotFoundError('Enrollment', 'x'))));
+      const bus = new CommandBus([idempotencyMiddleware(new InMemoryIdempotencyStore())]);
+      bus.register('ApproveEnrollment', handler);
+      const command = { type: 'ApproveEnrollment', payload: { ...approve.payload, idempotencyKey: 'approve-1' } } as const;
+
+      const first = await bus.execute(command);
+      const retried = await bus.execute(command);
+
+      expect(first).toEqual(Ok(approvedResponse));
+      expect(retried).toEqual(first);
+      expect(handler.calls).toBe(1);
+    });
+  });
+
+  describe('認可', () => {
+    const bus = () => createBus([authorizationMiddleware()]);
+
+    test('実行者のないコマンドは拒否する', async () => {
+      const result = await bus().execute(request);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('AUTHENTICATION_REQUIRED');
+      }
+    });
+
+    test('学生は自分の履修申請のみ実行できる', async () => {
+      const own = await bus().execute(request, { actor: { id: 'ST001', roles: ['student'] } });
+      const other = await bus().execute(request, { actor: { id: 'ST002', roles: ['student'] } });
+
+      expect(own.success).toBe(true);
+      expect(other.success).toBe(false);
+      if (!other.success) {
+        expect(other.error.code).toBe('COMMAND_NOT_AUTHORIZED');
+      }
+    });
+
+    test('承認は学生には許可せず、アドバイザーには許可する', async () => {
+      const commandBus = bus();
+      await commandBus.execute(request, { actor: { id: 'ST001', roles: ['student'] } });
+
+      const byStudent = await commandBus.execute(approve, { actor: { id: 'ST001', roles: ['student'] } });
+      const byAdvisor = await commandBus.execute(approve, { actor: { id: 'ADVISOR01', roles: ['advisor'] } });
+
+      expect(byStudent.success).toBe(false);
+      expect(byAdvisor.success && byAdvisor.data.status).toBe('approved');
+    });
+
+    test('独自の認可ルールを渡せる', async () => {
+      const commandBus = createBus([authorizationMiddleware(command => command.type !== 'RequestEnrollment')]);
+
+      const result = await commandBus.execute(request, { actor: { id: 'ADMIN01', roles: ['admin'] } });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('楽観的ロックの再試行', () => {
+    const conflict = Err<EnrollmentResponse, ReturnType<typeof mapErrorToResponse>>(
+      mapErrorToResponse(createConcurrencyError(1, 2, 'enrollment-ST001-CS101-2025-spring'))
+    );
+
+    test('ConcurrencyError はやり直して成功した結果を返す', async () => {
+      const handler = scriptedHandler(conflict, conflict, Ok(approvedResponse));
+      const bus = new CommandBus([concurrencyRetryMiddleware()]);
+      bus.register('ApproveEnrollment', handler);
+
+      const result = await bus.execute(approve);
+
+      expect(result).toEqual(Ok(approvedResponse));
+      expect(handler.calls).toBe(3);
+    });
+
+    test('再試行の上限に達したら ConcurrencyError を返す', async () => {
+      const handler = scriptedHandler(conflict);
+      const bus = new CommandBus([concurrencyRetryMiddleware()]);
+      bus.register('ApproveEnrollment', handler);
+
+      const result = await bus.execute(approve);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.type).toBe('ConcurrencyError');
+      }
+      expect(handler.calls).toBe(3);
+    });
+
+    test('ConcurrencyError 以外のエラーはやり直さない', async () => {
+      const handler = scriptedHandler(Err(mapErrorToResponse(createNotFoundError('Enrollment', 'x'))));
+      const bus = new CommandBus([concurrencyRetryMiddleware()]);
+      bus.register('ApproveEnrollment', handler);
+
+      await bus.execute(approve);
+
+      expect(handler.calls).toBe(1);
+    });
+  });
+});
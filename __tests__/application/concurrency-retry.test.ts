@@ -0,0 +1,203 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler,
+  CancelEnrollmentCommandHandler,
+  retryOnConcurrencyConflict,
+  updateEnrollmentWithRetry
+} from '../../src/contexts/enrollment/application/commands/index';
+import {
+  CommandBus,
+  concurrencyRetryMiddleware
+} from '../../src/contexts/enrollment/application/bus/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { approveEnrollment } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import {
+  createConcurrencyError,
+  createNotFoundError
+} from '../../src/contexts/enrollment/domain/errors/errors';
+import type { EnrollmentError } from '../../src/contexts/enrollment/domain/errors/errors';
+import { Ok, Err } from '../../src/shared/types/index';
+import type { Result } from '../../src/shared/types/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+// 次の保存の直前に、別のコマンドの更新を割り込ませるリポジトリ
+class RacingEnrollmentRepository extends InMemoryEnrollmentRepository {
+  saveCalls = 0;
+  private race: (() => Promise<unknown>) | undefined;
+
+  raceOnNextSave(race: () => Promise<unknown>): void {
+    this.race = race;
+  }
+
+  override async save(...args: Parameters<InMemoryEnrollmentRepository['save']>) {
+    this.saveCalls++;
+    const race = this.race;
+    this.race = undefined;
+    if (race) {
+      await race();
+    }
+    return super.save(...args);
+  }
+}
+
+describe('楽観的ロック競合時のやり直し', () => {
+  const retryConfig = { maxAttempts: 4, baseDelayMs: 1, maxDelayMs: 3, exponentialBackoff: true };
+  const conflict = createConcurrencyError(1, 2, 'enrollment-ST001-CS101-2025-spring');
+
+  // 順に結果を返す試行
+  const scriptedAttempt = (...outcomes: Array<Result<string, EnrollmentError>>) => {
+    const attempt = {
+      calls: 0,
+      async run() {
+        const outcome = outcomes[Math.min(attempt.calls, outcomes.length - 1)]!;
+        attempt.calls++;
+        return outcome;
+      }
+    };
+    return attempt;
+  };
+
+  beforeEach(() => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: { ...DEFAULT_ENROLLMENT_CONFIG.processing, retry: retryConfig }
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    reloadConfig();
+  });
+
+  describe('retryOnConcurrencyConflict', () => {
+    test('競合しなくなるまでやり直し、実行した回数を返す', async () => {
+      const attempt = scriptedAttempt(Err(conflict), Err(conflict), Ok('saved'));
+
+      const outcome = await retryOnConcurrencyConflict(() => attempt.run());
+
+      expect(outcome).toEqual({ result: Ok('saved'), attempts: 3 });
+    });
+
+    test('ConcurrencyError 以外のエラーはやり直さない', async () => {
+      const notFound = createNotFoundError('Enrollment', 'ST001-CS101-2025-spring');
+      const attempt = scriptedAttempt(Err(notFound));
+
+      const outcome = await retryOnConcurrencyConflict(() => attempt.run());
+
+      expect(outcome).toEqual({ result: Err(notFound), attempts: 1 });
+    });
+
+    test('maxAttempts 回で諦め、待ち時間は指数的に伸びて maxDelayMs で頭打ちになる', async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      const attempt = scriptedAttempt(Err(conflict));
+
+      const outcome = await retryOnConcurrencyConflict(() => attempt.run());
+
+      expect(outcome).toEqual({ result: Err(conflict), attempts: 4 });
+      expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('コマンドハンドラー', () => {
+    let enrollmentRepo: RacingEnrollmentRepository;
+    let approveHandler: ApproveEnrollmentCommandHandler;
+    let cancelHandler: CancelEnrollmentCommandHandler;
+    let bus: CommandBus;
+
+    const target = { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' };
+    const approve = { type: 'ApproveEnrollment', payload: { ...target, approvedBy: 'ADVISOR01' } } as const;
+    const cancel = { type: 'CancelEnrollment', payload: { ...target, reason: 'schedule change' } } as const;
+
+    beforeEach(async () => {
+      enrollmentRepo = new RacingEnrollmentRepository();
+      const studentRepo = new MockStudentRepository();
+      const courseRepo = new MockCourseRepository();
+      studentRepo.setStudentData('ST001', true, 'active');
+      courseRepo.setCourseData('CS101', true, [
+        { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 10 }
+      ]);
+      approveHandler = new ApproveEnrollmentCommandHandler(enrollmentRepo);
+      cancelHandler = new CancelEnrollmentCommandHandler(enrollmentRepo, courseRepo);
+      bus = new CommandBus([concurrencyRetryMiddleware()]);
+      bus.register('ApproveEnrollment', approveHandler);
+      bus.register('CancelEnrollment', cancelHandler);
+
+      await new RequestEnrollmentCommandHandler(enrollmentRepo, studentRepo, courseRepo).handle(target);
+      enrollmentRepo.saveCalls = 0;
+    });
+
+    test('ハンドラーは競合をやり直さずに ConcurrencyError を返す', async () => {
+      enrollmentRepo.raceOnNextSave(() => approveHandler.handle(approve.payload));
+
+      const result = await cancelHandler.handle(cancel.payload);
+
+      expect(!result.success && result.error.type).toBe('ConcurrencyError');
+      // 取消（競合）→ 割り込んだ承認
+      expect(enrollmentRepo.saveCalls).toBe(2);
+    });
+
+    test('バスの concurrencyRetryMiddleware が先に保存された更新を反映してやり直す', async () => {
+      enrollmentRepo.raceOnNextSave(() => bus.execute(approve));
+
+      const result = await bus.execute(cancel);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.status).toBe('cancelled');
+        expect(result.data.version).toBe(3);
+      }
+      // 取消（競合）→ 割り込んだ承認 → 取消（やり直し）
+      expect(enrollmentRepo.saveCalls).toBe(3);
+      expect(enrollmentRepo.getEventCount()).toBe(3);
+    });
+
+    test('やり直した結果、状態遷移が許されなければドメインのエラーを返す', async () => {
+      enrollmentRepo.raceOnNextSave(() => bus.execute(cancel));
+
+      const result = await bus.execute(approve);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.type).toBe('BusinessRuleError');
+      }
+      expect(enrollmentRepo.getEventCount()).toBe(2);
+    });
+
+    test('updateEnrollmentWithRetry は保存した更新と実行した回数を返す', async () => {
+      const outcome = await updateEnrollmentWithRetry(
+        enrollmentRepo,
+        target,
+        current => approveEnrollment(current, 'ADVISOR01'),
+        ['eventPublisher']
+      );
+
+      expect(outcome.attempts).toBe(1);
+      expect(outcome.result.success).toBe(true);
+      if (outcome.result.success) {
+        expect(outcome.result.data.previous.status).toBe('requested');
+        expect(outcome.result.data.enrollment.status).toBe('approved');
+        expect(outcome.result.data.domainEvent.eventType).toBe('EnrollmentApproved');
+      }
+    });
+
+    test('履修が見つからなければやり直さずに NotFoundError を返す', async () => {
+      const outcome = await updateEnrollmentWithRetry(
+        enrollmentRepo,
+        { ...target, courseId: 'CS999' },
+        current => approveEnrollment(current, 'ADVISOR01')
+      );
+
+      expect(outcome.attempts).toBe(1);
+      expect(!outcome.result.success && outcome.result.error.type).toBe('NotFoundError');
+    });
+  });
+});
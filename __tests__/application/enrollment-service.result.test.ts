@@ -12,6 +12,7 @@ import {
   MockNotificationService,
   MockEventPublisher
 } from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
 
 describe('履修申請コマンドハンドラー (Result型)', () => {
   let commandHandler: RequestEnrollmentCommandHandler;
@@ -21,6 +22,7 @@ describe('履修申請コマンドハンドラー (Result型)', () => {
   let courseRepo: MockCourseRepository;
   let notificationService: MockNotificationService;
   let eventPublisher: MockEventPublisher;
+  let dispatcher: OutboxDispatcher;
 
   beforeEach(() => {
     enrollmentRepo = new InMemoryEnrollmentRepository();
@@ -32,10 +34,9 @@ describe('履修申請コマンドハンドラー (Result型)', () => {
     commandHandler = new RequestEnrollmentCommandHandler(
       enrollmentRepo,
       studentRepo,
-      courseRepo,
-      notificationService,
-      eventPublisher
+      courseRepo
     );
+    dispatcher = new OutboxDispatcher(enrollmentRepo, eventPublisher, notificationService);
 
     queryHandler = new GetEnrollmentQueryHandler(
       enrollmentRepo
@@ -79,7 +80,8 @@ describe('履修申請コマンドハンドラー (Result型)', () => {
           expect(storedEnrollment.data?.status).toBe('requested');
         }
 
-        // イベント発行の確認
+        // イベント発行の確認（outbox からの配信後）
+        await dispatcher.dispatchPending();
         const publishedEvents = eventPublisher.getAllEvents();
         expect(publishedEvents).toHaveLength(1);
         expect(publishedEvents[0].eventType).toBe('EnrollmentRequested');
@@ -108,6 +110,7 @@ describe('履修申請コマンドハンドラー (Result型)', () => {
       
       expect(result.success).toBe(true);
       
+      await dispatcher.dispatchPending();
       const publishedEvents = eventPublisher.getAllEvents();
       expect(publishedEvents).toHaveLength(1);
       expect(publishedEvents[0].data.metadata).toEqual({ source: 'mobile-app', version: '1.2.3' });
@@ -1,4 +1,4 @@
-import { describe, test, expect, beforeEach } from 'vitest';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
 import { RequestEnrollmentCommandHandler } from '../../src/contexts/enrollment/application/commands/index';
 import { GetEnrollmentQueryHandler } from '../../src/contexts/enrollment/application/queries/index';
 import type { RequestEnrollmentCommand } from '../../src/contexts/enrollment/application/commands/index';
@@ -6,12 +6,20 @@ import type { GetEnrollmentQuery } from '../../src/contexts/enrollment/applicati
 import {
   InMemoryEnrollmentRepository,
   MockStudentRepository,
-  MockCourseRepository
+  MockCourseRepository,
+  MockCoursePrerequisiteRepository,
+  MockStudentCourseHistoryRepository
 } from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
 import {
   MockNotificationService,
   MockEventPublisher
 } from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
 
 describe('履修申請CQRS Handler', () => {
   let commandHandler: RequestEnrollmentCommandHandler;
@@ -21,6 +29,7 @@ describe('履修申請CQRS Handler', () => {
   let courseRepo: MockCourseRepository;
   let notificationService: MockNotificationService;
   let eventPublisher: MockEventPublisher;
+  let dispatcher: OutboxDispatcher;
 
   beforeEach(() => {
     enrollmentRepo = new InMemoryEnrollmentRepository();
@@ -32,10 +41,9 @@ describe('履修申請CQRS Handler', () => {
     commandHandler = new RequestEnrollmentCommandHandler(
       enrollmentRepo,
       studentRepo,
-      courseRepo,
-      notificationService,
-      eventPublisher
+      courseRepo
     );
+    dispatcher = new OutboxDispatcher(enrollmentRepo, eventPublisher, notificationService);
 
     queryHandler = new GetEnrollmentQueryHandler(
       enrollmentRepo
@@ -76,7 +84,8 @@ describe('履修申請CQRS Handler', () => {
         expect(enrollmentRepo.getEnrollmentCount()).toBe(1);
         expect(enrollmentRepo.getEventCount()).toBe(1);
 
-        // イベント発行の確認
+        // イベント発行の確認（outbox からの配信後）
+        await dispatcher.dispatchPending();
         const publishedEvents = eventPublisher.getAllEvents();
         expect(publishedEvents).toHaveLength(1);
         expect(publishedEvents[0].eventType).toBe('EnrollmentRequested');
@@ -101,6 +110,7 @@ describe('履修申請CQRS Handler', () => {
 
       expect(result.success).toBe(true);
       
+      await dispatcher.dispatchPending();
       const publishedEvents = eventPublisher.getAllEvents();
       expect(publishedEvents[0].correlationId).toBe(command.correlationId);
       expect(publishedEvents[0].data.metadata).toEqual(command.metadata);
@@ -204,10 +214,13 @@ describe('履修申請CQRS Handler', () => {
           {
             semester: '2025-spring',
             offered: true,
-            maxCapacity: 20,
-            currentEnrollment: 20 // 満員
+            maxCapacity: 1,
+            currentEnrollment: 0
           }
         ]);
+        // 最後の席を ST002 が取って満員にする
+        studentRepo.setStudentData('ST002', true, 'active');
+        await commandHandler.handle({ studentId: 'ST002', courseId: 'CS103', semester: '2025-spring' });
 
         const command: RequestEnrollmentCommand = {
           studentId: 'ST001',
@@ -246,6 +259,174 @@ describe('履修申請CQRS Handler', () => {
     });
   });
 
+  describe('履修数の上限・下限', () => {
+    beforeEach(() => {
+      setConfigForTesting({
+        ...DEFAULT_ENROLLMENT_CONFIG,
+        businessRules: {
+          ...DEFAULT_ENROLLMENT_CONFIG.businessRules,
+          enrollment: {
+            ...DEFAULT_ENROLLMENT_CONFIG.businessRules.enrollment,
+            maxCoursesPerSemester: 2,
+            minCoursesPerSemester: 2
+          }
+        }
+      });
+
+      for (const courseId of ['CS102', 'CS103']) {
+        courseRepo.setCourseData(courseId, true, [
+          { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 0 }
+        ]);
+      }
+    });
+
+    afterEach(() => {
+      reloadConfig();
+    });
+
+    test('学期の履修上限に達すると申請できない', async () => {
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS102', semester: '2025-spring' });
+
+      const result = await commandHandler.handle({ studentId: 'ST001', courseId: 'CS103', semester: '2025-spring' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('ENROLLMENT_LIMIT_EXCEEDED');
+        expect(result.error.details?.currentCount).toBe(2);
+      }
+    });
+
+    test('学期末の最低履修数チェック', async () => {
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+      const belowMinimum = await commandHandler.checkMinimumEnrollmentAtTermClose('ST001', '2025-spring');
+      expect(belowMinimum.success).toBe(false);
+      if (!belowMinimum.success) {
+        expect(belowMinimum.error.code).toBe('ENROLLMENT_BELOW_MINIMUM');
+      }
+
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS102', semester: '2025-spring' });
+
+      const satisfied = await commandHandler.checkMinimumEnrollmentAtTermClose('ST001', '2025-spring');
+      expect(satisfied.success).toBe(true);
+      if (satisfied.success) {
+        expect(satisfied.data.activeCount).toBe(2);
+      }
+    });
+  });
+
+  describe('前提科目チェック', () => {
+    let prerequisiteRepo: MockCoursePrerequisiteRepository;
+    let historyRepo: MockStudentCourseHistoryRepository;
+
+    beforeEach(() => {
+      prerequisiteRepo = new MockCoursePrerequisiteRepository();
+      historyRepo = new MockStudentCourseHistoryRepository();
+      commandHandler = new RequestEnrollmentCommandHandler(
+        enrollmentRepo,
+        studentRepo,
+        courseRepo,
+        prerequisiteRepo,
+        historyRepo
+      );
+
+      prerequisiteRepo.setPrerequisites('CS101', {
+        type: 'all',
+        requirements: [
+          { type: 'course', courseId: 'MA101', minimumGrade: 'C' },
+          {
+            type: 'any',
+            requirements: [
+              { type: 'course', courseId: 'CS100' },
+              { type: 'course', courseId: 'CS110' }
+            ]
+          }
+        ]
+      });
+    });
+
+    test('前提科目を満たしていれば申請できる', async () => {
+      historyRepo.setCompletedCourses('ST001', [
+        { courseId: 'MA101', semester: '2024-fall', grade: 'B' },
+        { courseId: 'CS110', semester: '2024-fall', grade: 'C' }
+      ]);
+
+      const result = await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+      expect(result.success).toBe(true);
+    });
+
+    test('未充足の前提科目を列挙したビジネスルールエラー', async () => {
+      historyRepo.setCompletedCourses('ST001', [
+        { courseId: 'MA101', semester: '2024-fall', grade: 'D' }
+      ]);
+
+      const result = await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.type).toBe('BusinessRuleError');
+        expect(result.error.code).toBe('PREREQUISITES_NOT_MET');
+        expect(result.error.details?.unmetDescriptions).toEqual(['MA101 (min C)', '(CS100 OR CS110)']);
+      }
+      expect(enrollmentRepo.getEnrollmentCount()).toBe(0);
+    });
+  });
+
+  describe('時間割衝突チェック', () => {
+    const term = { startDate: new Date('2025-04-01'), endDate: new Date('2025-07-31') };
+
+    beforeEach(() => {
+      courseRepo.setCourseData('CS101', true, [{
+        semester: '2025-spring',
+        offered: true,
+        maxCapacity: 30,
+        currentEnrollment: 10,
+        meetingTimes: [{ weekday: 'MON', startTime: '09:00', endTime: '10:30', ...term }]
+      }]);
+      courseRepo.setCourseData('MA201', true, [{
+        semester: '2025-spring',
+        offered: true,
+        maxCapacity: 30,
+        currentEnrollment: 0,
+        meetingTimes: [{ weekday: 'MON', startTime: '10:00', endTime: '11:30', ...term }]
+      }]);
+      courseRepo.setCourseData('MA202', true, [{
+        semester: '2025-spring',
+        offered: true,
+        maxCapacity: 30,
+        currentEnrollment: 0,
+        meetingTimes: [{ weekday: 'MON', startTime: '10:30', endTime: '12:00', ...term }]
+      }]);
+    });
+
+    test('授業時間が重なる科目は衝突相手の科目名を含むエラー', async () => {
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+      const result = await commandHandler.handle({ studentId: 'ST001', courseId: 'MA201', semester: '2025-spring' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.type).toBe('BusinessRuleError');
+        expect(result.error.code).toBe('SCHEDULE_CONFLICT');
+        expect(result.error.message).toContain('CS101');
+        expect(result.error.details?.conflictingCourseId).toBe('CS101');
+      }
+    });
+
+    test('連続する授業や他の学生の履修とは衝突しない', async () => {
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+      const adjacent = await commandHandler.handle({ studentId: 'ST001', courseId: 'MA202', semester: '2025-spring' });
+      expect(adjacent.success).toBe(true);
+
+      studentRepo.setStudentData('ST002', true, 'active');
+      const otherStudent = await commandHandler.handle({ studentId: 'ST002', courseId: 'MA201', semester: '2025-spring' });
+      expect(otherStudent.success).toBe(true);
+    });
+  });
+
   describe('getEnrollment', () => {
     test('存在する履修申請の取得', async () => {
       // 先に履修申請を作成
@@ -288,6 +469,7 @@ describe('履修申請CQRS Handler', () => {
       };
 
       await commandHandler.handle(command);
+      await dispatcher.dispatchPending();
 
       const events = eventPublisher.getAllEvents();
       expect(events).toHaveLength(1);
@@ -304,12 +486,25 @@ describe('履修申請CQRS Handler', () => {
       };
 
       await commandHandler.handle(command);
+      await dispatcher.dispatchPending();
 
       const notifications = notificationService.getSentNotifications();
       expect(notifications).toHaveLength(1);
       expect(notifications[0].event.eventType).toBe('EnrollmentRequested');
     });
 
+    test('配信前のイベントと通知は outbox に残る', async () => {
+      await commandHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+      expect(eventPublisher.getAllEvents()).toHaveLength(0);
+      const due = await enrollmentRepo.getDueOutboxEntries(new Date(), 10);
+      expect(due.success && due.data.map(entry => entry.destination))
+        .toEqual(['eventPublisher', 'notificationService']);
+
+      expect(await dispatcher.dispatchPending()).toEqual({ success: true, data: 2 });
+      expect(await enrollmentRepo.getDueOutboxEntries(new Date(), 10)).toEqual({ success: true, data: [] });
+    });
+
     test('履修申請失敗時はイベントもデータも作成されない', async () => {
       studentRepo.setStudentData('ST999', false); // 存在しない学生
 
@@ -320,6 +515,7 @@ describe('履修申請CQRS Handler', () => {
       };
 
       await commandHandler.handle(command);
+      await dispatcher.dispatchPending();
 
       expect(enrollmentRepo.getEnrollmentCount()).toBe(0);
       expect(eventPublisher.getAllEvents()).toHaveLength(0);
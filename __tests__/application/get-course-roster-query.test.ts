@@ -0,0 +1,113 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GetCourseRosterQueryHandler } from '../../src/contexts/enrollment/application/queries/index';
+import { CourseRosterProjection } from '../../src/contexts/enrollment/infrastructure/projections/index';
+import { MockCourseRepository } from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentWaitlistedEvent,
+  createEnrollmentApprovedEvent,
+  createEnrollmentCancelledEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
+import type { EnrollmentDomainEvent } from '../../src/contexts/enrollment/domain/events/domain-events';
+
+describe('GetCourseRosterQueryHandler', () => {
+  let projection: CourseRosterProjection;
+  let courseRepo: MockCourseRepository;
+  let handler: GetCourseRosterQueryHandler;
+  let position: number;
+
+  const project = async (event: EnrollmentDomainEvent) => {
+    position++;
+    const streamId = `enrollment-${event.studentId}-${event.courseId}-${event.data.semester}`;
+    const result = await projection.apply({ position, streamId, event, recordedAt: new Date() });
+    if (!result.success) throw new Error('projection failed');
+  };
+
+  const at = (iso: string) => vi.setSystemTime(new Date(iso));
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    projection = new CourseRosterProjection();
+    courseRepo = new MockCourseRepository();
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 3, currentEnrollment: 0 }
+    ]);
+    handler = new GetCourseRosterQueryHandler(projection, courseRepo);
+    position = 0;
+
+    at('2025-01-03T09:00:00.000Z');
+    await project(createEnrollmentRequestedEvent('ST003', 'CS101', '2025-spring', 1));
+    at('2025-01-01T09:00:00.000Z');
+    await project(createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1));
+    at('2025-01-02T09:00:00.000Z');
+    await project(createEnrollmentRequestedEvent('ST002', 'CS101', '2025-spring', 1));
+    await project(createEnrollmentApprovedEvent('ST002', 'CS101', '2025-spring', 'ADVISOR01', 2));
+    at('2025-01-04T09:00:00.000Z');
+    await project(createEnrollmentRequestedEvent('ST004', 'CS101', '2025-spring', 1));
+    await project(createEnrollmentCancelledEvent('ST004', 'CS101', '2025-spring', new Date(), 2));
+    at('2025-01-05T09:00:00.000Z');
+    await project(createEnrollmentWaitlistedEvent('ST005', 'CS101', '2025-spring', 1));
+    // 別の開講は含まない
+    await project(createEnrollmentRequestedEvent('ST001', 'CS101', '2025-fall', 1));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('状態ごとの一覧と定員に対する件数を返す', async () => {
+    const result = await handler.handle({ courseId: 'CS101', semester: '2025-spring' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.enrolled.map(entry => entry.studentId)).toEqual(['ST002']);
+      expect(result.data.requested.map(entry => entry.studentId)).toEqual(['ST001', 'ST003']);
+      expect(result.data.waitlisted.map(entry => entry.studentId)).toEqual(['ST005']);
+      expect(result.data.enrolled[0]).toMatchObject({ status: 'approved', approvedBy: 'ADVISOR01' });
+      expect(result.data.counts).toEqual({ enrolled: 1, requested: 2, waitlisted: 1 });
+      expect(result.data.capacity).toEqual({ max: 3, occupied: 3, available: 0 });
+    }
+  });
+
+  test('申請日時の降順で並べられる', async () => {
+    const result = await handler.handle({ courseId: 'CS101', semester: '2025-spring', sortOrder: 'desc' });
+
+    expect(result.success && result.data.requested.map(entry => entry.studentId)).toEqual(['ST003', 'ST001']);
+  });
+
+  test('履修申請の無い開講は空の名簿', async () => {
+    courseRepo.setCourseData('CS201', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 20, currentEnrollment: 0 }
+    ]);
+
+    const result = await handler.handle({ courseId: 'CS201', semester: '2025-spring' });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: {
+        enrolled: [],
+        requested: [],
+        waitlisted: [],
+        capacity: { max: 20, occupied: 0, available: 20 }
+      }
+    });
+  });
+
+  test('開講されていない科目は NotFoundError', async () => {
+    const result = await handler.handle({ courseId: 'CS999', semester: '2025-spring' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('NotFoundError');
+    }
+  });
+
+  test('不正な識別子は ValidationError', async () => {
+    const result = await handler.handle({ courseId: 'cs101', semester: '2025-spring' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('INVALID_COURSE_ID');
+    }
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler,
+  computeCommandFingerprint
+} from '../../src/contexts/enrollment/application/commands/index';
+import type { RequestEnrollmentCommand } from '../../src/contexts/enrollment/application/commands/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { InMemoryIdempotencyStore } from '../../src/contexts/enrollment/infrastructure/idempotency/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+describe('冪等性キーによるコマンドの再送', () => {
+  let requestHandler: RequestEnrollmentCommandHandler;
+  let enrollmentRepo: InMemoryEnrollmentRepository;
+  let studentRepo: MockStudentRepository;
+  let courseRepo: MockCourseRepository;
+  let idempotencyStore: InMemoryIdempotencyStore;
+
+  const command: RequestEnrollmentCommand = {
+    studentId: 'ST001',
+    courseId: 'CS101',
+    semester: '2025-spring',
+    idempotencyKey: 'request-key-1'
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-04-01T09:00:00.000Z'));
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: {
+        ...DEFAULT_ENROLLMENT_CONFIG.processing,
+        idempotency: { ttlSeconds: 600 }
+      }
+    });
+
+    enrollmentRepo = new InMemoryEnrollmentRepository();
+    studentRepo = new MockStudentRepository();
+    courseRepo = new MockCourseRepository();
+    idempotencyStore = new InMemoryIdempotencyStore();
+    requestHandler = new RequestEnrollmentCommandHandler(
+      enrollmentRepo,
+      studentRepo,
+      courseRepo,
+      undefined,
+      undefined,
+      idempotencyStore
+    );
+
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 10 }
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    reloadConfig();
+  });
+
+  test('同じキーの再送には最初のレスポンスを返し、再実行しない', async () => {
+    const first = await requestHandler.handle(command);
+    const retried = await requestHandler.handle({ ...command, correlationId: '123e4567-e89b-12d3-a456-426614174000' });
+
+    expect(first.success).toBe(true);
+    expect(retried).toEqual(first);
+    expect(enrollmentRepo.getEventCount()).toBe(1);
+  });
+
+  test('重複申請を許可する設定でも再送で二重に申請されない', async () => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      businessRules: {
+        ...DEFAULT_ENROLLMENT_CONFIG.businessRules,
+        enrollment: { ...DEFAULT_ENROLLMENT_CONFIG.businessRules.enrollment, allowDuplicateEnrollment: true }
+      }
+    });
+
+    const first = await requestHandler.handle(command);
+    const retried = await requestHandler.handle(command);
+
+    expect(retried).toEqual(first);
+    expect(enrollmentRepo.getEventCount()).toBe(1);
+  });
+
+  test('エラーになったコマンドの再送には記録したエラーを返す', async () => {
+    studentRepo.setStudentData('ST001', true, 'inactive');
+    const first = await requestHandler.handle(command);
+    expect(first.success).toBe(false);
+
+    // 状態が変わっても再送は再実行しない
+    studentRepo.setStudentData('ST001', true, 'active');
+    const retried = await requestHandler.handle(command);
+
+    expect(retried).toEqual(first);
+    expect(enrollmentRepo.getEnrollmentCount()).toBe(0);
+  });
+
+  test('キーなしのコマンドは毎回実行される', async () => {
+    const { idempotencyKey: _key, ...withoutKey } = command;
+    await requestHandler.handle(withoutKey);
+
+    const result = await requestHandler.handle(withoutKey);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('DUPLICATE_ENROLLMENT');
+    }
+    expect(idempotencyStore.getRecordCount()).toBe(0);
+  });
+
+  test('内容の異なるコマンドへのキーの使い回しはエラー', async () => {
+    await requestHandler.handle(command);
+
+    const result = await requestHandler.handle({ ...command, courseId: 'CS102' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('ValidationError');
+      expect(result.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+      expect(result.error.field).toBe('idempotencyKey');
+    }
+  });
+
+  test('別のコマンド種別へのキーの使い回しはエラー', async () => {
+    await requestHandler.handle(command);
+    const approveHandler = new ApproveEnrollmentCommandHandler(enrollmentRepo, idempotencyStore);
+
+    const result = await approveHandler.handle({
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01',
+      idempotencyKey: command.idempotencyKey
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    }
+  });
+
+  test('最初のコマンドの実行中に届いた再送は実行せずにエラー', async () => {
+    const [first, concurrent] = await Promise.all([
+      requestHandler.handle(command),
+      requestHandler.handle(command)
+    ]);
+
+    expect(first.success).toBe(true);
+    expect(concurrent.success).toBe(false);
+    if (!concurrent.success) {
+      expect(concurrent.error.code).toBe('IDEMPOTENCY_KEY_IN_PROGRESS');
+    }
+    expect(enrollmentRepo.getEventCount()).toBe(1);
+  });
+
+  test('有効期限を過ぎたキーは新しいコマンドとして実行される', async () => {
+    await requestHandler.handle(command);
+
+    vi.setSystemTime(new Date('2025-04-01T09:10:00.000Z'));
+    const result = await requestHandler.handle(command);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('DUPLICATE_ENROLLMENT');
+    }
+  });
+
+  test('承認コマンドの再送は状態遷移エラーにならない', async () => {
+    await requestHandler.handle(command);
+    const approveHandler = new ApproveEnrollmentCommandHandler(enrollmentRepo, idempotencyStore);
+    const approve = {
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01',
+      idempotencyKey: 'approve-key-1'
+    };
+
+    const first = await approveHandler.handle(approve);
+    const retried = await approveHandler.handle(approve);
+
+    expect(first.success && first.data.status).toBe('approved');
+    expect(retried).toEqual(first);
+  });
+
+  test('コマンドの指紋はキーの順序とトレーサビリティ項目に依存しない', () => {
+    expect(computeCommandFingerprint({ semester: '2025-spring', studentId: 'ST001', idempotencyKey: 'a' }))
+      .toBe(computeCommandFingerprint({ studentId: 'ST001', semester: '2025-spring', causationId: 'x' }));
+    expect(computeCommandFingerprint({ metadata: { a: 1, b: 2 } }))
+      .toBe(computeCommandFingerprint({ metadata: { b: 2, a: 1 } }));
+    expect(computeCommandFingerprint({ studentId: 'ST001' }))
+      .not.toBe(computeCommandFingerprint({ studentId: 'ST002' }));
+  });
+});
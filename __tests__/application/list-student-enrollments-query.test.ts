@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ListStudentEnrollmentsQueryHandler } from '../../src/contexts/enrollment/application/queries/index';
+import { StudentEnrollmentsProjection } from '../../src/contexts/enrollment/infrastructure/projections/index';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentWaitlistedEvent,
+  createEnrollmentApprovedEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
+import type { EnrollmentDomainEvent } from '../../src/contexts/enrollment/domain/events/domain-events';
+
+describe('ListStudentEnrollmentsQueryHandler', () => {
+  let projection: StudentEnrollmentsProjection;
+  let handler: ListStudentEnrollmentsQueryHandler;
+  let position: number;
+
+  const project = async (event: EnrollmentDomainEvent) => {
+    position++;
+    const streamId = `enrollment-${event.studentId}-${event.courseId}-${event.data.semester}`;
+    const result = await projection.apply({ position, streamId, event, recordedAt: new Date() });
+    if (!result.success) throw new Error('projection failed');
+  };
+
+  const requestAt = async (iso: string, studentId: string, courseId: string, semester: string) => {
+    vi.setSystemTime(new Date(iso));
+    await project(createEnrollmentRequestedEvent(studentId, courseId, semester, 1));
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    projection = new StudentEnrollmentsProjection();
+    handler = new ListStudentEnrollmentsQueryHandler(projection);
+    position = 0;
+
+    await requestAt('2025-01-10T09:00:00.000Z', 'ST001', 'CS201', '2025-spring');
+    await requestAt('2025-01-05T09:00:00.000Z', 'ST001', 'CS101', '2025-spring');
+    await requestAt('2025-06-01T09:00:00.000Z', 'ST001', 'CS301', '2025-fall');
+    await requestAt('2025-01-06T09:00:00.000Z', 'ST002', 'CS101', '2025-spring');
+    await project(createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2));
+    vi.setSystemTime(new Date('2025-01-20T09:00:00.000Z'));
+    await project(createEnrollmentWaitlistedEvent('ST001', 'CS401', '2025-spring', 1));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('学生の全履修申請を申請日時の昇順で返す', async () => {
+    const result = await handler.handle({ studentId: 'ST001' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.enrollments.map(enrollment => enrollment.courseId))
+        .toEqual(['CS101', 'CS201', 'CS401', 'CS301']);
+      expect(result.data).toMatchObject({ total: 4, page: 1, pageSize: 20 });
+      expect(result.data.enrollments[0]).toMatchObject({ status: 'approved', approvedBy: 'ADVISOR01' });
+    }
+  });
+
+  test('学期と状態で絞り込める', async () => {
+    const bySemester = await handler.handle({ studentId: 'ST001', semester: '2025-spring' });
+    const byStatus = await handler.handle({ studentId: 'ST001', semester: '2025-spring', status: 'waitlisted' });
+
+    expect(bySemester.success && bySemester.data.enrollments.map(enrollment => enrollment.courseId))
+      .toEqual(['CS101', 'CS201', 'CS401']);
+    expect(byStatus.success && byStatus.data.enrollments.map(enrollment => enrollment.courseId))
+      .toEqual(['CS401']);
+  });
+
+  test('page / pageSize でページングし、total は絞り込み後の全件数', async () => {
+    const result = await handler.handle({ studentId: 'ST001', page: 2, pageSize: 3 });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.enrollments.map(enrollment => enrollment.courseId)).toEqual(['CS301']);
+      expect(result.data).toMatchObject({ total: 4, page: 2, pageSize: 3 });
+    }
+  });
+
+  test('履修申請が無い学生は空の一覧', async () => {
+    expect(await handler.handle({ studentId: 'ST999' })).toEqual({
+      success: true,
+      data: { enrollments: [], total: 0, page: 1, pageSize: 20 }
+    });
+  });
+
+  test('不正な入力は ValidationError', async () => {
+    const invalidSemester = await handler.handle({ studentId: 'ST001', semester: 'spring' });
+    const invalidPage = await handler.handle({ studentId: 'ST001', page: 0 });
+
+    expect(invalidSemester.success).toBe(false);
+    if (!invalidSemester.success) {
+      expect(invalidSemester.error.code).toBe('INVALID_SEMESTER');
+    }
+    expect(invalidPage.success).toBe(false);
+    if (!invalidPage.success) {
+      expect(invalidPage.error.code).toBe('INVALID_QUERY_FORMAT');
+    }
+  });
+});
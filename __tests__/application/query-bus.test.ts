@@ -0,0 +1,227 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  QueryBus,
+  CacheInvalidatingEventPublisher
+} from '../../src/contexts/enrollment/application/bus/index';
+import type { QueryHandler, EnrollmentQueryType } from '../../src/contexts/enrollment/application/bus/index';
+import { mapErrorToResponse } from '../../src/contexts/enrollment/application/queries/index';
+import type {
+  EnrollmentResponse,
+  StuckOutboxEntriesResponse
+} from '../../src/contexts/enrollment/application/queries/index';
+import { InMemoryQueryCache } from '../../src/contexts/enrollment/infrastructure/cache/index';
+import { MockEventPublisher } from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { requestEnrollment } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { createNotFoundError, createValidationError } from '../../src/contexts/enrollment/domain/errors/errors';
+import { Ok, Err } from '../../src/shared/types/index';
+
+describe('クエリバス', () => {
+  let cache: InMemoryQueryCache;
+  let bus: QueryBus;
+
+  const enrollment: EnrollmentResponse = {
+    id: 'ST001-CS101-2025-spring',
+    studentId: 'ST001',
+    courseId: 'CS101',
+    semester: '2025-spring',
+    status: 'requested',
+    requestedAt: '2025-04-01T09:00:00.000Z',
+    version: 1
+  };
+
+  const getEnrollment = {
+    type: 'GetEnrollment',
+    payload: { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' }
+  } as const;
+  const listEnrollments = {
+    type: 'ListStudentEnrollments',
+    payload: { studentId: 'ST002' }
+  } as const;
+
+  // 呼び出し回数を数え、順に結果を返すハンドラー
+  const scriptedHandler = <K extends EnrollmentQueryType>(
+    ...outcomes: Array<Awaited<ReturnType<QueryHandler<K>['handle']>>>
+  ) => {
+    const handler = {
+      calls: 0,
+      async handle() {
+        const outcome = outcomes[Math.min(handler.calls, outcomes.length - 1)]!;
+        handler.calls++;
+        return outcome;
+      }
+    };
+    return handler;
+  };
+
+  const requestedEvent = () => {
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    return requested.data.domainEvent;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-04-01T09:00:00Z'));
+    cache = new InMemoryQueryCache();
+    bus = new QueryBus(cache);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('振り分け', () => {
+    test('クエリ種別ごとに登録したハンドラーで実行する', async () => {
+      const enrollmentHandler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      const listHandler = scriptedHandler<'ListStudentEnrollments'>(Ok({ enrollments: [], total: 0 }));
+      bus.register('GetEnrollment', enrollmentHandler);
+      bus.register('ListStudentEnrollments', listHandler);
+
+      const found = await bus.execute(getEnrollment);
+      const listed = await bus.execute(listEnrollments);
+
+      expect(found).toEqual(Ok(enrollment));
+      expect(listed.success && listed.data.total).toBe(0);
+      expect([enrollmentHandler.calls, listHandler.calls]).toEqual([1, 1]);
+    });
+
+    test('ハンドラー未登録のクエリ種別はエラー', async () => {
+      const result = await bus.execute(getEnrollment);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('UNKNOWN_QUERY_TYPE');
+      }
+    });
+
+    test('同じクエリ種別への二重登録はエラー', () => {
+      bus.register('GetEnrollment', scriptedHandler<'GetEnrollment'>(Ok(enrollment)));
+
+      const result = bus.register('GetEnrollment', scriptedHandler<'GetEnrollment'>(Ok(null)));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('QUERY_HANDLER_ALREADY_REGISTERED');
+      }
+    });
+  });
+
+  describe('キャッシュ', () => {
+    test('同じペイロードのクエリはキャッシュから返す（キーの順序に依存しない）', async () => {
+      const handler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      bus.register('GetEnrollment', handler);
+
+      const first = await bus.execute(getEnrollment);
+      const second = await bus.execute({
+        type: 'GetEnrollment',
+        payload: { semester: '2025-spring', courseId: 'CS101', studentId: 'ST001' }
+      });
+
+      expect(second).toEqual(first);
+      expect(handler.calls).toBe(1);
+    });
+
+    test('ペイロードが異なればハンドラーを実行する', async () => {
+      const handler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      bus.register('GetEnrollment', handler);
+
+      await bus.execute(getEnrollment);
+      await bus.execute({ type: 'GetEnrollment', payload: { ...getEnrollment.payload, courseId: 'CS102' } });
+
+      expect(handler.calls).toBe(2);
+    });
+
+    test('TTL を過ぎたエントリは使わない', async () => {
+      const handler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      bus.register('GetEnrollment', handler);
+
+      await bus.execute(getEnrollment);
+      vi.advanceTimersByTime(59_999);
+      await bus.execute(getEnrollment);
+      vi.setSystemTime(new Date('2025-04-01T09:01:00Z'));
+      await bus.execute(getEnrollment);
+
+      expect(handler.calls).toBe(2);
+    });
+
+    test('失敗した結果はキャッシュしない', async () => {
+      const handler = scriptedHandler<'GetEnrollment'>(
+        Err(mapErrorToResponse(createValidationError('Invalid', 'INVALID_QUERY_FORMAT'))),
+        Ok(enrollment)
+      );
+      bus.register('GetEnrollment', handler);
+
+      const failed = await bus.execute(getEnrollment);
+      const succeeded = await bus.execute(getEnrollment);
+
+      expect(failed.success).toBe(false);
+      expect(succeeded).toEqual(Ok(enrollment));
+      expect(handler.calls).toBe(2);
+    });
+
+    test('キャッシュ方針のないクエリ種別はキャッシュしない', async () => {
+      const stuck: StuckOutboxEntriesResponse = {
+        entries: [],
+        counts: { pending: 0, failed: 0 },
+        checkedAt: '2025-04-01T09:00:00.000Z'
+      };
+      const handler = scriptedHandler<'GetStuckOutboxEntries'>(Ok(stuck));
+      bus.register('GetStuckOutboxEntries', handler);
+
+      await bus.execute({ type: 'GetStuckOutboxEntries', payload: {} });
+      await bus.execute({ type: 'GetStuckOutboxEntries', payload: {} });
+
+      expect(handler.calls).toBe(2);
+      expect(cache.getEntryCount()).toBe(0);
+    });
+
+    test('キャッシュなしのバスは常にハンドラーを実行する', async () => {
+      const uncached = new QueryBus();
+      const handler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      uncached.register('GetEnrollment', handler);
+
+      await uncached.execute(getEnrollment);
+      await uncached.execute(getEnrollment);
+
+      expect(handler.calls).toBe(2);
+    });
+  });
+
+  describe('イベントによる無効化', () => {
+    test('公開したイベントに関係するエントリだけを無効化する', async () => {
+      const enrollmentHandler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      const listHandler = scriptedHandler<'ListStudentEnrollments'>(Ok({ enrollments: [], total: 0 }));
+      bus.register('GetEnrollment', enrollmentHandler);
+      bus.register('ListStudentEnrollments', listHandler);
+      const eventPublisher = new MockEventPublisher();
+      const publisher = new CacheInvalidatingEventPublisher(eventPublisher, bus);
+
+      await bus.execute(getEnrollment);
+      await bus.execute(listEnrollments);
+      const publishResult = await publisher.publish([requestedEvent()]);
+      await bus.execute(getEnrollment);
+      await bus.execute(listEnrollments);
+
+      expect(publishResult.success).toBe(true);
+      expect(eventPublisher.getPublishedEvents()).toHaveLength(1);
+      expect(enrollmentHandler.calls).toBe(2);
+      expect(listHandler.calls).toBe(1);
+    });
+
+    test('公開に失敗した場合は無効化しない', async () => {
+      const handler = scriptedHandler<'GetEnrollment'>(Ok(enrollment));
+      bus.register('GetEnrollment', handler);
+      const publisher = new CacheInvalidatingEventPublisher(
+        { publish: async () => Err(createNotFoundError('Broker', 'default')) },
+        bus
+      );
+
+      await bus.execute(getEnrollment);
+      const publishResult = await publisher.publish([requestedEvent()]);
+      await bus.execute(getEnrollment);
+
+      expect(publishResult.success).toBe(false);
+      expect(handler.calls).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler,
+  RejectEnrollmentCommandHandler
+} from '../../src/contexts/enrollment/application/commands/index';
+import type { RejectEnrollmentCommand } from '../../src/contexts/enrollment/application/commands/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import {
+  MockNotificationService,
+  MockEventPublisher
+} from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+
+describe('履修却下コマンドハンドラー', () => {
+  let approveHandler: ApproveEnrollmentCommandHandler;
+  let rejectHandler: RejectEnrollmentCommandHandler;
+  let enrollmentRepo: InMemoryEnrollmentRepository;
+  let eventPublisher: MockEventPublisher;
+  let dispatcher: OutboxDispatcher;
+
+  const command: RejectEnrollmentCommand = {
+    studentId: 'ST001',
+    courseId: 'CS101',
+    semester: '2025-spring',
+    rejectedBy: 'ADVISOR01',
+    reasonCode: 'PREREQUISITES_NOT_MET',
+    reasonText: 'CS100 is required'
+  };
+
+  beforeEach(async () => {
+    enrollmentRepo = new InMemoryEnrollmentRepository();
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    eventPublisher = new MockEventPublisher();
+
+    const requestHandler = new RequestEnrollmentCommandHandler(
+      enrollmentRepo,
+      studentRepo,
+      courseRepo
+    );
+    approveHandler = new ApproveEnrollmentCommandHandler(enrollmentRepo);
+    rejectHandler = new RejectEnrollmentCommandHandler(enrollmentRepo);
+    dispatcher = new OutboxDispatcher(enrollmentRepo, eventPublisher, new MockNotificationService());
+
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 10 }
+    ]);
+
+    await requestHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    await dispatcher.dispatchPending();
+    eventPublisher.clear();
+  });
+
+  test('申請中の履修を却下すると理由がレスポンスに含まれる', async () => {
+    const result = await rejectHandler.handle(command);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.status).toBe('rejected');
+      expect(result.data.rejectedBy).toBe('ADVISOR01');
+      expect(result.data.rejectionReasonCode).toBe('PREREQUISITES_NOT_MET');
+      expect(result.data.rejectionReason).toBe('CS100 is required');
+      expect(result.data.version).toBe(2);
+    }
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('EnrollmentRejected')).toHaveLength(1);
+  });
+
+  test('未定義の理由コードはコマンド形式エラー', async () => {
+    const result = await rejectHandler.handle({
+      ...command,
+      reasonCode: 'UNKNOWN' as RejectEnrollmentCommand['reasonCode']
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('INVALID_COMMAND_FORMAT');
+    }
+  });
+
+  test('承認済みの履修は却下できない', async () => {
+    await approveHandler.handle({
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR01'
+    });
+
+    const result = await rejectHandler.handle(command);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('BusinessRuleError');
+      expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+    }
+  });
+
+  test('却下済みの履修を承認しようとするとErrorResponseで却下理由が返る', async () => {
+    await rejectHandler.handle(command);
+
+    const result = await approveHandler.handle({
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      approvedBy: 'ADVISOR02'
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+      expect(result.error.details?.rejectionReason).toEqual({
+        code: 'PREREQUISITES_NOT_MET',
+        text: 'CS100 is required'
+      });
+    }
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RequestEnrollmentCommandHandler,
+  CancelEnrollmentCommandHandler,
+  type WaitlistPromotionFailure
+} from '../../src/contexts/enrollment/application/commands/index';
+import { GetWaitlistPositionQueryHandler } from '../../src/contexts/enrollment/application/queries/index';
+import {
+  InMemoryEnrollmentRepository,
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import {
+  MockNotificationService,
+  MockEventPublisher
+} from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+import {
+  createConcurrencyError,
+  createValidationError
+} from '../../src/contexts/enrollment/domain/errors/errors';
+import { requestEnrollment } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { Err } from '../../src/shared/types/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+describe('ウェイトリスト', () => {
+  let requestHandler: RequestEnrollmentCommandHandler;
+  let cancelHandler: CancelEnrollmentCommandHandler;
+  let positionHandler: GetWaitlistPositionQueryHandler;
+  let enrollmentRepo: InMemoryEnrollmentRepository;
+  let courseRepo: MockCourseRepository;
+  let notificationService: MockNotificationService;
+  let eventPublisher: MockEventPublisher;
+  let dispatcher: OutboxDispatcher;
+
+  const setCourseCapacity = (maxCapacity: number) => {
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity, currentEnrollment: 0 }
+    ]);
+  };
+
+  beforeEach(async () => {
+    enrollmentRepo = new InMemoryEnrollmentRepository();
+    const studentRepo = new MockStudentRepository();
+    courseRepo = new MockCourseRepository();
+    notificationService = new MockNotificationService();
+    eventPublisher = new MockEventPublisher();
+
+    requestHandler = new RequestEnrollmentCommandHandler(
+      enrollmentRepo,
+      studentRepo,
+      courseRepo
+    );
+    cancelHandler = new CancelEnrollmentCommandHandler(enrollmentRepo, courseRepo);
+    dispatcher = new OutboxDispatcher(enrollmentRepo, eventPublisher, notificationService);
+    positionHandler = new GetWaitlistPositionQueryHandler(enrollmentRepo);
+
+    for (const studentId of ['ST001', 'ST002', 'ST003']) {
+      studentRepo.setStudentData(studentId, true, 'active');
+    }
+
+    // ST001 が最後の席を確保して満員になる
+    setCourseCapacity(1);
+    await requestHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    await dispatcher.dispatchPending();
+    eventPublisher.clear();
+    notificationService.clear();
+  });
+
+  test('オプトインしない場合は従来どおり定員超過エラー', async () => {
+    const result = await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('COURSE_CAPACITY_EXCEEDED');
+    }
+  });
+
+  test('オプトインするとウェイトリストに登録される', async () => {
+    const result = await requestHandler.handle({
+      studentId: 'ST002',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      joinWaitlist: true
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.status).toBe('waitlisted');
+      expect(result.data.waitlistedAt).toBeDefined();
+    }
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('EnrollmentWaitlisted')).toHaveLength(1);
+  });
+
+  test('ウェイトリストの順位を登録順に返す', async () => {
+    await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+    await requestHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+
+    const second = await positionHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring' });
+    expect(second.success && second.data).toMatchObject({ position: 2, waitlistLength: 2 });
+
+    const notWaitlisted = await positionHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    expect(notWaitlisted.success && notWaitlisted.data).toBeNull();
+  });
+
+  test('席が空くとウェイトリスト先頭が申請中に昇格し、後続の順位が繰り上がる', async () => {
+    await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+    await requestHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+
+    const cancelResult = await cancelHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    expect(cancelResult.success).toBe(true);
+
+    const promoted = await enrollmentRepo.findByStudentCourseAndSemester('ST002', 'CS101', '2025-spring');
+    expect(promoted.success && promoted.data?.status).toBe('requested');
+    expect(promoted.success && promoted.data?.version).toBe(2);
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('WaitlistPromoted')).toHaveLength(1);
+
+    const position = await positionHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring' });
+    expect(position.success && position.data).toMatchObject({ position: 1, waitlistLength: 1 });
+  });
+
+  test('昇格した学生には申請時と同じく通知する', async () => {
+    await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+    await dispatcher.dispatchPending();
+    // ウェイトリスト登録の時点では通知しない
+    expect(notificationService.getSentNotifications()).toHaveLength(0);
+
+    await cancelHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+    await dispatcher.dispatchPending();
+
+    const notifications = notificationService.getSentNotifications();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]?.event).toMatchObject({ eventType: 'WaitlistPromoted', studentId: 'ST002' });
+  });
+
+  test('待機者がいる間は空席があっても新しい申請に席を割り当てない', async () => {
+    await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+    // 定員が増えて空席ができた
+    setCourseCapacity(2);
+
+    const refused = await requestHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring' });
+    const waitlisted = await requestHandler.handle({
+      studentId: 'ST003',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      joinWaitlist: true
+    });
+
+    expect(!refused.success && refused.error.code).toBe('COURSE_CAPACITY_EXCEEDED');
+    expect(waitlisted.success && waitlisted.data.status).toBe('waitlisted');
+    const position = await positionHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring' });
+    expect(position.success && position.data?.position).toBe(2);
+  });
+
+  test('ウェイトリストからの離脱では昇格は起きない', async () => {
+    await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+    await requestHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+
+    await cancelHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring' });
+
+    await dispatcher.dispatchPending();
+    expect(eventPublisher.getEventsByType('WaitlistPromoted')).toHaveLength(0);
+    const position = await positionHandler.handle({ studentId: 'ST003', courseId: 'CS101', semester: '2025-spring' });
+    expect(position.success && position.data?.position).toBe(1);
+  });
+
+  describe('昇格の失敗と定員の再確認', () => {
+    let failures: WaitlistPromotionFailure[];
+    let reportingCancelHandler: CancelEnrollmentCommandHandler;
+
+    const cancelST001 = () =>
+      reportingCancelHandler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+    const statusOf = async (studentId: string) => {
+      const result = await enrollmentRepo.findByStudentCourseAndSemester(studentId, 'CS101', '2025-spring');
+      return result.success ? result.data?.status : undefined;
+    };
+
+    beforeEach(async () => {
+      setConfigForTesting({
+        ...DEFAULT_ENROLLMENT_CONFIG,
+        processing: {
+          ...DEFAULT_ENROLLMENT_CONFIG.processing,
+          retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1, exponentialBackoff: false }
+        }
+      });
+      failures = [];
+      reportingCancelHandler = new CancelEnrollmentCommandHandler(
+        enrollmentRepo,
+        courseRepo,
+        undefined,
+        failure => failures.push(failure)
+      );
+      await requestHandler.handle({ studentId: 'ST002', courseId: 'CS101', semester: '2025-spring', joinWaitlist: true });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      reloadConfig();
+    });
+
+    test('空いた席がすでに埋まっていれば昇格しない', async () => {
+      // ウェイトリストができる前に定員を確認した ST003 の申請が、取消の直前に保存された
+      const requested = requestEnrollment('ST003', 'CS101', '2025-spring');
+      if (!requested.success) throw new Error('setup failed');
+      const { domainEvent, ...enrollment } = requested.data;
+      await enrollmentRepo.save(enrollment, domainEvent);
+
+      const result = await cancelST001();
+
+      expect(result.success).toBe(true);
+      expect(await statusOf('ST002')).toBe('waitlisted');
+      expect(failures).toEqual([]);
+    });
+
+    test('昇格の保存が競合したらやり直す', async () => {
+      const save = enrollmentRepo.save.bind(enrollmentRepo);
+      let conflicted = false;
+      vi.spyOn(enrollmentRepo, 'save').mockImplementation(async (enrollment, domainEvent, outbox) => {
+        if (domainEvent.eventType === 'WaitlistPromoted' && !conflicted) {
+          conflicted = true;
+          return Err(createConcurrencyError(1, 2, 'enrollment-ST002-CS101-2025-spring'));
+        }
+        return save(enrollment, domainEvent, outbox);
+      });
+
+      await cancelST001();
+
+      expect(conflicted).toBe(true);
+      expect(await statusOf('ST002')).toBe('requested');
+      expect(failures).toEqual([]);
+    });
+
+    test('昇格に失敗しても取消は成功し、失敗を通知する', async () => {
+      const repositoryError = createValidationError('Failed to find waitlisted enrollments', 'REPOSITORY_ERROR');
+      vi.spyOn(enrollmentRepo, 'findWaitlistedByCourseAndSemester').mockResolvedValue(Err(repositoryError));
+
+      const result = await cancelST001();
+
+      expect(result.success && result.data.status).toBe('cancelled');
+      expect(failures).toEqual([
+        { courseId: 'CS101', semester: '2025-spring', error: repositoryError, attempts: 1 }
+      ]);
+    });
+  });
+});
@@ -1,7 +1,11 @@
 import { describe, test, expect } from 'vitest';
-import { requestEnrollment, reconstructEnrollmentFromEvents } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { requestEnrollment, approveEnrollment, cancelEnrollment, rejectEnrollment, waitlistEnrollment, promoteFromWaitlist, applyEvent, reconstructEnrollmentFromEvents } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
 import { isValidationError, isBusinessRuleError } from '../../src/contexts/enrollment/domain/errors/errors';
-import { createEnrollmentRequestedEvent } from '../../src/contexts/enrollment/domain/events/domain-events';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentApprovedEvent,
+  createEnrollmentCancelledEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
 
 describe('履修申請集約', () => {
   describe('requestEnrollment', () => {
@@ -113,6 +117,197 @@ describe('履修申請集約', () => {
     });
   });
 
+  describe('approveEnrollment', () => {
+    test('申請中の履修を承認すると承認イベントが生成される', () => {
+      const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+      expect(requested.success).toBe(true);
+      if (!requested.success) return;
+
+      const { domainEvent: _, ...enrollment } = requested.data;
+      const result = approveEnrollment(enrollment, 'ADVISOR01');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const { domainEvent, ...approved } = result.data;
+
+        expect(approved.status).toBe('approved');
+        expect(approved.approvedBy).toBe('ADVISOR01');
+        expect(approved.approvedAt).toBeInstanceOf(Date);
+        expect(approved.requestedAt).toEqual(enrollment.requestedAt);
+        expect(approved.version).toBe(2);
+
+        expect(domainEvent.eventType).toBe('EnrollmentApproved');
+        expect(domainEvent.version).toBe(2);
+        expect(domainEvent.data.approvedBy).toBe('ADVISOR01');
+        expect(domainEvent.data.semester).toBe('2025-spring');
+      }
+    });
+
+    test('承認済みの履修は再承認できない', () => {
+      const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+      if (!requested.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = requested.data;
+
+      const first = approveEnrollment(enrollment, 'ADVISOR01');
+      if (!first.success) throw new Error('setup failed');
+      const { domainEvent: __, ...approved } = first.data;
+
+      const result = approveEnrollment(approved, 'ADVISOR02');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(isBusinessRuleError(result.error)).toBe(true);
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+        expect(result.error.rule).toBe('APPROVAL_REQUIRES_REQUESTED_STATE');
+      }
+    });
+
+    test('承認者が空の場合は検証エラー', () => {
+      const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+      if (!requested.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = requested.data;
+
+      const result = approveEnrollment(enrollment, '  ');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(isValidationError(result.error)).toBe(true);
+        expect(result.error.code).toBe('INVALID_APPROVER');
+      }
+    });
+  });
+
+  describe('rejectEnrollment', () => {
+    const createRequested = () => {
+      const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+      if (!requested.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = requested.data;
+      return enrollment;
+    };
+
+    test('申請中の履修を理由コード付きで却下できる', () => {
+      const result = rejectEnrollment(createRequested(), 'ADVISOR01', {
+        code: 'PREREQUISITES_NOT_MET',
+        text: 'CS100 is required'
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const { domainEvent, ...rejected } = result.data;
+        expect(rejected.status).toBe('rejected');
+        expect(rejected.rejectedBy).toBe('ADVISOR01');
+        expect(rejected.rejectionReason).toEqual({ code: 'PREREQUISITES_NOT_MET', text: 'CS100 is required' });
+        expect(rejected.version).toBe(2);
+        expect(domainEvent.eventType).toBe('EnrollmentRejected');
+        expect(domainEvent.data.reason.code).toBe('PREREQUISITES_NOT_MET');
+      }
+    });
+
+    test('却下済みの履修は承認できず、エラーに却下理由が含まれる', () => {
+      const rejected = rejectEnrollment(createRequested(), 'ADVISOR01', { code: 'COURSE_FULL' });
+      if (!rejected.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = rejected.data;
+
+      const result = approveEnrollment(enrollment, 'ADVISOR02');
+
+      expect(result.success).toBe(false);
+      if (!result.success && isBusinessRuleError(result.error)) {
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+        expect(result.error.context?.rejectionReason).toEqual({ code: 'COURSE_FULL' });
+      }
+    });
+
+    test('却下済みの履修は取消できない', () => {
+      const rejected = rejectEnrollment(createRequested(), 'ADVISOR01', { code: 'OTHER' });
+      if (!rejected.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = rejected.data;
+
+      const result = cancelEnrollment(enrollment, { cancellationDeadlineDays: 14, gracePeriodHours: 24 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+      }
+    });
+  });
+
+  describe('cancelEnrollment', () => {
+    const policy = { cancellationDeadlineDays: 14, gracePeriodHours: 24 };
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    const createRequested = () => {
+      const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+      if (!requested.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = requested.data;
+      return enrollment;
+    };
+
+    test('期限内の取消で取消イベントが生成される', () => {
+      const enrollment = createRequested();
+
+      const result = cancelEnrollment(enrollment, policy, { reason: 'schedule change' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const { domainEvent, ...cancelled } = result.data;
+        expect(cancelled.status).toBe('cancelled');
+        expect(cancelled.cancelReason).toBe('schedule change');
+        expect(cancelled.version).toBe(2);
+        expect(domainEvent.eventType).toBe('EnrollmentCancelled');
+        expect(domainEvent.data.cancelReason).toBe('schedule change');
+      }
+    });
+
+    test('承認済みの履修も取消できる', () => {
+      const approved = approveEnrollment(createRequested(), 'ADVISOR01');
+      if (!approved.success) throw new Error('setup failed');
+      const { domainEvent: _, ...enrollment } = approved.data;
+
+      const result = cancelEnrollment(enrollment, policy);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.version).toBe(3);
+      }
+    });
+
+    test('期限後でも猶予時間内なら取消できる', () => {
+      const enrollment = createRequested();
+      const now = new Date(enrollment.requestedAt.getTime() + 14 * DAY_MS + 23 * 60 * 60 * 1000);
+
+      const result = cancelEnrollment(enrollment, policy, { now });
+
+      expect(result.success).toBe(true);
+    });
+
+    test('猶予時間を過ぎた取消はビジネスルールエラー', () => {
+      const enrollment = createRequested();
+      const now = new Date(enrollment.requestedAt.getTime() + 15 * DAY_MS + 1);
+
+      const result = cancelEnrollment(enrollment, policy, { now });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(isBusinessRuleError(result.error)).toBe(true);
+        expect(result.error.code).toBe('CANCELLATION_DEADLINE_PASSED');
+        expect(result.error.rule).toBe('CANCELLATION_DEADLINE');
+      }
+    });
+
+    test('取消済みの履修は再取消できない', () => {
+      const first = cancelEnrollment(createRequested(), policy);
+      if (!first.success) throw new Error('setup failed');
+      const { domainEvent: _, ...cancelled } = first.data;
+
+      const result = cancelEnrollment(cancelled, policy);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+      }
+    });
+  });
+
   describe('reconstructEnrollmentFromEvents', () => {
     test('空のイベントストリームからの復元', () => {
       const result = reconstructEnrollmentFromEvents([]);
@@ -137,6 +332,54 @@ describe('履修申請集約', () => {
       }
     });
 
+    test('複数イベントを畳み込んで最新状態を復元', () => {
+      const events = [
+        createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1),
+        createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2),
+        createEnrollmentCancelledEvent('ST001', 'CS101', '2025-spring', new Date(), 3, { cancelReason: 'dropped' })
+      ];
+
+      const result = reconstructEnrollmentFromEvents(events);
+
+      expect(result.success).toBe(true);
+      if (result.success && result.data) {
+        expect(result.data.status).toBe('cancelled');
+        expect(result.data.version).toBe(3);
+        if (result.data.status === 'cancelled') {
+          expect(result.data.cancelReason).toBe('dropped');
+          expect(result.data.requestedAt).toEqual(events[0]!.data.requestedAt);
+        }
+      }
+    });
+
+    test('順不同のイベントもバージョン順に畳み込む', () => {
+      const requested = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
+      const approved = createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2);
+
+      const result = reconstructEnrollmentFromEvents([approved, requested]);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data?.status).toBe('approved');
+      }
+    });
+
+    test('不正な状態遷移（取消後の承認）は型付きエラー', () => {
+      const events = [
+        createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1),
+        createEnrollmentCancelledEvent('ST001', 'CS101', '2025-spring', new Date(), 2),
+        createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 3)
+      ];
+
+      const result = reconstructEnrollmentFromEvents(events);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(isBusinessRuleError(result.error)).toBe(true);
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+      }
+    });
+
     test('無効なイベントシーケンス（バージョン不整合）', () => {
       const event1 = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
       const event2 = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 3); // バージョン2が抜けている
@@ -166,6 +409,101 @@ describe('履修申請集約', () => {
     });
   });
 
+  describe('ウェイトリスト', () => {
+    const createWaitlisted = () => {
+      const waitlisted = waitlistEnrollment('ST001', 'CS101', '2025-spring');
+      if (!waitlisted.success) throw new Error('setup failed');
+      return waitlisted.data;
+    };
+
+    test('ウェイトリスト登録から昇格までをイベントから復元できる', () => {
+      const { domainEvent: waitlistedEvent, ...waitlisted } = createWaitlisted();
+      expect(waitlisted.status).toBe('waitlisted');
+      expect(waitlistedEvent.eventType).toBe('EnrollmentWaitlisted');
+
+      const promotedAt = new Date(waitlisted.waitlistedAt.getTime() + 60_000);
+      const promotion = promoteFromWaitlist(waitlisted, { now: promotedAt });
+      if (!promotion.success) throw new Error('promotion failed');
+      const { domainEvent: promotedEvent, ...promoted } = promotion.data;
+
+      expect(promoted.status).toBe('requested');
+      expect(promoted.version).toBe(2);
+      expect(promoted.requestedAt).toEqual(promotedAt);
+
+      const reconstructed = reconstructEnrollmentFromEvents([waitlistedEvent, promotedEvent]);
+      expect(reconstructed.success && reconstructed.data).toEqual(promoted);
+    });
+
+    test('申請中の履修は昇格できない', () => {
+      const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+      if (!requested.success) throw new Error('setup failed');
+
+      const result = promoteFromWaitlist(requested.data);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+      }
+    });
+
+    test('ウェイトリストからの離脱は取消期限の対象外', () => {
+      const { domainEvent: _, ...waitlisted } = createWaitlisted();
+      const farFuture = new Date(waitlisted.requestedAt.getTime() + 365 * 24 * 60 * 60 * 1000);
+
+      const result = cancelEnrollment(
+        waitlisted,
+        { cancellationDeadlineDays: 14, gracePeriodHours: 24 },
+        { now: farFuture }
+      );
+
+      expect(result.success && result.data.status).toBe('cancelled');
+    });
+  });
+
+  describe('applyEvent', () => {
+    test('存在しない集約に承認イベントは適用できない', () => {
+      const event = createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 1);
+
+      const result = applyEvent(null, event);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+      }
+    });
+
+    test('バージョンが連続しないイベントは拒否される', () => {
+      const requested = applyEvent(null, createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1));
+      if (!requested.success) throw new Error('setup failed');
+
+      const result = applyEvent(
+        requested.data,
+        createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 3)
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(isValidationError(result.error)).toBe(true);
+        expect(result.error.code).toBe('INVALID_EVENT_SEQUENCE');
+      }
+    });
+
+    test('別の集約のイベントは拒否される', () => {
+      const requested = applyEvent(null, createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1));
+      if (!requested.success) throw new Error('setup failed');
+
+      const result = applyEvent(
+        requested.data,
+        createEnrollmentApprovedEvent('ST002', 'CS101', '2025-spring', 'ADVISOR01', 2)
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('EVENT_AGGREGATE_MISMATCH');
+      }
+    });
+  });
+
   describe('イミュータビリティテスト', () => {
     test('requestEnrollmentは元のパラメータを変更しない', () => {
       const studentId = 'ST001';
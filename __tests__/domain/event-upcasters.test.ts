@@ -0,0 +1,131 @@
+import { describe, test, expect } from 'vitest';
+import {
+  EVENT_UPCASTERS,
+  createUpcasterRegistry,
+  upcastEvent
+} from '../../src/contexts/enrollment/domain/events/upcasters';
+import { EVENT_SCHEMA_VERSIONS } from '../../src/contexts/enrollment/domain/events/domain-events';
+import { reconstructEnrollmentFromEvents } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { deserializeEvent } from '../../src/contexts/enrollment/infrastructure/event-store/index';
+
+// schemaVersion 導入前（v1）にストアへ書かれていたままのイベント
+const historicEvents: Array<{ fromVersion: number; raw: Record<string, unknown> }> = [
+  {
+    fromVersion: 1,
+    raw: {
+      studentId: 'ST001', courseId: 'CS101', eventType: 'EnrollmentRequested',
+      occurredAt: '2025-01-05T09:00:00.000Z', version: 1,
+      data: { semester: '2025-spring', requestedAt: '2025-01-05T09:00:00.000Z' }
+    }
+  },
+  {
+    fromVersion: 1,
+    raw: {
+      studentId: 'ST002', courseId: 'CS101', eventType: 'EnrollmentWaitlisted',
+      occurredAt: '2025-01-06T09:00:00.000Z', version: 1,
+      data: { semester: '2025-spring', waitlistedAt: '2025-01-06T09:00:00.000Z' }
+    }
+  },
+  {
+    fromVersion: 1,
+    raw: {
+      studentId: 'ST002', courseId: 'CS101', eventType: 'WaitlistPromoted',
+      occurredAt: '2025-01-07T09:00:00.000Z', version: 2,
+      data: { semester: '2025-spring', promotedAt: '2025-01-07T09:00:00.000Z' }
+    }
+  },
+  {
+    fromVersion: 1,
+    raw: {
+      studentId: 'ST001', courseId: 'CS101', eventType: 'EnrollmentApproved',
+      occurredAt: '2025-01-08T09:00:00.000Z', version: 2,
+      data: { semester: '2025-spring', approvedAt: '2025-01-08T09:00:00.000Z', approvedBy: 'ADVISOR01' }
+    }
+  },
+  {
+    fromVersion: 1,
+    raw: {
+      studentId: 'ST001', courseId: 'CS101', eventType: 'EnrollmentCancelled',
+      occurredAt: '2025-01-09T09:00:00.000Z', version: 3,
+      correlationId: '6f1c7f8e-2d3b-4c5a-9e8f-0a1b2c3d4e5f',
+      data: { semester: '2025-spring', cancelledAt: '2025-01-09T09:00:00.000Z', cancelReason: 'schedule change' }
+    }
+  },
+  {
+    fromVersion: 1,
+    raw: {
+      studentId: 'ST003', courseId: 'CS101', eventType: 'EnrollmentRejected',
+      occurredAt: '2025-01-10T09:00:00.000Z', version: 2,
+      data: {
+        semester: '2025-spring', rejectedAt: '2025-01-10T09:00:00.000Z', rejectedBy: 'ADVISOR01',
+        reason: { code: 'PREREQUISITES_NOT_MET', text: 'CS100 required' }
+      }
+    }
+  }
+];
+
+describe('イベントの upcaster', () => {
+  test.each(EVENT_UPCASTERS.map(upcaster => [upcaster.eventType, upcaster.fromVersion] as const))(
+    '%s v%i の記録を現在の形で読み込める',
+    (eventType, fromVersion) => {
+      const fixture = historicEvents.find(
+        historic => historic.raw.eventType === eventType && historic.fromVersion === fromVersion
+      );
+      if (!fixture) throw new Error(`no historic fixture for ${eventType} v${fromVersion}`);
+
+      const result = deserializeEvent(fixture.raw);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const { schemaVersion, occurredAt, data, ...rest } = result.data;
+        const { occurredAt: rawOccurredAt, data: rawData, ...rawRest } = fixture.raw;
+        expect(schemaVersion).toBe(EVENT_SCHEMA_VERSIONS[eventType]);
+        expect(occurredAt).toEqual(new Date(rawOccurredAt as string));
+        expect(JSON.parse(JSON.stringify(data))).toEqual(rawData);
+        expect(rest).toEqual(rawRest);
+      }
+    }
+  );
+
+  test('旧バージョンのイベントを混在させたまま集約を復元できる', () => {
+    const toEvent = (raw: Record<string, unknown>) => {
+      const event = deserializeEvent(raw);
+      if (!event.success) throw new Error('fixture failed');
+      return event.data;
+    };
+    // メモリ上で保持されていた旧形式（Date 型、schemaVersion なし）を模擬
+    const { schemaVersion: _removed, ...legacyRequested } = toEvent(historicEvents[0]!.raw);
+    const approved = toEvent(historicEvents[3]!.raw);
+
+    const result = reconstructEnrollmentFromEvents([legacyRequested, approved]);
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { status: 'approved', approvedBy: 'ADVISOR01', version: 2 }
+    });
+  });
+
+  test('現在より新しいバージョンは読み込まない', () => {
+    const result = upcastEvent({ ...historicEvents[0]!.raw, schemaVersion: 99 });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('UNSUPPORTED_EVENT_SCHEMA_VERSION');
+    }
+  });
+
+  test('upcaster が登録されていないバージョンはエラー', () => {
+    const result = upcastEvent(historicEvents[0]!.raw, createUpcasterRegistry([]));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('MISSING_EVENT_UPCASTER');
+    }
+  });
+
+  test('未知のイベントタイプは変換せずにそのまま返す', () => {
+    const unknown = { eventType: 'CourseArchived', version: 1 };
+
+    expect(upcastEvent(unknown)).toEqual({ success: true, data: unknown });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import {
+  evaluatePrerequisites,
+  describePrerequisite
+} from '../../src/contexts/enrollment/domain/services/prerequisite-evaluator';
+import type {
+  PrerequisiteTree,
+  CompletedCourse
+} from '../../src/contexts/enrollment/domain/entities/prerequisite-types';
+
+const completed = (courseId: string, grade: CompletedCourse['grade']): CompletedCourse =>
+  ({ courseId, semester: '2024-fall', grade }) as CompletedCourse;
+
+const course = (courseId: string, minimumGrade?: CompletedCourse['grade']): PrerequisiteTree =>
+  ({ type: 'course', courseId, ...(minimumGrade && { minimumGrade }) }) as PrerequisiteTree;
+
+describe('前提科目評価', () => {
+  test('単一科目: 合格していれば充足', () => {
+    const result = evaluatePrerequisites(course('CS100'), [completed('CS100', 'D')]);
+
+    expect(result.satisfied).toBe(true);
+    expect(result.unmet).toEqual([]);
+  });
+
+  test('単一科目: 不合格(F)は未充足', () => {
+    const result = evaluatePrerequisites(course('CS100'), [completed('CS100', 'F')]);
+
+    expect(result.satisfied).toBe(false);
+  });
+
+  test('最低成績に届かない場合は未充足', () => {
+    const result = evaluatePrerequisites(course('CS100', 'B'), [completed('CS100', 'C')]);
+
+    expect(result.satisfied).toBe(false);
+    expect(result.unmet).toEqual([course('CS100', 'B')]);
+  });
+
+  test('AND: 未充足の子条件をすべて列挙する', () => {
+    const tree: PrerequisiteTree = {
+      type: 'all',
+      requirements: [course('MA101'), course('MA102'), course('CS100')]
+    };
+
+    const result = evaluatePrerequisites(tree, [completed('MA101', 'A')]);
+
+    expect(result.satisfied).toBe(false);
+    expect(result.unmet).toEqual([course('MA102'), course('CS100')]);
+  });
+
+  test('OR: いずれかを満たせば充足', () => {
+    const tree: PrerequisiteTree = {
+      type: 'any',
+      requirements: [course('CS100'), course('CS110')]
+    };
+
+    expect(evaluatePrerequisites(tree, [completed('CS110', 'C')]).satisfied).toBe(true);
+    expect(evaluatePrerequisites(tree, []).unmet).toEqual([tree]);
+  });
+
+  test('入れ子のツリーと表現', () => {
+    const tree: PrerequisiteTree = {
+      type: 'all',
+      requirements: [
+        course('MA101', 'C'),
+        { type: 'any', requirements: [course('CS100'), course('CS110')] }
+      ]
+    };
+
+    const result = evaluatePrerequisites(tree, [completed('MA101', 'B'), completed('CS110', 'A')]);
+
+    expect(result.satisfied).toBe(true);
+    expect(describePrerequisite(tree)).toBe('(MA101 (min C) AND (CS100 OR CS110))');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import {
+  meetingTimesOverlap,
+  detectScheduleConflicts
+} from '../../src/contexts/enrollment/domain/services/schedule-conflict-detector';
+import type { MeetingTime } from '../../src/contexts/enrollment/domain/entities/schedule-types';
+
+const meeting = (overrides: Partial<MeetingTime> = {}): MeetingTime => ({
+  weekday: 'MON',
+  startTime: '09:00',
+  endTime: '10:30',
+  startDate: new Date('2025-04-01'),
+  endDate: new Date('2025-07-31'),
+  ...overrides
+});
+
+describe('時間割衝突検出', () => {
+  test('同じ曜日で時刻帯が重なれば衝突', () => {
+    expect(meetingTimesOverlap(meeting(), meeting({ startTime: '10:00', endTime: '11:00' }))).toBe(true);
+  });
+
+  test('曜日が異なれば衝突しない', () => {
+    expect(meetingTimesOverlap(meeting(), meeting({ weekday: 'TUE' }))).toBe(false);
+  });
+
+  test('終了時刻と開始時刻が一致する連続授業は衝突しない', () => {
+    expect(meetingTimesOverlap(meeting(), meeting({ startTime: '10:30', endTime: '12:00' }))).toBe(false);
+  });
+
+  test('実施期間が重ならなければ衝突しない', () => {
+    const secondHalf = meeting({
+      startDate: new Date('2025-06-01'),
+      endDate: new Date('2025-07-31')
+    });
+    const firstHalf = meeting({
+      startDate: new Date('2025-04-01'),
+      endDate: new Date('2025-05-31')
+    });
+
+    expect(meetingTimesOverlap(firstHalf, secondHalf)).toBe(false);
+  });
+
+  test('衝突する科目と授業時間を列挙し、同一科目は除外する', () => {
+    const requested = { courseId: 'CS101', meetingTimes: [meeting()] };
+    const existing = [
+      { courseId: 'CS101', meetingTimes: [meeting()] },
+      { courseId: 'MA201', meetingTimes: [meeting({ startTime: '10:00', endTime: '11:30' })] },
+      { courseId: 'PH101', meetingTimes: [meeting({ weekday: 'WED' })] }
+    ];
+
+    const conflicts = detectScheduleConflicts(requested, existing);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]?.conflictingCourseId).toBe('MA201');
+    expect(conflicts[0]?.conflictingMeeting.startTime).toBe('10:00');
+  });
+});
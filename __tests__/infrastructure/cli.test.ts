@@ -0,0 +1,254 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { build } from 'esbuild';
+import { fileURLToPath } from 'node:url';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  runEnrollmentCli,
+  parseCliArguments,
+  exitCodeForError,
+  formatTable
+} from '../../src/contexts/enrollment/infrastructure/adapters/cli/index';
+import { mapErrorToResponse } from '../../src/contexts/enrollment/application/commands/index';
+import { FileEventStore } from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  createBusinessRuleError,
+  createConcurrencyError,
+  createNotFoundError,
+  createValidationError
+} from '../../src/contexts/enrollment/domain/errors/errors';
+
+describe('履修管理 CLI', () => {
+  let directory: string;
+  let storePath: string;
+  let catalogPath: string;
+
+  // サブコマンドを実行し、終了コードと出力を返す
+  const run = async (...args: string[]) => {
+    let stdout = '';
+    let stderr = '';
+    const exitCode = await runEnrollmentCli(
+      [...args, '--store', storePath, '--catalog', catalogPath],
+      {
+        stdout: { write: (text: string) => (stdout += text) },
+        stderr: { write: (text: string) => (stderr += text) }
+      },
+      {}
+    );
+    return { exitCode, stdout, stderr };
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'enrollment-cli-'));
+    storePath = path.join(directory, 'events');
+    catalogPath = path.join(directory, 'catalog.json');
+    await fs.writeFile(catalogPath, JSON.stringify({
+      students: {
+        ST001: { status: 'active' },
+        ST002: { status: 'graduated' }
+      },
+      courses: {
+        CS101: { offerings: { '2025-spring': { maxCapacity: 30 } } },
+        CS102: { offerings: { '2025-spring': { maxCapacity: 0 } } }
+      }
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('request で申請した履修を show・list・events で確認できる', async () => {
+    const requested = await run('request', 'ST001', 'CS101', '2025-spring');
+    const shown = await run('show', 'ST001', 'CS101', '2025-spring', '--json');
+    const listed = await run('list', 'ST001', '--semester', '2025-spring');
+    const events = await run('events', 'ST001', 'CS101', '2025-spring');
+
+    expect(requested.exitCode).toBe(0);
+    expect(requested.stdout).toMatch(/^status\s+requested$/m);
+    expect(shown.exitCode).toBe(0);
+    expect(JSON.parse(shown.stdout)).toMatchObject({
+      studentId: 'ST001',
+      courseId: 'CS101',
+      semester: '2025-spring',
+      status: 'requested',
+      version: 1
+    });
+    expect(listed.stdout).toMatch(/^COURSE\s+SEMESTER\s+STATUS\s+REQUESTED AT\s+VERSION$/m);
+    expect(listed.stdout).toMatch(/^CS101\s+2025-spring\s+requested\s+\S+\s+1$/m);
+    expect(listed.stdout).toContain('1 of 1 enrollments (page 1)');
+    expect(events.stdout).toMatch(/^1\s+EnrollmentRequested\s/m);
+    expect(await fs.readdir(storePath)).toEqual(['enrollment-ST001-CS101-2025-spring.jsonl']);
+    // 配信予定はディスパッチャーが後から読めるようにストアに残る
+    const due = await new FileEventStore(storePath).getDueOutboxEntries(new Date(), 10);
+    expect(due.success && due.data.map(entry => entry.destination)).toEqual(['eventPublisher', 'notificationService']);
+  });
+
+  test('--waitlist を付けると満員の科目のウェイトリストに登録する', async () => {
+    const full = await run('request', 'ST001', 'CS102', '2025-spring');
+    const waitlisted = await run('request', 'ST001', 'CS102', '2025-spring', '--waitlist', '--json');
+
+    expect(full.exitCode).toBe(3);
+    expect(full.stderr).toContain('BusinessRuleError: COURSE_CAPACITY_EXCEEDED');
+    expect(waitlisted.exitCode).toBe(0);
+    expect(JSON.parse(waitlisted.stdout)).toMatchObject({ status: 'waitlisted' });
+  });
+
+  test('エラー種別を終了コードで返し、--json ではエラーDTOを出力する', async () => {
+    await run('request', 'ST001', 'CS101', '2025-spring');
+
+    const duplicate = await run('request', 'ST001', 'CS101', '2025-spring', '--json');
+    const inactive = await run('request', 'ST002', 'CS101', '2025-spring');
+    const missing = await run('show', 'ST001', 'CS999', '2025-spring');
+    const noEvents = await run('events', 'ST001', 'CS999', '2025-spring');
+    const invalid = await run('events', 'st001', 'CS101', '2025-spring');
+    const invalidStatus = await run('list', 'ST001', '--status', 'enrolled');
+
+    expect(duplicate.exitCode).toBe(3);
+    expect(JSON.parse(duplicate.stderr)).toMatchObject({ type: 'BusinessRuleError', code: 'DUPLICATE_ENROLLMENT' });
+    expect(inactive.exitCode).toBe(3);
+    expect(missing.exitCode).toBe(4);
+    expect(missing.stderr).toContain('NotFoundError');
+    expect(noEvents.exitCode).toBe(4);
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.stderr).toContain('INVALID_STUDENT_ID');
+    expect(invalidStatus.exitCode).toBe(2);
+    expect(invalidStatus.stderr).toContain('INVALID_STATUS');
+  });
+
+  test('引数の誤りとカタログの読み込み失敗', async () => {
+    const unknown = await run('drop', 'ST001');
+    const missingArgument = await run('show', 'ST001');
+    const help = await run('--help');
+
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.stderr).toContain('INVALID_ARGUMENTS');
+    expect(missingArgument.exitCode).toBe(2);
+    expect(help.exitCode).toBe(0);
+    expect(help.stdout).toContain('Usage: enrollment');
+
+    await fs.writeFile(catalogPath, '{"students": {"ST001": {"status": "enrolled"}}}');
+    const invalidCatalog = await run('request', 'ST001', 'CS101', '2025-spring');
+
+    expect(invalidCatalog.exitCode).toBe(2);
+    expect(invalidCatalog.stderr).toContain('INVALID_CATALOG');
+  });
+});
+
+describe('実行ファイル（npm run build と同じ設定のバンドル）', () => {
+  const root = fileURLToPath(new URL('../../', import.meta.url));
+  let buildDirectory: string;
+  let bin: string;
+  let directory: string;
+
+  const enrollment = (...args: string[]) =>
+    spawnSync(process.execPath, [bin, ...args], { cwd: directory, encoding: 'utf8', timeout: 30_000 });
+
+  // 作業ツリーの dist/ には書き込まず、一時ディレクトリにバンドルする
+  beforeAll(async () => {
+    buildDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'enrollment-build-'));
+    bin = path.join(buildDirectory, 'enrollment.js');
+    // 外部パッケージの解決と ESM としての読み込みは作業ツリーと同じにする
+    await fs.symlink(path.join(root, 'node_modules'), path.join(buildDirectory, 'node_modules'), 'dir');
+    await fs.writeFile(path.join(buildDirectory, 'package.json'), JSON.stringify({ type: 'module' }));
+
+    await build({
+      entryPoints: [path.join(root, 'src/contexts/enrollment/infrastructure/adapters/cli/bin.ts')],
+      bundle: true,
+      platform: 'node',
+      target: 'node20',
+      format: 'esm',
+      packages: 'external',
+      banner: { js: '#!/usr/bin/env node' },
+      outfile: bin,
+      logLevel: 'silent'
+    });
+  }, 60_000);
+
+  afterAll(async () => {
+    await fs.rm(buildDirectory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'enrollment-bin-'));
+    await fs.writeFile(path.join(directory, 'catalog.json'), JSON.stringify({
+      students: { ST001: { status: 'active' } },
+      courses: { CS101: { offerings: { '2025-spring': { maxCapacity: 30 } } } }
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('node で直接起動でき、既定のパスのストアとカタログを使う', () => {
+    const requested = enrollment('request', 'ST001', 'CS101', '2025-spring');
+    const shown = enrollment('show', 'ST001', 'CS101', '2025-spring', '--json');
+    const missing = enrollment('show', 'ST001', 'CS999', '2025-spring');
+
+    expect(requested.status, requested.stderr).toBe(0);
+    expect(requested.stdout).toMatch(/^status\s+requested$/m);
+    expect(JSON.parse(shown.stdout)).toMatchObject({ studentId: 'ST001', status: 'requested', version: 1 });
+    expect(missing.status).toBe(4);
+    expect(missing.stderr).toContain('NotFoundError');
+  });
+});
+
+describe('parseCliArguments', () => {
+  test('オプションはサブコマンドの前後どちらにも書ける', () => {
+    const result = parseCliArguments([
+      '--json', 'list', 'ST001', '--page=2', '--page-size', '5', '--status', 'approved'
+    ]);
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        command: { name: 'list', studentId: 'ST001', status: 'approved', page: 2, pageSize: 5 },
+        json: true
+      }
+    });
+  });
+
+  test('サブコマンドに無いオプションは受け付けない', () => {
+    const result = parseCliArguments(['show', 'ST001', 'CS101', '2025-spring', '--waitlist']);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({ type: 'ValidationError', code: 'INVALID_ARGUMENTS', field: 'waitlist' });
+    }
+  });
+});
+
+describe('exitCodeForError', () => {
+  test('エラー種別ごとの終了コード、障害は 1', () => {
+    const exitCode = (error: Parameters<typeof mapErrorToResponse>[0]) => exitCodeForError(mapErrorToResponse(error));
+
+    expect(exitCode(createValidationError('Invalid', 'INVALID_STUDENT_ID'))).toBe(2);
+    expect(exitCode(createBusinessRuleError('CAPACITY', 'Full', 'COURSE_FULL'))).toBe(3);
+    expect(exitCode(createNotFoundError('Enrollment', 'ST001-CS101-2025-spring'))).toBe(4);
+    expect(exitCode(createConcurrencyError(1, 2, 'enrollment-ST001-CS101-2025-spring'))).toBe(5);
+    expect(exitCode(createValidationError('Failed to save enrollment', 'REPOSITORY_ERROR'))).toBe(1);
+  });
+});
+
+describe('formatTable', () => {
+  test('列幅を最長の値に揃える', () => {
+    const table = formatTable<{ id: string; status: string }>([
+      { header: 'ID', value: row => row.id },
+      { header: 'STATUS', value: row => row.status }
+    ], [
+      { id: 'ST001', status: 'requested' },
+      { id: 'ST10', status: 'approved' }
+    ]);
+
+    expect(table).toBe([
+      'ID     STATUS',
+      '-----  ---------',
+      'ST001  requested',
+      'ST10   approved',
+      ''
+    ].join('\n'));
+  });
+});
@@ -5,7 +5,9 @@ import {
   MockCourseRepository
 } from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
 import { createEnrollmentRequestedEvent } from '../../src/contexts/enrollment/domain/events/domain-events';
-import { requestEnrollment } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { requestEnrollment, approveEnrollment, cancelEnrollment } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import { InMemoryEventStore } from '../../src/contexts/enrollment/infrastructure/event-store/index';
 
 describe('InMemoryEnrollmentRepository', () => {
   let repository: InMemoryEnrollmentRepository;
@@ -161,6 +163,40 @@ describe('InMemoryEnrollmentRepository', () => {
     });
   });
 
+  describe('countActiveByStudentAndSemester', () => {
+    test('学期内の有効な履修申請のみを数える', async () => {
+      const requests = [
+        requestEnrollment('ST001', 'CS101', '2025-spring'),
+        requestEnrollment('ST001', 'CS102', '2025-spring'),
+        requestEnrollment('ST001', 'CS103', '2025-fall'),
+        requestEnrollment('ST002', 'CS101', '2025-spring')
+      ];
+      for (const result of requests) {
+        if (result.success) {
+          const { domainEvent, ...enrollment } = result.data;
+          await repository.save(enrollment, domainEvent);
+        }
+      }
+
+      // 取消済みは数えない
+      const stored = await repository.findByStudentCourseAndSemester('ST001', 'CS102', '2025-spring');
+      if (stored.success && stored.data) {
+        const cancelled = cancelEnrollment(stored.data, { cancellationDeadlineDays: 14, gracePeriodHours: 24 });
+        if (cancelled.success) {
+          const { domainEvent, ...enrollment } = cancelled.data;
+          await repository.save(enrollment, domainEvent);
+        }
+      }
+
+      const result = await repository.countActiveByStudentAndSemester('ST001', '2025-spring');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toBe(1);
+      }
+    });
+  });
+
   describe('テスト用ヘルパーメソッド', () => {
     test('clear機能', async () => {
       const domainResult = requestEnrollment('ST001', 'CS101', '2025-spring');
@@ -202,6 +238,87 @@ describe('InMemoryEnrollmentRepository', () => {
   });
 });
 
+describe('EventSourcedEnrollmentRepository', () => {
+  let repository: EventSourcedEnrollmentRepository;
+
+  beforeEach(() => {
+    repository = new EventSourcedEnrollmentRepository(new InMemoryEventStore());
+  });
+
+  test('複数イベントのストリームから最新状態を復元する', async () => {
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    const { domainEvent: requestedEvent, ...requestedEnrollment } = requested.data;
+    await repository.save(requestedEnrollment, requestedEvent);
+
+    const approved = approveEnrollment(requestedEnrollment, 'ADVISOR01');
+    if (!approved.success) throw new Error('setup failed');
+    const { domainEvent: approvedEvent, ...approvedEnrollment } = approved.data;
+    const saveResult = await repository.save(approvedEnrollment, approvedEvent);
+    expect(saveResult.success).toBe(true);
+
+    const result = await repository.findByStudentCourseAndSemester('ST001', 'CS101', '2025-spring');
+
+    expect(result.success).toBe(true);
+    if (result.success && result.data) {
+      expect(result.data.status).toBe('approved');
+      expect(result.data.version).toBe(2);
+    }
+  });
+
+  test('countActiveByStudentAndSemester はストリームから集約を復元して数える', async () => {
+    const requests = [
+      requestEnrollment('ST001', 'CS101', '2025-spring'),
+      requestEnrollment('ST001', 'CS102', '2025-spring'),
+      requestEnrollment('ST001', 'CS103', '2025-fall'),
+      requestEnrollment('ST002', 'CS101', '2025-spring')
+    ];
+    for (const result of requests) {
+      if (result.success) {
+        const { domainEvent, ...enrollment } = result.data;
+        await repository.save(enrollment, domainEvent);
+      }
+    }
+
+    const result = await repository.countActiveByStudentAndSemester('ST001', '2025-spring');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toBe(2);
+    }
+  });
+
+  test('不正な状態遷移のイベントは保存されない', async () => {
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    const { domainEvent: requestedEvent, ...requestedEnrollment } = requested.data;
+    await repository.save(requestedEnrollment, requestedEvent);
+
+    const policy = { cancellationDeadlineDays: 14, gracePeriodHours: 24 };
+    const cancelled = cancelEnrollment(requestedEnrollment, policy);
+    if (!cancelled.success) throw new Error('setup failed');
+    const { domainEvent: cancelledEvent, ...cancelledEnrollment } = cancelled.data;
+    await repository.save(cancelledEnrollment, cancelledEvent);
+
+    // 取消済みの状態に対して承認イベントを組み立てて保存を試みる
+    const approved = approveEnrollment(requestedEnrollment, 'ADVISOR01');
+    if (!approved.success) throw new Error('setup failed');
+    const { domainEvent: approvedEvent, ...approvedEnrollment } = approved.data;
+    const result = await repository.save(
+      { ...approvedEnrollment, version: 3 },
+      { ...approvedEvent, version: 3 }
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('INVALID_STATE_TRANSITION');
+    }
+
+    const events = await repository.getEventStream('ST001', 'CS101', '2025-spring');
+    expect(events.success && events.data).toHaveLength(2);
+  });
+});
+
 describe('MockStudentRepository', () => {
   let repository: MockStudentRepository;
 
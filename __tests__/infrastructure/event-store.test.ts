@@ -0,0 +1,262 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  InMemoryEventStore,
+  SqliteEventStore,
+  SQLITE_MIGRATIONS
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import type {
+  IEventStore,
+  ISnapshotStore,
+  IEventStreamMetadataStore
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentApprovedEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import { requestEnrollment } from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+
+type EventStore = IEventStore & ISnapshotStore & IEventStreamMetadataStore;
+
+const implementations: Array<[string, () => EventStore]> = [
+  ['InMemoryEventStore', () => new InMemoryEventStore()],
+  ['SqliteEventStore', () => new SqliteEventStore(':memory:')]
+];
+
+describe.each(implementations)('%s', (_name, createStore) => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  const requested = () => createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
+  const approved = () => createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2);
+  let store: EventStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(() => {
+    if (store instanceof SqliteEventStore) {
+      store.close();
+    }
+  });
+
+  test('追記したイベントをバージョン順に取得できる', async () => {
+    const first = requested();
+    const second = approved();
+
+    await store.append(streamId, [first], 0);
+    await store.append(streamId, [second], 1);
+
+    expect(await store.getEvents(streamId)).toEqual({ success: true, data: [first, second] });
+    expect(await store.getEvents(streamId, 2)).toEqual({ success: true, data: [second] });
+    expect(await store.getCurrentVersion(streamId)).toEqual({ success: true, data: 2 });
+    expect(await store.streamExists(streamId)).toEqual({ success: true, data: true });
+  });
+
+  test('存在しないストリーム', async () => {
+    expect(await store.getEvents(streamId)).toEqual({ success: true, data: [] });
+    expect(await store.getCurrentVersion(streamId)).toEqual({ success: true, data: 0 });
+    expect(await store.streamExists(streamId)).toEqual({ success: true, data: false });
+  });
+
+  test('期待バージョンが異なる追記は ConcurrencyError', async () => {
+    await store.append(streamId, [requested()], 0);
+
+    const stale = await store.append(streamId, [approved()], 0);
+    const ahead = await store.append(streamId, [approved()], 5);
+
+    for (const result of [stale, ahead]) {
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.type).toBe('ConcurrencyError');
+        expect(result.error.code).toBe('CONCURRENCY_ERROR');
+      }
+    }
+    expect(await store.getCurrentVersion(streamId)).toEqual({ success: true, data: 1 });
+  });
+
+  test('ストリームIDの前方一致検索', async () => {
+    await store.append(streamId, [requested()], 0);
+    await store.append(
+      'enrollment-ST002-CS101-2025-spring',
+      [createEnrollmentRequestedEvent('ST002', 'CS101', '2025-spring', 1)],
+      0
+    );
+
+    expect(await store.findStreamIds('enrollment-ST001-')).toEqual({ success: true, data: [streamId] });
+  });
+
+  test('追記に合わせてストリームメタデータが更新される', async () => {
+    await store.append(streamId, [requested(), approved()], 0);
+
+    const result = await store.getMetadata(streamId);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toMatchObject({
+        streamId,
+        eventCount: 2,
+        firstEventVersion: 1,
+        lastEventVersion: 2
+      });
+    }
+  });
+
+  test('readAll は全ストリームのイベントをコミット順に返す', async () => {
+    const otherStreamId = 'enrollment-ST002-CS101-2025-spring';
+    const otherRequested = createEnrollmentRequestedEvent('ST002', 'CS101', '2025-spring', 1);
+
+    await store.append(streamId, [requested()], 0);
+    await store.append(otherStreamId, [otherRequested], 0);
+    await store.append(streamId, [approved()], 1);
+
+    const result = await store.readAll();
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.map(recorded => [recorded.streamId, recorded.event.eventType])).toEqual([
+        [streamId, 'EnrollmentRequested'],
+        [otherStreamId, 'EnrollmentRequested'],
+        [streamId, 'EnrollmentApproved']
+      ]);
+      const positions = result.data.map(recorded => recorded.position);
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+      expect(new Set(positions).size).toBe(3);
+      expect(result.data[0]?.recordedAt).toBeInstanceOf(Date);
+    }
+  });
+
+  test('readAll は開始位置（含む）と件数で区切って読める', async () => {
+    await store.append(streamId, [requested(), approved()], 0);
+    await store.append(
+      'enrollment-ST002-CS101-2025-spring',
+      [createEnrollmentRequestedEvent('ST002', 'CS101', '2025-spring', 1)],
+      0
+    );
+
+    const all = await store.readAll();
+    if (!all.success) throw new Error('readAll failed');
+    const second = all.data[1];
+    if (!second) throw new Error('setup failed');
+
+    const page = await store.readAll(second.position, 1);
+    expect(page).toEqual({ success: true, data: [second] });
+
+    const afterLast = await store.readAll((all.data[2]?.position ?? 0) + 1);
+    expect(afterLast).toEqual({ success: true, data: [] });
+  });
+
+  test('getLastPosition は最後にコミットされた位置を返す', async () => {
+    expect(await store.getLastPosition()).toEqual({ success: true, data: 0 });
+
+    await store.append(streamId, [requested(), approved()], 0);
+    const all = await store.readAll();
+    if (!all.success) throw new Error('readAll failed');
+
+    expect(await store.getLastPosition()).toEqual({ success: true, data: all.data[1]?.position });
+  });
+
+  test('スナップショットの保存と取得', async () => {
+    await store.saveSnapshot({
+      aggregateId: streamId,
+      aggregateType: 'Enrollment',
+      version: 2,
+      data: { status: 'approved' },
+      timestamp: new Date()
+    });
+
+    const result = await store.getSnapshot(streamId, 'Enrollment');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toMatchObject({ aggregateId: streamId, version: 2, data: { status: 'approved' } });
+    }
+    expect(await store.getSnapshot(streamId, 'Other')).toEqual({ success: true, data: null });
+  });
+});
+
+describe('SqliteEventStore 固有の振る舞い', () => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let directory: string;
+  let filename: string;
+  const opened: SqliteEventStore[] = [];
+
+  const open = () => {
+    const store = new SqliteEventStore(filename);
+    opened.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-event-store-'));
+    filename = path.join(directory, 'events.db');
+  });
+
+  afterEach(async () => {
+    opened.splice(0).forEach(store => store.close());
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('マイグレーションは一度だけ適用され、再接続後もデータが残る', async () => {
+    const first = open();
+    expect(first.getSchemaVersion()).toBe(SQLITE_MIGRATIONS.length);
+    await first.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    first.close();
+    opened.splice(0);
+
+    const reopened = open();
+    expect(reopened.getSchemaVersion()).toBe(SQLITE_MIGRATIONS.length);
+    expect(await reopened.getCurrentVersion(streamId)).toEqual({ success: true, data: 1 });
+  });
+
+  test('別の接続と同じバージョンを書き込むと ConcurrencyError', async () => {
+    const writerA = open();
+    const writerB = open();
+    // writerB のバージョン確認が writerA の書き込み前に済んだ状態を再現（一意制約で競合を検出する）
+    const selectCurrentVersion = vi
+      .spyOn(writerB as unknown as { selectCurrentVersion(streamId: string): number }, 'selectCurrentVersion')
+      .mockReturnValueOnce(0);
+
+    const resultA = await writerA.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    const resultB = await writerB.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+
+    expect(resultA.success).toBe(true);
+    expect(resultB).toMatchObject({
+      success: false,
+      error: { type: 'ConcurrencyError', expectedVersion: 0, actualVersion: 1 }
+    });
+    // 古いバージョン確認の後、一意制約違反から実際のバージョンを読み直している
+    expect(selectCurrentVersion).toHaveBeenCalledTimes(2);
+    expect(await writerB.getCurrentVersion(streamId)).toEqual({ success: true, data: 1 });
+  });
+
+  test('壊れた行の読み込みはエラーを返す', async () => {
+    const store = open();
+    await store.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    const raw = new Database(filename);
+    raw.prepare('UPDATE events SET payload = ?').run('{"eventType":');
+    raw.close();
+
+    const events = await store.getEvents(streamId);
+    const all = await store.readAll();
+
+    expect(events).toMatchObject({ success: false, error: { code: 'EVENT_STORE_CORRUPTED' } });
+    expect(all).toMatchObject({ success: false, error: { code: 'EVENT_STORE_CORRUPTED' } });
+  });
+
+  test('EventSourcedEnrollmentRepository を載せると再接続後も集約を復元できる', async () => {
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    const { domainEvent, ...enrollment } = requested.data;
+
+    const saveResult = await new EventSourcedEnrollmentRepository(open()).save(enrollment, domainEvent);
+    expect(saveResult.success).toBe(true);
+
+    const found = await new EventSourcedEnrollmentRepository(open())
+      .findByStudentCourseAndSemester(enrollment.studentId, enrollment.courseId, enrollment.semester);
+    expect(found).toEqual({ success: true, data: enrollment });
+  });
+});
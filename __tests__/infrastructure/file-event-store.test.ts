@@ -0,0 +1,259 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { FileEventStore } from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentApprovedEvent,
+  createEnrollmentCancelledEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import {
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { RequestEnrollmentCommandHandler } from '../../src/contexts/enrollment/application/commands/index';
+
+describe('FileEventStore', () => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let directory: string;
+  let store: FileEventStore;
+
+  const streamFile = () => path.join(directory, `${encodeURIComponent(streamId)}.jsonl`);
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'file-event-store-'));
+    store = new FileEventStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('追記したイベントを別インスタンスから Date 型のまま読み込める', async () => {
+    const requested = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1, {
+      metadata: { note: '2025-01-01T00:00:00.000Z' }
+    });
+    const approved = createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2);
+
+    expect((await store.append(streamId, [requested], 0)).success).toBe(true);
+    expect((await store.append(streamId, [approved], 1)).success).toBe(true);
+
+    const reopened = new FileEventStore(directory);
+    const result = await reopened.getEvents(streamId);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual([requested, approved]);
+      expect(result.data[0]?.occurredAt).toBeInstanceOf(Date);
+      // 自由形式の metadata は日付文字列のまま
+      expect(result.data[0]?.data.metadata?.note).toBe('2025-01-01T00:00:00.000Z');
+    }
+  });
+
+  test('期待バージョンが異なる追記は ConcurrencyError', async () => {
+    await store.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+
+    const result = await store.append(
+      streamId,
+      [createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)],
+      0
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('ConcurrencyError');
+    }
+  });
+
+  test('並行した追記は一方のみ成功する', async () => {
+    const event = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
+
+    const results = await Promise.all([
+      store.append(streamId, [event], 0),
+      store.append(streamId, [event], 0)
+    ]);
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(await store.getCurrentVersion(streamId)).toEqual({ success: true, data: 1 });
+  });
+
+  test('途切れた最終行は読み込み時に切り詰められる', async () => {
+    await store.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    await fs.appendFile(streamFile(), '{"position":2,"version":2,"batchIndex":0,"batch');
+
+    const versionResult = await store.getCurrentVersion(streamId);
+    expect(versionResult).toEqual({ success: true, data: 1 });
+
+    // 修復後は続きから追記できる
+    const appendResult = await store.append(
+      streamId,
+      [createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)],
+      1
+    );
+    expect(appendResult.success).toBe(true);
+    const events = await store.getEvents(streamId);
+    expect(events.success && events.data.map(event => event.eventType))
+      .toEqual(['EnrollmentRequested', 'EnrollmentApproved']);
+  });
+
+  test('一部だけ書き込まれた一括追記は破棄される', async () => {
+    await store.append(streamId, [
+      createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1),
+      createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2),
+      createEnrollmentCancelledEvent('ST001', 'CS101', '2025-spring', new Date(), 3)
+    ], 0);
+
+    // 3行目の途中でクラッシュした状態を再現
+    const content = await fs.readFile(streamFile(), 'utf8');
+    const lines = content.split('\n');
+    await fs.writeFile(streamFile(), `${lines[0]}\n${lines[1]}\n${lines[2]?.slice(0, 20)}`);
+
+    const result = await store.getEvents(streamId);
+
+    expect(result).toEqual({ success: true, data: [] });
+    expect(await fs.readFile(streamFile(), 'utf8')).toBe('');
+  });
+
+  test('途中の行が壊れている場合は修復せずエラー', async () => {
+    await store.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    await store.append(streamId, [createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)], 1);
+
+    const content = await fs.readFile(streamFile(), 'utf8');
+    await fs.writeFile(streamFile(), `not json\n${content.split('\n').slice(1).join('\n')}`);
+
+    const result = await store.getEvents(streamId);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('EVENT_STORE_CORRUPTED');
+    }
+  });
+
+  test('コミット位置は再オープン後も続きから採番される', async () => {
+    await store.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+
+    const reopened = new FileEventStore(directory);
+    await reopened.append(
+      'enrollment-ST002-CS101-2025-spring',
+      [createEnrollmentRequestedEvent('ST002', 'CS101', '2025-spring', 1)],
+      0
+    );
+    await reopened.append(streamId, [createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)], 1);
+
+    const result = await reopened.readAll();
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.map(recorded => [recorded.position, recorded.streamId, recorded.event.eventType])).toEqual([
+        [1, streamId, 'EnrollmentRequested'],
+        [2, 'enrollment-ST002-CS101-2025-spring', 'EnrollmentRequested'],
+        [3, streamId, 'EnrollmentApproved']
+      ]);
+    }
+    expect(await reopened.readAll(2, 1)).toMatchObject({ success: true, data: [{ position: 2 }] });
+    expect(await new FileEventStore(directory).getLastPosition()).toEqual({ success: true, data: 3 });
+  });
+
+  test('schemaVersion 導入前に書かれた行も現在の形で読み込める', async () => {
+    const legacyLine = {
+      position: 1,
+      version: 1,
+      batchIndex: 0,
+      batchSize: 1,
+      recordedAt: '2025-01-05T09:00:00.000Z',
+      event: {
+        studentId: 'ST001',
+        courseId: 'CS101',
+        eventType: 'EnrollmentRequested',
+        occurredAt: '2025-01-05T09:00:00.000Z',
+        version: 1,
+        data: { semester: '2025-spring', requestedAt: '2025-01-05T09:00:00.000Z' }
+      }
+    };
+    await fs.writeFile(streamFile(), `${JSON.stringify(legacyLine)}\n`);
+
+    const result = await store.getEvents(streamId);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data[0]).toMatchObject({ eventType: 'EnrollmentRequested', schemaVersion: 2 });
+      expect(result.data[0]?.occurredAt).toBeInstanceOf(Date);
+    }
+  });
+
+  test('ストリームIDの前方一致検索', async () => {
+    await store.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    await store.append(
+      'enrollment-ST002-CS101-2025-spring',
+      [createEnrollmentRequestedEvent('ST002', 'CS101', '2025-spring', 1)],
+      0
+    );
+
+    const result = await store.findStreamIds('enrollment-ST001-');
+
+    expect(result).toEqual({ success: true, data: [streamId] });
+    expect(await new FileEventStore(path.join(directory, 'missing')).findStreamIds('')).toEqual({ success: true, data: [] });
+  });
+
+  test('リポジトリの配信予定をイベントと一緒に記録する', async () => {
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 0 }
+    ]);
+    const repository = new EventSourcedEnrollmentRepository(store, undefined, store);
+    const handler = new RequestEnrollmentCommandHandler(repository, studentRepo, courseRepo);
+
+    const result = await handler.handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' });
+
+    expect(result).toMatchObject({ success: true, data: { status: 'requested', version: 1 } });
+    const reopened = new FileEventStore(directory);
+    expect(await reopened.getCurrentVersion(streamId)).toEqual({ success: true, data: 1 });
+    const due = await reopened.getDueOutboxEntries(new Date(), 10);
+    expect(due.success && due.data.map(entry => [entry.id, entry.destination]))
+      .toEqual([[1, 'eventPublisher'], [2, 'notificationService']]);
+  });
+
+  test('配信結果と outbox ID は再オープン後も引き継がれる', async () => {
+    const requested = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
+    await store.appendWithOutbox(streamId, [requested], 0, [
+      { destination: 'eventPublisher', event: requested },
+      { destination: 'notificationService', event: requested }
+    ]);
+    await store.markOutboxDispatched(1, new Date());
+
+    const reopened = new FileEventStore(directory);
+    const approved = createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2);
+    await reopened.appendWithOutbox(streamId, [approved], 1, [{ destination: 'eventPublisher', event: approved }]);
+
+    const due = await new FileEventStore(directory).getDueOutboxEntries(new Date(), 10);
+
+    expect(due.success).toBe(true);
+    if (due.success) {
+      expect(due.data.map(entry => [entry.id, entry.event.eventType])).toEqual([
+        [2, 'EnrollmentRequested'],
+        [3, 'EnrollmentApproved']
+      ]);
+    }
+    expect((await reopened.markOutboxDispatched(99, new Date())).success).toBe(false);
+  });
+
+  test('一部だけ書き込まれた一括追記の配信予定は記録されない', async () => {
+    const requested = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
+    const approved = createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2);
+    await store.appendWithOutbox(streamId, [requested, approved], 0, [
+      { destination: 'eventPublisher', event: approved }
+    ]);
+
+    // 配信予定を載せた最終行の途中でクラッシュした状態を再現
+    const lines = (await fs.readFile(streamFile(), 'utf8')).split('\n');
+    await fs.writeFile(streamFile(), `${lines[0]}\n${lines[1]?.slice(0, 20)}`);
+
+    const reopened = new FileEventStore(directory);
+    expect(await reopened.getDueOutboxEntries(new Date(), 10)).toEqual({ success: true, data: [] });
+    expect(await reopened.getCurrentVersion(streamId)).toEqual({ success: true, data: 0 });
+  });
+});
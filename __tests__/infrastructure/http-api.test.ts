@@ -0,0 +1,221 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  EnrollmentHttpApi,
+  httpStatusForError
+} from '../../src/contexts/enrollment/infrastructure/adapters/http/index';
+import {
+  InMemoryEventStore,
+  InMemoryCheckpointStore
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  ProjectionRunner,
+  EnrollmentDetailsProjection,
+  StudentEnrollmentsProjection,
+  CourseRosterProjection
+} from '../../src/contexts/enrollment/infrastructure/projections/index';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import {
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { InMemoryIdempotencyStore } from '../../src/contexts/enrollment/infrastructure/idempotency/index';
+import {
+  RequestEnrollmentCommandHandler,
+  mapErrorToResponse
+} from '../../src/contexts/enrollment/application/commands/index';
+import {
+  GetEnrollmentQueryHandler,
+  ListStudentEnrollmentsQueryHandler,
+  GetCourseRosterQueryHandler
+} from '../../src/contexts/enrollment/application/queries/index';
+import {
+  createBusinessRuleError,
+  createConcurrencyError,
+  createValidationError
+} from '../../src/contexts/enrollment/domain/errors/errors';
+
+describe('履修管理の HTTP API', () => {
+  let api: EnrollmentHttpApi;
+  let server: Server;
+  let runner: ProjectionRunner;
+  let baseUrl: string;
+
+  const enrollment = { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' };
+
+  const post = (path: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body
+    });
+
+  const requestEnrollment = (body: object, headers: Record<string, string> = {}) =>
+    post('/enrollments', JSON.stringify(body), headers);
+
+  // プロジェクションへの反映を待って取得結果を確かめる
+  const expectEventually = (path: string, expected: object) =>
+    vi.waitFor(async () => {
+      const response = await fetch(`${baseUrl}${path}`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject(expected);
+    });
+
+  beforeEach(async () => {
+    const eventStore = new InMemoryEventStore();
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    studentRepo.setStudentData('ST001', true, 'active');
+    studentRepo.setStudentData('ST002', true, 'graduated');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 0 }
+    ]);
+
+    const details = new EnrollmentDetailsProjection();
+    const studentEnrollments = new StudentEnrollmentsProjection();
+    const roster = new CourseRosterProjection();
+    runner = new ProjectionRunner(eventStore, new InMemoryCheckpointStore(), { pollIntervalMs: 10 });
+    runner.register(details);
+    runner.register(studentEnrollments);
+    runner.register(roster);
+    await runner.start();
+
+    api = new EnrollmentHttpApi(
+      new RequestEnrollmentCommandHandler(
+        new EventSourcedEnrollmentRepository(eventStore, undefined, eventStore),
+        studentRepo,
+        courseRepo,
+        undefined,
+        undefined,
+        new InMemoryIdempotencyStore()
+      ),
+      new GetEnrollmentQueryHandler(details),
+      new ListStudentEnrollmentsQueryHandler(studentEnrollments),
+      new GetCourseRosterQueryHandler(roster, courseRepo)
+    );
+    server = api.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await runner.stop();
+  });
+
+  describe('POST /enrollments', () => {
+    test('履修を申請すると 201 と Location を返し、GET で取得できる', async () => {
+      const response = await requestEnrollment(enrollment);
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get('location')).toBe('/enrollments/ST001/CS101/2025-spring');
+      expect(await response.json()).toMatchObject({ ...enrollment, status: 'requested', version: 1 });
+
+      await expectEventually('/enrollments/ST001/CS101/2025-spring', { ...enrollment, status: 'requested' });
+    });
+
+    test('入力検証エラーは 400', async () => {
+      const invalid = await requestEnrollment({ studentId: 'ST001' });
+      const malformed = await post('/enrollments', '{"studentId":');
+
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ code: 'INVALID_COMMAND_FORMAT' });
+      expect(malformed.status).toBe(400);
+      expect(await malformed.json()).toMatchObject({ type: 'ValidationError', code: 'INVALID_JSON_BODY' });
+    });
+
+    test('重複申請は 409、ビジネスルール違反は 422', async () => {
+      await requestEnrollment(enrollment);
+
+      const duplicate = await requestEnrollment(enrollment);
+      const inactive = await requestEnrollment({ ...enrollment, studentId: 'ST002' });
+
+      expect(duplicate.status).toBe(409);
+      expect(await duplicate.json()).toMatchObject({ code: 'DUPLICATE_ENROLLMENT' });
+      expect(inactive.status).toBe(422);
+      expect(await inactive.json()).toMatchObject({ type: 'BusinessRuleError', code: 'STUDENT_NOT_ACTIVE' });
+    });
+
+    test('同じ Idempotency-Key の再送には最初の結果を返す', async () => {
+      const first = await requestEnrollment(enrollment, { 'idempotency-key': 'request-1' });
+      const retried = await requestEnrollment(enrollment, { 'idempotency-key': 'request-1' });
+
+      expect(retried.status).toBe(201);
+      expect(await retried.json()).toEqual(await first.json());
+    });
+  });
+
+  describe('GET', () => {
+    test('存在しない履修は 404', async () => {
+      const response = await fetch(`${baseUrl}/enrollments/ST001/CS999/2025-spring`);
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({ type: 'NotFoundError', entity: 'Enrollment' });
+    });
+
+    test('学生の履修一覧をクエリ文字列で絞り込める', async () => {
+      await requestEnrollment(enrollment);
+
+      await expectEventually(
+        '/students/ST001/enrollments?semester=2025-spring&page=1&pageSize=10',
+        { total: 1, page: 1, pageSize: 10 }
+      );
+      const invalidPage = await fetch(`${baseUrl}/students/ST001/enrollments?page=first`);
+
+      expect(invalidPage.status).toBe(400);
+      expect(await invalidPage.json()).toMatchObject({ code: 'INVALID_QUERY_FORMAT' });
+    });
+
+    test('クエリ文字列の値が不正なら 400', async () => {
+      const invalidStatus = await fetch(`${baseUrl}/students/ST001/enrollments?status=graduated`);
+      const invalidSortOrder = await fetch(`${baseUrl}/courses/CS101/2025-spring/roster?sortOrder=random`);
+
+      expect(invalidStatus.status).toBe(400);
+      expect(await invalidStatus.json()).toMatchObject({ type: 'ValidationError', code: 'INVALID_QUERY_FORMAT' });
+      expect(invalidSortOrder.status).toBe(400);
+      expect(await invalidSortOrder.json()).toMatchObject({ type: 'ValidationError', code: 'INVALID_QUERY_FORMAT' });
+    });
+
+    test('科目の名簿を返す', async () => {
+      await requestEnrollment(enrollment);
+
+      await expectEventually('/courses/CS101/2025-spring/roster?sortOrder=desc', {
+        requested: [{ studentId: 'ST001' }],
+        capacity: { max: 30, occupied: 1 }
+      });
+    });
+  });
+
+  describe('ルーティング', () => {
+    test('未定義のパスは 404、未対応のメソッドは 405', async () => {
+      const unknown = await fetch(`${baseUrl}/unknown`);
+      const wrongMethod = await fetch(`${baseUrl}/enrollments/ST001/CS101/2025-spring`, { method: 'DELETE' });
+
+      expect(unknown.status).toBe(404);
+      expect(wrongMethod.status).toBe(405);
+      expect(wrongMethod.headers.get('allow')).toBe('GET');
+    });
+
+    test('応答を書き込めない場合は 500', async () => {
+      vi.spyOn(api, 'handle').mockResolvedValue({ status: 200, headers: {}, body: { total: 1n } });
+
+      const response = await fetch(`${baseUrl}/students/ST001/enrollments`);
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toMatchObject({ code: 'INTERNAL_ERROR' });
+    });
+  });
+});
+
+describe('httpStatusForError', () => {
+  test('エラー種別とコードからステータスコードを決める', () => {
+    const status = (error: Parameters<typeof mapErrorToResponse>[0]) => httpStatusForError(mapErrorToResponse(error));
+
+    expect(status(createValidationError('Invalid', 'INVALID_STUDENT_ID'))).toBe(400);
+    expect(status(createBusinessRuleError('INPUT_VALIDATION', 'Invalid', 'INVALID_COMMAND_FORMAT'))).toBe(400);
+    expect(status(createConcurrencyError(1, 2, 'enrollment-ST001-CS101-2025-spring'))).toBe(409);
+    expect(status(createBusinessRuleError('CAPACITY', 'Full', 'COURSE_FULL'))).toBe(422);
+    expect(status(createValidationError('Failed to save enrollment', 'REPOSITORY_ERROR'))).toBe(500);
+  });
+});
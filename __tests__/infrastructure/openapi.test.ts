@@ -0,0 +1,214 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  EnrollmentHttpApi,
+  generateOpenApiDocument,
+  OPENAPI_EXAMPLES,
+  httpStatusForError
+} from '../../src/contexts/enrollment/infrastructure/adapters/http/index';
+import {
+  RequestEnrollmentCommandHandler,
+  RequestEnrollmentCommandSchema,
+  EnrollmentResponseSchema,
+  ErrorResponseSchema
+} from '../../src/contexts/enrollment/application/commands/index';
+import {
+  GetEnrollmentQueryHandler,
+  GetCourseRosterQueryHandler,
+  EnrollmentListResponseSchema,
+  CourseRosterResponseSchema
+} from '../../src/contexts/enrollment/application/queries/index';
+import { InMemoryEventStore } from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  EnrollmentDetailsProjection,
+  CourseRosterProjection
+} from '../../src/contexts/enrollment/infrastructure/projections/index';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import {
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { zodToJsonSchema } from '../../src/shared/serialization/index';
+import { Ok } from '../../src/shared/types/index';
+
+describe('zodToJsonSchema', () => {
+  test('DTO で使う型と検証を JSON Schema に変換する', () => {
+    const schema = z.object({
+      id: z.string().uuid(),
+      name: z.string().min(1).max(10),
+      count: z.number().int().positive(),
+      ratio: z.number().nonnegative().optional(),
+      status: z.enum(['open', 'closed']),
+      kind: z.literal('course'),
+      tags: z.array(z.string()),
+      metadata: z.record(z.unknown()).optional(),
+      sortOrder: z.enum(['asc', 'desc']).default('asc'),
+      note: z.string().nullable()
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 10 },
+        count: { type: 'integer', exclusiveMinimum: 0 },
+        ratio: { type: 'number', minimum: 0 },
+        status: { type: 'string', enum: ['open', 'closed'] },
+        kind: { const: 'course' },
+        tags: { type: 'array', items: { type: 'string' } },
+        metadata: { type: 'object', additionalProperties: {} },
+        sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+        note: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+      },
+      required: ['id', 'name', 'count', 'status', 'kind', 'tags', 'note']
+    });
+  });
+});
+
+describe('generateOpenApiDocument', () => {
+  const document = generateOpenApiDocument({ version: '2.0.0', serverUrl: 'https://api.example.edu' });
+  const schemas = document.components.schemas;
+
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({
+      path,
+      method,
+      operation: operation as { responses: Record<string, { content?: Record<string, { examples?: Record<string, { value: unknown }> }> }> }
+    }))
+  );
+
+  test('OpenAPI 3.1 の骨格と DTO のスキーマを持つ', () => {
+    expect(document).toMatchObject({
+      openapi: '3.1.0',
+      info: { title: 'Enrollment API', version: '2.0.0' },
+      servers: [{ url: 'https://api.example.edu' }]
+    });
+    expect(schemas.RequestEnrollmentCommand).toEqual(zodToJsonSchema(RequestEnrollmentCommandSchema));
+    expect(schemas.EnrollmentResponse).toMatchObject({ required: expect.arrayContaining(['id', 'status', 'version']) });
+    expect(schemas.EnrollmentListResponse).toEqual(zodToJsonSchema(EnrollmentListResponseSchema));
+    expect(schemas.CourseRosterResponse).toEqual(zodToJsonSchema(CourseRosterResponseSchema));
+    // JSON としてそのまま書き出せる
+    expect(JSON.parse(JSON.stringify(document))).toMatchObject({ openapi: '3.1.0' });
+  });
+
+  test('ErrorResponse の全種別を discriminator 付きで載せる', () => {
+    expect(schemas.ErrorResponse).toEqual({
+      oneOf: [
+        { $ref: '#/components/schemas/ValidationErrorResponse' },
+        { $ref: '#/components/schemas/BusinessRuleErrorResponse' },
+        { $ref: '#/components/schemas/NotFoundErrorResponse' },
+        { $ref: '#/components/schemas/ConcurrencyErrorResponse' }
+      ],
+      discriminator: {
+        propertyName: 'type',
+        mapping: {
+          ValidationError: '#/components/schemas/ValidationErrorResponse',
+          BusinessRuleError: '#/components/schemas/BusinessRuleErrorResponse',
+          NotFoundError: '#/components/schemas/NotFoundErrorResponse',
+          ConcurrencyError: '#/components/schemas/ConcurrencyErrorResponse'
+        }
+      }
+    });
+    expect(schemas.ConcurrencyErrorResponse).toMatchObject({
+      properties: { type: { const: 'ConcurrencyError' }, expectedVersion: { type: 'number' }, actualVersion: { type: 'number' } },
+      required: ['type', 'message', 'code', 'timestamp']
+    });
+    expect(Object.keys(schemas.NotFoundErrorResponse?.properties as object)).not.toContain('field');
+  });
+
+  test('例は DTO のスキーマを満たし、エラーの例は全種別を含む', () => {
+    for (const example of Object.values(OPENAPI_EXAMPLES.requestEnrollment)) {
+      expect(RequestEnrollmentCommandSchema.safeParse(example).success).toBe(true);
+    }
+    expect(EnrollmentResponseSchema.safeParse(OPENAPI_EXAMPLES.enrollment).success).toBe(true);
+    expect(EnrollmentListResponseSchema.safeParse(OPENAPI_EXAMPLES.enrollmentList).success).toBe(true);
+    expect(CourseRosterResponseSchema.safeParse(OPENAPI_EXAMPLES.courseRoster).success).toBe(true);
+
+    const errors = Object.values(OPENAPI_EXAMPLES.errors);
+    for (const error of errors) {
+      expect(ErrorResponseSchema.safeParse(error).success).toBe(true);
+    }
+    expect(new Set(errors.map(error => error.type)))
+      .toEqual(new Set(['ValidationError', 'BusinessRuleError', 'NotFoundError', 'ConcurrencyError']));
+  });
+
+  test('エラーの例は API が返すステータスコードの下に載せる', () => {
+    const post = operations.find(({ path, method }) => path === '/enrollments' && method === 'post')!;
+
+    expect(Object.keys(post.operation.responses)).toEqual(['201', '400', '409', '422', '500']);
+    for (const { operation } of operations) {
+      for (const [status, response] of Object.entries(operation.responses)) {
+        const examples = response.content?.['application/json']?.examples ?? {};
+        for (const { value } of Object.values(examples)) {
+          expect(httpStatusForError(value as z.infer<typeof ErrorResponseSchema>)).toBe(Number(status));
+        }
+      }
+    }
+  });
+
+  test('エラーの例はハンドラーが返すエラーと同じ形', async () => {
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 0 }
+    ]);
+    const eventStore = new InMemoryEventStore();
+    const requestHandler = new RequestEnrollmentCommandHandler(
+      new EventSourcedEnrollmentRepository(eventStore, undefined, eventStore),
+      studentRepo,
+      courseRepo
+    );
+    const withExampleTimestamp = (result: { success: boolean; error?: { timestamp: string } }) =>
+      result.success ? result : { ...result.error, timestamp: OPENAPI_EXAMPLES.errors.COURSE_NOT_FOUND.timestamp };
+
+    const unknownCourse = await requestHandler.handle({ studentId: 'ST001', courseId: 'CS999', semester: '2025-spring' });
+    const unknownOffering = await new GetCourseRosterQueryHandler(new CourseRosterProjection(), courseRepo)
+      .handle({ courseId: 'CS101', semester: '2030-spring' });
+    const invalidSemester = await new GetEnrollmentQueryHandler(new EnrollmentDetailsProjection())
+      .handle({ studentId: 'ST001', courseId: 'CS101', semester: '2025-autumn' });
+
+    expect(withExampleTimestamp(unknownCourse)).toEqual(OPENAPI_EXAMPLES.errors.COURSE_NOT_FOUND);
+    expect(withExampleTimestamp(unknownOffering)).toEqual(OPENAPI_EXAMPLES.errors.COURSE_OFFERING_NOT_FOUND);
+    expect(withExampleTimestamp(invalidSemester)).toEqual(OPENAPI_EXAMPLES.errors.INVALID_SEMESTER);
+  });
+
+  test('識別子の検証エラーを 400 として載せる', () => {
+    const badRequestExamples = (path: string) => {
+      const { operation } = operations.find(candidate => candidate.path === path)!;
+      return Object.keys(operation.responses['400']?.content?.['application/json']?.examples ?? {});
+    };
+
+    expect(badRequestExamples('/enrollments/{studentId}/{courseId}/{semester}'))
+      .toEqual(expect.arrayContaining(['INVALID_STUDENT_ID', 'INVALID_COURSE_ID', 'INVALID_SEMESTER']));
+    expect(badRequestExamples('/courses/{courseId}/{semester}/roster'))
+      .toEqual(expect.arrayContaining(['INVALID_QUERY_FORMAT', 'INVALID_COURSE_ID', 'INVALID_SEMESTER']));
+  });
+
+  test('ドキュメント全体', () => {
+    expect(document).toMatchSnapshot();
+  });
+
+  test('記載したエンドポイントは HTTP API にルーティングされる', async () => {
+    const respond = { handle: async () => Ok(null) };
+    const api = new EnrollmentHttpApi(
+      { handle: async () => Ok(OPENAPI_EXAMPLES.enrollment) },
+      respond,
+      { handle: async () => Ok(OPENAPI_EXAMPLES.enrollmentList) },
+      { handle: async () => Ok(OPENAPI_EXAMPLES.courseRoster) }
+    );
+
+    for (const { path, method } of operations) {
+      const url = path.replace(/\{(\w+)\}/g, (_match, name: string) => `${name}-1`);
+      const response = await api.handle({
+        method: method.toUpperCase(),
+        url,
+        headers: {},
+        body: JSON.stringify(OPENAPI_EXAMPLES.requestEnrollment.basic)
+      });
+
+      expect(response.body).not.toMatchObject({ entity: 'Route' });
+      expect(response.status).not.toBe(405);
+    }
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, test, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  InMemoryEventStore,
+  SqliteEventStore,
+  FileEventStore
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import { OutboxDispatcher } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+import type { IOutboxStore } from '../../src/contexts/enrollment/infrastructure/outbox/index';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import {
+  MockNotificationService,
+  MockEventPublisher
+} from '../../src/contexts/enrollment/infrastructure/adapters/services/mock-services';
+import { GetStuckOutboxEntriesQueryHandler } from '../../src/contexts/enrollment/application/queries/index';
+import type { IEventPublisher } from '../../src/contexts/enrollment/application/ports/ports';
+import {
+  requestEnrollment,
+  approveEnrollment
+} from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import { createValidationError } from '../../src/contexts/enrollment/domain/errors/errors';
+import { Ok, Err } from '../../src/shared/types/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+const fileStoreDirectories: string[] = [];
+
+const implementations: Array<[string, () => IOutboxStore]> = [
+  ['InMemoryEventStore', () => new InMemoryEventStore()],
+  ['SqliteEventStore', () => new SqliteEventStore(':memory:')],
+  ['FileEventStore', () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'outbox-file-store-'));
+    fileStoreDirectories.push(directory);
+    return new FileEventStore(directory);
+  }]
+];
+
+afterAll(() => {
+  for (const directory of fileStoreDirectories) {
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+describe.each(implementations)('%s の outbox', (_name, createStore) => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let store: IOutboxStore;
+  let repository: EventSourcedEnrollmentRepository;
+  let eventPublisher: MockEventPublisher;
+  let notificationService: MockNotificationService;
+
+  const request = async () => {
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    const { domainEvent, ...enrollment } = requested.data;
+    const saveResult = await repository.save(enrollment, domainEvent, ['eventPublisher', 'notificationService']);
+    return { enrollment, domainEvent, saveResult };
+  };
+
+  // 配信に失敗し続ける発行者
+  const failingPublisher = (): IEventPublisher & { calls: number } => {
+    const publisher = {
+      calls: 0,
+      async publish() {
+        publisher.calls++;
+        return Err(createValidationError('broker unavailable', 'BROKER_UNAVAILABLE'));
+      }
+    };
+    return publisher;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-04-01T09:00:00.000Z'));
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: {
+        ...DEFAULT_ENROLLMENT_CONFIG.processing,
+        retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, exponentialBackoff: true }
+      }
+    });
+    store = createStore();
+    repository = new EventSourcedEnrollmentRepository(store, undefined, store);
+    eventPublisher = new MockEventPublisher();
+    notificationService = new MockNotificationService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    reloadConfig();
+    if (store instanceof SqliteEventStore) {
+      store.close();
+    }
+  });
+
+  test('イベントの追記と同時に配信予定が記録される', async () => {
+    const { domainEvent, saveResult } = await request();
+
+    expect(saveResult.success).toBe(true);
+    const due = await store.getDueOutboxEntries(new Date(), 10);
+    expect(due.success).toBe(true);
+    if (due.success) {
+      expect(due.data).toHaveLength(2);
+      expect(due.data.map(entry => entry.destination)).toEqual(['eventPublisher', 'notificationService']);
+      expect(due.data[0]).toMatchObject({ streamId, status: 'pending', attempts: 0 });
+      expect(due.data[0]?.event).toEqual(domainEvent);
+      expect(due.data[0]?.event.occurredAt).toBeInstanceOf(Date);
+    }
+  });
+
+  test('楽観的ロックで追記に失敗したら配信予定も記録されない', async () => {
+    const { enrollment } = await request();
+    const approved = approveEnrollment(enrollment, 'ADVISOR01');
+    if (!approved.success) throw new Error('setup failed');
+    const { domainEvent } = approved.data;
+
+    const result = await store.appendWithOutbox(streamId, [domainEvent], 0, [
+      { destination: 'eventPublisher', event: domainEvent }
+    ]);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.type).toBe('ConcurrencyError');
+    }
+    const due = await store.getDueOutboxEntries(new Date(), 10);
+    expect(due.success && due.data).toHaveLength(2);
+  });
+
+  test('配信先ごとに届けて dispatched にする', async () => {
+    const { domainEvent } = await request();
+    const dispatcher = new OutboxDispatcher(store, eventPublisher, notificationService);
+
+    expect(await dispatcher.dispatchPending()).toEqual({ success: true, data: 2 });
+
+    expect(eventPublisher.getAllEvents()).toEqual([domainEvent]);
+    expect(notificationService.getSentNotifications()).toHaveLength(1);
+    expect(await store.getDueOutboxEntries(new Date(), 10)).toEqual({ success: true, data: [] });
+    // 二重配信しない
+    expect(await dispatcher.dispatchPending()).toEqual({ success: true, data: 0 });
+    expect(eventPublisher.getAllEvents()).toHaveLength(1);
+  });
+
+  test('配信に失敗したら間隔を空けて再試行し、上限に達したら failed にする', async () => {
+    await request();
+    const publisher = failingPublisher();
+    const dispatcher = new OutboxDispatcher(store, publisher, notificationService);
+
+    expect(await dispatcher.dispatchPending()).toEqual({ success: true, data: 1 });
+    expect(publisher.calls).toBe(1);
+    expect(dispatcher.getLastError()?.code).toBe('BROKER_UNAVAILABLE');
+
+    // 再試行待ちの間は取り出されない
+    vi.setSystemTime(new Date('2025-04-01T09:00:00.999Z'));
+    await dispatcher.dispatchPending();
+    expect(publisher.calls).toBe(1);
+
+    // 1回目の失敗から 1000ms、2回目の失敗から 2000ms 後に再試行
+    vi.setSystemTime(new Date('2025-04-01T09:00:01.000Z'));
+    await dispatcher.dispatchPending();
+    vi.setSystemTime(new Date('2025-04-01T09:00:03.000Z'));
+    await dispatcher.dispatchPending();
+    expect(publisher.calls).toBe(3);
+
+    vi.setSystemTime(new Date('2025-04-01T10:00:00.000Z'));
+    await dispatcher.dispatchPending();
+    expect(publisher.calls).toBe(3);
+
+    const stuck = await store.findStuckOutboxEntries(new Date('2025-04-01T09:00:00.000Z'));
+    expect(stuck.success).toBe(true);
+    if (stuck.success) {
+      expect(stuck.data).toHaveLength(1);
+      expect(stuck.data[0]).toMatchObject({ destination: 'eventPublisher', status: 'failed', attempts: 3 });
+      expect(stuck.data[0]?.lastError?.code).toBe('BROKER_UNAVAILABLE');
+      expect(stuck.data[0]?.lastError?.timestamp).toBeInstanceOf(Date);
+    }
+  });
+
+  test('配信時の例外も配信失敗として記録する', async () => {
+    await request();
+    const throwingPublisher: IEventPublisher = {
+      async publish() {
+        throw new Error('connection reset');
+      }
+    };
+    const dispatcher = new OutboxDispatcher(store, throwingPublisher, notificationService);
+
+    expect(await dispatcher.dispatchPending()).toEqual({ success: true, data: 1 });
+    expect(dispatcher.getLastError()?.code).toBe('OUTBOX_DELIVERY_FAILED');
+  });
+
+  test('バックグラウンドで配信し、停止後は配信しない', async () => {
+    const dispatcher = new OutboxDispatcher(store, eventPublisher, notificationService, { pollIntervalMs: 10 });
+    dispatcher.start();
+
+    try {
+      await request();
+      await vi.waitFor(() => {
+        expect(notificationService.getSentNotifications()).toHaveLength(1);
+      });
+    } finally {
+      await dispatcher.stop();
+    }
+
+    expect(dispatcher.isRunning()).toBe(false);
+    await request();
+    expect(eventPublisher.getAllEvents()).toHaveLength(1);
+  });
+
+  test('滞留エントリのクエリは経過時間を過ぎた未配信と failed を返す', async () => {
+    await request();
+    const handler = new GetStuckOutboxEntriesQueryHandler(store);
+
+    vi.setSystemTime(new Date('2025-04-01T09:10:00.000Z'));
+    expect(await handler.handle()).toMatchObject({
+      success: true,
+      data: { entries: [], counts: { pending: 0, failed: 0 } }
+    });
+
+    vi.setSystemTime(new Date('2025-04-01T09:20:00.000Z'));
+    const result = await handler.handle({ destination: 'notificationService' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.entries).toEqual([
+        {
+          id: 2,
+          streamId,
+          destination: 'notificationService',
+          eventType: 'EnrollmentRequested',
+          studentId: 'ST001',
+          courseId: 'CS101',
+          status: 'pending',
+          attempts: 0,
+          createdAt: '2025-04-01T09:00:00.000Z',
+          nextAttemptAt: '2025-04-01T09:00:00.000Z',
+          lastAttemptAt: null,
+          lastError: null
+        }
+      ]);
+      expect(result.data.counts).toEqual({ pending: 1, failed: 0 });
+      expect(result.data.checkedAt).toBe('2025-04-01T09:20:00.000Z');
+    }
+
+    const invalid = await handler.handle({ stuckAfterMinutes: 0 });
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.error.code).toBe('INVALID_QUERY_FORMAT');
+    }
+  });
+});
+
+describe('EventSourcedEnrollmentRepository の outbox 設定', () => {
+  test('outbox ストアなしで配信先を指定すると保存しない', async () => {
+    const eventStore = new InMemoryEventStore();
+    const repository = new EventSourcedEnrollmentRepository(eventStore);
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    const { domainEvent, ...enrollment } = requested.data;
+
+    const result = await repository.save(enrollment, domainEvent, ['eventPublisher']);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('OUTBOX_NOT_CONFIGURED');
+    }
+    expect(await eventStore.getCurrentVersion('enrollment-ST001-CS101-2025-spring')).toEqual(Ok(0));
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  InMemoryEventStore,
+  InMemoryCheckpointStore
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import type { RecordedEvent } from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  ProjectionRunner,
+  EnrollmentDetailsProjection
+} from '../../src/contexts/enrollment/infrastructure/projections/index';
+import type { IProjection } from '../../src/contexts/enrollment/infrastructure/projections/index';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import {
+  MockStudentRepository,
+  MockCourseRepository
+} from '../../src/contexts/enrollment/infrastructure/repositories/enrollment-repository';
+import { RequestEnrollmentCommandHandler } from '../../src/contexts/enrollment/application/commands/index';
+import { GetEnrollmentQueryHandler } from '../../src/contexts/enrollment/application/queries/index';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentApprovedEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
+import { createValidationError } from '../../src/contexts/enrollment/domain/errors/errors';
+import { Ok, Err } from '../../src/shared/types/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+describe('ProjectionRunner', () => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let eventStore: InMemoryEventStore;
+  let checkpointStore: InMemoryCheckpointStore;
+  let runner: ProjectionRunner;
+
+  const approvalCounter = (): IProjection & { count: number } => ({
+    name: 'approval-counter',
+    handles: ['EnrollmentApproved'],
+    count: 0,
+    async apply(this: { count: number }) {
+      this.count++;
+      return Ok(undefined);
+    },
+    async reset(this: { count: number }) {
+      this.count = 0;
+      return Ok(undefined);
+    }
+  });
+
+  const appendRequestedAndApproved = async () => {
+    await eventStore.append(streamId, [
+      createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1),
+      createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)
+    ], 0);
+  };
+
+  beforeEach(() => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: {
+        ...DEFAULT_ENROLLMENT_CONFIG.processing,
+        retry: { maxAttempts: 1, baseDelayMs: 100, maxDelayMs: 1000, exponentialBackoff: false }
+      }
+    });
+    eventStore = new InMemoryEventStore();
+    checkpointStore = new InMemoryCheckpointStore();
+    runner = new ProjectionRunner(eventStore, checkpointStore, { pollIntervalMs: 10 });
+  });
+
+  afterEach(async () => {
+    await runner.stop();
+    reloadConfig();
+  });
+
+  test('宣言したイベント種別だけが配信され、チェックポイントは全件分進む', async () => {
+    const counter = approvalCounter();
+    runner.register(counter);
+    await appendRequestedAndApproved();
+
+    await runner.start();
+
+    expect(counter.count).toBe(1);
+    expect(await checkpointStore.getCheckpoint('projection:approval-counter')).toEqual({ success: true, data: 2 });
+  });
+
+  test('状態APIは遅延・反映済み位置・最後のエラーを返す', async () => {
+    const failing: IProjection = {
+      name: 'failing',
+      handles: ['EnrollmentApproved'],
+      apply: async () => Err(createValidationError('read store unavailable', 'READ_STORE_UNAVAILABLE')),
+      reset: async () => Ok(undefined)
+    };
+    runner.register(failing);
+    await appendRequestedAndApproved();
+
+    expect(await runner.getStatus('failing')).toEqual({
+      success: true,
+      data: { name: 'failing', state: 'stopped', lastPosition: 0, lag: 2, lastError: null }
+    });
+
+    await runner.start();
+
+    const status = await runner.getStatus('failing');
+    expect(status).toMatchObject({
+      success: true,
+      data: { state: 'live', lastPosition: 2, lag: 0, lastError: { code: 'READ_STORE_UNAVAILABLE' } }
+    });
+    const unknown = await runner.getStatus('unknown');
+    expect(unknown.success).toBe(false);
+    if (!unknown.success) {
+      expect(unknown.error.type).toBe('NotFoundError');
+    }
+  });
+
+  test('再構築で読み取りストアを作り直す', async () => {
+    const counter = approvalCounter();
+    runner.register(counter);
+    await appendRequestedAndApproved();
+    await runner.start();
+
+    // 読み取りストアが壊れた状態を再現
+    counter.count = 99;
+
+    const rebuilt = await runner.rebuild('approval-counter');
+
+    expect(rebuilt).toMatchObject({ success: true, data: { lastPosition: 2, lag: 0 } });
+    expect(counter.count).toBe(1);
+  });
+
+  test('同じ名前のプロジェクションは登録できない', () => {
+    expect(runner.register(approvalCounter()).success).toBe(true);
+
+    const duplicate = runner.register(approvalCounter());
+
+    expect(duplicate.success).toBe(false);
+    if (!duplicate.success) {
+      expect(duplicate.error.code).toBe('PROJECTION_ALREADY_REGISTERED');
+    }
+  });
+});
+
+describe('EnrollmentDetailsProjection', () => {
+  test('再配信された古いバージョンのイベントは無視する', async () => {
+    const projection = new EnrollmentDetailsProjection();
+    const streamId = 'enrollment-ST001-CS101-2025-spring';
+    const recorded = (position: number, event: RecordedEvent['event']): RecordedEvent =>
+      ({ position, streamId, event, recordedAt: new Date() });
+    const requested = createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1);
+
+    await projection.apply(recorded(1, requested));
+    await projection.apply(recorded(2, createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)));
+    const redelivered = await projection.apply(recorded(1, requested));
+
+    expect(redelivered.success).toBe(true);
+    const found = await projection.findByStudentCourseAndSemester('ST001', 'CS101', '2025-spring');
+    expect(found).toMatchObject({ success: true, data: { status: 'approved', version: 2 } });
+  });
+
+  test('コマンドで書き込んだ履修申請をクエリがプロジェクション経由で読める', async () => {
+    const eventStore = new InMemoryEventStore();
+    const studentRepo = new MockStudentRepository();
+    const courseRepo = new MockCourseRepository();
+    studentRepo.setStudentData('ST001', true, 'active');
+    courseRepo.setCourseData('CS101', true, [
+      { semester: '2025-spring', offered: true, maxCapacity: 30, currentEnrollment: 0 }
+    ]);
+    const commandHandler = new RequestEnrollmentCommandHandler(
+      new EventSourcedEnrollmentRepository(eventStore, undefined, eventStore),
+      studentRepo,
+      courseRepo
+    );
+    const projection = new EnrollmentDetailsProjection();
+    const runner = new ProjectionRunner(eventStore, new InMemoryCheckpointStore(), { pollIntervalMs: 10 });
+    runner.register(projection);
+    await runner.start();
+    const queryHandler = new GetEnrollmentQueryHandler(projection);
+    const query = { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' };
+
+    try {
+      expect(await queryHandler.handle(query)).toEqual({ success: true, data: null });
+
+      await commandHandler.handle(query);
+
+      await vi.waitFor(async () => {
+        expect(await queryHandler.handle(query)).toMatchObject({
+          success: true,
+          data: { studentId: 'ST001', courseId: 'CS101', status: 'requested' }
+        });
+      });
+    } finally {
+      await runner.stop();
+    }
+  });
+});
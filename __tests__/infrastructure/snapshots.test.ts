@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  InMemoryEventStore,
+  SqliteEventStore,
+  ENROLLMENT_AGGREGATE_TYPE,
+  ENROLLMENT_SNAPSHOT_SCHEMA_VERSION,
+  restoreEnrollmentSnapshot
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import type {
+  IEventStore,
+  ISnapshotStore
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import { EventSourcedEnrollmentRepository } from '../../src/contexts/enrollment/infrastructure/repositories/event-sourced-enrollment-repository';
+import {
+  requestEnrollment,
+  approveEnrollment
+} from '../../src/contexts/enrollment/domain/aggregates/enrollment-aggregate';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+type SnapshottingStore = IEventStore & ISnapshotStore;
+
+const implementations: Array<[string, () => SnapshottingStore]> = [
+  ['InMemoryEventStore', () => new InMemoryEventStore()],
+  ['SqliteEventStore', () => new SqliteEventStore(':memory:')]
+];
+
+describe.each(implementations)('%s のスナップショット', (_name, createStore) => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let store: SnapshottingStore;
+  let repository: EventSourcedEnrollmentRepository;
+
+  // 申請（v1）→ 承認（v2）
+  const requestAndApprove = async () => {
+    const requested = requestEnrollment('ST001', 'CS101', '2025-spring');
+    if (!requested.success) throw new Error('setup failed');
+    const { domainEvent: requestedEvent, ...requestedEnrollment } = requested.data;
+    await repository.save(requestedEnrollment, requestedEvent);
+
+    const approved = approveEnrollment(requestedEnrollment, 'ADVISOR01');
+    if (!approved.success) throw new Error('setup failed');
+    const { domainEvent: approvedEvent, ...approvedEnrollment } = approved.data;
+    await repository.save(approvedEnrollment, approvedEvent);
+
+    return approvedEnrollment;
+  };
+
+  beforeEach(() => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      eventStore: {
+        ...DEFAULT_ENROLLMENT_CONFIG.eventStore,
+        snapshot: { enabled: true, interval: 2, retentionDays: 30 }
+      }
+    });
+    store = createStore();
+    repository = new EventSourcedEnrollmentRepository(store, store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    reloadConfig();
+    if (store instanceof SqliteEventStore) {
+      store.close();
+    }
+  });
+
+  test('間隔に達すると復元済みの集約をスキーマバージョン付きで保存する', async () => {
+    const approved = await requestAndApprove();
+
+    const snapshotResult = await store.getSnapshot(streamId, ENROLLMENT_AGGREGATE_TYPE);
+
+    expect(snapshotResult.success).toBe(true);
+    if (snapshotResult.success && snapshotResult.data) {
+      expect(snapshotResult.data.version).toBe(2);
+      expect(snapshotResult.data.data).toMatchObject({
+        schemaVersion: ENROLLMENT_SNAPSHOT_SCHEMA_VERSION,
+        state: { status: 'approved', approvedBy: 'ADVISOR01', version: 2 }
+      });
+      expect(restoreEnrollmentSnapshot(snapshotResult.data)).toEqual(approved);
+    } else {
+      throw new Error('snapshot was not saved');
+    }
+  });
+
+  test('リポジトリはスナップショット以降のイベントだけを読む', async () => {
+    const approved = await requestAndApprove();
+    const getEvents = vi.spyOn(store, 'getEvents');
+
+    const found = await repository.findByStudentCourseAndSemester('ST001', 'CS101', '2025-spring');
+
+    expect(found).toEqual({ success: true, data: approved });
+    expect(getEvents).toHaveBeenCalledWith(streamId, 3);
+  });
+
+  test('使えないスナップショットは無視して先頭から復元する', async () => {
+    const approved = await requestAndApprove();
+    await store.saveSnapshot({
+      aggregateId: streamId,
+      aggregateType: ENROLLMENT_AGGREGATE_TYPE,
+      version: 3,
+      data: { lastEventType: 'EnrollmentApproved', streamId },
+      timestamp: new Date()
+    });
+
+    const found = await repository.findByStudentCourseAndSemester('ST001', 'CS101', '2025-spring');
+
+    expect(found).toEqual({ success: true, data: approved });
+  });
+
+  test('保持期間を過ぎたスナップショットは削除され、最新のものは残る', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    const snapshotAt = async (version: number) => store.saveSnapshot({
+      aggregateId: streamId,
+      aggregateType: ENROLLMENT_AGGREGATE_TYPE,
+      version,
+      data: {},
+      timestamp: new Date()
+    });
+    await snapshotAt(2);
+    await snapshotAt(4);
+    vi.setSystemTime(new Date('2025-03-01T00:00:00.000Z'));
+    await snapshotAt(6);
+
+    expect(await store.pruneSnapshots(new Date('2025-02-01T00:00:00.000Z'))).toEqual({ success: true, data: 2 });
+    expect(await store.getSnapshot(streamId, ENROLLMENT_AGGREGATE_TYPE)).toMatchObject({
+      success: true,
+      data: { version: 6 }
+    });
+
+    // 最新のスナップショットは古くても残す
+    expect(await store.pruneSnapshots(new Date('2026-01-01T00:00:00.000Z'))).toEqual({ success: true, data: 0 });
+  });
+});
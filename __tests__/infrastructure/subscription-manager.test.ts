@@ -0,0 +1,248 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  InMemoryEventStore,
+  SqliteEventStore,
+  EventStoreSubscriptionManager,
+  InMemoryCheckpointStore
+} from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import type { RecordedEvent } from '../../src/contexts/enrollment/infrastructure/event-store/index';
+import {
+  createEnrollmentRequestedEvent,
+  createEnrollmentApprovedEvent
+} from '../../src/contexts/enrollment/domain/events/domain-events';
+import { createValidationError } from '../../src/contexts/enrollment/domain/errors/errors';
+import { Ok, Err } from '../../src/shared/types/index';
+import {
+  DEFAULT_ENROLLMENT_CONFIG,
+  reloadConfig,
+  setConfigForTesting
+} from '../../src/shared/config/index';
+
+describe('EventStoreSubscriptionManager', () => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let eventStore: InMemoryEventStore;
+  let checkpointStore: InMemoryCheckpointStore;
+  let manager: EventStoreSubscriptionManager;
+
+  const collect = () => {
+    const received: RecordedEvent[] = [];
+    const handler = async (recorded: RecordedEvent) => {
+      received.push(recorded);
+      return Ok(undefined);
+    };
+    return { received, handler };
+  };
+
+  beforeEach(() => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: {
+        ...DEFAULT_ENROLLMENT_CONFIG.processing,
+        retry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, exponentialBackoff: false }
+      }
+    });
+    eventStore = new InMemoryEventStore();
+    checkpointStore = new InMemoryCheckpointStore();
+    manager = new EventStoreSubscriptionManager(eventStore, checkpointStore);
+  });
+
+  afterEach(async () => {
+    await manager.close();
+    reloadConfig();
+  });
+
+  test('履歴を読み終えてからライブ配信に切り替わる', async () => {
+    await eventStore.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    const { received, handler } = collect();
+
+    const subscribed = await manager.subscribe('projection', handler, { batchSize: 1, pollIntervalMs: 10 });
+
+    expect(subscribed).toMatchObject({ success: true, data: { state: 'live', checkpoint: 1 } });
+    expect(received.map(recorded => recorded.event.eventType)).toEqual(['EnrollmentRequested']);
+
+    await eventStore.append(streamId, [createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)], 1);
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[1]?.event.eventType).toBe('EnrollmentApproved');
+    await vi.waitFor(() => expect(manager.getStatus('projection')?.checkpoint).toBe(2));
+  });
+
+  test('保存済みチェックポイントの続きから再開する', async () => {
+    await eventStore.append(streamId, [
+      createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1),
+      createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)
+    ], 0);
+    await checkpointStore.saveCheckpoint('projection', 1);
+    const { received, handler } = collect();
+
+    await manager.subscribe('projection', handler);
+
+    expect(received.map(recorded => recorded.position)).toEqual([2]);
+    expect(await checkpointStore.getCheckpoint('projection')).toEqual({ success: true, data: 2 });
+  });
+
+  test('失敗した配信は設定回数まで再試行される', async () => {
+    await eventStore.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    let calls = 0;
+
+    await manager.subscribe('flaky', async () => {
+      calls++;
+      return calls < 3
+        ? Err(createValidationError('temporary failure', 'TEMPORARY_FAILURE'))
+        : Ok(undefined);
+    });
+
+    expect(calls).toBe(3);
+    expect((await manager.getParkedMessages('flaky'))).toEqual({ success: true, data: [] });
+    expect(manager.getStatus('flaky')?.checkpoint).toBe(1);
+  });
+
+  test('再試行し尽くしたイベントはパークされ、後続の配信は続く', async () => {
+    await eventStore.append(streamId, [
+      createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1),
+      createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)
+    ], 0);
+    const delivered: number[] = [];
+
+    await manager.subscribe('poison', async recorded => {
+      if (recorded.event.eventType === 'EnrollmentRequested') {
+        throw new Error('boom');
+      }
+      delivered.push(recorded.position);
+      return Ok(undefined);
+    });
+
+    expect(delivered).toEqual([2]);
+    const parked = await manager.getParkedMessages('poison');
+    expect(parked.success).toBe(true);
+    if (parked.success) {
+      expect(parked.data).toHaveLength(1);
+      expect(parked.data[0]).toMatchObject({
+        subscriptionName: 'poison',
+        attempts: 3,
+        recorded: { position: 1 },
+        error: { code: 'SUBSCRIPTION_HANDLER_FAILED' }
+      });
+    }
+    expect(manager.getStatus('poison')).toMatchObject({ checkpoint: 2, lastError: { code: 'SUBSCRIPTION_HANDLER_FAILED' } });
+  });
+
+  test('後のバッチを処理できたら lastError を消す', async () => {
+    await eventStore.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    vi.spyOn(eventStore, 'readAll').mockResolvedValueOnce(
+      Err(createValidationError('Event store is unavailable', 'EVENT_STORE_IO_ERROR'))
+    );
+    const { received, handler } = collect();
+
+    const subscribed = await manager.subscribe('projection', handler, { pollIntervalMs: 10 });
+
+    expect(subscribed).toMatchObject({ success: true, data: { checkpoint: 0, lastError: { code: 'EVENT_STORE_IO_ERROR' } } });
+    await vi.waitFor(() => expect(manager.getStatus('projection')).toMatchObject({ checkpoint: 1, lastError: null }));
+    expect(received).toHaveLength(1);
+  });
+
+  test('同じ名前の購読は同時に1つまで', async () => {
+    const { handler } = collect();
+    await manager.subscribe('projection', handler);
+
+    const duplicate = await manager.subscribe('projection', handler);
+
+    expect(duplicate.success).toBe(false);
+    if (!duplicate.success) {
+      expect(duplicate.error.code).toBe('SUBSCRIPTION_ALREADY_ACTIVE');
+    }
+
+    await manager.unsubscribe('projection');
+    expect(manager.getStatus('projection')).toBeNull();
+    expect((await manager.subscribe('projection', handler)).success).toBe(true);
+  });
+});
+
+describe('SqliteEventStore のチェックポイント', () => {
+  const streamId = 'enrollment-ST001-CS101-2025-spring';
+  let directory: string;
+  let filename: string;
+  const opened: SqliteEventStore[] = [];
+
+  const open = () => {
+    const store = new SqliteEventStore(filename);
+    opened.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    setConfigForTesting({
+      ...DEFAULT_ENROLLMENT_CONFIG,
+      processing: {
+        ...DEFAULT_ENROLLMENT_CONFIG.processing,
+        retry: { maxAttempts: 2, baseDelayMs: 10, maxDelayMs: 10, exponentialBackoff: false }
+      }
+    });
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-checkpoints-'));
+    filename = path.join(directory, 'events.db');
+  });
+
+  afterEach(async () => {
+    opened.splice(0).forEach(store => store.close());
+    await fs.rm(directory, { recursive: true, force: true });
+    reloadConfig();
+  });
+
+  test('再起動後は保存済みチェックポイントの続きから配信する', async () => {
+    const first = open();
+    await first.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    const beforeRestart: number[] = [];
+    const manager = new EventStoreSubscriptionManager(first, first);
+    await manager.subscribe('projection', async recorded => {
+      beforeRestart.push(recorded.position);
+      return Ok(undefined);
+    });
+    await manager.close();
+    await first.append(streamId, [createEnrollmentApprovedEvent('ST001', 'CS101', '2025-spring', 'ADVISOR01', 2)], 1);
+    first.close();
+    opened.splice(0);
+
+    const reopened = open();
+    const afterRestart: number[] = [];
+    const restarted = new EventStoreSubscriptionManager(reopened, reopened);
+    const subscribed = await restarted.subscribe('projection', async recorded => {
+      afterRestart.push(recorded.position);
+      return Ok(undefined);
+    });
+    await restarted.close();
+
+    expect(beforeRestart).toEqual([1]);
+    expect(afterRestart).toEqual([2]);
+    expect(subscribed).toMatchObject({ success: true, data: { checkpoint: 2 } });
+    expect(await reopened.getCheckpoint('projection')).toEqual({ success: true, data: 2 });
+    expect(await reopened.getCheckpoint('other')).toEqual({ success: true, data: null });
+  });
+
+  test('パークしたイベントは再起動後も取得できる', async () => {
+    const first = open();
+    await first.append(streamId, [createEnrollmentRequestedEvent('ST001', 'CS101', '2025-spring', 1)], 0);
+    const manager = new EventStoreSubscriptionManager(first, first);
+    await manager.subscribe('poison', async () => Err(createValidationError('broken', 'TEMPORARY_FAILURE')));
+    await manager.close();
+    first.close();
+    opened.splice(0);
+
+    const parked = await open().getParkedMessages('poison');
+
+    expect(parked.success).toBe(true);
+    if (parked.success) {
+      expect(parked.data).toHaveLength(1);
+      expect(parked.data[0]).toMatchObject({
+        subscriptionName: 'poison',
+        attempts: 2,
+        recorded: { position: 1, streamId, event: { eventType: 'EnrollmentRequested' } },
+        error: { type: 'ValidationError', code: 'TEMPORARY_FAILURE' }
+      });
+      expect(parked.data[0]?.recorded.recordedAt).toBeInstanceOf(Date);
+      expect(parked.data[0]?.parkedAt).toBeInstanceOf(Date);
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import { Ok } from '../../../../shared/types/index';
+
+import type { IEventPublisher } from '../ports/ports';
+import type { QueryBus } from './query-bus';
+
+/**
+ * 公開したイベントでクエリキャッシュを無効化する IEventPublisher
+ *
+ * 既存の発行者を包み、公開に成功したイベントに関係するキャッシュエントリを消す
+ * - outbox ディスパッチャーの eventPublisher として使う
+ * - 無効化に失敗したら Err を返し、outbox の再試行で公開ごとやり直す
+ */
+export class CacheInvalidatingEventPublisher implements IEventPublisher {
+  constructor(
+    private readonly inner: IEventPublisher,
+    private readonly queryBus: QueryBus
+  ) {}
+
+  async publish(
+    events: EnrollmentDomainEvent[]
+  ): Promise<Result<void, EnrollmentError>> {
+    const publishResult = await this.inner.publish(events);
+    if (!publishResult.success) {
+      return publishResult;
+    }
+
+    const invalidateResult = await this.queryBus.invalidateForEvents(events);
+    return invalidateResult.success ? Ok(undefined) : invalidateResult;
+  }
+}
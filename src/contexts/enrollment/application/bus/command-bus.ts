@@ -0,0 +1,165 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { EnrollmentConfig } from '../../../../shared/config/index';
+import { Ok, Err } from '../../../../shared/types/index';
+import { getCurrentConfig } from '../../../../shared/config/index';
+import { createValidationError } from '../../domain/errors/errors';
+
+import type {
+  RequestEnrollmentCommand,
+  ApproveEnrollmentCommand,
+  CancelEnrollmentCommand,
+  RejectEnrollmentCommand,
+  EnrollmentResponse,
+  ErrorResponse
+} from '../commands/dto';
+import { mapErrorToResponse } from '../commands/dto';
+
+// === Command Bus の型 ===
+
+/**
+ * コマンド種別（判別子）とコマンドDTOの対応
+ */
+export interface EnrollmentCommandMap {
+  RequestEnrollment: RequestEnrollmentCommand;
+  ApproveEnrollment: ApproveEnrollmentCommand;
+  CancelEnrollment: CancelEnrollmentCommand;
+  RejectEnrollment: RejectEnrollmentCommand;
+}
+
+export type EnrollmentCommandType = keyof EnrollmentCommandMap;
+
+/**
+ * バスに送るコマンド（type で振り分け、payload はハンドラーへそのまま渡す）
+ */
+export type CommandEnvelope<K extends EnrollmentCommandType = EnrollmentCommandType> = {
+  [P in K]: { type: P; payload: EnrollmentCommandMap[P] };
+}[K];
+
+export type CommandOutcome = Result<EnrollmentResponse, ErrorResponse>;
+
+export interface CommandHandler<C> {
+  handle(command: C): Promise<CommandOutcome>;
+}
+
+/**
+ * コマンドの実行者（認可ミドルウェアが参照する）
+ */
+export interface CommandActor {
+  id: string;
+  roles: ReadonlyArray<string>;
+}
+
+/**
+ * 1回のコマンド実行で共有する情報
+ */
+export interface CommandContext {
+  actor?: CommandActor;
+  config: EnrollmentConfig;  // 実行開始時点の設定（ミドルウェアごとに取得し直さない）
+  startedAt: Date;
+}
+
+export type CommandNext = (command: CommandEnvelope) => Promise<CommandOutcome>;
+
+/**
+ * ミドルウェア
+ *
+ * next を呼ぶとパイプラインの内側（最終的にはハンドラー）へ進む。
+ * next を呼ばずに Err を返せば、そこでコマンドの実行を打ち切る。
+ */
+export type CommandMiddleware = (
+  command: CommandEnvelope,
+  context: CommandContext,
+  next: CommandNext
+) => Promise<CommandOutcome>;
+
+export interface CommandExecutionOptions {
+  actor?: CommandActor;
+}
+
+type CommandHandlerRegistry = {
+  [K in EnrollmentCommandType]?: CommandHandler<EnrollmentCommandMap[K]>;
+};
+
+// === Command Bus ===
+
+/**
+ * コマンドバス
+ *
+ * コマンド種別ごとに登録したハンドラーへ、ミドルウェアを通してコマンドを届ける
+ * - ミドルウェアは登録順に外側から実行される（先に登録したものが先に呼ばれ、後に結果を受け取る）
+ * - 未登録のコマンド種別は UNKNOWN_COMMAND_TYPE
+ * - ハンドラーは単体でも使えるため、入力検証などはハンドラー側にも残る
+ */
+export class CommandBus {
+  private readonly handlers: CommandHandlerRegistry = {};
+  private readonly middlewares: CommandMiddleware[];
+
+  constructor(middlewares: ReadonlyArray<CommandMiddleware> = []) {
+    this.middlewares = [...middlewares];
+  }
+
+  /**
+   * ハンドラーの登録（コマンド種別ごとに1つ）
+   */
+  register<K extends EnrollmentCommandType>(
+    type: K,
+    handler: CommandHandler<EnrollmentCommandMap[K]>
+  ): Result<void, EnrollmentError> {
+    if (this.handlers[type]) {
+      return Err(createValidationError(
+        `Command handler for ${type} is already registered`,
+        'COMMAND_HANDLER_ALREADY_REGISTERED',
+        'type',
+        type
+      ));
+    }
+
+    (this.handlers as Record<K, CommandHandler<EnrollmentCommandMap[K]>>)[type] = handler;
+    return Ok(undefined);
+  }
+
+  /**
+   * ミドルウェアの追加（既存のミドルウェアの内側に入る）
+   */
+  use(middleware: CommandMiddleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * コマンドの実行
+   */
+  async execute(
+    command: CommandEnvelope,
+    options: CommandExecutionOptions = {}
+  ): Promise<CommandOutcome> {
+    const context: CommandContext = {
+      ...(options.actor && { actor: options.actor }),
+      config: getCurrentConfig(),
+      startedAt: new Date()
+    };
+
+    const pipeline = this.middlewares.reduceRight<CommandNext>(
+      (next, middleware) => current => middleware(current, context, next),
+      current => this.dispatch(current)
+    );
+    return pipeline(command);
+  }
+
+  // === Private Helper Methods ===
+
+  private async dispatch(command: CommandEnvelope): Promise<CommandOutcome> {
+    const handler = this.handlers[command.type] as CommandHandler<typeof command.payload> | undefined;
+    if (!handler) {
+      return Err(mapErrorToResponse(createValidationError(
+        `No command handler registered for ${command.type}`,
+        'UNKNOWN_COMMAND_TYPE',
+        'type',
+        command.type
+      )));
+    }
+
+    return handler.handle(command.payload);
+  }
+}
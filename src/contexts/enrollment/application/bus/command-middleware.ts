@@ -0,0 +1,203 @@
+import type { ZodTypeAny } from 'zod';
+import { Err } from '../../../../shared/types/index';
+import { createBusinessRuleError } from '../../domain/errors/errors';
+
+import type { IIdempotencyStore } from '../ports/ports';
+import {
+  RequestEnrollmentCommandSchema,
+  ApproveEnrollmentCommandSchema,
+  CancelEnrollmentCommandSchema,
+  RejectEnrollmentCommandSchema,
+  mapErrorToResponse
+} from '../commands/dto';
+import { executeIdempotently } from '../commands/idempotency';
+import { retryOnConcurrencyConflict } from '../commands/concurrency-retry';
+
+import type {
+  CommandActor,
+  CommandEnvelope,
+  CommandMiddleware,
+  EnrollmentCommandType
+} from './command-bus';
+
+/**
+ * コマンドバス用ミドルウェア
+ *
+ * 推奨する並び順（外側から）:
+ * logging → timing → validation → authorization → idempotency → concurrencyRetry
+ * - 冪等性キーは再試行の外側に置き、最終的な結果だけを記録する
+ * - idempotencyMiddleware を使う場合、ハンドラーには冪等性ストアを渡さない（二重に予約される）
+ */
+
+// === 入力検証 ===
+
+const COMMAND_SCHEMAS: { [K in EnrollmentCommandType]: ZodTypeAny } = {
+  RequestEnrollment: RequestEnrollmentCommandSchema,
+  ApproveEnrollment: ApproveEnrollmentCommandSchema,
+  CancelEnrollment: CancelEnrollmentCommandSchema,
+  RejectEnrollment: RejectEnrollmentCommandSchema
+};
+
+/**
+ * コマンドDTOのスキーマ検証（ハンドラーと同じ INVALID_COMMAND_FORMAT を返す）
+ *
+ * 検証済みの値（既定値の補完後）を内側へ渡す
+ */
+export const validationMiddleware = (): CommandMiddleware =>
+  async (command, _context, next) => {
+    const validationResult = COMMAND_SCHEMAS[command.type].safeParse(command.payload);
+    if (!validationResult.success) {
+      return Err(mapErrorToResponse(createBusinessRuleError(
+        'INPUT_VALIDATION',
+        'Invalid input format',
+        'INVALID_COMMAND_FORMAT',
+        { validationErrors: validationResult.error.issues }
+      )));
+    }
+
+    return next({ type: command.type, payload: validationResult.data } as CommandEnvelope);
+  };
+
+// === ログ ===
+
+export type CommandLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface CommandLogger {
+  log(level: CommandLogLevel, message: string, fields: Record<string, unknown>): void;
+}
+
+const LOG_LEVEL_ORDER: Record<CommandLogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * コマンドの開始・結果のログ
+ *
+ * observability.logging.level 未満のログは出さない（開始は debug、成功は info、失敗は warn）
+ */
+export const loggingMiddleware = (logger: CommandLogger): CommandMiddleware =>
+  async (command, context, next) => {
+    const threshold = LOG_LEVEL_ORDER[context.config.observability.logging.level];
+    const write = (level: CommandLogLevel, message: string, fields: Record<string, unknown>) => {
+      if (LOG_LEVEL_ORDER[level] >= threshold) {
+        logger.log(level, message, { commandType: command.type, actorId: context.actor?.id, ...fields });
+      }
+    };
+
+    write('debug', 'Command started', {});
+    const outcome = await next(command);
+    if (outcome.success) {
+      write('info', 'Command succeeded', { version: outcome.data.version, status: outcome.data.status });
+    } else {
+      write('warn', 'Command failed', { errorType: outcome.error.type, errorCode: outcome.error.code });
+    }
+    return outcome;
+  };
+
+// === 計測 ===
+
+export interface CommandTiming {
+  commandType: EnrollmentCommandType;
+  durationMs: number;
+  success: boolean;
+  errorCode?: string;
+}
+
+/**
+ * コマンドの所要時間の計測（内側のミドルウェアとハンドラーを含む）
+ */
+export const timingMiddleware = (record: (timing: CommandTiming) => void): CommandMiddleware =>
+  async (command, _context, next) => {
+    const startedAt = performance.now();
+    const outcome = await next(command);
+    record({
+      commandType: command.type,
+      durationMs: performance.now() - startedAt,
+      success: outcome.success,
+      ...(!outcome.success && { errorCode: outcome.error.code })
+    });
+    return outcome;
+  };
+
+// === 冪等性キー ===
+
+/**
+ * 冪等性キー付きコマンドの再送に記録済みの結果を返す（executeIdempotently をバスに組み込む）
+ */
+export const idempotencyMiddleware = (idempotencyStore: IIdempotencyStore): CommandMiddleware =>
+  async (command, _context, next) =>
+    executeIdempotently(idempotencyStore, command.type, command.payload, () => next(command));
+
+// === 認可 ===
+
+/**
+ * 実行者がコマンドを実行してよいかの判定
+ */
+export type CommandAuthorizer = (
+  command: CommandEnvelope,
+  actor: CommandActor
+) => boolean | Promise<boolean>;
+
+/**
+ * 履修コマンドの既定の認可ルール
+ * - admin・advisor: 全てのコマンド
+ * - student: 自分の履修申請と取消のみ
+ */
+export const enrollmentCommandPolicy: CommandAuthorizer = (command, actor) => {
+  if (actor.roles.includes('admin') || actor.roles.includes('advisor')) {
+    return true;
+  }
+
+  switch (command.type) {
+    case 'RequestEnrollment':
+    case 'CancelEnrollment':
+      return actor.roles.includes('student') && actor.id === command.payload.studentId;
+    case 'ApproveEnrollment':
+    case 'RejectEnrollment':
+      return false;
+  }
+};
+
+/**
+ * 実行者の認可（実行者なしは AUTHENTICATION_REQUIRED、拒否は COMMAND_NOT_AUTHORIZED）
+ */
+export const authorizationMiddleware = (
+  authorize: CommandAuthorizer = enrollmentCommandPolicy
+): CommandMiddleware =>
+  async (command, context, next) => {
+    if (!context.actor) {
+      return Err(mapErrorToResponse(createBusinessRuleError(
+        'AUTHORIZATION',
+        `Command ${command.type} requires an authenticated actor`,
+        'AUTHENTICATION_REQUIRED',
+        { commandType: command.type }
+      )));
+    }
+
+    if (!(await authorize(command, context.actor))) {
+      return Err(mapErrorToResponse(createBusinessRuleError(
+        'AUTHORIZATION',
+        `Actor ${context.actor.id} is not allowed to run ${command.type}`,
+        'COMMAND_NOT_AUTHORIZED',
+        { commandType: command.type, actorId: context.actor.id }
+      )));
+    }
+
+    return next(command);
+  };
+
+// === 楽観的ロックの再試行 ===
+
+/**
+ * ConcurrencyError の場合にコマンド全体をやり直す
+ *
+ * 承認・却下・取消のハンドラーは集約の更新を1回だけ試みて ConcurrencyError を返すため、
+ * 競合のやり直しはこのミドルウェアが一手に担う（ハンドラーが集約を読み込み直す）。
+ * 回数と待ち時間は processing.retry に従う。
+ */
+export const concurrencyRetryMiddleware = (): CommandMiddleware =>
+  async (command, context, next) => {
+    const { result } = await retryOnConcurrencyConflict(
+      () => next(command),
+      context.config.processing.retry
+    );
+    return result;
+  };
@@ -0,0 +1,54 @@
+/**
+ * Bus Index - コマンドバス・クエリバスのエクスポート
+ *
+ * コマンド種別ごとのハンドラーへの振り分けと、共通処理（ミドルウェア）の組み立て
+ * クエリ種別ごとのハンドラーへの振り分けと、結果のキャッシュ
+ */
+
+// === Command Bus ===
+export {
+  CommandBus,
+  type EnrollmentCommandMap,
+  type EnrollmentCommandType,
+  type CommandEnvelope,
+  type CommandOutcome,
+  type CommandHandler,
+  type CommandActor,
+  type CommandContext,
+  type CommandNext,
+  type CommandMiddleware,
+  type CommandExecutionOptions
+} from './command-bus';
+
+// === Command Middleware ===
+export {
+  validationMiddleware,
+  loggingMiddleware,
+  timingMiddleware,
+  idempotencyMiddleware,
+  authorizationMiddleware,
+  enrollmentCommandPolicy,
+  concurrencyRetryMiddleware,
+  type CommandLogLevel,
+  type CommandLogger,
+  type CommandTiming,
+  type CommandAuthorizer
+} from './command-middleware';
+
+// === Query Bus ===
+export {
+  QueryBus,
+  ENROLLMENT_QUERY_CACHE_POLICIES,
+  enrollmentEventCacheTags,
+  type EnrollmentQueryMap,
+  type EnrollmentQueryType,
+  type QueryEnvelope,
+  type QueryOutcome,
+  type QueryHandler,
+  type QueryCachePolicy,
+  type QueryCachePolicies
+} from './query-bus';
+
+export {
+  CacheInvalidatingEventPublisher
+} from './cache-invalidating-event-publisher';
@@ -0,0 +1,205 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import { Ok, Err } from '../../../../shared/types/index';
+import { stableStringify } from '../../../../shared/serialization/index';
+import { createValidationError } from '../../domain/errors/errors';
+
+import type { IQueryCache } from '../ports/ports';
+import type {
+  GetEnrollmentQuery,
+  GetWaitlistPositionQuery,
+  ListStudentEnrollmentsQuery,
+  GetCourseRosterQuery,
+  GetStuckOutboxEntriesQuery,
+  EnrollmentResponse,
+  WaitlistPositionResponse,
+  EnrollmentListResponse,
+  CourseRosterResponse,
+  StuckOutboxEntriesResponse,
+  ErrorResponse
+} from '../queries/dto';
+import { mapErrorToResponse } from '../queries/dto';
+
+// === Query Bus の型 ===
+
+/**
+ * クエリ種別（判別子）とクエリDTO・レスポンスの対応
+ */
+export interface EnrollmentQueryMap {
+  GetEnrollment: { query: GetEnrollmentQuery; result: EnrollmentResponse | null };
+  GetWaitlistPosition: { query: GetWaitlistPositionQuery; result: WaitlistPositionResponse | null };
+  ListStudentEnrollments: { query: ListStudentEnrollmentsQuery; result: EnrollmentListResponse };
+  GetCourseRoster: { query: GetCourseRosterQuery; result: CourseRosterResponse };
+  GetStuckOutboxEntries: { query: GetStuckOutboxEntriesQuery; result: StuckOutboxEntriesResponse };
+}
+
+export type EnrollmentQueryType = keyof EnrollmentQueryMap;
+
+export type QueryEnvelope<K extends EnrollmentQueryType = EnrollmentQueryType> = {
+  [P in K]: { type: P; payload: EnrollmentQueryMap[P]['query'] };
+}[K];
+
+export type QueryOutcome<K extends EnrollmentQueryType> = Result<EnrollmentQueryMap[K]['result'], ErrorResponse>;
+
+export interface QueryHandler<K extends EnrollmentQueryType> {
+  handle(query: EnrollmentQueryMap[K]['query']): Promise<QueryOutcome<K>>;
+}
+
+/**
+ * クエリ種別ごとのキャッシュ方針
+ */
+export interface QueryCachePolicy<K extends EnrollmentQueryType> {
+  ttlMs: number;
+  /** 結果が依存するタグ（enrollmentEventCacheTags と照合して無効化する） */
+  tags(query: EnrollmentQueryMap[K]['query']): string[];
+}
+
+export type QueryCachePolicies = {
+  [K in EnrollmentQueryType]?: QueryCachePolicy<K>;
+};
+
+type QueryHandlerRegistry = {
+  [K in EnrollmentQueryType]?: QueryHandler<K>;
+};
+
+// === キャッシュタグ ===
+
+const enrollmentTag = (studentId: string, courseId: string, semester: string) =>
+  `enrollment:${studentId}:${courseId}:${semester}`;
+const studentTag = (studentId: string) => `student:${studentId}`;
+const offeringTag = (courseId: string, semester: string) => `offering:${courseId}:${semester}`;
+
+/**
+ * イベントが変更しうるクエリ結果のタグ（履修・学生の一覧・科目開講の名簿とウェイトリスト）
+ */
+export function enrollmentEventCacheTags(event: EnrollmentDomainEvent): string[] {
+  return [
+    enrollmentTag(event.studentId, event.courseId, event.data.semester),
+    studentTag(event.studentId),
+    offeringTag(event.courseId, event.data.semester)
+  ];
+}
+
+/**
+ * 既定のキャッシュ方針
+ * - 読み取りモデルから読むクエリのみキャッシュする
+ * - 名簿の定員は科目カタログ由来でイベントでは無効化されないため、TTL を短くする
+ * - 滞留 outbox エントリは経過時間で結果が変わるためキャッシュしない
+ */
+export const ENROLLMENT_QUERY_CACHE_POLICIES: QueryCachePolicies = {
+  GetEnrollment: {
+    ttlMs: 60_000,
+    tags: query => [enrollmentTag(query.studentId, query.courseId, query.semester)]
+  },
+  GetWaitlistPosition: {
+    ttlMs: 60_000,
+    tags: query => [offeringTag(query.courseId, query.semester)]
+  },
+  ListStudentEnrollments: {
+    ttlMs: 60_000,
+    tags: query => [studentTag(query.studentId)]
+  },
+  GetCourseRoster: {
+    ttlMs: 10_000,
+    tags: query => [offeringTag(query.courseId, query.semester)]
+  }
+};
+
+// === Query Bus ===
+
+/**
+ * クエリバス
+ *
+ * クエリ種別ごとに登録したハンドラーへクエリを届け、成功した結果をキャッシュする
+ * - キャッシュキーはクエリ種別 + ペイロード（キーの順序に依存しない）
+ * - 失敗した結果はキャッシュしない
+ * - キャッシュの読み書きに失敗してもクエリは失敗させない（ハンドラーの結果を返す）
+ * - invalidateForEvents はイベントに関係するエントリを消す（CacheInvalidatingEventPublisher から呼ぶ）
+ *
+ * 読み取りモデルはイベントから非同期に更新されるため、無効化の直後に古い結果が再びキャッシュされることがある。
+ * その場合も TTL を過ぎれば読み取りモデルの最新の結果に戻る。
+ */
+export class QueryBus {
+  private readonly handlers: QueryHandlerRegistry = {};
+
+  constructor(
+    private readonly cache?: IQueryCache,
+    private readonly cachePolicies: QueryCachePolicies = ENROLLMENT_QUERY_CACHE_POLICIES
+  ) {}
+
+  /**
+   * ハンドラーの登録（クエリ種別ごとに1つ）
+   */
+  register<K extends EnrollmentQueryType>(
+    type: K,
+    handler: QueryHandler<K>
+  ): Result<void, EnrollmentError> {
+    if (this.handlers[type]) {
+      return Err(createValidationError(
+        `Query handler for ${type} is already registered`,
+        'QUERY_HANDLER_ALREADY_REGISTERED',
+        'type',
+        type
+      ));
+    }
+
+    (this.handlers as Record<K, QueryHandler<K>>)[type] = handler;
+    return Ok(undefined);
+  }
+
+  /**
+   * クエリの実行（キャッシュ済みならハンドラーを呼ばない）
+   */
+  async execute<K extends EnrollmentQueryType>(
+    query: { type: K; payload: EnrollmentQueryMap[K]['query'] }
+  ): Promise<QueryOutcome<K>> {
+    const handler = this.handlers[query.type] as QueryHandler<K> | undefined;
+    if (!handler) {
+      return Err(mapErrorToResponse(createValidationError(
+        `No query handler registered for ${query.type}`,
+        'UNKNOWN_QUERY_TYPE',
+        'type',
+        query.type
+      )));
+    }
+
+    const policy = this.cachePolicies[query.type] as QueryCachePolicy<K> | undefined;
+    if (!this.cache || !policy) {
+      return handler.handle(query.payload);
+    }
+
+    const key = `${query.type}:${stableStringify(query.payload)}`;
+    const now = new Date();
+    const cached = await this.cache.get(key, now);
+    if (cached.success && cached.data) {
+      return Ok(cached.data.value as EnrollmentQueryMap[K]['result']);
+    }
+
+    const outcome = await handler.handle(query.payload);
+    if (outcome.success) {
+      await this.cache.set(key, {
+        value: outcome.data,
+        tags: policy.tags(query.payload),
+        expiresAt: new Date(now.getTime() + policy.ttlMs)
+      });
+    }
+    return outcome;
+  }
+
+  /**
+   * イベントに関係するキャッシュエントリの無効化
+   *
+   * @returns 削除したエントリ数
+   */
+  async invalidateForEvents(
+    events: ReadonlyArray<EnrollmentDomainEvent>
+  ): Promise<Result<number, EnrollmentError>> {
+    if (!this.cache || events.length === 0) {
+      return Ok(0);
+    }
+
+    const tags = new Set(events.flatMap(enrollmentEventCacheTags));
+    return this.cache.invalidateTags([...tags]);
+  }
+}
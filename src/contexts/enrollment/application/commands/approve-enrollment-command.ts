@@ -0,0 +1,105 @@
+import type { Result } from '../../../../shared/types/index';
+import { createBusinessRuleError } from '../../domain/errors/errors';
+import { approveEnrollment } from '../../domain/aggregates/enrollment-aggregate';
+import { Ok, Err } from '../../../../shared/types/index';
+
+import type { IEnrollmentRepository, IIdempotencyStore } from '../ports/ports';
+
+import type {
+  EnrollmentResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  ApproveEnrollmentCommandSchema,
+  type ApproveEnrollmentCommand,
+  mapEnrollmentToResponse,
+  mapErrorToResponse,
+  extractDomainInputs,
+  parseIdentifiers
+} from './dto';
+import { executeIdempotently } from './idempotency';
+import { updateEnrollment } from './concurrency-retry';
+
+// === Command Handler ===
+
+/**
+ * 履修承認コマンドハンドラー
+ *
+ * 申請中（requested）の履修を承認済み（approved）に遷移させる。
+ * 状態遷移の可否は集約（approveEnrollment）が判断し、
+ * ハンドラーは読み込み・永続化・イベント発行の調整のみを担う。
+ */
+export class ApproveEnrollmentCommandHandler {
+  constructor(
+    private readonly enrollmentRepository: IEnrollmentRepository,
+    // 冪等性キーの記録先（未設定の場合はキーを無視する）
+    private readonly idempotencyStore?: IIdempotencyStore
+  ) {}
+
+  /**
+   * 履修承認コマンドの実行
+   *
+   * フロー:
+   * 0. 冪等性キーの確認（同じキーの再送には記録済みの結果を返す）
+   * 1. 入力検証
+   * 2. 既存の履修申請の取得
+   * 3. ドメイン操作の実行
+   * 4. 永続化（イベント発行は outbox 経由）
+   *    楽観的ロックで競合したら ConcurrencyError を返す（やり直しはバスの concurrencyRetryMiddleware が行う）
+   * 5. レスポンス変換
+   */
+  async handle(
+    command: ApproveEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    return executeIdempotently(
+      this.idempotencyStore,
+      'ApproveEnrollment',
+      command,
+      () => this.process(command)
+    );
+  }
+
+  /**
+   * コマンド本体（フローの 1 以降）
+   */
+  private async process(
+    command: ApproveEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    // Step 1: 入力検証
+    const validationResult = ApproveEnrollmentCommandSchema.safeParse(command);
+    if (!validationResult.success) {
+      const error = createBusinessRuleError(
+        'INPUT_VALIDATION',
+        'Invalid input format',
+        'INVALID_COMMAND_FORMAT',
+        { validationErrors: validationResult.error.issues }
+      );
+      return Err(mapErrorToResponse(error));
+    }
+
+    const validatedCommand = validationResult.data;
+    const domainInputs = extractDomainInputs(validatedCommand);
+
+    const identifiersResult = parseIdentifiers(domainInputs);
+    if (!identifiersResult.success) {
+      return Err(mapErrorToResponse(identifiersResult.error));
+    }
+
+    const { studentId, courseId, semester } = identifiersResult.data;
+
+    // Step 2〜4: 取得 → ドメイン操作 → 永続化（楽観的ロック、イベント発行は outbox に記録）
+    const updateResult = await updateEnrollment(
+      this.enrollmentRepository,
+      { studentId, courseId, semester },
+      current => approveEnrollment(current, validatedCommand.approvedBy, domainInputs.options),
+      ['eventPublisher']
+    );
+    if (!updateResult.success) {
+      return Err(mapErrorToResponse(updateResult.error));
+    }
+
+    // Step 5: レスポンス変換
+    return Ok(mapEnrollmentToResponse(updateResult.data.enrollment));
+  }
+}
@@ -0,0 +1,218 @@
+import type { Result, CourseId, Semester } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createBusinessRuleError } from '../../domain/errors/errors';
+import { cancelEnrollment, promoteFromWaitlist } from '../../domain/aggregates/enrollment-aggregate';
+import { type Enrollment, isActiveEnrollment } from '../../domain/entities/enrollment-types';
+import { nextInWaitlist } from '../../domain/services/waitlist';
+import { Ok, Err } from '../../../../shared/types/index';
+import { getCurrentConfig } from '../../../../shared/config/index';
+
+import type { IEnrollmentRepository, ICourseRepository, IIdempotencyStore } from '../ports/ports';
+
+import type {
+  EnrollmentResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  CancelEnrollmentCommandSchema,
+  type CancelEnrollmentCommand,
+  mapEnrollmentToResponse,
+  mapErrorToResponse,
+  extractDomainInputs,
+  parseIdentifiers
+} from './dto';
+import { executeIdempotently } from './idempotency';
+import {
+  type ConcurrencyRetryOutcome,
+  updateEnrollment,
+  retryOnConcurrencyConflict
+} from './concurrency-retry';
+import { checkSeatAvailability, hasOpenSeat } from './seat-availability';
+
+// === ウェイトリスト昇格の失敗 ===
+
+export interface WaitlistPromotionFailure {
+  courseId: CourseId;
+  semester: Semester;
+  error: EnrollmentError;
+  attempts: number;  // 昇格を試みた回数
+}
+
+/**
+ * 昇格の失敗の通知先
+ *
+ * 取消は確定済みのため、昇格の失敗は取消の結果に含めずここへ通知する
+ */
+export type WaitlistPromotionFailureReporter = (failure: WaitlistPromotionFailure) => void;
+
+// === Command Handler ===
+
+/**
+ * 履修取消コマンドハンドラー
+ *
+ * 申請中・承認済み・ウェイトリスト登録中の履修を取消済み（cancelled）に遷移させる。
+ * 取消期限は設定（businessRules.deadlines）から取得して集約に渡し、
+ * 期限判定そのものは集約（cancelEnrollment）が行う。
+ * 席を消費していた履修の取消では、空席を確認してウェイトリストの先頭を自動的に昇格させる。
+ */
+export class CancelEnrollmentCommandHandler {
+  constructor(
+    private readonly enrollmentRepository: IEnrollmentRepository,
+    // 昇格前の定員確認用
+    private readonly courseRepository: ICourseRepository,
+    // 冪等性キーの記録先（未設定の場合はキーを無視する）
+    private readonly idempotencyStore?: IIdempotencyStore,
+    // 昇格の失敗の通知先（未設定の場合は通知しない）
+    private readonly reportPromotionFailure?: WaitlistPromotionFailureReporter
+  ) {}
+
+  /**
+   * 設定を取得する
+   */
+  private getConfig() {
+    return getCurrentConfig();
+  }
+
+  /**
+   * 履修取消コマンドの実行
+   *
+   * フロー:
+   * 0. 冪等性キーの確認（同じキーの再送には記録済みの結果を返す）
+   * 1. 入力検証
+   * 2. 既存の履修申請の取得
+   * 3. ドメイン操作の実行（取消期限の適用）
+   * 4. 永続化（イベント発行は outbox 経由）
+   *    楽観的ロックで競合したら ConcurrencyError を返す（やり直しはバスの concurrencyRetryMiddleware が行う）
+   * 5. ウェイトリストの自動昇格（席が空いた場合、失敗は reportPromotionFailure に通知）
+   * 6. レスポンス変換
+   */
+  async handle(
+    command: CancelEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    return executeIdempotently(
+      this.idempotencyStore,
+      'CancelEnrollment',
+      command,
+      () => this.process(command)
+    );
+  }
+
+  /**
+   * コマンド本体（フローの 1 以降）
+   */
+  private async process(
+    command: CancelEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    // Step 1: 入力検証
+    const validationResult = CancelEnrollmentCommandSchema.safeParse(command);
+    if (!validationResult.success) {
+      const error = createBusinessRuleError(
+        'INPUT_VALIDATION',
+        'Invalid input format',
+        'INVALID_COMMAND_FORMAT',
+        { validationErrors: validationResult.error.issues }
+      );
+      return Err(mapErrorToResponse(error));
+    }
+
+    const validatedCommand = validationResult.data;
+    const domainInputs = extractDomainInputs(validatedCommand);
+
+    const identifiersResult = parseIdentifiers(domainInputs);
+    if (!identifiersResult.success) {
+      return Err(mapErrorToResponse(identifiersResult.error));
+    }
+
+    const { studentId, courseId, semester } = identifiersResult.data;
+
+    // Step 2〜4: 取得 → ドメイン操作（取消期限の適用）→ 永続化（楽観的ロック、イベント発行は outbox に記録）
+    const { deadlines } = this.getConfig().businessRules;
+    const updateResult = await updateEnrollment(
+      this.enrollmentRepository,
+      { studentId, courseId, semester },
+      current => cancelEnrollment(
+        current,
+        deadlines,
+        {
+          ...domainInputs.options,
+          ...(validatedCommand.reason && { reason: validatedCommand.reason })
+        }
+      ),
+      ['eventPublisher']
+    );
+    if (!updateResult.success) {
+      return Err(mapErrorToResponse(updateResult.error));
+    }
+
+    const { previous, enrollment } = updateResult.data;
+
+    // Step 5: ウェイトリストの自動昇格
+    // 取消自体は確定済みのため、昇格の失敗は取消の結果に影響させずに通知する
+    if (isActiveEnrollment(previous)) {
+      const { result: promotionResult, attempts } = await this.promoteNextFromWaitlist(courseId, semester, {
+        ...(domainInputs.options.correlationId && { correlationId: domainInputs.options.correlationId }),
+        ...(domainInputs.options.causationId && { causationId: domainInputs.options.causationId })
+      });
+      if (!promotionResult.success) {
+        this.reportPromotionFailure?.({ courseId, semester, error: promotionResult.error, attempts });
+      }
+    }
+
+    // Step 6: レスポンス変換
+    return Ok(mapEnrollmentToResponse(enrollment));
+  }
+
+  // === プライベートヘルパーメソッド ===
+
+  /**
+   * ウェイトリスト先頭の履修を申請中に昇格させる
+   *
+   * - 昇格の直前に空席を確認する（取消の後に別の申請が席を取っていれば昇格しない）
+   *   席の数え方は申請時と同じ（checkSeatAvailability）
+   * - 昇格した学生には申請時と同じく通知する
+   * - 楽観的ロックの競合時は空席とウェイトリストの取得からやり直す
+   *   （先頭の履修が同時に取り消されていれば、次の待機者を昇格させる）
+   *   取消は保存済みでバスの再試行ではやり直せないため、昇格だけはここでやり直す
+   *
+   * @returns 昇格した履修（空席または待機者がなければ null）
+   */
+  private async promoteNextFromWaitlist(
+    courseId: CourseId,
+    semester: Semester,
+    options: { correlationId?: string; causationId?: string }
+  ): Promise<ConcurrencyRetryOutcome<Enrollment | null, EnrollmentError>> {
+    return retryOnConcurrencyConflict(async (): Promise<Result<Enrollment | null, EnrollmentError>> => {
+      const availabilityResult = await checkSeatAvailability(
+        this.enrollmentRepository,
+        this.courseRepository,
+        courseId,
+        semester
+      );
+      if (!availabilityResult.success) {
+        return availabilityResult;
+      }
+      if (!hasOpenSeat(availabilityResult.data)) {
+        return Ok(null);
+      }
+
+      const next = nextInWaitlist(availabilityResult.data.waitlist);
+      if (!next) {
+        return Ok(null);
+      }
+
+      const promotionResult = promoteFromWaitlist(next, options);
+      if (!promotionResult.success) {
+        return promotionResult;
+      }
+
+      const { domainEvent, ...promoted } = promotionResult.data;
+      const saveResult = await this.enrollmentRepository.save(
+        promoted,
+        domainEvent,
+        ['eventPublisher', 'notificationService']
+      );
+      return saveResult.success ? Ok(promoted) : saveResult;
+    });
+  }
+}
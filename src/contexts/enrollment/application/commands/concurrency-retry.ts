@@ -0,0 +1,128 @@
+import type { Result, StudentId, CourseId, Semester } from '../../../../shared/types/index';
+import type { ProcessingConfig } from '../../../../shared/config/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { Enrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import type { EnrollmentAggregateResult } from '../../domain/aggregates/enrollment-aggregate';
+import { Ok, Err, retry } from '../../../../shared/types/index';
+import { getCurrentConfig, computeRetryDelay } from '../../../../shared/config/index';
+import { createNotFoundError } from '../../domain/errors/errors';
+
+import type { IEnrollmentRepository, OutboxDestination } from '../ports/ports';
+
+/**
+ * 楽観的ロック競合（ConcurrencyError）時のやり直し
+ *
+ * 同じ履修を同時に更新すると、後から保存した側が ConcurrencyError になる。
+ * 集約を読み込み直してドメイン操作を再実行すれば、先に保存された更新を反映した上で
+ * 保存し直せる（再実行した結果、状態遷移が許されなくなればドメインのエラーを返す）。
+ * - 回数と待ち時間は processing.retry（maxAttempts・exponentialBackoff・maxDelayMs）に従う
+ * - ConcurrencyError 以外のエラーはやり直さない
+ */
+
+export interface ConcurrencyRetryOutcome<T, E> {
+  result: Result<T, E>;
+  attempts: number;  // 実行した回数（1 なら競合なし）
+}
+
+/**
+ * 更新対象の履修
+ */
+export interface EnrollmentTarget {
+  studentId: StudentId;
+  courseId: CourseId;
+  semester: Semester;
+}
+
+/**
+ * 保存した更新
+ */
+export interface EnrollmentUpdate {
+  previous: Enrollment;  // ドメイン操作の対象にした状態（最後に読み込んだもの）
+  enrollment: Enrollment;
+  domainEvent: EnrollmentDomainEvent;
+}
+
+/**
+ * ConcurrencyError の間 attempt をやり直す
+ *
+ * attempt は実行のたびに最新の状態を読み込み直すこと
+ */
+export async function retryOnConcurrencyConflict<T, E extends { type: string }>(
+  attempt: () => Promise<Result<T, E>>,
+  retryConfig: ProcessingConfig['retry'] = getCurrentConfig().processing.retry
+): Promise<ConcurrencyRetryOutcome<T, E>> {
+  let attempts = 0;
+  const result = await retry(
+    () => {
+      attempts++;
+      return attempt();
+    },
+    {
+      maxAttempts: retryConfig.maxAttempts,
+      delay: failedAttempts => computeRetryDelay(failedAttempts, retryConfig),
+      shouldRetry: error => error.type === 'ConcurrencyError'
+    }
+  );
+  return { result, attempts };
+}
+
+/**
+ * 履修の読み込み → ドメイン操作 → 保存を1回だけ行う
+ *
+ * 競合した場合は ConcurrencyError をそのまま返す
+ * （コマンドハンドラーはこちらを使い、やり直しはバスの concurrencyRetryMiddleware に任せる）
+ *
+ * @param operation 読み込んだ履修へのドメイン操作（集約操作をそのまま渡す）
+ * @param outbox 保存と同時に記録する配信先
+ */
+export async function updateEnrollment(
+  enrollmentRepository: IEnrollmentRepository,
+  target: EnrollmentTarget,
+  operation: (current: Enrollment) => EnrollmentAggregateResult<Enrollment>,
+  outbox: ReadonlyArray<OutboxDestination> = []
+): Promise<Result<EnrollmentUpdate, EnrollmentError>> {
+  const { studentId, courseId, semester } = target;
+
+  const currentResult = await enrollmentRepository.findByStudentCourseAndSemester(
+    studentId,
+    courseId,
+    semester
+  );
+  if (!currentResult.success) {
+    return currentResult;
+  }
+  if (!currentResult.data) {
+    return Err(createNotFoundError('Enrollment', `${studentId}-${courseId}-${semester}`));
+  }
+
+  const domainResult = operation(currentResult.data);
+  if (!domainResult.success) {
+    return domainResult;
+  }
+
+  const { domainEvent, ...enrollment } = domainResult.data;
+  const saveResult = await enrollmentRepository.save(enrollment, domainEvent, outbox);
+  if (!saveResult.success) {
+    return saveResult;
+  }
+
+  return Ok({ previous: currentResult.data, enrollment, domainEvent });
+}
+
+/**
+ * 履修の読み込み → ドメイン操作 → 保存を、競合しなくなるまでやり直す
+ *
+ * バスを通さずに履修を更新する呼び出し元向け
+ *
+ * @param operation 読み込んだ履修へのドメイン操作（集約操作をそのまま渡す）
+ * @param outbox 保存と同時に記録する配信先
+ */
+export async function updateEnrollmentWithRetry(
+  enrollmentRepository: IEnrollmentRepository,
+  target: EnrollmentTarget,
+  operation: (current: Enrollment) => EnrollmentAggregateResult<Enrollment>,
+  outbox: ReadonlyArray<OutboxDestination> = []
+): Promise<ConcurrencyRetryOutcome<EnrollmentUpdate, EnrollmentError>> {
+  return retryOnConcurrencyConflict(() => updateEnrollment(enrollmentRepository, target, operation, outbox));
+}
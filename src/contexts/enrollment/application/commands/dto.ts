@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { RejectionReasonCodeSchema } from '../../domain/entities/enrollment-types';
 
 /**
  * Command DTO (Data Transfer Object) 設計思想
@@ -18,16 +19,81 @@ export const RequestEnrollmentCommandSchema = z.object({
   courseId: z.string().min(1, 'Course ID is required'),
   semester: z.string().min(1, 'Semester is required'),
   
+  // 定員超過時にウェイトリストへ登録するか（オプトイン）
+  joinWaitlist: z.boolean().optional(),
+  
   // オプショナルなメタデータ
   metadata: z.record(z.unknown()).optional(),
   
   // トレーサビリティ用（通常はミドルウェアで設定）
   correlationId: z.string().uuid().optional(),
-  causationId: z.string().uuid().optional()
+  causationId: z.string().uuid().optional(),
+
+  // 再送時に同じ結果を返すためのキー（クライアントが生成）
+  idempotencyKey: z.string().min(1).max(255).optional()
 });
 
 export type RequestEnrollmentCommand = z.infer<typeof RequestEnrollmentCommandSchema>;
 
+export const ApproveEnrollmentCommandSchema = z.object({
+  studentId: z.string().min(1, 'Student ID is required'),
+  courseId: z.string().min(1, 'Course ID is required'),
+  semester: z.string().min(1, 'Semester is required'),
+  approvedBy: z.string().min(1, 'Approver is required'),
+
+  // オプショナルなメタデータ
+  metadata: z.record(z.unknown()).optional(),
+
+  // トレーサビリティ用（通常はミドルウェアで設定）
+  correlationId: z.string().uuid().optional(),
+  causationId: z.string().uuid().optional(),
+
+  // 再送時に同じ結果を返すためのキー（クライアントが生成）
+  idempotencyKey: z.string().min(1).max(255).optional()
+});
+
+export type ApproveEnrollmentCommand = z.infer<typeof ApproveEnrollmentCommandSchema>;
+
+export const CancelEnrollmentCommandSchema = z.object({
+  studentId: z.string().min(1, 'Student ID is required'),
+  courseId: z.string().min(1, 'Course ID is required'),
+  semester: z.string().min(1, 'Semester is required'),
+  reason: z.string().min(1).optional(),
+
+  // オプショナルなメタデータ
+  metadata: z.record(z.unknown()).optional(),
+
+  // トレーサビリティ用（通常はミドルウェアで設定）
+  correlationId: z.string().uuid().optional(),
+  causationId: z.string().uuid().optional(),
+
+  // 再送時に同じ結果を返すためのキー（クライアントが生成）
+  idempotencyKey: z.string().min(1).max(255).optional()
+});
+
+export type CancelEnrollmentCommand = z.infer<typeof CancelEnrollmentCommandSchema>;
+
+export const RejectEnrollmentCommandSchema = z.object({
+  studentId: z.string().min(1, 'Student ID is required'),
+  courseId: z.string().min(1, 'Course ID is required'),
+  semester: z.string().min(1, 'Semester is required'),
+  rejectedBy: z.string().min(1, 'Rejecter is required'),
+  reasonCode: RejectionReasonCodeSchema,
+  reasonText: z.string().min(1).optional(),
+
+  // オプショナルなメタデータ
+  metadata: z.record(z.unknown()).optional(),
+
+  // トレーサビリティ用（通常はミドルウェアで設定）
+  correlationId: z.string().uuid().optional(),
+  causationId: z.string().uuid().optional(),
+
+  // 再送時に同じ結果を返すためのキー（クライアントが生成）
+  idempotencyKey: z.string().min(1).max(255).optional()
+});
+
+export type RejectEnrollmentCommand = z.infer<typeof RejectEnrollmentCommandSchema>;
+
 // === Response DTOs (出力用) ===
 
 export const EnrollmentResponseSchema = z.object({
@@ -35,15 +101,20 @@ export const EnrollmentResponseSchema = z.object({
   studentId: z.string(),
   courseId: z.string(),
   semester: z.string(),
-  status: z.enum(['requested', 'approved', 'cancelled', 'completed', 'failed']),
+  status: z.enum(['requested', 'waitlisted', 'approved', 'cancelled', 'rejected', 'completed', 'failed']),
   requestedAt: z.string().datetime(), // ISO 8601 文字列
   version: z.number().int().positive(),
   
   // 状態ごとの追加フィールド（オプショナル）
+  waitlistedAt: z.string().datetime().optional(),
   approvedAt: z.string().datetime().optional(),
   approvedBy: z.string().optional(),
   cancelledAt: z.string().datetime().optional(),
   cancelReason: z.string().optional(),
+  rejectedAt: z.string().datetime().optional(),
+  rejectedBy: z.string().optional(),
+  rejectionReasonCode: RejectionReasonCodeSchema.optional(),
+  rejectionReason: z.string().optional(),
   completedAt: z.string().datetime().optional(),
   grade: z.string().optional(),
   failedAt: z.string().datetime().optional(),
@@ -114,8 +185,36 @@ export const mapEnrollmentToResponse = (enrollment: Enrollment): EnrollmentRespo
   switch (enrollment.status) {
     case 'requested':
       return base;
+
+    case 'waitlisted':
+      return {
+        ...base,
+        waitlistedAt: enrollment.waitlistedAt.toISOString()
+      };
+
+    case 'approved':
+      return {
+        ...base,
+        approvedAt: enrollment.approvedAt.toISOString(),
+        approvedBy: enrollment.approvedBy
+      };
+
+    case 'cancelled':
+      return {
+        ...base,
+        cancelledAt: enrollment.cancelledAt.toISOString(),
+        ...(enrollment.cancelReason !== undefined && { cancelReason: enrollment.cancelReason })
+      };
+
+    case 'rejected':
+      return {
+        ...base,
+        rejectedAt: enrollment.rejectedAt.toISOString(),
+        rejectedBy: enrollment.rejectedBy,
+        rejectionReasonCode: enrollment.rejectionReason.code,
+        ...(enrollment.rejectionReason.text !== undefined && { rejectionReason: enrollment.rejectionReason.text })
+      };
     
-    // 将来の拡張用 - 現在はRequestedのみ対応
     default:
       return base;
   }
@@ -134,7 +233,8 @@ export const mapErrorToResponse = (error: EnrollmentError): ErrorResponse => ({
   entity: 'entity' in error ? error.entity : undefined,
   expectedVersion: 'expectedVersion' in error ? error.expectedVersion : undefined,
   actualVersion: 'actualVersion' in error ? error.actualVersion : undefined,
-  details: error.details
+  // BusinessRuleErrorのルール評価コンテキスト（却下理由など）もクライアントに返す
+  details: error.details ?? ('context' in error ? error.context : undefined)
 });
 
 /**
@@ -0,0 +1,107 @@
+import { Err } from '../../../../shared/types/index';
+import { getCurrentConfig } from '../../../../shared/config/index';
+import { stableStringify } from '../../../../shared/serialization/index';
+import { createBusinessRuleError, createValidationError } from '../../domain/errors/errors';
+
+import type {
+  IIdempotencyStore,
+  IdempotentCommandOutcome
+} from '../ports/ports';
+
+import { mapErrorToResponse } from './dto';
+
+/**
+ * 冪等性キーによるコマンドの重複実行防止
+ *
+ * タイムアウトしたクライアントが同じコマンドを再送しても、最初の実行結果（成功・失敗とも）を返す
+ * - キーはコマンド種別をまたいで一意（別のコマンドに使い回すとエラー）
+ * - 同じキーで内容の異なるコマンドは IDEMPOTENCY_KEY_REUSED
+ * - 最初のコマンドが実行中の再送は IDEMPOTENCY_KEY_IN_PROGRESS（実行はしない）
+ * - 記録は processing.idempotency.ttlSeconds の間だけ保持
+ */
+
+// 内容の比較から除く項目（再送ごとに変わりうるトレーサビリティ情報）
+const NON_FINGERPRINT_FIELDS = new Set(['idempotencyKey', 'correlationId', 'causationId']);
+
+/**
+ * 冪等性キー付きでコマンドを実行する
+ *
+ * ストア未設定またはキーなしの場合はそのまま実行する
+ *
+ * @param execute コマンド本体（入力検証を含む）
+ */
+export async function executeIdempotently(
+  idempotencyStore: IIdempotencyStore | undefined,
+  commandType: string,
+  command: object,
+  execute: () => Promise<IdempotentCommandOutcome>
+): Promise<IdempotentCommandOutcome> {
+  const key = 'idempotencyKey' in command ? command.idempotencyKey : undefined;
+  // 不正なキーはコマンドの入力検証で弾く
+  if (!idempotencyStore || typeof key !== 'string' || key.length === 0) {
+    return execute();
+  }
+
+  const fingerprint = computeCommandFingerprint(command);
+  const createdAt = new Date();
+  const ttlMs = getCurrentConfig().processing.idempotency.ttlSeconds * 1000;
+
+  const reserveResult = await idempotencyStore.reserve({
+    key,
+    commandType,
+    fingerprint,
+    createdAt,
+    expiresAt: new Date(createdAt.getTime() + ttlMs)
+  });
+  if (!reserveResult.success) {
+    return Err(mapErrorToResponse(reserveResult.error));
+  }
+
+  const existing = reserveResult.data;
+  if (existing) {
+    if (existing.commandType !== commandType || existing.fingerprint !== fingerprint) {
+      return Err(mapErrorToResponse(createValidationError(
+        `Idempotency key ${key} was already used for a different command`,
+        'IDEMPOTENCY_KEY_REUSED',
+        'idempotencyKey',
+        key
+      )));
+    }
+    if (existing.status === 'in_progress' || !existing.outcome) {
+      return Err(mapErrorToResponse(createBusinessRuleError(
+        'IDEMPOTENCY_KEY_IN_PROGRESS',
+        `A command with idempotency key ${key} is still being processed`,
+        'IDEMPOTENCY_KEY_IN_PROGRESS',
+        { idempotencyKey: key, commandType }
+      )));
+    }
+    return existing.outcome;
+  }
+
+  let outcome: IdempotentCommandOutcome;
+  try {
+    outcome = await execute();
+  } catch (error) {
+    // 結果のないまま予約が残ると有効期限まで再送できないため取り消す
+    await idempotencyStore.release(key);
+    throw error;
+  }
+
+  // 記録に失敗してもコマンドは実行済みのため結果はそのまま返す（再送時は再実行される）
+  const completeResult = await idempotencyStore.complete(key, outcome);
+  if (!completeResult.success) {
+    await idempotencyStore.release(key);
+  }
+  return outcome;
+}
+
+/**
+ * コマンド内容の指紋（キーの順序に依存しない JSON）
+ */
+export function computeCommandFingerprint(command: object): string {
+  return stableStringify(
+    Object.fromEntries(
+      Object.entries(command).filter(([field]) => !NON_FINGERPRINT_FIELDS.has(field))
+    )
+  );
+}
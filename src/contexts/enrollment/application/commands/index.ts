@@ -13,9 +13,50 @@ export {
   RequestEnrollmentCommandHandler
 } from './request-enrollment-command';
 
+export {
+  ApproveEnrollmentCommandHandler
+} from './approve-enrollment-command';
+
+export {
+  CancelEnrollmentCommandHandler,
+  type WaitlistPromotionFailure,
+  type WaitlistPromotionFailureReporter
+} from './cancel-enrollment-command';
+
+export {
+  RejectEnrollmentCommandHandler
+} from './reject-enrollment-command';
+
+// === 冪等性キー ===
+export {
+  executeIdempotently,
+  computeCommandFingerprint
+} from './idempotency';
+
+// === 楽観的ロック競合時のやり直し ===
+export {
+  retryOnConcurrencyConflict,
+  updateEnrollment,
+  updateEnrollmentWithRetry,
+  type ConcurrencyRetryOutcome,
+  type EnrollmentTarget,
+  type EnrollmentUpdate
+} from './concurrency-retry';
+
+// === 席の状況（申請と昇格で共通） ===
+export {
+  checkSeatAvailability,
+  hasOpenSeat,
+  canTakeSeat,
+  type SeatAvailability
+} from './seat-availability';
+
 // === Command DTOs ===
 export type {
   RequestEnrollmentCommand,
+  ApproveEnrollmentCommand,
+  CancelEnrollmentCommand,
+  RejectEnrollmentCommand,
   EnrollmentResponse,
   ErrorResponse,
   DomainEventResponse
@@ -23,6 +64,9 @@ export type {
 
 export {
   RequestEnrollmentCommandSchema,
+  ApproveEnrollmentCommandSchema,
+  CancelEnrollmentCommandSchema,
+  RejectEnrollmentCommandSchema,
   EnrollmentResponseSchema,
   ErrorResponseSchema,
   DomainEventResponseSchema,
@@ -36,8 +80,6 @@ export {
 /**
  * 将来的な Command 拡張例：
  * 
- * - ApproveEnrollmentCommandHandler
- * - CancelEnrollmentCommandHandler
  * - CompleteEnrollmentCommandHandler
  * - FailEnrollmentCommandHandler
  * - BulkEnrollmentCommandHandler
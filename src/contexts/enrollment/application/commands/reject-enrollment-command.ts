@@ -0,0 +1,114 @@
+import type { Result } from '../../../../shared/types/index';
+import { createBusinessRuleError } from '../../domain/errors/errors';
+import { rejectEnrollment } from '../../domain/aggregates/enrollment-aggregate';
+import { Ok, Err } from '../../../../shared/types/index';
+
+import type { IEnrollmentRepository, IIdempotencyStore } from '../ports/ports';
+
+import type {
+  EnrollmentResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  RejectEnrollmentCommandSchema,
+  type RejectEnrollmentCommand,
+  mapEnrollmentToResponse,
+  mapErrorToResponse,
+  extractDomainInputs,
+  parseIdentifiers
+} from './dto';
+import { executeIdempotently } from './idempotency';
+import { updateEnrollment } from './concurrency-retry';
+
+// === Command Handler ===
+
+/**
+ * 履修却下コマンドハンドラー
+ *
+ * 申請中（requested）の履修を却下済み（rejected）に遷移させる。
+ * 却下理由は構造化された理由コードと補足メッセージで記録する。
+ * 状態遷移の可否は集約（rejectEnrollment）が判断し、
+ * ハンドラーは読み込み・永続化・イベント発行の調整のみを担う。
+ */
+export class RejectEnrollmentCommandHandler {
+  constructor(
+    private readonly enrollmentRepository: IEnrollmentRepository,
+    // 冪等性キーの記録先（未設定の場合はキーを無視する）
+    private readonly idempotencyStore?: IIdempotencyStore
+  ) {}
+
+  /**
+   * 履修却下コマンドの実行
+   *
+   * フロー:
+   * 0. 冪等性キーの確認（同じキーの再送には記録済みの結果を返す）
+   * 1. 入力検証
+   * 2. 既存の履修申請の取得
+   * 3. ドメイン操作の実行
+   * 4. 永続化（イベント発行は outbox 経由）
+   *    楽観的ロックで競合したら ConcurrencyError を返す（やり直しはバスの concurrencyRetryMiddleware が行う）
+   * 5. レスポンス変換
+   */
+  async handle(
+    command: RejectEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    return executeIdempotently(
+      this.idempotencyStore,
+      'RejectEnrollment',
+      command,
+      () => this.process(command)
+    );
+  }
+
+  /**
+   * コマンド本体（フローの 1 以降）
+   */
+  private async process(
+    command: RejectEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    // Step 1: 入力検証
+    const validationResult = RejectEnrollmentCommandSchema.safeParse(command);
+    if (!validationResult.success) {
+      const error = createBusinessRuleError(
+        'INPUT_VALIDATION',
+        'Invalid input format',
+        'INVALID_COMMAND_FORMAT',
+        { validationErrors: validationResult.error.issues }
+      );
+      return Err(mapErrorToResponse(error));
+    }
+
+    const validatedCommand = validationResult.data;
+    const domainInputs = extractDomainInputs(validatedCommand);
+
+    const identifiersResult = parseIdentifiers(domainInputs);
+    if (!identifiersResult.success) {
+      return Err(mapErrorToResponse(identifiersResult.error));
+    }
+
+    const { studentId, courseId, semester } = identifiersResult.data;
+
+    // Step 2〜4: 取得 → ドメイン操作 → 永続化（楽観的ロック、イベント発行は outbox に記録）
+    const updateResult = await updateEnrollment(
+      this.enrollmentRepository,
+      { studentId, courseId, semester },
+      current => rejectEnrollment(
+        current,
+        validatedCommand.rejectedBy,
+        {
+          code: validatedCommand.reasonCode,
+          ...(validatedCommand.reasonText && { text: validatedCommand.reasonText })
+        },
+        domainInputs.options
+      ),
+      ['eventPublisher']
+    );
+    if (!updateResult.success) {
+      return Err(mapErrorToResponse(updateResult.error));
+    }
+
+    // Step 5: レスポンス変換
+    return Ok(mapEnrollmentToResponse(updateResult.data.enrollment));
+  }
+}
@@ -1,18 +1,26 @@
 import { z } from 'zod';
 import type { Result } from '../../../../shared/types/index';
 import type { EnrollmentError } from '../../domain/errors/errors';
-import { createBusinessRuleError } from '../../domain/errors/errors';
-import { requestEnrollment } from '../../domain/aggregates/enrollment-aggregate';
-import { Ok, Err } from '../../../../shared/types/index';
+import { createBusinessRuleError, createValidationError } from '../../domain/errors/errors';
+import { requestEnrollment, waitlistEnrollment } from '../../domain/aggregates/enrollment-aggregate';
+import { Ok, Err, StudentIdSchema, CourseIdSchema, SemesterSchema } from '../../../../shared/types/index';
 import { getCurrentConfig } from '../../../../shared/config/index';
 
 import type {
   IEnrollmentRepository,
   IStudentRepository,
   ICourseRepository,
-  INotificationService,
-  IEventPublisher
+  ICoursePrerequisiteRepository,
+  IStudentCourseHistoryRepository,
+  IIdempotencyStore,
+  OutboxDestination
 } from '../ports/ports';
+import {
+  evaluatePrerequisites,
+  describePrerequisite
+} from '../../domain/services/prerequisite-evaluator';
+import { detectScheduleConflicts } from '../../domain/services/schedule-conflict-detector';
+import type { CourseSchedule } from '../../domain/entities/schedule-types';
 
 import type {
   EnrollmentResponse,
@@ -27,6 +35,8 @@ import {
   extractDomainInputs,
   parseIdentifiers
 } from './dto';
+import { executeIdempotently } from './idempotency';
+import { checkSeatAvailability, canTakeSeat } from './seat-availability';
 
 // === Command Handler ===
 
@@ -45,8 +55,11 @@ export class RequestEnrollmentCommandHandler {
     private readonly enrollmentRepository: IEnrollmentRepository,
     private readonly studentRepository: IStudentRepository,
     private readonly courseRepository: ICourseRepository,
-    private readonly notificationService: INotificationService,
-    private readonly eventPublisher: IEventPublisher
+    // 前提科目チェック用（未設定の場合はチェックしない）
+    private readonly prerequisiteRepository?: ICoursePrerequisiteRepository,
+    private readonly courseHistoryRepository?: IStudentCourseHistoryRepository,
+    // 冪等性キーの記録先（未設定の場合はキーを無視する）
+    private readonly idempotencyStore?: IIdempotencyStore
   ) {}
 
   /**
@@ -60,17 +73,34 @@ export class RequestEnrollmentCommandHandler {
    * 履修申請コマンドの実行
    * 
    * フロー:
+   * 0. 冪等性キーの確認（同じキーの再送には記録済みの結果を返す）
    * 1. 入力検証
    * 2. ビジネス前提条件の確認
+   * 2.1 定員の確認（満員または待機者がいる場合、オプトイン時はウェイトリスト登録に切り替え）
+   * 2.5 前提科目の確認
    * 3. 重複チェック
-   * 4. ドメイン操作の実行
-   * 5. 永続化
-   * 6. イベント発行
-   * 7. 通知送信
-   * 8. レスポンス変換
+   * 3.5 履修上限チェック
+   * 3.6 時間割衝突チェック
+   * 4. ドメイン操作の実行（申請またはウェイトリスト登録）
+   * 5. 永続化（イベント発行・通知送信は outbox に記録し、ディスパッチャーが配信する）
+   * 6. レスポンス変換
    */
   async handle(
     command: RequestEnrollmentCommand
+  ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
+    return executeIdempotently(
+      this.idempotencyStore,
+      'RequestEnrollment',
+      command,
+      () => this.process(command)
+    );
+  }
+
+  /**
+   * コマンド本体（フローの 1 以降）
+   */
+  private async process(
+    command: RequestEnrollmentCommand
   ): Promise<Result<EnrollmentResponse, ErrorResponse>> {
     // Step 1: 入力検証
     const validationResult = RequestEnrollmentCommandSchema.safeParse(command);
@@ -97,6 +127,41 @@ export class RequestEnrollmentCommandHandler {
       return Err(mapErrorToResponse(prerequisiteCheck.error));
     }
 
+    // Step 2.1: 定員の確認
+    const capacityCheck = await this.checkCapacity(
+      domainInputs.courseId,
+      domainInputs.semester
+    );
+    if (!capacityCheck.success) {
+      return Err(mapErrorToResponse(capacityCheck.error));
+    }
+    if (capacityCheck.data.full && !validatedCommand.joinWaitlist) {
+      const { capacity, waitlistLength } = capacityCheck.data;
+      return Err(mapErrorToResponse(createBusinessRuleError(
+        'COURSE_CAPACITY_EXCEEDED',
+        capacity.current >= capacity.max
+          ? `Course ${domainInputs.courseId} has reached maximum capacity (${capacity.max})`
+          : `Course ${domainInputs.courseId} has ${waitlistLength} student(s) waiting for a seat`,
+        'COURSE_CAPACITY_EXCEEDED',
+        {
+          courseId: domainInputs.courseId,
+          semester: domainInputs.semester,
+          capacity,
+          waitlistLength
+        }
+      )));
+    }
+    const joinsWaitlist = capacityCheck.data.full;
+
+    // Step 2.5: 前提科目の確認
+    const coursePrerequisiteCheck = await this.checkCoursePrerequisites(
+      domainInputs.studentId,
+      domainInputs.courseId
+    );
+    if (!coursePrerequisiteCheck.success) {
+      return Err(mapErrorToResponse(coursePrerequisiteCheck.error));
+    }
+
     // Step 3: 重複チェック
     const duplicateCheck = await this.checkForDuplicateEnrollment(
       domainInputs.studentId,
@@ -116,8 +181,19 @@ export class RequestEnrollmentCommandHandler {
       return Err(mapErrorToResponse(enrollmentLimitCheck.error));
     }
 
+    // Step 3.6: 時間割衝突チェック
+    const scheduleConflictCheck = await this.checkScheduleConflicts(
+      domainInputs.studentId,
+      domainInputs.courseId,
+      domainInputs.semester
+    );
+    if (!scheduleConflictCheck.success) {
+      return Err(mapErrorToResponse(scheduleConflictCheck.error));
+    }
+
     // Step 4: ドメイン操作の実行
-    const domainResult = requestEnrollment(
+    const aggregateOperation = joinsWaitlist ? waitlistEnrollment : requestEnrollment;
+    const domainResult = aggregateOperation(
       domainInputs.studentId,
       domainInputs.courseId,
       domainInputs.semester,
@@ -131,19 +207,54 @@ export class RequestEnrollmentCommandHandler {
     const { domainEvent, ...enrollment } = domainResult.data;
 
     // Step 5: 永続化（トランザクション）
-    const saveResult = await this.enrollmentRepository.save(enrollment, domainEvent);
+    // 配信予定をイベントと同時に記録するため、保存後にクラッシュしても配信は失われない
+    // ウェイトリスト登録は昇格して申請中になるまで通知しない
+    const outbox: OutboxDestination[] = joinsWaitlist
+      ? ['eventPublisher']
+      : ['eventPublisher', 'notificationService'];
+    const saveResult = await this.enrollmentRepository.save(enrollment, domainEvent, outbox);
     if (!saveResult.success) {
       return Err(mapErrorToResponse(saveResult.error));
     }
 
-    // Step 6: イベント発行（永続化成功後）
-    await this.eventPublisher.publish([domainEvent]);
+    // Step 6: レスポンス変換
+    return Ok(mapEnrollmentToResponse(enrollment));
+  }
+
+  /**
+   * 学期末（履修登録締切時）の最低履修数チェック（minCoursesPerSemester）
+   * 
+   * 申請時点では最低数に満たないのが普通なので handle() では検査せず、
+   * 学期の履修登録を締め切るバッチ等から呼び出す。
+   */
+  async checkMinimumEnrollmentAtTermClose(
+    studentId: string,
+    semester: string
+  ): Promise<Result<{ activeCount: number; minCourses: number }, ErrorResponse>> {
+    const config = this.getConfig();
+
+    const countResult = await this.countActiveEnrollments(studentId, semester);
+    if (!countResult.success) {
+      return Err(mapErrorToResponse(countResult.error));
+    }
 
-    // Step 7: 通知送信（ベストエフォート）
-    await this.notificationService.notifyEnrollmentRequested(domainEvent);
+    const activeCount = countResult.data;
+    const minCourses = config.businessRules.enrollment.minCoursesPerSemester;
+    if (activeCount < minCourses) {
+      return Err(mapErrorToResponse(createBusinessRuleError(
+        'ENROLLMENT_BELOW_MINIMUM',
+        `Student ${studentId} is enrolled in ${activeCount} course(s) for semester ${semester}, below the minimum of ${minCourses}`,
+        'ENROLLMENT_BELOW_MINIMUM',
+        {
+          studentId,
+          semester,
+          currentCount: activeCount,
+          minLimit: minCourses
+        }
+      )));
+    }
 
-    // Step 8: レスポンス変換
-    return Ok(mapEnrollmentToResponse(enrollment));
+    return Ok({ activeCount, minCourses });
   }
 
   // === プライベートヘルパーメソッド ===
@@ -220,17 +331,105 @@ export class RequestEnrollmentCommandHandler {
       ));
     }
 
-    // 定員確認
-    const capacityResult = await this.courseRepository.getCapacity(validCourseId, validSemester);
-    if (!capacityResult.success) {
-      return capacityResult;
+    return Ok(undefined);
+  }
+
+  /**
+   * 定員の確認
+   * 
+   * 席を割り当てられるかの判定のみ行い、エラーにするかウェイトリストに回すかは呼び出し側が決める
+   * 空席があっても待機者がいれば割り当てない（昇格と同じ席の数え方を使う）
+   */
+  private async checkCapacity(
+    courseId: string,
+    semester: string
+  ): Promise<Result<{
+    full: boolean;
+    capacity: { max: number; current: number };
+    waitlistLength: number;
+  }, EnrollmentError>> {
+    const courseIdResult = CourseIdSchema.safeParse(courseId);
+    const semesterResult = SemesterSchema.safeParse(semester);
+    if (!courseIdResult.success || !semesterResult.success) {
+      return Err(createValidationError(
+        `Invalid identifiers: ${courseId}, ${semester}`,
+        'INVALID_IDENTIFIERS'
+      ));
     }
-    if (capacityResult.data.current >= capacityResult.data.max) {
+
+    const availabilityResult = await checkSeatAvailability(
+      this.enrollmentRepository,
+      this.courseRepository,
+      courseIdResult.data,
+      semesterResult.data
+    );
+    if (!availabilityResult.success) {
+      return availabilityResult;
+    }
+
+    const availability = availabilityResult.data;
+    return Ok({
+      full: !canTakeSeat(availability),
+      capacity: availability.capacity,
+      waitlistLength: availability.waitlist.length
+    });
+  }
+
+  /**
+   * 前提科目のチェック
+   * 
+   * 科目カタログの前提条件ツリー（AND/OR・最低成績）を修得履歴と照合し、
+   * 未充足の前提条件をすべて列挙したエラーを返す
+   */
+  private async checkCoursePrerequisites(
+    studentId: string,
+    courseId: string
+  ): Promise<Result<void, EnrollmentError>> {
+    const config = this.getConfig();
+
+    if (
+      !config.businessRules.enrollment.requirePrerequisites ||
+      !this.prerequisiteRepository ||
+      !this.courseHistoryRepository
+    ) {
+      return Ok(undefined);
+    }
+
+    const studentIdResult = StudentIdSchema.safeParse(studentId);
+    const courseIdResult = CourseIdSchema.safeParse(courseId);
+    if (!studentIdResult.success || !courseIdResult.success) {
+      return Err(createValidationError(
+        `Invalid identifiers: ${studentId}, ${courseId}`,
+        'INVALID_IDENTIFIERS'
+      ));
+    }
+
+    const prerequisitesResult = await this.prerequisiteRepository.getPrerequisites(courseIdResult.data);
+    if (!prerequisitesResult.success) {
+      return prerequisitesResult;
+    }
+    if (!prerequisitesResult.data) {
+      return Ok(undefined);
+    }
+
+    const historyResult = await this.courseHistoryRepository.getCompletedCourses(studentIdResult.data);
+    if (!historyResult.success) {
+      return historyResult;
+    }
+
+    const evaluation = evaluatePrerequisites(prerequisitesResult.data, historyResult.data);
+    if (!evaluation.satisfied) {
+      const unmetDescriptions = evaluation.unmet.map(describePrerequisite);
       return Err(createBusinessRuleError(
-        'COURSE_CAPACITY_EXCEEDED',
-        `Course ${courseId} has reached maximum capacity (${capacityResult.data.max})`,
-        'COURSE_CAPACITY_EXCEEDED',
-        { courseId, semester, capacity: capacityResult.data }
+        'PREREQUISITES_NOT_MET',
+        `Student ${studentId} has not satisfied prerequisites for course ${courseId}: ${unmetDescriptions.join(', ')}`,
+        'PREREQUISITES_NOT_MET',
+        {
+          studentId,
+          courseId,
+          unmetPrerequisites: evaluation.unmet,
+          unmetDescriptions
+        }
       ));
     }
 
@@ -286,29 +485,20 @@ export class RequestEnrollmentCommandHandler {
   }
 
   /**
-   * 履修上限チェック
+   * 履修上限チェック（maxCoursesPerSemester）
    */
   private async checkEnrollmentLimit(
     studentId: string,
     semester: string
   ): Promise<Result<void, EnrollmentError>> {
     const config = this.getConfig();
-    
-    // 学生IDと学期の基本的な形式チェックのみ実行
-    // courseIdは履修上限チェックでは不要なので、簡単な検証のみ
-    if (!studentId || !semester) {
-      return Err(createBusinessRuleError(
-        'INVALID_INPUT',
-        'Student ID and semester are required',
-        'INVALID_INPUT',
-        { studentId, semester }
-      ));
-    }
 
-    // 現在の履修数を取得（実装は簡略化、実際はより複雑な検索が必要）
-    // TODO: 学期ごとの履修数取得メソッドをリポジトリに追加
-    const currentEnrollmentCount = 0; // 現状では0として処理
+    const countResult = await this.countActiveEnrollments(studentId, semester);
+    if (!countResult.success) {
+      return countResult;
+    }
 
+    const currentEnrollmentCount = countResult.data;
     const maxCourses = config.businessRules.enrollment.maxCoursesPerSemester;
     if (currentEnrollmentCount >= maxCourses) {
       return Err(createBusinessRuleError(
@@ -326,6 +516,107 @@ export class RequestEnrollmentCommandHandler {
 
     return Ok(undefined);
   }
+
+  /**
+   * 時間割衝突チェック
+   * 
+   * 申請科目の授業時間を、同学期の有効な履修（requested / approved）の授業時間と照合する
+   * 授業時間が未定の科目は衝突判定の対象外
+   */
+  private async checkScheduleConflicts(
+    studentId: string,
+    courseId: string,
+    semester: string
+  ): Promise<Result<void, EnrollmentError>> {
+    const identifiersResult = parseIdentifiers({ studentId, courseId, semester });
+    if (!identifiersResult.success) {
+      return identifiersResult;
+    }
+
+    const { studentId: validStudentId, courseId: validCourseId, semester: validSemester } = identifiersResult.data;
+
+    const requestedMeetingsResult = await this.courseRepository.getMeetingTimes(validCourseId, validSemester);
+    if (!requestedMeetingsResult.success) {
+      return requestedMeetingsResult;
+    }
+    if (requestedMeetingsResult.data.length === 0) {
+      return Ok(undefined);
+    }
+
+    const activeEnrollmentsResult = await this.enrollmentRepository.findActiveByStudentAndSemester(
+      validStudentId,
+      validSemester
+    );
+    if (!activeEnrollmentsResult.success) {
+      return activeEnrollmentsResult;
+    }
+
+    const existingSchedules: CourseSchedule[] = [];
+    for (const enrollment of activeEnrollmentsResult.data) {
+      const meetingsResult = await this.courseRepository.getMeetingTimes(enrollment.courseId, validSemester);
+      if (!meetingsResult.success) {
+        return meetingsResult;
+      }
+      existingSchedules.push({ courseId: enrollment.courseId, meetingTimes: meetingsResult.data });
+    }
+
+    const conflicts = detectScheduleConflicts(
+      { courseId: validCourseId, meetingTimes: requestedMeetingsResult.data },
+      existingSchedules
+    );
+    const [firstConflict] = conflicts;
+    if (firstConflict) {
+      const conflictingCourseIds = [...new Set(conflicts.map(conflict => conflict.conflictingCourseId))];
+      return Err(createBusinessRuleError(
+        'SCHEDULE_CONFLICT',
+        `Course ${courseId} conflicts with course ${conflictingCourseIds.join(', ')} in semester ${semester}`,
+        'SCHEDULE_CONFLICT',
+        {
+          studentId,
+          courseId,
+          semester,
+          conflictingCourseId: firstConflict.conflictingCourseId,
+          conflictingCourseIds,
+          conflicts
+        }
+      ));
+    }
+
+    return Ok(undefined);
+  }
+
+  /**
+   * 学期内の有効な履修申請数を取得
+   */
+  private async countActiveEnrollments(
+    studentId: string,
+    semester: string
+  ): Promise<Result<number, EnrollmentError>> {
+    const studentIdResult = StudentIdSchema.safeParse(studentId);
+    if (!studentIdResult.success) {
+      return Err(createValidationError(
+        `Invalid student ID format: ${studentId}`,
+        'INVALID_STUDENT_ID',
+        'studentId',
+        studentId
+      ));
+    }
+
+    const semesterResult = SemesterSchema.safeParse(semester);
+    if (!semesterResult.success) {
+      return Err(createValidationError(
+        `Invalid semester format: ${semester}`,
+        'INVALID_SEMESTER',
+        'semester',
+        semester
+      ));
+    }
+
+    return this.enrollmentRepository.countActiveByStudentAndSemester(
+      studentIdResult.data,
+      semesterResult.data
+    );
+  }
 }
 
 /**
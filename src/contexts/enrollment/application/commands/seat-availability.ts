@@ -0,0 +1,67 @@
+import type { Result, CourseId, Semester } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { WaitlistedEnrollment } from '../../domain/entities/enrollment-types';
+import { Ok } from '../../../../shared/types/index';
+
+import type { IEnrollmentRepository, ICourseRepository } from '../ports/ports';
+
+/**
+ * 科目開講の席の状況
+ *
+ * 申請と昇格で同じ判定を使うため、席の数え方をここにまとめる
+ * - 定員は科目リポジトリから取得する（getCapacity の max）
+ * - 席を占めている履修数は履修リポジトリから数える
+ *   （科目リポジトリの current は直前の申請・取消を反映していないことがあるため使わない）
+ * - ウェイトリストに待機者がいる間の空席は、待機者の昇格に充てる
+ */
+
+export interface SeatAvailability {
+  capacity: { max: number; current: number };  // current は席を占めている履修数
+  waitlist: WaitlistedEnrollment[];  // 順不同
+}
+
+/**
+ * 科目開講の定員・占有数・ウェイトリストを取得する
+ */
+export async function checkSeatAvailability(
+  enrollmentRepository: IEnrollmentRepository,
+  courseRepository: ICourseRepository,
+  courseId: CourseId,
+  semester: Semester
+): Promise<Result<SeatAvailability, EnrollmentError>> {
+  const capacityResult = await courseRepository.getCapacity(courseId, semester);
+  if (!capacityResult.success) {
+    return capacityResult;
+  }
+
+  const occupiedResult = await enrollmentRepository.countActiveByCourseAndSemester(courseId, semester);
+  if (!occupiedResult.success) {
+    return occupiedResult;
+  }
+
+  const waitlistResult = await enrollmentRepository.findWaitlistedByCourseAndSemester(courseId, semester);
+  if (!waitlistResult.success) {
+    return waitlistResult;
+  }
+
+  return Ok({
+    capacity: { max: capacityResult.data.max, current: occupiedResult.data },
+    waitlist: waitlistResult.data
+  });
+}
+
+/**
+ * 空席があるか（待機者の有無は問わない）
+ */
+export function hasOpenSeat(availability: SeatAvailability): boolean {
+  return availability.capacity.current < availability.capacity.max;
+}
+
+/**
+ * 新しい申請に席を割り当てられるか
+ *
+ * 待機者がいる間は空席があっても割り当てない（ウェイトリストの追い越しを防ぐ）
+ */
+export function canTakeSeat(availability: SeatAvailability): boolean {
+  return hasOpenSeat(availability) && availability.waitlist.length === 0;
+}
@@ -11,8 +11,19 @@
 // === Command Side (状態変更) ===
 export {
   RequestEnrollmentCommandHandler,
+  ApproveEnrollmentCommandHandler,
+  CancelEnrollmentCommandHandler,
+  RejectEnrollmentCommandHandler,
+  type WaitlistPromotionFailure,
+  type WaitlistPromotionFailureReporter,
   type RequestEnrollmentCommand,
+  type ApproveEnrollmentCommand,
+  type CancelEnrollmentCommand,
+  type RejectEnrollmentCommand,
   RequestEnrollmentCommandSchema,
+  ApproveEnrollmentCommandSchema,
+  CancelEnrollmentCommandSchema,
+  RejectEnrollmentCommandSchema,
   type EnrollmentResponse as CommandEnrollmentResponse,
   type ErrorResponse as CommandErrorResponse,
   type DomainEventResponse,
@@ -20,29 +31,110 @@ export {
   mapErrorToResponse as mapErrorToCommandResponse,
   mapDomainEventToResponse,
   extractDomainInputs,
-  parseIdentifiers as parseCommandIdentifiers
+  parseIdentifiers as parseCommandIdentifiers,
+  executeIdempotently,
+  computeCommandFingerprint,
+  retryOnConcurrencyConflict,
+  updateEnrollment,
+  updateEnrollmentWithRetry,
+  type ConcurrencyRetryOutcome,
+  type EnrollmentTarget,
+  type EnrollmentUpdate,
+  checkSeatAvailability,
+  hasOpenSeat,
+  canTakeSeat,
+  type SeatAvailability
 } from './commands/index';
 
 // === Query Side (読み取り専用) ===
 export {
   GetEnrollmentQueryHandler,
+  GetWaitlistPositionQueryHandler,
+  ListStudentEnrollmentsQueryHandler,
+  GetCourseRosterQueryHandler,
+  GetStuckOutboxEntriesQueryHandler,
   type GetEnrollmentQuery,
+  type GetWaitlistPositionQuery,
+  type ListStudentEnrollmentsQuery,
+  type GetCourseRosterQuery,
+  type GetStuckOutboxEntriesQuery,
+  type CourseRosterResponse,
+  type WaitlistPositionResponse,
+  type OutboxEntryResponse,
+  type StuckOutboxEntriesResponse,
   GetEnrollmentQuerySchema,
+  GetWaitlistPositionQuerySchema,
+  ListStudentEnrollmentsQuerySchema,
+  GetCourseRosterQuerySchema,
+  GetStuckOutboxEntriesQuerySchema,
+  WaitlistPositionResponseSchema,
+  CourseRosterResponseSchema,
+  OutboxEntryResponseSchema,
+  StuckOutboxEntriesResponseSchema,
   type EnrollmentResponse as QueryEnrollmentResponse,
   type ErrorResponse as QueryErrorResponse,
   type EnrollmentListResponse,
   mapEnrollmentToResponse as mapEnrollmentToQueryResponse,
+  mapOutboxEntryToResponse,
   mapErrorToResponse as mapErrorToQueryResponse,
   parseIdentifiers as parseQueryIdentifiers
 } from './queries/index';
 
+// === Command Bus / Query Bus ===
+export {
+  CommandBus,
+  type EnrollmentCommandMap,
+  type EnrollmentCommandType,
+  type CommandEnvelope,
+  type CommandOutcome,
+  type CommandHandler,
+  type CommandActor,
+  type CommandContext,
+  type CommandMiddleware,
+  validationMiddleware,
+  loggingMiddleware,
+  timingMiddleware,
+  idempotencyMiddleware,
+  authorizationMiddleware,
+  enrollmentCommandPolicy,
+  concurrencyRetryMiddleware,
+  type CommandLogger,
+  type CommandTiming,
+  type CommandAuthorizer,
+  QueryBus,
+  ENROLLMENT_QUERY_CACHE_POLICIES,
+  enrollmentEventCacheTags,
+  type EnrollmentQueryMap,
+  type EnrollmentQueryType,
+  type QueryEnvelope,
+  type QueryOutcome,
+  type QueryHandler,
+  type QueryCachePolicy,
+  type QueryCachePolicies,
+  CacheInvalidatingEventPublisher
+} from './bus/index';
+
 // === Ports (依存性逆転) ===
 export type {
   IEnrollmentRepository,
+  IEnrollmentReadModel,
+  IStudentEnrollmentsReadModel,
+  ICourseRosterReadModel,
   IStudentRepository,
   ICourseRepository,
+  ICoursePrerequisiteRepository,
+  IStudentCourseHistoryRepository,
   INotificationService,
-  IEventPublisher
+  IEventPublisher,
+  OutboxDestination,
+  OutboxEntryStatus,
+  OutboxEntry,
+  IOutboxMonitor,
+  IdempotentCommandOutcome,
+  IdempotencyRecord,
+  IIdempotencyStore,
+  QueryCacheEntry,
+  IQueryCache
 } from './ports/ports';
 
 /**
@@ -6,9 +6,16 @@ import type {
   Semester
 } from '../../../../shared/types/index';
 import type { 
-  Enrollment 
+  Enrollment,
+  WaitlistedEnrollment
 } from '../../domain/entities/enrollment-types';
 import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import type {
+  PrerequisiteTree,
+  CompletedCourse
+} from '../../domain/entities/prerequisite-types';
+import type { MeetingTime } from '../../domain/entities/schedule-types';
+import type { EnrollmentResponse, ErrorResponse } from '../commands/dto';
 
 /**
  * ポート＆アダプタパターン（ヘキサゴナルアーキテクチャ）
@@ -83,16 +90,69 @@ export interface IEnrollmentRepository {
     semester: Semester
   ): Promise<Result<Enrollment | null, EnrollmentError>>;
 
+  /**
+   * 学期内の有効な履修申請数（requested / approved）
+   * 
+   * @param studentId 学生ID
+   * @param semester 学期
+   * @returns 有効な履修申請の件数またはエラー
+   */
+  countActiveByStudentAndSemester(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<number, EnrollmentError>>;
+
+  /**
+   * 学期内の有効な履修申請一覧（requested / approved）
+   * 
+   * @param studentId 学生ID
+   * @param semester 学期
+   * @returns 有効な履修申請の配列またはエラー
+   */
+  findActiveByStudentAndSemester(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<Enrollment[], EnrollmentError>>;
+
+  /**
+   * 科目開講で席を占めている履修申請数（requested / approved）
+   * 
+   * @param courseId 科目ID
+   * @param semester 学期
+   * @returns 有効な履修申請の件数またはエラー
+   */
+  countActiveByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<number, EnrollmentError>>;
+
+  /**
+   * 科目開講のウェイトリスト登録一覧（順不同）
+   * 
+   * @param courseId 科目ID
+   * @param semester 学期
+   * @returns ウェイトリスト登録中の履修申請の配列またはエラー
+   */
+  findWaitlistedByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<WaitlistedEnrollment[], EnrollmentError>>;
+
   /**
    * 履修申請の保存（新規作成・更新）
    * 
+   * outbox を指定すると、イベントの配信予約をイベントと同じトランザクションで記録する
+   * （実際の配信は outbox のディスパッチャーが後から行う）
+   * 
    * @param enrollment 履修申請
    * @param domainEvent 関連するドメインイベント
+   * @param outbox イベントの配信先
    * @returns 成功またはエラー
    */
   save(
     enrollment: Enrollment,
-    domainEvent: EnrollmentDomainEvent
+    domainEvent: EnrollmentDomainEvent,
+    outbox?: ReadonlyArray<OutboxDestination>
   ): Promise<Result<void, EnrollmentError>>;
 
   /**
@@ -110,6 +170,77 @@ export interface IEnrollmentRepository {
   ): Promise<Result<EnrollmentDomainEvent[], EnrollmentError>>;
 }
 
+/**
+ * 読み取りモデル（プロジェクション）のポート
+ * 
+ * Query 側はこのポートだけを通して読む（書き込み側のリポジトリには依存しない）
+ * - イベントストアからの投影なので、コマンド直後の状態とは一時的にずれうる（結果整合）
+ */
+export interface IEnrollmentReadModel {
+  /**
+   * 履修申請の検索（学生と科目と学期の組み合わせ）
+   * 
+   * @param studentId 学生ID
+   * @param courseId 科目ID
+   * @param semester 学期
+   * @returns 見つかった履修申請またはnull、もしくはエラー
+   */
+  findByStudentCourseAndSemester(
+    studentId: StudentId,
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<Enrollment | null, EnrollmentError>>;
+
+  /**
+   * 科目開講のウェイトリスト登録一覧（順不同）
+   * 
+   * @param courseId 科目ID
+   * @param semester 学期
+   * @returns ウェイトリスト登録中の履修申請の配列またはエラー
+   */
+  findWaitlistedByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<WaitlistedEnrollment[], EnrollmentError>>;
+}
+
+/**
+ * 学生ごとの履修申請一覧の読み取りモデル
+ */
+export interface IStudentEnrollmentsReadModel {
+  /**
+   * 学生の履修申請一覧（申請日時の昇順）
+   * 
+   * @param studentId 学生ID
+   * @param filter 学期・状態による絞り込み（省略時は全件）
+   * @returns 履修申請の配列またはエラー
+   */
+  findByStudent(
+    studentId: StudentId,
+    filter?: {
+      semester?: Semester;
+      status?: Enrollment['status'];
+    }
+  ): Promise<Result<Enrollment[], EnrollmentError>>;
+}
+
+/**
+ * 科目開講ごとの名簿の読み取りモデル
+ */
+export interface ICourseRosterReadModel {
+  /**
+   * 科目開講の全履修申請（状態・順序は問わない）
+   * 
+   * @param courseId 科目ID
+   * @param semester 学期
+   * @returns 履修申請の配列またはエラー
+   */
+  findByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<Enrollment[], EnrollmentError>>;
+}
+
 export interface IStudentRepository {
   /**
    * 学生の存在確認
@@ -154,6 +285,9 @@ export interface ICourseRepository {
   /**
    * 科目の定員確認
    * 
+   * current は科目側で把握している履修数（参考値）
+   * 席の判定には履修リポジトリの countActiveByCourseAndSemester を使う
+   * 
    * @param courseId 科目ID
    * @param semester 学期
    * @returns 定員情報またはエラー
@@ -162,6 +296,42 @@ export interface ICourseRepository {
     courseId: CourseId,
     semester: Semester
   ): Promise<Result<{ max: number; current: number }, EnrollmentError>>;
+
+  /**
+   * 科目開講の授業時間取得
+   * 
+   * @param courseId 科目ID
+   * @param semester 学期
+   * @returns 授業時間の配列（未定の場合は空配列）またはエラー
+   */
+  getMeetingTimes(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<MeetingTime[], EnrollmentError>>;
+}
+
+export interface ICoursePrerequisiteRepository {
+  /**
+   * 科目の前提条件ツリー取得
+   * 
+   * @param courseId 科目ID
+   * @returns 前提条件ツリー（前提条件なしの場合はnull）またはエラー
+   */
+  getPrerequisites(
+    courseId: CourseId
+  ): Promise<Result<PrerequisiteTree | null, EnrollmentError>>;
+}
+
+export interface IStudentCourseHistoryRepository {
+  /**
+   * 学生の修得済み科目履歴取得
+   * 
+   * @param studentId 学生ID
+   * @returns 修得済み科目（成績付き）の配列またはエラー
+   */
+  getCompletedCourses(
+    studentId: StudentId
+  ): Promise<Result<CompletedCourse[], EnrollmentError>>;
 }
 
 // === 外部システム連携ポート ===
@@ -190,6 +360,130 @@ export interface IEventPublisher {
   ): Promise<Result<void, EnrollmentError>>;
 }
 
+// === Transactional Outbox ===
+
+/**
+ * outbox に記録したイベントの配信先
+ * - eventPublisher: IEventPublisher.publish
+ * - notificationService: INotificationService.notifyEnrollmentRequested
+ */
+export type OutboxDestination = 'eventPublisher' | 'notificationService';
+
+/**
+ * - pending: 未配信（失敗後の再試行待ちを含む）
+ * - dispatched: 配信済み
+ * - failed: 再試行し尽くして配信を諦めた
+ */
+export type OutboxEntryStatus = 'pending' | 'dispatched' | 'failed';
+
+export interface OutboxEntry {
+  id: number;
+  streamId: string;
+  destination: OutboxDestination;
+  event: EnrollmentDomainEvent;
+  status: OutboxEntryStatus;
+  attempts: number;
+  createdAt: Date;
+  nextAttemptAt: Date;
+  lastAttemptAt: Date | null;
+  dispatchedAt: Date | null;
+  lastError: EnrollmentError | null;
+}
+
+export interface IOutboxMonitor {
+  /**
+   * 滞留している outbox エントリの取得（id の昇順）
+   * 
+   * @param pendingSince この日時より前に記録されたまま未配信のものを滞留とみなす
+   * @returns 滞留中（未配信）と配信を諦めた（failed）エントリまたはエラー
+   */
+  findStuckOutboxEntries(
+    pendingSince: Date
+  ): Promise<Result<OutboxEntry[], EnrollmentError>>;
+}
+
+// === 冪等性キー ===
+
+/**
+ * コマンドの実行結果（再送時にそのまま返す）
+ */
+export type IdempotentCommandOutcome = Result<EnrollmentResponse, ErrorResponse>;
+
+/**
+ * 冪等性キーごとの記録
+ * - in_progress: 最初のコマンドを実行中（outcome は null）
+ * - completed: 実行済み（outcome を再送に返す）
+ */
+export interface IdempotencyRecord {
+  key: string;
+  commandType: string;
+  fingerprint: string;  // キー・トレーサビリティ項目を除いたコマンド内容
+  status: 'in_progress' | 'completed';
+  outcome: IdempotentCommandOutcome | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface IIdempotencyStore {
+  /**
+   * キーの予約
+   * 
+   * 未使用（または有効期限切れ）のキーなら in_progress として記録して null を返す
+   * 
+   * @returns null（予約できた）または有効期限内の既存の記録
+   */
+  reserve(
+    record: Omit<IdempotencyRecord, 'status' | 'outcome'>
+  ): Promise<Result<IdempotencyRecord | null, EnrollmentError>>;
+
+  /**
+   * 実行結果の記録（予約済みのキーを completed にする）
+   */
+  complete(
+    key: string,
+    outcome: IdempotentCommandOutcome
+  ): Promise<Result<void, EnrollmentError>>;
+
+  /**
+   * 予約の取り消し（結果を記録できないまま実行が中断した場合）
+   */
+  release(key: string): Promise<Result<void, EnrollmentError>>;
+}
+
+// === クエリキャッシュ ===
+
+export interface QueryCacheEntry {
+  value: unknown;
+  tags: ReadonlyArray<string>;  // 無効化の単位（依存する履修・学生・科目開講）
+  expiresAt: Date;
+}
+
+export interface IQueryCache {
+  /**
+   * 有効期限内のエントリの取得
+   * 
+   * @returns エントリ、なければ（期限切れを含む）null
+   */
+  get(
+    key: string,
+    now: Date
+  ): Promise<Result<QueryCacheEntry | null, EnrollmentError>>;
+
+  set(
+    key: string,
+    entry: QueryCacheEntry
+  ): Promise<Result<void, EnrollmentError>>;
+
+  /**
+   * いずれかのタグを持つエントリの削除
+   * 
+   * @returns 削除したエントリ数
+   */
+  invalidateTags(
+    tags: ReadonlyArray<string>
+  ): Promise<Result<number, EnrollmentError>>;
+}
+
 /**
  * ポート設計の重要な原則
  * 
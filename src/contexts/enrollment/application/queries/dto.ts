@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { RejectionReasonCodeSchema } from '../../domain/entities/enrollment-types';
 
 /**
  * Query DTO (Data Transfer Object) 設計思想
@@ -21,6 +22,42 @@ export const GetEnrollmentQuerySchema = z.object({
 
 export type GetEnrollmentQuery = z.infer<typeof GetEnrollmentQuerySchema>;
 
+export const GetWaitlistPositionQuerySchema = z.object({
+  studentId: z.string().min(1, 'Student ID is required'),
+  courseId: z.string().min(1, 'Course ID is required'),
+  semester: z.string().min(1, 'Semester is required')
+});
+
+export type GetWaitlistPositionQuery = z.infer<typeof GetWaitlistPositionQuerySchema>;
+
+export const ListStudentEnrollmentsQuerySchema = z.object({
+  studentId: z.string().min(1, 'Student ID is required'),
+  semester: z.string().min(1, 'Semester must not be empty').optional(),
+  status: z.enum(['requested', 'waitlisted', 'approved', 'cancelled', 'rejected']).optional(),
+  page: z.number().int().positive().default(1), // 1始まり
+  pageSize: z.number().int().positive().max(100).default(20)
+});
+
+// page / pageSize は省略可能（既定値で補完）
+export type ListStudentEnrollmentsQuery = z.input<typeof ListStudentEnrollmentsQuerySchema>;
+
+export const GetCourseRosterQuerySchema = z.object({
+  courseId: z.string().min(1, 'Course ID is required'),
+  semester: z.string().min(1, 'Semester is required'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc') // 申請日時の並び順
+});
+
+// sortOrder は省略可能（既定は申請日時の昇順）
+export type GetCourseRosterQuery = z.input<typeof GetCourseRosterQuerySchema>;
+
+export const GetStuckOutboxEntriesQuerySchema = z.object({
+  stuckAfterMinutes: z.number().int().positive().default(15), // 未配信のままこの分数を過ぎたら滞留
+  destination: z.enum(['eventPublisher', 'notificationService']).optional()
+});
+
+// stuckAfterMinutes は省略可能（既定は15分）
+export type GetStuckOutboxEntriesQuery = z.input<typeof GetStuckOutboxEntriesQuerySchema>;
+
 // === Response DTOs (出力用) ===
 
 export const EnrollmentResponseSchema = z.object({
@@ -28,15 +65,20 @@ export const EnrollmentResponseSchema = z.object({
   studentId: z.string(),
   courseId: z.string(),
   semester: z.string(),
-  status: z.enum(['requested', 'approved', 'cancelled', 'completed', 'failed']),
+  status: z.enum(['requested', 'waitlisted', 'approved', 'cancelled', 'rejected', 'completed', 'failed']),
   requestedAt: z.string().datetime(), // ISO 8601 文字列
   version: z.number().int().positive(),
   
   // 状態ごとの追加フィールド（オプショナル）
+  waitlistedAt: z.string().datetime().optional(),
   approvedAt: z.string().datetime().optional(),
   approvedBy: z.string().optional(),
   cancelledAt: z.string().datetime().optional(),
   cancelReason: z.string().optional(),
+  rejectedAt: z.string().datetime().optional(),
+  rejectedBy: z.string().optional(),
+  rejectionReasonCode: RejectionReasonCodeSchema.optional(),
+  rejectionReason: z.string().optional(),
   completedAt: z.string().datetime().optional(),
   grade: z.string().optional(),
   failedAt: z.string().datetime().optional(),
@@ -45,6 +87,68 @@ export const EnrollmentResponseSchema = z.object({
 
 export type EnrollmentResponse = z.infer<typeof EnrollmentResponseSchema>;
 
+export const WaitlistPositionResponseSchema = z.object({
+  studentId: z.string(),
+  courseId: z.string(),
+  semester: z.string(),
+  position: z.number().int().positive(), // 1始まり
+  waitlistLength: z.number().int().positive(),
+  waitlistedAt: z.string().datetime()
+});
+
+export type WaitlistPositionResponse = z.infer<typeof WaitlistPositionResponseSchema>;
+
+export const CourseRosterResponseSchema = z.object({
+  courseId: z.string(),
+  semester: z.string(),
+  enrolled: z.array(EnrollmentResponseSchema),   // 承認済み
+  requested: z.array(EnrollmentResponseSchema),  // 承認待ち
+  waitlisted: z.array(EnrollmentResponseSchema),
+  counts: z.object({
+    enrolled: z.number().int().nonnegative(),
+    requested: z.number().int().nonnegative(),
+    waitlisted: z.number().int().nonnegative()
+  }),
+  capacity: z.object({
+    max: z.number().int().nonnegative(),
+    occupied: z.number().int().nonnegative(),  // 承認済み + 承認待ち
+    available: z.number().int().nonnegative()  // 定員超過時は 0
+  })
+});
+
+export type CourseRosterResponse = z.infer<typeof CourseRosterResponseSchema>;
+
+export const OutboxEntryResponseSchema = z.object({
+  id: z.number().int().positive(),
+  streamId: z.string(),
+  destination: z.enum(['eventPublisher', 'notificationService']),
+  eventType: z.string(),
+  studentId: z.string(),
+  courseId: z.string(),
+  status: z.enum(['pending', 'dispatched', 'failed']),
+  attempts: z.number().int().nonnegative(),
+  createdAt: z.string().datetime(),
+  nextAttemptAt: z.string().datetime().nullable(), // 再試行しない（dispatched・failed）場合は null
+  lastAttemptAt: z.string().datetime().nullable(),
+  lastError: z.object({
+    code: z.string(),
+    message: z.string()
+  }).nullable()
+});
+
+export type OutboxEntryResponse = z.infer<typeof OutboxEntryResponseSchema>;
+
+export const StuckOutboxEntriesResponseSchema = z.object({
+  entries: z.array(OutboxEntryResponseSchema), // 記録順
+  counts: z.object({
+    pending: z.number().int().nonnegative(),
+    failed: z.number().int().nonnegative()
+  }),
+  checkedAt: z.string().datetime()
+});
+
+export type StuckOutboxEntriesResponse = z.infer<typeof StuckOutboxEntriesResponseSchema>;
+
 // === Error DTOs ===
 
 export const ErrorResponseSchema = z.object({
@@ -87,6 +191,7 @@ import type {
   Enrollment
 } from '../../domain/entities/enrollment-types';
 import type { EnrollmentError } from '../../domain/errors/errors';
+import type { OutboxEntry } from '../ports/ports';
 
 /**
  * ドメインオブジェクトからDTOへの変換
@@ -106,13 +211,61 @@ export const mapEnrollmentToResponse = (enrollment: Enrollment): EnrollmentRespo
   switch (enrollment.status) {
     case 'requested':
       return base;
+
+    case 'waitlisted':
+      return {
+        ...base,
+        waitlistedAt: enrollment.waitlistedAt.toISOString()
+      };
+
+    case 'approved':
+      return {
+        ...base,
+        approvedAt: enrollment.approvedAt.toISOString(),
+        approvedBy: enrollment.approvedBy
+      };
+
+    case 'cancelled':
+      return {
+        ...base,
+        cancelledAt: enrollment.cancelledAt.toISOString(),
+        ...(enrollment.cancelReason !== undefined && { cancelReason: enrollment.cancelReason })
+      };
+
+    case 'rejected':
+      return {
+        ...base,
+        rejectedAt: enrollment.rejectedAt.toISOString(),
+        rejectedBy: enrollment.rejectedBy,
+        rejectionReasonCode: enrollment.rejectionReason.code,
+        ...(enrollment.rejectionReason.text !== undefined && { rejectionReason: enrollment.rejectionReason.text })
+      };
     
-    // 将来の拡張用 - 現在はRequestedのみ対応
     default:
       return base;
   }
 };
 
+/**
+ * outbox エントリから監視用DTOへの変換（イベント本体は含めない）
+ */
+export const mapOutboxEntryToResponse = (entry: OutboxEntry): OutboxEntryResponse => ({
+  id: entry.id,
+  streamId: entry.streamId,
+  destination: entry.destination,
+  eventType: entry.event.eventType,
+  studentId: entry.event.studentId,
+  courseId: entry.event.courseId,
+  status: entry.status,
+  attempts: entry.attempts,
+  createdAt: entry.createdAt.toISOString(),
+  nextAttemptAt: entry.status === 'pending' ? entry.nextAttemptAt.toISOString() : null,
+  lastAttemptAt: entry.lastAttemptAt?.toISOString() ?? null,
+  lastError: entry.lastError
+    ? { code: entry.lastError.code, message: entry.lastError.message }
+    : null
+});
+
 /**
  * ドメインエラーからエラーDTOへの変換
  */
@@ -126,7 +279,8 @@ export const mapErrorToResponse = (error: EnrollmentError): ErrorResponse => ({
   entity: 'entity' in error ? error.entity : undefined,
   expectedVersion: 'expectedVersion' in error ? error.expectedVersion : undefined,
   actualVersion: 'actualVersion' in error ? error.actualVersion : undefined,
-  details: error.details
+  // BusinessRuleErrorのルール評価コンテキスト（却下理由など）もクライアントに返す
+  details: error.details ?? ('context' in error ? error.context : undefined)
 });
 
 import { StudentIdSchema, CourseIdSchema, SemesterSchema } from '../../../../shared/types/index';
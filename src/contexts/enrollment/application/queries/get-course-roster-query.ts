@@ -0,0 +1,146 @@
+import type { Result } from '../../../../shared/types/index';
+import type { CourseId, Semester } from '../../../../shared/types/index';
+import type { Enrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { Ok, Err } from '../../../../shared/types/index';
+import { CourseIdSchema, SemesterSchema } from '../../../../shared/types/index';
+
+import type {
+  ICourseRosterReadModel,
+  ICourseRepository
+} from '../ports/ports';
+
+import type {
+  GetCourseRosterQuery,
+  CourseRosterResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  GetCourseRosterQuerySchema,
+  mapEnrollmentToResponse,
+  mapErrorToResponse
+} from './dto';
+
+// === Query Handler ===
+
+/**
+ * 科目開講の名簿取得クエリハンドラー（教員向け）
+ *
+ * 承認済み・承認待ち・ウェイトリストの学生を状態ごとに返す
+ * - 各一覧は申請日時で並べる（sortOrder で昇順・降順を選択）
+ * - 取消・却下された履修申請は名簿に含めない
+ * - 定員は科目カタログから取得し、承認済み + 承認待ちを占有数として突き合わせる
+ * - 履修申請は科目開講ごとの名簿プロジェクションから読む
+ */
+export class GetCourseRosterQueryHandler {
+  constructor(
+    private readonly courseRosterReadModel: ICourseRosterReadModel,
+    private readonly courseRepository: ICourseRepository
+  ) {}
+
+  /**
+   * 名簿取得クエリの実行
+   */
+  async handle(
+    query: GetCourseRosterQuery
+  ): Promise<Result<CourseRosterResponse, ErrorResponse>> {
+    // 入力検証
+    const validationResult = GetCourseRosterQuerySchema.safeParse(query);
+    if (!validationResult.success) {
+      const error: EnrollmentError = {
+        type: 'ValidationError',
+        message: 'Invalid query format',
+        code: 'INVALID_QUERY_FORMAT',
+        timestamp: new Date(),
+        details: { validationErrors: validationResult.error.issues }
+      };
+      return Err(mapErrorToResponse(error));
+    }
+
+    // 型安全な変換を行う
+    const identifiersResult = parseOfferingIdentifiers(validationResult.data);
+    if (!identifiersResult.success) {
+      return Err(mapErrorToResponse(identifiersResult.error));
+    }
+
+    const { courseId, semester } = identifiersResult.data;
+
+    // 定員（科目の存在確認を兼ねる）
+    const capacityResult = await this.courseRepository.getCapacity(courseId, semester);
+    if (!capacityResult.success) {
+      return Err(mapErrorToResponse(capacityResult.error));
+    }
+
+    // データ取得（読み取りモデルから）
+    const enrollmentsResult = await this.courseRosterReadModel.findByCourseAndSemester(courseId, semester);
+    if (!enrollmentsResult.success) {
+      return Err(mapErrorToResponse(enrollmentsResult.error));
+    }
+
+    const direction = validationResult.data.sortOrder === 'asc' ? 1 : -1;
+    const sorted = [...enrollmentsResult.data].sort((a, b) =>
+      direction * (a.requestedAt.getTime() - b.requestedAt.getTime()) ||
+      a.studentId.localeCompare(b.studentId)
+    );
+    const withStatus = (status: Enrollment['status']) =>
+      sorted.filter(enrollment => enrollment.status === status).map(mapEnrollmentToResponse);
+
+    const enrolled = withStatus('approved');
+    const requested = withStatus('requested');
+    const waitlisted = withStatus('waitlisted');
+    const occupied = enrolled.length + requested.length;
+    const max = capacityResult.data.max;
+
+    return Ok({
+      courseId,
+      semester,
+      enrolled,
+      requested,
+      waitlisted,
+      counts: {
+        enrolled: enrolled.length,
+        requested: requested.length,
+        waitlisted: waitlisted.length
+      },
+      capacity: {
+        max,
+        occupied,
+        available: Math.max(0, max - occupied)
+      }
+    });
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+function parseOfferingIdentifiers(input: {
+  courseId: string;
+  semester: string;
+}): Result<{ courseId: CourseId; semester: Semester }, EnrollmentError> {
+  const courseIdResult = CourseIdSchema.safeParse(input.courseId);
+  if (!courseIdResult.success) {
+    return Err({
+      type: 'ValidationError' as const,
+      message: `Invalid course ID format: ${input.courseId}`,
+      code: 'INVALID_COURSE_ID',
+      timestamp: new Date(),
+      field: 'courseId',
+      value: input.courseId
+    });
+  }
+
+  const semesterResult = SemesterSchema.safeParse(input.semester);
+  if (!semesterResult.success) {
+    return Err({
+      type: 'ValidationError' as const,
+      message: `Invalid semester format: ${input.semester}`,
+      code: 'INVALID_SEMESTER',
+      timestamp: new Date(),
+      field: 'semester',
+      value: input.semester
+    });
+  }
+
+  return Ok({ courseId: courseIdResult.data, semester: semesterResult.data });
+}
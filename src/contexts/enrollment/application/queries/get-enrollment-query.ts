@@ -3,7 +3,7 @@ import type { EnrollmentError } from '../../domain/errors/errors';
 import { Ok, Err } from '../../../../shared/types/index';
 
 import type {
-  IEnrollmentRepository
+  IEnrollmentReadModel
 } from '../ports/ports';
 
 import type {
@@ -30,10 +30,12 @@ import {
  * - プロジェクション：必要なデータ形式での返却
  * - キャッシュ対応：将来的なパフォーマンス最適化への対応
  * - 結果指向：必要なデータのみを効率的に取得
+ * 
+ * 読み取りは読み取りモデル（プロジェクション）からのみ行い、書き込み側のリポジトリは参照しない
  */
 export class GetEnrollmentQueryHandler {
   constructor(
-    private readonly enrollmentRepository: IEnrollmentRepository
+    private readonly enrollmentReadModel: IEnrollmentReadModel
   ) {}
 
   /**
@@ -65,8 +67,8 @@ export class GetEnrollmentQueryHandler {
 
     const { studentId: validStudentId, courseId: validCourseId, semester: validSemester } = identifiersResult.data;
 
-    // データ取得
-    const enrollmentResult = await this.enrollmentRepository.findByStudentCourseAndSemester(
+    // データ取得（読み取りモデルから）
+    const enrollmentResult = await this.enrollmentReadModel.findByStudentCourseAndSemester(
       validStudentId,
       validCourseId,
       validSemester
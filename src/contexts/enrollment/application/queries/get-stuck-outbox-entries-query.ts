@@ -0,0 +1,76 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { Ok, Err } from '../../../../shared/types/index';
+
+import type { IOutboxMonitor } from '../ports/ports';
+
+import type {
+  GetStuckOutboxEntriesQuery,
+  StuckOutboxEntriesResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  GetStuckOutboxEntriesQuerySchema,
+  mapOutboxEntryToResponse,
+  mapErrorToResponse
+} from './dto';
+
+// === Query Handler ===
+
+/**
+ * 滞留 outbox エントリ取得クエリハンドラー（運用ダッシュボード向け）
+ *
+ * 外部への配信が進んでいないエントリを返す
+ * - 記録から stuckAfterMinutes 分を過ぎても未配信のもの（再試行待ちを含む）
+ * - 再試行し尽くして配信を諦めたもの（経過時間に関係なく）
+ * - destination を指定するとその配信先のエントリのみ
+ */
+export class GetStuckOutboxEntriesQueryHandler {
+  constructor(
+    private readonly outboxMonitor: IOutboxMonitor
+  ) {}
+
+  /**
+   * 滞留エントリ取得クエリの実行
+   */
+  async handle(
+    query: GetStuckOutboxEntriesQuery = {}
+  ): Promise<Result<StuckOutboxEntriesResponse, ErrorResponse>> {
+    // 入力検証
+    const validationResult = GetStuckOutboxEntriesQuerySchema.safeParse(query);
+    if (!validationResult.success) {
+      const error: EnrollmentError = {
+        type: 'ValidationError',
+        message: 'Invalid query format',
+        code: 'INVALID_QUERY_FORMAT',
+        timestamp: new Date(),
+        details: { validationErrors: validationResult.error.issues }
+      };
+      return Err(mapErrorToResponse(error));
+    }
+
+    const { stuckAfterMinutes, destination } = validationResult.data;
+    const checkedAt = new Date();
+    const pendingSince = new Date(checkedAt.getTime() - stuckAfterMinutes * 60 * 1000);
+
+    // データ取得（outbox から）
+    const entriesResult = await this.outboxMonitor.findStuckOutboxEntries(pendingSince);
+    if (!entriesResult.success) {
+      return Err(mapErrorToResponse(entriesResult.error));
+    }
+
+    const entries = entriesResult.data
+      .filter(entry => destination === undefined || entry.destination === destination)
+      .map(mapOutboxEntryToResponse);
+
+    return Ok({
+      entries,
+      counts: {
+        pending: entries.filter(entry => entry.status === 'pending').length,
+        failed: entries.filter(entry => entry.status === 'failed').length
+      },
+      checkedAt: checkedAt.toISOString()
+    });
+  }
+}
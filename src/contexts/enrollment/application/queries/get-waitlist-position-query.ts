@@ -0,0 +1,89 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { Ok, Err } from '../../../../shared/types/index';
+import { orderWaitlist, findWaitlistPosition } from '../../domain/services/waitlist';
+
+import type {
+  IEnrollmentReadModel
+} from '../ports/ports';
+
+import type {
+  GetWaitlistPositionQuery,
+  WaitlistPositionResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  GetWaitlistPositionQuerySchema,
+  mapErrorToResponse,
+  parseIdentifiers
+} from './dto';
+
+// === Query Handler ===
+
+/**
+ * ウェイトリスト順位取得クエリハンドラー
+ * 
+ * 科目開講のウェイトリストを登録順に並べ、学生の位置（1始まり）を返す
+ * - 順位は保存せず、問い合わせのたびにウェイトリストから算出する
+ *   （取消・昇格で前の学生が抜けると自動的に繰り上がる）
+ * - ウェイトリストに登録されていない場合は null を返す
+ */
+export class GetWaitlistPositionQueryHandler {
+  constructor(
+    private readonly enrollmentReadModel: IEnrollmentReadModel
+  ) {}
+
+  /**
+   * ウェイトリスト順位取得クエリの実行
+   */
+  async handle(
+    query: GetWaitlistPositionQuery
+  ): Promise<Result<WaitlistPositionResponse | null, ErrorResponse>> {
+    // 入力検証
+    const validationResult = GetWaitlistPositionQuerySchema.safeParse(query);
+    if (!validationResult.success) {
+      const error: EnrollmentError = {
+        type: 'ValidationError',
+        message: 'Invalid query format',
+        code: 'INVALID_QUERY_FORMAT',
+        timestamp: new Date(),
+        details: { validationErrors: validationResult.error.issues }
+      };
+      return Err(mapErrorToResponse(error));
+    }
+
+    // 型安全な変換を行う
+    const identifiersResult = parseIdentifiers(validationResult.data);
+    if (!identifiersResult.success) {
+      return Err(mapErrorToResponse(identifiersResult.error));
+    }
+
+    const { studentId, courseId, semester } = identifiersResult.data;
+
+    // データ取得（読み取りモデルから）
+    const waitlistResult = await this.enrollmentReadModel.findWaitlistedByCourseAndSemester(
+      courseId,
+      semester
+    );
+    if (!waitlistResult.success) {
+      return Err(mapErrorToResponse(waitlistResult.error));
+    }
+
+    const waitlist = orderWaitlist(waitlistResult.data);
+    const position = findWaitlistPosition(waitlist, studentId);
+    const entry = position === null ? undefined : waitlist[position - 1];
+    if (position === null || !entry) {
+      return Ok(null);
+    }
+
+    return Ok({
+      studentId,
+      courseId,
+      semester,
+      position,
+      waitlistLength: waitlist.length,
+      waitlistedAt: entry.waitlistedAt.toISOString()
+    });
+  }
+}
@@ -13,20 +13,53 @@ export {
   GetEnrollmentQueryHandler
 } from './get-enrollment-query';
 
+export {
+  GetWaitlistPositionQueryHandler
+} from './get-waitlist-position-query';
+
+export {
+  ListStudentEnrollmentsQueryHandler
+} from './list-student-enrollments-query';
+
+export {
+  GetCourseRosterQueryHandler
+} from './get-course-roster-query';
+
+export {
+  GetStuckOutboxEntriesQueryHandler
+} from './get-stuck-outbox-entries-query';
+
 // === Query DTOs ===
 export type {
   GetEnrollmentQuery,
+  GetWaitlistPositionQuery,
+  ListStudentEnrollmentsQuery,
+  GetCourseRosterQuery,
+  GetStuckOutboxEntriesQuery,
   EnrollmentResponse,
+  CourseRosterResponse,
+  OutboxEntryResponse,
+  StuckOutboxEntriesResponse,
+  WaitlistPositionResponse,
   ErrorResponse,
   EnrollmentListResponse
 } from './dto';
 
 export {
   GetEnrollmentQuerySchema,
+  GetWaitlistPositionQuerySchema,
+  ListStudentEnrollmentsQuerySchema,
+  GetCourseRosterQuerySchema,
+  GetStuckOutboxEntriesQuerySchema,
   EnrollmentResponseSchema,
+  CourseRosterResponseSchema,
+  OutboxEntryResponseSchema,
+  StuckOutboxEntriesResponseSchema,
+  WaitlistPositionResponseSchema,
   ErrorResponseSchema,
   EnrollmentListResponseSchema,
   mapEnrollmentToResponse,
+  mapOutboxEntryToResponse,
   mapErrorToResponse,
   parseIdentifiers
 } from './dto';
@@ -34,8 +67,6 @@ export {
 /**
  * 将来的な Query 拡張例：
  * 
- * - ListEnrollmentsByStudentQueryHandler
- * - ListEnrollmentsByCourseQueryHandler
  * - ListEnrollmentsBySemesterQueryHandler
  * - GetEnrollmentStatisticsQueryHandler
  * - SearchEnrollmentsQueryHandler
@@ -0,0 +1,123 @@
+import type { Result } from '../../../../shared/types/index';
+import type { StudentId, Semester } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { Ok, Err } from '../../../../shared/types/index';
+import { StudentIdSchema, SemesterSchema } from '../../../../shared/types/index';
+
+import type {
+  IStudentEnrollmentsReadModel
+} from '../ports/ports';
+
+import type {
+  ListStudentEnrollmentsQuery,
+  EnrollmentListResponse,
+  ErrorResponse
+} from './dto';
+
+import {
+  ListStudentEnrollmentsQuerySchema,
+  mapEnrollmentToResponse,
+  mapErrorToResponse
+} from './dto';
+
+// === Query Handler ===
+
+/**
+ * 学生の履修申請一覧クエリハンドラー（時間割表示用）
+ *
+ * 学生の全履修申請を申請日時の昇順で返す
+ * - 学期・状態で絞り込み可能
+ * - page / pageSize でページング（total は絞り込み後の全件数）
+ * - 読み取りは学生ごとの一覧プロジェクションから行う
+ */
+export class ListStudentEnrollmentsQueryHandler {
+  constructor(
+    private readonly studentEnrollmentsReadModel: IStudentEnrollmentsReadModel
+  ) {}
+
+  /**
+   * 履修申請一覧クエリの実行
+   */
+  async handle(
+    query: ListStudentEnrollmentsQuery
+  ): Promise<Result<EnrollmentListResponse, ErrorResponse>> {
+    // 入力検証
+    const validationResult = ListStudentEnrollmentsQuerySchema.safeParse(query);
+    if (!validationResult.success) {
+      const error: EnrollmentError = {
+        type: 'ValidationError',
+        message: 'Invalid query format',
+        code: 'INVALID_QUERY_FORMAT',
+        timestamp: new Date(),
+        details: { validationErrors: validationResult.error.issues }
+      };
+      return Err(mapErrorToResponse(error));
+    }
+
+    const { status, page, pageSize } = validationResult.data;
+
+    // 型安全な変換を行う
+    const filterResult = parseStudentAndSemester(validationResult.data);
+    if (!filterResult.success) {
+      return Err(mapErrorToResponse(filterResult.error));
+    }
+
+    const { studentId, semester } = filterResult.data;
+
+    // データ取得（読み取りモデルから）
+    const enrollmentsResult = await this.studentEnrollmentsReadModel.findByStudent(studentId, {
+      ...(semester !== undefined && { semester }),
+      ...(status !== undefined && { status })
+    });
+    if (!enrollmentsResult.success) {
+      return Err(mapErrorToResponse(enrollmentsResult.error));
+    }
+
+    const enrollments = enrollmentsResult.data;
+    const offset = (page - 1) * pageSize;
+
+    return Ok({
+      enrollments: enrollments.slice(offset, offset + pageSize).map(mapEnrollmentToResponse),
+      total: enrollments.length,
+      page,
+      pageSize
+    });
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+function parseStudentAndSemester(input: {
+  studentId: string;
+  semester?: string | undefined;
+}): Result<{ studentId: StudentId; semester: Semester | undefined }, EnrollmentError> {
+  const studentIdResult = StudentIdSchema.safeParse(input.studentId);
+  if (!studentIdResult.success) {
+    return Err({
+      type: 'ValidationError' as const,
+      message: `Invalid student ID format: ${input.studentId}`,
+      code: 'INVALID_STUDENT_ID',
+      timestamp: new Date(),
+      field: 'studentId',
+      value: input.studentId
+    });
+  }
+
+  if (input.semester === undefined) {
+    return Ok({ studentId: studentIdResult.data, semester: undefined });
+  }
+
+  const semesterResult = SemesterSchema.safeParse(input.semester);
+  if (!semesterResult.success) {
+    return Err({
+      type: 'ValidationError' as const,
+      message: `Invalid semester format: ${input.semester}`,
+      code: 'INVALID_SEMESTER',
+      timestamp: new Date(),
+      field: 'semester',
+      value: input.semester
+    });
+  }
+
+  return Ok({ studentId: studentIdResult.data, semester: semesterResult.data });
+}
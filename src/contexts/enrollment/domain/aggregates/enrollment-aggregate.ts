@@ -14,6 +14,11 @@ import {
 } from '../../../../shared/types/index';
 import {
   type RequestedEnrollment,
+  type WaitlistedEnrollment,
+  type ApprovedEnrollment,
+  type CancelledEnrollment,
+  type RejectedEnrollment,
+  type RejectionReason,
   type Enrollment
 } from '../entities/enrollment-types';
 import {
@@ -25,9 +30,15 @@ import {
   type EnrollmentRequestedEvent,
   type EnrollmentDomainEvent,
   createEnrollmentRequestedEvent,
+  createEnrollmentWaitlistedEvent,
+  createWaitlistPromotedEvent,
+  createEnrollmentApprovedEvent,
+  createEnrollmentCancelledEvent,
+  createEnrollmentRejectedEvent,
   validateEventSequence,
   sortEventsByVersion
 } from '../events/domain-events';
+import { type RawDomainEvent, upcastDomainEvents } from '../events/upcasters';
 
 /**
  * 集約 (Aggregate) 設計思想
@@ -49,6 +60,12 @@ export type EnrollmentAggregateResult<T> = Result<
   EnrollmentError
 >;
 
+// === 取消期限ポリシー（設定値 businessRules.deadlines と同じ形） ===
+export interface CancellationPolicy {
+  cancellationDeadlineDays: number;
+  gracePeriodHours: number;
+}
+
 // === 集約操作: 履修申請 ===
 export function requestEnrollment(
   studentId: string,
@@ -78,35 +95,479 @@ export function requestEnrollment(
     return businessRuleResult;
   }
   
-  // Step 3: 集約の作成
+  // Step 3: ドメインイベントの生成
+  const domainEvent = createEnrollmentRequestedEvent(
+    validStudentId,
+    validCourseId,
+    validSemester,
+    1,
+    options
+  );
+  
+  // Step 4: 集約の作成（申請時刻はイベントと一致させる）
   const enrollment = createRequestedEnrollment(
     validStudentId,
     validCourseId,
-    validSemester
+    validSemester,
+    domainEvent.data.requestedAt
   );
   
-  // Step 4: ドメインイベントの生成
-  const domainEvent = createEnrollmentRequestedEvent(
+  return Ok({
+    ...enrollment,
+    domainEvent
+  });
+}
+
+// === 集約操作: ウェイトリスト登録 ===
+
+/**
+ * 定員超過時に申請の代わりにウェイトリストへ登録する
+ *
+ * 入力検証とビジネスルールは requestEnrollment と同じ。
+ * 順番はウェイトリスト登録時刻（waitlistedAt）で決まる。
+ */
+export function waitlistEnrollment(
+  studentId: string,
+  courseId: string,
+  semester: string,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentAggregateResult<WaitlistedEnrollment> {
+  // Step 1: 入力検証
+  const validationResult = validateInputs({ studentId, courseId, semester });
+  if (!validationResult.success) {
+    return validationResult;
+  }
+
+  const { studentId: validStudentId, courseId: validCourseId, semester: validSemester } = validationResult.data;
+
+  // Step 2: ビジネスルール適用
+  const businessRuleResult = applyBusinessRules({
+    studentId: validStudentId,
+    courseId: validCourseId,
+    semester: validSemester
+  });
+  if (!businessRuleResult.success) {
+    return businessRuleResult;
+  }
+
+  // Step 3: ドメインイベントの生成
+  const domainEvent = createEnrollmentWaitlistedEvent(
     validStudentId,
     validCourseId,
     validSemester,
-    enrollment.version,
+    1,
     options
   );
-  
+
+  // Step 4: 集約の作成
+  const enrollment = createWaitlistedEnrollment(
+    validStudentId,
+    validCourseId,
+    validSemester,
+    domainEvent.data.waitlistedAt
+  );
+
   return Ok({
     ...enrollment,
     domainEvent
   });
 }
 
+// === 集約操作: ウェイトリスト昇格 ===
+
+/**
+ * 席が空いたウェイトリスト登録を申請中（requested）に昇格させる
+ *
+ * 昇格時刻を申請時刻とみなす（取消期限は昇格時点から起算される）
+ */
+export function promoteFromWaitlist(
+  enrollment: Enrollment,
+  options?: {
+    now?: Date;
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentAggregateResult<RequestedEnrollment> {
+  // Step 1: 状態遷移ルール（ウェイトリスト登録中のみ昇格可能）
+  if (enrollment.status !== 'waitlisted') {
+    return Err(createBusinessRuleError(
+      'PROMOTION_REQUIRES_WAITLISTED_STATE',
+      `Cannot promote enrollment in status ${enrollment.status}. Only waitlisted enrollments can be promoted.`,
+      'INVALID_STATE_TRANSITION',
+      transitionErrorContext(enrollment, 'requested')
+    ));
+  }
+
+  // Step 2: ドメインイベントの生成
+  const domainEvent = createWaitlistPromotedEvent(
+    enrollment.studentId,
+    enrollment.courseId,
+    enrollment.semester,
+    options?.now ?? new Date(),
+    enrollment.version + 1,
+    {
+      ...(options?.correlationId && { correlationId: options.correlationId }),
+      ...(options?.causationId && { causationId: options.causationId }),
+      ...(options?.metadata && { metadata: options.metadata })
+    }
+  );
+
+  // Step 3: 新しい状態の作成
+  const promoted: RequestedEnrollment = {
+    ...createRequestedEnrollment(
+      enrollment.studentId,
+      enrollment.courseId,
+      enrollment.semester,
+      domainEvent.data.promotedAt
+    ),
+    version: domainEvent.version
+  };
+
+  return Ok({
+    ...promoted,
+    domainEvent
+  });
+}
+
+// === 集約操作: 履修承認 ===
+export function approveEnrollment(
+  enrollment: Enrollment,
+  approvedBy: string,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentAggregateResult<ApprovedEnrollment> {
+  // Step 1: 入力検証
+  if (approvedBy.trim().length === 0) {
+    return Err(createValidationError(
+      'Approver is required',
+      'INVALID_APPROVER',
+      'approvedBy',
+      approvedBy
+    ));
+  }
+
+  // Step 2: 状態遷移ルール（申請中のみ承認可能）
+  if (enrollment.status !== 'requested') {
+    return Err(createBusinessRuleError(
+      'APPROVAL_REQUIRES_REQUESTED_STATE',
+      `Cannot approve enrollment in status ${enrollment.status}. Only requested enrollments can be approved.`,
+      'INVALID_STATE_TRANSITION',
+      transitionErrorContext(enrollment, 'approved')
+    ));
+  }
+
+  // Step 3: ドメインイベントの生成
+  const domainEvent = createEnrollmentApprovedEvent(
+    enrollment.studentId,
+    enrollment.courseId,
+    enrollment.semester,
+    approvedBy,
+    enrollment.version + 1,
+    options
+  );
+
+  // Step 4: 新しい状態の作成（元の集約は変更しない）
+  const approved: ApprovedEnrollment = {
+    studentId: enrollment.studentId,
+    courseId: enrollment.courseId,
+    semester: enrollment.semester,
+    status: 'approved',
+    requestedAt: enrollment.requestedAt,
+    approvedAt: domainEvent.data.approvedAt,
+    approvedBy: domainEvent.data.approvedBy,
+    version: domainEvent.version
+  };
+
+  return Ok({
+    ...approved,
+    domainEvent
+  });
+}
+
+// === 集約操作: 履修却下 ===
+export function rejectEnrollment(
+  enrollment: Enrollment,
+  rejectedBy: string,
+  reason: RejectionReason,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentAggregateResult<RejectedEnrollment> {
+  // Step 1: 入力検証
+  if (rejectedBy.trim().length === 0) {
+    return Err(createValidationError(
+      'Rejecter is required',
+      'INVALID_REJECTER',
+      'rejectedBy',
+      rejectedBy
+    ));
+  }
+
+  // Step 2: 状態遷移ルール（申請中のみ却下可能）
+  if (enrollment.status !== 'requested') {
+    return Err(createBusinessRuleError(
+      'REJECTION_REQUIRES_REQUESTED_STATE',
+      `Cannot reject enrollment in status ${enrollment.status}. Only requested enrollments can be rejected.`,
+      'INVALID_STATE_TRANSITION',
+      transitionErrorContext(enrollment, 'rejected')
+    ));
+  }
+
+  // Step 3: ドメインイベントの生成
+  const domainEvent = createEnrollmentRejectedEvent(
+    enrollment.studentId,
+    enrollment.courseId,
+    enrollment.semester,
+    rejectedBy,
+    reason,
+    enrollment.version + 1,
+    options
+  );
+
+  // Step 4: 新しい状態の作成
+  const rejected: RejectedEnrollment = {
+    studentId: enrollment.studentId,
+    courseId: enrollment.courseId,
+    semester: enrollment.semester,
+    status: 'rejected',
+    requestedAt: enrollment.requestedAt,
+    rejectedAt: domainEvent.data.rejectedAt,
+    rejectedBy: domainEvent.data.rejectedBy,
+    rejectionReason: domainEvent.data.reason,
+    version: domainEvent.version
+  };
+
+  return Ok({
+    ...rejected,
+    domainEvent
+  });
+}
+
+// === 集約操作: 履修取消 ===
+export function cancelEnrollment(
+  enrollment: Enrollment,
+  policy: CancellationPolicy,
+  options?: {
+    reason?: string;
+    now?: Date;
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentAggregateResult<CancelledEnrollment> {
+  const now = options?.now ?? new Date();
+
+  // Step 1: 状態遷移ルール（取消済み・却下済みは取消不可）
+  if (enrollment.status === 'cancelled' || enrollment.status === 'rejected') {
+    return Err(createBusinessRuleError(
+      'CANCELLATION_REQUIRES_ACTIVE_STATE',
+      `Cannot cancel enrollment in status ${enrollment.status}.`,
+      'INVALID_STATE_TRANSITION',
+      transitionErrorContext(enrollment, 'cancelled')
+    ));
+  }
+
+  // Step 2: 取消期限チェック（申請日 + 取消期限日数 + 猶予時間）
+  // ウェイトリストからの離脱は席を消費していないため期限なしで許可する
+  if (enrollment.status !== 'waitlisted') {
+    const deadlineResult = checkCancellationDeadline(enrollment.requestedAt, now, policy);
+    if (!deadlineResult.success) {
+      return deadlineResult;
+    }
+  }
+
+  // Step 3: ドメインイベントの生成
+  const domainEvent = createEnrollmentCancelledEvent(
+    enrollment.studentId,
+    enrollment.courseId,
+    enrollment.semester,
+    now,
+    enrollment.version + 1,
+    {
+      ...(options?.reason && { cancelReason: options.reason }),
+      ...(options?.correlationId && { correlationId: options.correlationId }),
+      ...(options?.causationId && { causationId: options.causationId }),
+      ...(options?.metadata && { metadata: options.metadata })
+    }
+  );
+
+  // Step 4: 新しい状態の作成
+  const cancelled: CancelledEnrollment = {
+    studentId: enrollment.studentId,
+    courseId: enrollment.courseId,
+    semester: enrollment.semester,
+    status: 'cancelled',
+    requestedAt: enrollment.requestedAt,
+    cancelledAt: domainEvent.data.cancelledAt,
+    ...(domainEvent.data.cancelReason !== undefined && { cancelReason: domainEvent.data.cancelReason }),
+    version: domainEvent.version
+  };
+
+  return Ok({
+    ...cancelled,
+    domainEvent
+  });
+}
+
+// === イベント適用（状態遷移の単一の定義） ===
+
+/**
+ * 現在の状態に1つのイベントを適用して次の状態を返す reducer
+ *
+ * - state が null の場合は集約がまだ存在しない（最初のイベントのみ適用可能）
+ * - イベントのバージョンは現在のバージョン + 1 でなければならない
+ * - 現在の状態から許可されない遷移は BusinessRuleError として拒否する
+ */
+export function applyEvent(
+  state: Enrollment | null,
+  event: EnrollmentDomainEvent
+): Result<Enrollment, EnrollmentError> {
+  // バージョンの連続性チェック
+  const expectedVersion = (state?.version ?? 0) + 1;
+  if (event.version !== expectedVersion) {
+    return Err(createValidationError(
+      `Event version ${event.version} does not follow current version ${expectedVersion - 1}`,
+      'INVALID_EVENT_SEQUENCE',
+      'version',
+      event.version
+    ));
+  }
+
+  // 集約の同一性チェック
+  if (state && (
+    state.studentId !== event.studentId ||
+    state.courseId !== event.courseId ||
+    state.semester !== event.data.semester
+  )) {
+    return Err(createValidationError(
+      `Event ${event.eventType} does not belong to enrollment ${state.studentId}-${state.courseId}-${state.semester}`,
+      'EVENT_AGGREGATE_MISMATCH'
+    ));
+  }
+
+  switch (event.eventType) {
+    case 'EnrollmentRequested': {
+      if (state !== null) {
+        return illegalTransition(state, event);
+      }
+      return Ok(createRequestedEnrollment(
+        event.studentId,
+        event.courseId,
+        event.data.semester,
+        event.data.requestedAt
+      ));
+    }
+
+    case 'EnrollmentWaitlisted': {
+      if (state !== null) {
+        return illegalTransition(state, event);
+      }
+      return Ok(createWaitlistedEnrollment(
+        event.studentId,
+        event.courseId,
+        event.data.semester,
+        event.data.waitlistedAt
+      ));
+    }
+
+    case 'WaitlistPromoted': {
+      if (state === null || state.status !== 'waitlisted') {
+        return illegalTransition(state, event);
+      }
+      return Ok({
+        ...createRequestedEnrollment(
+          state.studentId,
+          state.courseId,
+          state.semester,
+          event.data.promotedAt
+        ),
+        version: event.version
+      });
+    }
+
+    case 'EnrollmentApproved': {
+      if (state === null || state.status !== 'requested') {
+        return illegalTransition(state, event);
+      }
+      return Ok({
+        studentId: state.studentId,
+        courseId: state.courseId,
+        semester: state.semester,
+        status: 'approved',
+        requestedAt: state.requestedAt,
+        approvedAt: event.data.approvedAt,
+        approvedBy: event.data.approvedBy,
+        version: event.version
+      });
+    }
+
+    case 'EnrollmentCancelled': {
+      if (state === null || state.status === 'cancelled' || state.status === 'rejected') {
+        return illegalTransition(state, event);
+      }
+      return Ok({
+        studentId: state.studentId,
+        courseId: state.courseId,
+        semester: state.semester,
+        status: 'cancelled',
+        requestedAt: state.requestedAt,
+        cancelledAt: event.data.cancelledAt,
+        ...(event.data.cancelReason !== undefined && { cancelReason: event.data.cancelReason }),
+        version: event.version
+      });
+    }
+
+    case 'EnrollmentRejected': {
+      if (state === null || state.status !== 'requested') {
+        return illegalTransition(state, event);
+      }
+      return Ok({
+        studentId: state.studentId,
+        courseId: state.courseId,
+        semester: state.semester,
+        status: 'rejected',
+        requestedAt: state.requestedAt,
+        rejectedAt: event.data.rejectedAt,
+        rejectedBy: event.data.rejectedBy,
+        rejectionReason: event.data.reason,
+        version: event.version
+      });
+    }
+
+    default: {
+      const unknownEvent: never = event;
+      return Err(createValidationError(
+        `Unknown event type: ${(unknownEvent as EnrollmentDomainEvent).eventType}`,
+        'UNKNOWN_EVENT_TYPE'
+      ));
+    }
+  }
+}
+
 // === イベントストリームからの状態復元 ===
+// 旧バージョンの形で記録されたイベントも受け付ける（upcaster で現在の形に揃えてから畳み込む）
 export function reconstructEnrollmentFromEvents(
-  events: EnrollmentDomainEvent[]
-): Result<RequestedEnrollment | null, EnrollmentError> {
-  if (events.length === 0) {
+  storedEvents: ReadonlyArray<RawDomainEvent>
+): Result<Enrollment | null, EnrollmentError> {
+  if (storedEvents.length === 0) {
     return Ok(null);
   }
+
+  const upcasted = upcastDomainEvents(storedEvents);
+  if (!upcasted.success) {
+    return upcasted;
+  }
+  const events = upcasted.data;
   
   // イベントシーケンスの検証
   if (!validateEventSequence(events)) {
@@ -116,38 +577,66 @@ export function reconstructEnrollmentFromEvents(
     ));
   }
   
-  const sortedEvents = sortEventsByVersion(events);
-  const firstEvent = sortedEvents[0];
-  
-  if (!firstEvent) {
-    return Err(createValidationError(
-      'No events to reconstruct from',
-      'NO_EVENTS'
-    ));
-  }
-  
-  // 最初のイベントから状態を復元
-  if (firstEvent.eventType === 'EnrollmentRequested') {
-    const enrollment: RequestedEnrollment = {
-      studentId: firstEvent.studentId,
-      courseId: firstEvent.courseId,
-      semester: firstEvent.data.semester,
-      status: 'requested',
-      requestedAt: firstEvent.data.requestedAt,
-      version: firstEvent.version
-    };
-    
-    return Ok(enrollment);
+  // 全イベントを順に畳み込む（fold）
+  return foldEvents(null, sortEventsByVersion(events));
+}
+
+/**
+ * 既知の状態に後続イベントを畳み込む
+ *
+ * スナップショットなど途中の状態から復元する場合にも利用できる
+ */
+export function foldEvents(
+  initial: Enrollment | null,
+  events: EnrollmentDomainEvent[]
+): Result<Enrollment | null, EnrollmentError> {
+  let state: Enrollment | null = initial;
+
+  for (const event of events) {
+    const next = applyEvent(state, event);
+    if (!next.success) {
+      return next;
+    }
+    state = next.data;
   }
-  
-  return Err(createValidationError(
-    'First event must be EnrollmentRequested',
-    'INVALID_FIRST_EVENT'
-  ));
+
+  return Ok(state);
 }
 
 // === 内部ヘルパー関数 ===
 
+// 不正な状態遷移エラー
+function illegalTransition(
+  state: Enrollment | null,
+  event: EnrollmentDomainEvent
+): Result<Enrollment, EnrollmentError> {
+  const currentStatus = state?.status ?? 'none';
+  return Err(createBusinessRuleError(
+    'ILLEGAL_EVENT_TRANSITION',
+    `Cannot apply ${event.eventType} to enrollment in status ${currentStatus}`,
+    'INVALID_STATE_TRANSITION',
+    {
+      currentStatus,
+      eventType: event.eventType,
+      version: event.version,
+      ...(state?.status === 'rejected' && { rejectionReason: state.rejectionReason })
+    }
+  ));
+}
+
+// 状態遷移エラーのコンテキスト（却下済みの場合は理由を含める）
+function transitionErrorContext(
+  enrollment: Enrollment,
+  attemptedStatus: Enrollment['status']
+): Record<string, unknown> {
+  return {
+    currentStatus: enrollment.status,
+    attemptedStatus,
+    version: enrollment.version,
+    ...(enrollment.status === 'rejected' && { rejectionReason: enrollment.rejectionReason })
+  };
+}
+
 // 入力検証（Result型パイプライン使用）
 function validateInputs(input: {
   studentId: string;
@@ -243,18 +732,67 @@ function applyBusinessRules(input: {
   return Ok(undefined);
 }
 
+// 取消期限チェック
+function checkCancellationDeadline(
+  requestedAt: Date,
+  now: Date,
+  policy: CancellationPolicy
+): Result<void, EnrollmentError> {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const deadline = new Date(requestedAt.getTime() + policy.cancellationDeadlineDays * DAY_MS);
+  const graceEndsAt = new Date(deadline.getTime() + policy.gracePeriodHours * HOUR_MS);
+
+  if (now.getTime() > graceEndsAt.getTime()) {
+    return Err(createBusinessRuleError(
+      'CANCELLATION_DEADLINE',
+      `Cancellation deadline has passed (deadline: ${deadline.toISOString()}, grace period until: ${graceEndsAt.toISOString()})`,
+      'CANCELLATION_DEADLINE_PASSED',
+      {
+        requestedAt: requestedAt.toISOString(),
+        deadline: deadline.toISOString(),
+        gracePeriodEndsAt: graceEndsAt.toISOString(),
+        cancellationDeadlineDays: policy.cancellationDeadlineDays,
+        gracePeriodHours: policy.gracePeriodHours
+      }
+    ));
+  }
+
+  return Ok(undefined);
+}
+
 // RequestedEnrollment作成
 function createRequestedEnrollment(
   studentId: StudentId,
   courseId: CourseId,
-  semester: Semester
+  semester: Semester,
+  requestedAt: Date
 ): RequestedEnrollment {
   return {
     studentId,
     courseId,
     semester,
     status: 'requested',
-    requestedAt: new Date(),
+    requestedAt,
+    version: 1
+  };
+}
+
+// WaitlistedEnrollment作成（ウェイトリスト登録時刻を申請時刻とする）
+function createWaitlistedEnrollment(
+  studentId: StudentId,
+  courseId: CourseId,
+  semester: Semester,
+  waitlistedAt: Date
+): WaitlistedEnrollment {
+  return {
+    studentId,
+    courseId,
+    semester,
+    status: 'waitlisted',
+    requestedAt: waitlistedAt,
+    waitlistedAt,
     version: 1
   };
 }
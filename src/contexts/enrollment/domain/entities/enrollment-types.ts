@@ -24,6 +24,13 @@ export const RequestedEnrollmentSchema = EnrollmentBaseSchema.extend({
   requestedAt: z.date()
 });
 
+// 定員超過時にウェイトリストへ登録された状態（席が空くと requested に昇格）
+export const WaitlistedEnrollmentSchema = EnrollmentBaseSchema.extend({
+  status: z.literal('waitlisted'),
+  requestedAt: z.date(),
+  waitlistedAt: z.date()
+});
+
 export const ApprovedEnrollmentSchema = EnrollmentBaseSchema.extend({
   status: z.literal('approved'),
   requestedAt: z.date(),
@@ -38,14 +45,57 @@ export const CancelledEnrollmentSchema = EnrollmentBaseSchema.extend({
   cancelReason: z.string().optional()
 });
 
+// === 却下理由（構造化された理由コード + 自由記述） ===
+export const RejectionReasonCodeSchema = z.enum([
+  'PREREQUISITES_NOT_MET',
+  'COURSE_FULL',
+  'SCHEDULE_CONFLICT',
+  'ACADEMIC_STANDING',
+  'ADMINISTRATIVE',
+  'OTHER'
+]);
+
+export const RejectionReasonSchema = z.object({
+  code: RejectionReasonCodeSchema,
+  text: z.string().optional()
+});
+
+export const RejectedEnrollmentSchema = EnrollmentBaseSchema.extend({
+  status: z.literal('rejected'),
+  requestedAt: z.date(),
+  rejectedAt: z.date(),
+  rejectedBy: z.string(),
+  rejectionReason: RejectionReasonSchema
+});
+
 export const EnrollmentSchema = z.discriminatedUnion('status', [
   RequestedEnrollmentSchema,
+  WaitlistedEnrollmentSchema,
   ApprovedEnrollmentSchema,
-  CancelledEnrollmentSchema
+  CancelledEnrollmentSchema,
+  RejectedEnrollmentSchema
 ]);
 
 // === 型定義 ===
 export type RequestedEnrollment = z.infer<typeof RequestedEnrollmentSchema>;
+export type WaitlistedEnrollment = z.infer<typeof WaitlistedEnrollmentSchema>;
 export type ApprovedEnrollment = z.infer<typeof ApprovedEnrollmentSchema>;
 export type CancelledEnrollment = z.infer<typeof CancelledEnrollmentSchema>;
-export type Enrollment = z.infer<typeof EnrollmentSchema>;
\ No newline at end of file
+export type RejectionReasonCode = z.infer<typeof RejectionReasonCodeSchema>;
+export type RejectionReason = z.infer<typeof RejectionReasonSchema>;
+export type RejectedEnrollment = z.infer<typeof RejectedEnrollmentSchema>;
+export type Enrollment = z.infer<typeof EnrollmentSchema>;
+
+// === 状態の分類 ===
+
+/**
+ * 履修枠を消費している状態（履修上限・定員の計算対象）
+ * ウェイトリスト登録中（waitlisted）は席を消費しないため含まない
+ */
+export const ACTIVE_ENROLLMENT_STATUSES: ReadonlyArray<Enrollment['status']> = ['requested', 'approved'];
+
+export const isActiveEnrollment = (enrollment: Enrollment): boolean =>
+  ACTIVE_ENROLLMENT_STATUSES.includes(enrollment.status);
+
+export const isWaitlistedEnrollment = (enrollment: Enrollment): enrollment is WaitlistedEnrollment =>
+  enrollment.status === 'waitlisted';
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { CourseIdSchema, SemesterSchema, type CourseId } from '../../../../shared/types/index';
+
+/**
+ * 前提科目ドメイン型
+ *
+ * 科目カタログが持つ前提条件ツリーと、学生の修得済み科目履歴を表現
+ * - AND/OR の入れ子で複雑な前提条件を表現
+ * - 葉ノードごとに最低成績を指定可能
+ */
+
+// === 成績 ===
+export const GradeSchema = z.enum(['A', 'B', 'C', 'D', 'F']);
+
+export type Grade = z.infer<typeof GradeSchema>;
+
+// 成績の序列（大きいほど良い）
+const GRADE_RANK: Record<Grade, number> = { A: 4, B: 3, C: 2, D: 1, F: 0 };
+
+/**
+ * 成績が最低成績以上かどうか
+ * 最低成績の指定がない場合は合格（F以外）であればよい
+ */
+export const meetsMinimumGrade = (grade: Grade, minimumGrade?: Grade): boolean =>
+  minimumGrade === undefined
+    ? grade !== 'F'
+    : GRADE_RANK[grade] >= GRADE_RANK[minimumGrade];
+
+// === 前提条件ツリー ===
+export type PrerequisiteTree =
+  | { type: 'course'; courseId: CourseId; minimumGrade?: Grade }
+  | { type: 'all'; requirements: PrerequisiteTree[] }
+  | { type: 'any'; requirements: PrerequisiteTree[] };
+
+export const PrerequisiteTreeSchema: z.ZodType<PrerequisiteTree, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('course'),
+      courseId: CourseIdSchema,
+      minimumGrade: GradeSchema.optional()
+    }),
+    z.object({
+      type: z.literal('all'),
+      requirements: z.array(PrerequisiteTreeSchema).min(1)
+    }),
+    z.object({
+      type: z.literal('any'),
+      requirements: z.array(PrerequisiteTreeSchema).min(1)
+    })
+  ])
+) as z.ZodType<PrerequisiteTree, z.ZodTypeDef, unknown>;
+
+// === 修得済み科目 ===
+export const CompletedCourseSchema = z.object({
+  courseId: CourseIdSchema,
+  semester: SemesterSchema,
+  grade: GradeSchema
+});
+
+export type CompletedCourse = z.infer<typeof CompletedCourseSchema>;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import type { CourseId } from '../../../../shared/types/index';
+
+/**
+ * 時間割ドメイン型
+ *
+ * 科目開講（科目×学期）ごとの授業時間を表現
+ * - 曜日と開始・終了時刻（HH:MM、24時間表記）
+ * - 実施期間（集中講義や学期前半のみの授業に対応するため日付範囲を持つ）
+ */
+
+// === 曜日 ===
+export const WeekdaySchema = z.enum(['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN']);
+
+export type Weekday = z.infer<typeof WeekdaySchema>;
+
+// === 時刻（HH:MM） ===
+export const TimeOfDaySchema = z.string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+export type TimeOfDay = z.infer<typeof TimeOfDaySchema>;
+
+// === 授業時間 ===
+export const MeetingTimeSchema = z.object({
+  weekday: WeekdaySchema,
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema,
+  startDate: z.date(),
+  endDate: z.date()
+}).refine(
+  meeting => meeting.startTime < meeting.endTime,
+  { message: 'startTime must be before endTime', path: ['endTime'] }
+).refine(
+  meeting => meeting.startDate.getTime() <= meeting.endDate.getTime(),
+  { message: 'startDate must not be after endDate', path: ['endDate'] }
+);
+
+export type MeetingTime = z.infer<typeof MeetingTimeSchema>;
+
+// === 科目ごとの時間割 ===
+export interface CourseSchedule {
+  courseId: CourseId;
+  meetingTimes: MeetingTime[];
+}
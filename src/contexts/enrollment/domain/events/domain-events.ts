@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { StudentIdSchema, CourseIdSchema, SemesterSchema } from '../../../../shared/types/index';
+import { RejectionReasonSchema, type RejectionReason } from '../entities/enrollment-types';
 
 /**
  * ドメインイベント設計思想
@@ -12,6 +13,18 @@ import { StudentIdSchema, CourseIdSchema, SemesterSchema } from '../../../../sha
  * 5. 将来への拡張性: 新しい機能がイベントを購読することで追加可能
  */
 
+// === イベントスキーマのバージョン ===
+// イベントの形を変えたらそのイベントのバージョンを上げ、
+// 旧バージョンからの upcaster を upcasters.ts に登録する
+export const EVENT_SCHEMA_VERSIONS = {
+  EnrollmentRequested: 2,
+  EnrollmentWaitlisted: 2,
+  WaitlistPromoted: 2,
+  EnrollmentApproved: 2,
+  EnrollmentCancelled: 2,
+  EnrollmentRejected: 2
+} as const;
+
 // === イベントの共通構造 ===
 export const DomainEventBaseSchema = z.object({
   // 集約の識別子
@@ -22,6 +35,7 @@ export const DomainEventBaseSchema = z.object({
   eventType: z.string(),
   occurredAt: z.date(),
   version: z.number().int().positive(), // 楽観的ロック用
+  schemaVersion: z.number().int().positive(), // イベントの形のバージョン（EVENT_SCHEMA_VERSIONS）
   
   // トレーサビリティ
   correlationId: z.string().uuid().optional(), // 一連の処理を追跡するID
@@ -42,10 +56,79 @@ export const EnrollmentRequestedEventSchema = DomainEventBaseSchema.extend({
 
 export type EnrollmentRequestedEvent = z.infer<typeof EnrollmentRequestedEventSchema>;
 
+// === ウェイトリスト登録イベント ===
+// 定員超過時に申請の代わりに発生する最初のイベント
+export const EnrollmentWaitlistedEventSchema = DomainEventBaseSchema.extend({
+  eventType: z.literal('EnrollmentWaitlisted'),
+  data: z.object({
+    semester: SemesterSchema,
+    waitlistedAt: z.date(),
+    metadata: z.record(z.unknown()).optional()
+  })
+});
+
+export type EnrollmentWaitlistedEvent = z.infer<typeof EnrollmentWaitlistedEventSchema>;
+
+// === ウェイトリスト昇格イベント ===
+export const WaitlistPromotedEventSchema = DomainEventBaseSchema.extend({
+  eventType: z.literal('WaitlistPromoted'),
+  data: z.object({
+    semester: SemesterSchema,
+    promotedAt: z.date(),
+    metadata: z.record(z.unknown()).optional()
+  })
+});
+
+export type WaitlistPromotedEvent = z.infer<typeof WaitlistPromotedEventSchema>;
+
+// === 履修承認イベント ===
+export const EnrollmentApprovedEventSchema = DomainEventBaseSchema.extend({
+  eventType: z.literal('EnrollmentApproved'),
+  data: z.object({
+    semester: SemesterSchema,
+    approvedAt: z.date(),
+    approvedBy: z.string().min(1),
+    metadata: z.record(z.unknown()).optional()
+  })
+});
+
+export type EnrollmentApprovedEvent = z.infer<typeof EnrollmentApprovedEventSchema>;
+
+// === 履修取消イベント ===
+export const EnrollmentCancelledEventSchema = DomainEventBaseSchema.extend({
+  eventType: z.literal('EnrollmentCancelled'),
+  data: z.object({
+    semester: SemesterSchema,
+    cancelledAt: z.date(),
+    cancelReason: z.string().optional(),
+    metadata: z.record(z.unknown()).optional()
+  })
+});
+
+export type EnrollmentCancelledEvent = z.infer<typeof EnrollmentCancelledEventSchema>;
+
+// === 履修却下イベント ===
+export const EnrollmentRejectedEventSchema = DomainEventBaseSchema.extend({
+  eventType: z.literal('EnrollmentRejected'),
+  data: z.object({
+    semester: SemesterSchema,
+    rejectedAt: z.date(),
+    rejectedBy: z.string().min(1),
+    reason: RejectionReasonSchema,
+    metadata: z.record(z.unknown()).optional()
+  })
+});
+
+export type EnrollmentRejectedEvent = z.infer<typeof EnrollmentRejectedEventSchema>;
+
 // === イベント統合型（将来のイベント追加に備えて） ===
 export const EnrollmentDomainEventSchema = z.discriminatedUnion('eventType', [
-  EnrollmentRequestedEventSchema
-  // 将来追加: EnrollmentApprovedEventSchema, EnrollmentCancelledEventSchema など
+  EnrollmentRequestedEventSchema,
+  EnrollmentWaitlistedEventSchema,
+  WaitlistPromotedEventSchema,
+  EnrollmentApprovedEventSchema,
+  EnrollmentCancelledEventSchema,
+  EnrollmentRejectedEventSchema
 ]);
 
 export type EnrollmentDomainEvent = z.infer<typeof EnrollmentDomainEventSchema>;
@@ -70,6 +153,7 @@ export const createEnrollmentRequestedEvent = (
     eventType: 'EnrollmentRequested',
     occurredAt: now,
     version,
+    schemaVersion: EVENT_SCHEMA_VERSIONS.EnrollmentRequested,
     correlationId: options?.correlationId,
     causationId: options?.causationId,
     data: {
@@ -80,12 +164,193 @@ export const createEnrollmentRequestedEvent = (
   });
 };
 
+export const createEnrollmentWaitlistedEvent = (
+  studentId: z.infer<typeof StudentIdSchema>,
+  courseId: z.infer<typeof CourseIdSchema>,
+  semester: z.infer<typeof SemesterSchema>,
+  version: number = 1,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentWaitlistedEvent => {
+  const now = new Date();
+
+  return EnrollmentWaitlistedEventSchema.parse({
+    studentId,
+    courseId,
+    eventType: 'EnrollmentWaitlisted',
+    occurredAt: now,
+    version,
+    schemaVersion: EVENT_SCHEMA_VERSIONS.EnrollmentWaitlisted,
+    correlationId: options?.correlationId,
+    causationId: options?.causationId,
+    data: {
+      semester,
+      waitlistedAt: now,
+      metadata: options?.metadata
+    }
+  });
+};
+
+export const createWaitlistPromotedEvent = (
+  studentId: z.infer<typeof StudentIdSchema>,
+  courseId: z.infer<typeof CourseIdSchema>,
+  semester: z.infer<typeof SemesterSchema>,
+  promotedAt: Date,
+  version: number,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): WaitlistPromotedEvent => {
+  return WaitlistPromotedEventSchema.parse({
+    studentId,
+    courseId,
+    eventType: 'WaitlistPromoted',
+    occurredAt: promotedAt,
+    version,
+    schemaVersion: EVENT_SCHEMA_VERSIONS.WaitlistPromoted,
+    correlationId: options?.correlationId,
+    causationId: options?.causationId,
+    data: {
+      semester,
+      promotedAt,
+      metadata: options?.metadata
+    }
+  });
+};
+
+export const createEnrollmentApprovedEvent = (
+  studentId: z.infer<typeof StudentIdSchema>,
+  courseId: z.infer<typeof CourseIdSchema>,
+  semester: z.infer<typeof SemesterSchema>,
+  approvedBy: string,
+  version: number,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentApprovedEvent => {
+  const now = new Date();
+
+  return EnrollmentApprovedEventSchema.parse({
+    studentId,
+    courseId,
+    eventType: 'EnrollmentApproved',
+    occurredAt: now,
+    version,
+    schemaVersion: EVENT_SCHEMA_VERSIONS.EnrollmentApproved,
+    correlationId: options?.correlationId,
+    causationId: options?.causationId,
+    data: {
+      semester,
+      approvedAt: now,
+      approvedBy,
+      metadata: options?.metadata
+    }
+  });
+};
+
+export const createEnrollmentCancelledEvent = (
+  studentId: z.infer<typeof StudentIdSchema>,
+  courseId: z.infer<typeof CourseIdSchema>,
+  semester: z.infer<typeof SemesterSchema>,
+  cancelledAt: Date,
+  version: number,
+  options?: {
+    cancelReason?: string;
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentCancelledEvent => {
+  return EnrollmentCancelledEventSchema.parse({
+    studentId,
+    courseId,
+    eventType: 'EnrollmentCancelled',
+    occurredAt: cancelledAt,
+    version,
+    schemaVersion: EVENT_SCHEMA_VERSIONS.EnrollmentCancelled,
+    correlationId: options?.correlationId,
+    causationId: options?.causationId,
+    data: {
+      semester,
+      cancelledAt,
+      cancelReason: options?.cancelReason,
+      metadata: options?.metadata
+    }
+  });
+};
+
+export const createEnrollmentRejectedEvent = (
+  studentId: z.infer<typeof StudentIdSchema>,
+  courseId: z.infer<typeof CourseIdSchema>,
+  semester: z.infer<typeof SemesterSchema>,
+  rejectedBy: string,
+  reason: RejectionReason,
+  version: number,
+  options?: {
+    correlationId?: string;
+    causationId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): EnrollmentRejectedEvent => {
+  const now = new Date();
+
+  return EnrollmentRejectedEventSchema.parse({
+    studentId,
+    courseId,
+    eventType: 'EnrollmentRejected',
+    occurredAt: now,
+    version,
+    schemaVersion: EVENT_SCHEMA_VERSIONS.EnrollmentRejected,
+    correlationId: options?.correlationId,
+    causationId: options?.causationId,
+    data: {
+      semester,
+      rejectedAt: now,
+      rejectedBy,
+      reason,
+      metadata: options?.metadata
+    }
+  });
+};
+
 // === イベント分析ヘルパー ===
 export const isEnrollmentRequestedEvent = (
   event: EnrollmentDomainEvent
 ): event is EnrollmentRequestedEvent =>
   event.eventType === 'EnrollmentRequested';
 
+export const isEnrollmentWaitlistedEvent = (
+  event: EnrollmentDomainEvent
+): event is EnrollmentWaitlistedEvent =>
+  event.eventType === 'EnrollmentWaitlisted';
+
+export const isWaitlistPromotedEvent = (
+  event: EnrollmentDomainEvent
+): event is WaitlistPromotedEvent =>
+  event.eventType === 'WaitlistPromoted';
+
+export const isEnrollmentApprovedEvent = (
+  event: EnrollmentDomainEvent
+): event is EnrollmentApprovedEvent =>
+  event.eventType === 'EnrollmentApproved';
+
+export const isEnrollmentCancelledEvent = (
+  event: EnrollmentDomainEvent
+): event is EnrollmentCancelledEvent =>
+  event.eventType === 'EnrollmentCancelled';
+
+export const isEnrollmentRejectedEvent = (
+  event: EnrollmentDomainEvent
+): event is EnrollmentRejectedEvent =>
+  event.eventType === 'EnrollmentRejected';
+
 // === イベントストリーム操作 ===
 export const sortEventsByVersion = (events: EnrollmentDomainEvent[]): EnrollmentDomainEvent[] =>
   [...events].sort((a, b) => a.version - b.version);
@@ -107,8 +372,9 @@ export const validateEventSequence = (events: EnrollmentDomainEvent[]): boolean
     }
   }
   
-  // 最初のイベントはEnrollmentRequestedである必要がある
-  return sorted.length > 0 && sorted[0]?.eventType === 'EnrollmentRequested';
+  // 最初のイベントはEnrollmentRequested（定員超過時はEnrollmentWaitlisted）である必要がある
+  const firstEventType = sorted[0]?.eventType;
+  return firstEventType === 'EnrollmentRequested' || firstEventType === 'EnrollmentWaitlisted';
 };
 
 /**
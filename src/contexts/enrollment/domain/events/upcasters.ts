@@ -0,0 +1,181 @@
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import { type EnrollmentError, createValidationError } from '../errors/errors';
+import {
+  EVENT_SCHEMA_VERSIONS,
+  EnrollmentDomainEventSchema,
+  type EnrollmentDomainEvent
+} from './domain-events';
+
+/**
+ * イベントの upcaster（旧バージョンのイベントを現在の形へ変換する）
+ *
+ * なぜ保存済みのイベントを書き換えないのか？
+ * イベントは不変の事実であり、過去の記録は書かれた当時の形のまま残す。
+ * 形の違いは読み込み時に吸収し、集約やプロジェクションは常に現在の形だけを扱う
+ *
+ * 変換の流れ
+ * - schemaVersion を持たない記録はバージョン導入前のもの（LEGACY_EVENT_SCHEMA_VERSION）として扱う
+ * - 現在のバージョン（EVENT_SCHEMA_VERSIONS）に達するまで、1 つずつ upcaster を適用する
+ * - upcaster はプレーンなオブジェクトを受け取る（日付はストア由来なら文字列、メモリ上なら Date）
+ * - 未知のイベントタイプには手を付けない（判定は後続のスキーマ検証・シーケンス検証に任せる）
+ */
+
+export type RawDomainEvent = Readonly<Record<string, unknown>>;
+
+type EnrollmentEventType = EnrollmentDomainEvent['eventType'];
+
+export interface EventUpcaster {
+  readonly eventType: EnrollmentEventType;
+  readonly fromVersion: number;
+  // fromVersion + 1 の形（schemaVersion を含む）を返す
+  readonly upcast: (event: RawDomainEvent) => RawDomainEvent;
+}
+
+export type UpcasterRegistry = ReadonlyMap<string, EventUpcaster>;
+
+/**
+ * schemaVersion 導入前に記録されたイベントのバージョン
+ */
+export const LEGACY_EVENT_SCHEMA_VERSION = 1;
+
+// === 登録済みの upcaster ===
+
+// v1 → v2: schemaVersion 導入前の記録。データの形は同じで、バージョンを明示するだけ
+const tagLegacyEvent = (eventType: EnrollmentEventType): EventUpcaster => ({
+  eventType,
+  fromVersion: 1,
+  upcast: event => ({ ...event, schemaVersion: 2 })
+});
+
+export const EVENT_UPCASTERS: ReadonlyArray<EventUpcaster> = [
+  tagLegacyEvent('EnrollmentRequested'),
+  tagLegacyEvent('EnrollmentWaitlisted'),
+  tagLegacyEvent('WaitlistPromoted'),
+  tagLegacyEvent('EnrollmentApproved'),
+  tagLegacyEvent('EnrollmentCancelled'),
+  tagLegacyEvent('EnrollmentRejected')
+];
+
+/**
+ * upcaster をイベントタイプとバージョンで引けるようにする
+ */
+export function createUpcasterRegistry(upcasters: ReadonlyArray<EventUpcaster>): UpcasterRegistry {
+  return new Map(upcasters.map(upcaster => [upcasterKey(upcaster.eventType, upcaster.fromVersion), upcaster]));
+}
+
+const defaultRegistry = createUpcasterRegistry(EVENT_UPCASTERS);
+
+/**
+ * 保存されていた形のイベントを現在のバージョンまで変換
+ *
+ * スキーマ検証は行わない（呼び出し側が日付の復元などと合わせて検証する）
+ */
+export function upcastEvent(
+  raw: unknown,
+  registry: UpcasterRegistry = defaultRegistry
+): Result<unknown, EnrollmentError> {
+  if (!isPlainObject(raw) || !isKnownEventType(raw.eventType)) {
+    return Ok(raw);
+  }
+
+  const eventType = raw.eventType;
+  const currentVersion = EVENT_SCHEMA_VERSIONS[eventType];
+  let event: RawDomainEvent = raw;
+  let schemaVersion = readSchemaVersion(event);
+
+  if (schemaVersion === null || schemaVersion > currentVersion) {
+    return Err(createValidationError(
+      `Unsupported schema version for ${eventType}: ${String(event.schemaVersion)}`,
+      'UNSUPPORTED_EVENT_SCHEMA_VERSION',
+      'schemaVersion',
+      event.schemaVersion
+    ));
+  }
+
+  while (schemaVersion < currentVersion) {
+    const upcaster = registry.get(upcasterKey(eventType, schemaVersion));
+    if (!upcaster) {
+      return Err(createValidationError(
+        `No upcaster registered for ${eventType} v${schemaVersion}`,
+        'MISSING_EVENT_UPCASTER',
+        'schemaVersion',
+        schemaVersion
+      ));
+    }
+
+    event = upcaster.upcast(event);
+    const nextVersion = readSchemaVersion(event);
+    if (nextVersion !== schemaVersion + 1) {
+      return Err(createValidationError(
+        `Upcaster for ${eventType} v${schemaVersion} did not produce v${schemaVersion + 1}`,
+        'INVALID_UPCASTER_RESULT',
+        'schemaVersion',
+        event.schemaVersion
+      ));
+    }
+    schemaVersion = nextVersion;
+  }
+
+  return Ok(event);
+}
+
+/**
+ * メモリ上のイベント列を現在の形に揃える
+ *
+ * 既に現在のバージョンのイベントはそのまま返し、変換したものだけスキーマで検証する
+ */
+export function upcastDomainEvents(
+  events: ReadonlyArray<RawDomainEvent>,
+  registry: UpcasterRegistry = defaultRegistry
+): Result<EnrollmentDomainEvent[], EnrollmentError> {
+  const upcasted: EnrollmentDomainEvent[] = [];
+
+  for (const event of events) {
+    const result = upcastEvent(event, registry);
+    if (!result.success) {
+      return result;
+    }
+
+    if (result.data === event) {
+      upcasted.push(event as EnrollmentDomainEvent);
+      continue;
+    }
+
+    const parsed = EnrollmentDomainEventSchema.safeParse(result.data);
+    if (!parsed.success) {
+      return Err(createValidationError(
+        'Upcasted event does not match event schema',
+        'INVALID_UPCASTED_EVENT',
+        undefined,
+        { issues: parsed.error.issues }
+      ));
+    }
+    upcasted.push(parsed.data);
+  }
+
+  return Ok(upcasted);
+}
+
+// === 内部ヘルパー関数 ===
+
+function upcasterKey(eventType: string, fromVersion: number): string {
+  return `${eventType}@${fromVersion}`;
+}
+
+function readSchemaVersion(event: RawDomainEvent): number | null {
+  const schemaVersion = event.schemaVersion;
+  if (schemaVersion === undefined) {
+    return LEGACY_EVENT_SCHEMA_VERSION;
+  }
+  return typeof schemaVersion === 'number' && Number.isInteger(schemaVersion) && schemaVersion > 0
+    ? schemaVersion
+    : null;
+}
+
+function isKnownEventType(eventType: unknown): eventType is EnrollmentEventType {
+  return typeof eventType === 'string' && Object.hasOwn(EVENT_SCHEMA_VERSIONS, eventType);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,69 @@
+import {
+  type PrerequisiteTree,
+  type CompletedCourse,
+  meetsMinimumGrade
+} from '../entities/prerequisite-types';
+
+/**
+ * 前提科目評価ドメインサービス
+ *
+ * 前提条件ツリーを修得済み科目に照らして評価する純粋関数群
+ * - all: すべての子条件を満たす必要がある（未充足の子条件をすべて報告）
+ * - any: いずれかの子条件を満たせばよい（全滅の場合はノード全体を報告）
+ * - course: 指定科目を最低成績以上で修得している
+ */
+
+export interface PrerequisiteEvaluation {
+  satisfied: boolean;
+  unmet: PrerequisiteTree[];
+}
+
+/**
+ * 前提条件ツリーの評価
+ */
+export function evaluatePrerequisites(
+  tree: PrerequisiteTree,
+  completedCourses: CompletedCourse[]
+): PrerequisiteEvaluation {
+  switch (tree.type) {
+    case 'course': {
+      const satisfied = completedCourses.some(completed =>
+        completed.courseId === tree.courseId &&
+        meetsMinimumGrade(completed.grade, tree.minimumGrade)
+      );
+      return { satisfied, unmet: satisfied ? [] : [tree] };
+    }
+
+    case 'all': {
+      const unmet = tree.requirements.flatMap(
+        requirement => evaluatePrerequisites(requirement, completedCourses).unmet
+      );
+      return { satisfied: unmet.length === 0, unmet };
+    }
+
+    case 'any': {
+      const satisfied = tree.requirements.some(
+        requirement => evaluatePrerequisites(requirement, completedCourses).satisfied
+      );
+      return { satisfied, unmet: satisfied ? [] : [tree] };
+    }
+  }
+}
+
+/**
+ * 前提条件の人が読める表現（エラーメッセージ用）
+ *
+ * 例: "CS100 (min C)", "(CS100 OR CS110)", "(MA101 AND MA102)"
+ */
+export function describePrerequisite(tree: PrerequisiteTree): string {
+  switch (tree.type) {
+    case 'course':
+      return tree.minimumGrade
+        ? `${tree.courseId} (min ${tree.minimumGrade})`
+        : tree.courseId;
+    case 'all':
+      return `(${tree.requirements.map(describePrerequisite).join(' AND ')})`;
+    case 'any':
+      return `(${tree.requirements.map(describePrerequisite).join(' OR ')})`;
+  }
+}
@@ -0,0 +1,57 @@
+import type { CourseId } from '../../../../shared/types/index';
+import type { MeetingTime, CourseSchedule } from '../entities/schedule-types';
+
+/**
+ * 時間割衝突検出ドメインサービス
+ *
+ * 申請科目の授業時間を、学生の有効な履修（requested / approved）の授業時間と照合する純粋関数群
+ * - 同じ曜日で時刻帯が重なり、かつ実施期間が重なる場合に衝突とみなす
+ * - 終了時刻と開始時刻が一致する連続授業は衝突としない
+ */
+
+export interface ScheduleConflict {
+  conflictingCourseId: CourseId;
+  requestedMeeting: MeetingTime;
+  conflictingMeeting: MeetingTime;
+}
+
+/**
+ * 2つの授業時間が重なるかどうか
+ */
+export function meetingTimesOverlap(a: MeetingTime, b: MeetingTime): boolean {
+  if (a.weekday !== b.weekday) {
+    return false;
+  }
+
+  // HH:MM 形式なので文字列比較で時刻の大小を判定できる
+  const timesOverlap = a.startTime < b.endTime && b.startTime < a.endTime;
+  const datesOverlap =
+    a.startDate.getTime() <= b.endDate.getTime() &&
+    b.startDate.getTime() <= a.endDate.getTime();
+
+  return timesOverlap && datesOverlap;
+}
+
+/**
+ * 申請科目と既存履修科目の時間割衝突を列挙
+ *
+ * 同一科目は比較対象から除外する（重複申請は別のルールで検出する）
+ */
+export function detectScheduleConflicts(
+  requested: CourseSchedule,
+  existing: CourseSchedule[]
+): ScheduleConflict[] {
+  return existing
+    .filter(schedule => schedule.courseId !== requested.courseId)
+    .flatMap(schedule =>
+      requested.meetingTimes.flatMap(requestedMeeting =>
+        schedule.meetingTimes
+          .filter(conflictingMeeting => meetingTimesOverlap(requestedMeeting, conflictingMeeting))
+          .map(conflictingMeeting => ({
+            conflictingCourseId: schedule.courseId,
+            requestedMeeting,
+            conflictingMeeting
+          }))
+      )
+    );
+}
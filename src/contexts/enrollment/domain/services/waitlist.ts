@@ -0,0 +1,45 @@
+import type { StudentId } from '../../../../shared/types/index';
+import {
+  type Enrollment,
+  type WaitlistedEnrollment,
+  isWaitlistedEnrollment
+} from '../entities/enrollment-types';
+
+/**
+ * ウェイトリストドメインサービス
+ *
+ * 科目開講（科目×学期）ごとのウェイトリストの順番を決める純粋関数群
+ * - 順番はウェイトリスト登録時刻（waitlistedAt）の昇順
+ * - 同時刻の場合は学生IDで順序を確定させる（復元のたびに順番が変わらないように）
+ * - 位置は1始まり
+ */
+
+/**
+ * ウェイトリスト登録中の履修を順番に並べる
+ */
+export function orderWaitlist(enrollments: Enrollment[]): WaitlistedEnrollment[] {
+  return enrollments
+    .filter(isWaitlistedEnrollment)
+    .sort((a, b) =>
+      a.waitlistedAt.getTime() - b.waitlistedAt.getTime() ||
+      a.studentId.localeCompare(b.studentId)
+    );
+}
+
+/**
+ * 学生のウェイトリスト上の位置（登録されていない場合はnull）
+ */
+export function findWaitlistPosition(
+  waitlist: WaitlistedEnrollment[],
+  studentId: StudentId
+): number | null {
+  const index = orderWaitlist(waitlist).findIndex(enrollment => enrollment.studentId === studentId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * 次に昇格させるウェイトリスト登録（空の場合はnull）
+ */
+export function nextInWaitlist(waitlist: WaitlistedEnrollment[]): WaitlistedEnrollment | null {
+  return orderWaitlist(waitlist)[0] ?? null;
+}
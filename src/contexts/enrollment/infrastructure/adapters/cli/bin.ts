@@ -0,0 +1,9 @@
+import { runEnrollmentCli } from './main';
+
+/**
+ * CLI の実行ファイル（npm run build で dist/enrollment.js にバンドルする）
+ *
+ * 相対 import を拡張子なしで書いているため、tsc の出力をそのまま node では実行できない。
+ * esbuild で1ファイルにまとめ、依存パッケージ（better-sqlite3・zod）だけを外部参照として残す。
+ */
+process.exitCode = await runEnrollmentCli(process.argv.slice(2));
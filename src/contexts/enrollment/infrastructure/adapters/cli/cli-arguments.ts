@@ -0,0 +1,197 @@
+import { Ok, Err, type Result } from '../../../../../shared/types/index';
+import { createValidationError } from '../../../domain/errors/errors';
+import type { ErrorResponse } from '../../../application/commands/dto';
+import { mapErrorToResponse } from '../../../application/commands/dto';
+
+// === コマンドライン引数 ===
+
+/**
+ * サブコマンドと引数（値の検証はハンドラーに任せる）
+ */
+export type CliCommand =
+  | { name: 'request'; studentId: string; courseId: string; semester: string; joinWaitlist: boolean }
+  | { name: 'show'; studentId: string; courseId: string; semester: string }
+  | { name: 'events'; studentId: string; courseId: string; semester: string }
+  | {
+    name: 'list';
+    studentId: string;
+    semester?: string;
+    status?: string;
+    page?: number;
+    pageSize?: number;
+  }
+  | { name: 'help' };
+
+export interface CliInvocation {
+  command: CliCommand;
+  json: boolean;         // 結果を JSON で出力する
+  storePath?: string;    // イベントストア（FileEventStore）のディレクトリ
+  catalogPath?: string;  // 学生・科目カタログ（JSON）のファイル
+}
+
+export const CLI_USAGE = `Usage: enrollment <command> [arguments] [options]
+
+Commands:
+  request <studentId> <courseId> <semester>   Request an enrollment (--waitlist to join the waitlist when full)
+  show <studentId> <courseId> <semester>      Show an enrollment
+  events <studentId> <courseId> <semester>    Show the event history of an enrollment
+  list <studentId>                            List a student's enrollments
+                                              (--semester, --status, --page, --page-size)
+
+Options:
+  --store <path>     Event store directory (default: $ENROLLMENT_STORE_PATH or ./enrollment-events)
+  --catalog <path>   Student and course catalog JSON (default: $ENROLLMENT_CATALOG_PATH or ./catalog.json)
+  --json             Print results as JSON
+  --help             Show this help
+
+Exit codes:
+  0 success, 1 internal error, 2 ValidationError, 3 BusinessRuleError, 4 NotFoundError, 5 ConcurrencyError
+`;
+
+// 値を取るオプション・フラグ（全サブコマンド共通）
+const GLOBAL_VALUE_OPTIONS = ['store', 'catalog'];
+const GLOBAL_FLAGS = ['json', 'help'];
+
+const COMMAND_VALUE_OPTIONS: Record<string, ReadonlyArray<string>> = {
+  list: ['semester', 'status', 'page', 'page-size']
+};
+const COMMAND_FLAGS: Record<string, ReadonlyArray<string>> = {
+  request: ['waitlist']
+};
+
+// サブコマンドごとの位置引数
+const COMMAND_POSITIONALS: Record<string, ReadonlyArray<string>> = {
+  request: ['studentId', 'courseId', 'semester'],
+  show: ['studentId', 'courseId', 'semester'],
+  events: ['studentId', 'courseId', 'semester'],
+  list: ['studentId']
+};
+
+/**
+ * コマンドライン引数の解析
+ *
+ * - オプションは --name value または --name=value（サブコマンドの前後どちらでもよい）
+ * - 未知のサブコマンド・オプション、位置引数の過不足は ValidationError（INVALID_ARGUMENTS）
+ * - --help があれば他の引数に関わらず help を返す
+ */
+export function parseCliArguments(args: ReadonlyArray<string>): Result<CliInvocation, ErrorResponse> {
+  const positionals: string[] = [];
+  const values = new Map<string, string>();
+  const flags = new Set<string>();
+  const options: Array<{ name: string; value: string | undefined }> = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]!;
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    if (separator >= 0) {
+      options.push({ name: arg.slice(2, separator), value: arg.slice(separator + 1) });
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = args[index + 1];
+    // 値を取るかどうかはサブコマンドが決まるまでわからないため、フラグ以外は次の引数を値とする
+    if (!GLOBAL_FLAGS.includes(name) && !Object.values(COMMAND_FLAGS).some(names => names.includes(name))) {
+      options.push({ name, value: next });
+      index++;
+    } else {
+      options.push({ name, value: undefined });
+    }
+  }
+
+  if (options.some(option => option.name === 'help' && option.value === undefined)) {
+    return Ok({ command: { name: 'help' }, json: false });
+  }
+
+  const [commandName, ...commandArgs] = positionals;
+  if (commandName === undefined) {
+    return invalidArguments('A command is required', 'command', undefined);
+  }
+
+  const expectedPositionals = COMMAND_POSITIONALS[commandName];
+  if (!expectedPositionals) {
+    return invalidArguments(`Unknown command: ${commandName}`, 'command', commandName);
+  }
+  if (commandArgs.length !== expectedPositionals.length) {
+    return invalidArguments(
+      `${commandName} expects ${expectedPositionals.map(name => `<${name}>`).join(' ')}`,
+      'arguments',
+      commandArgs
+    );
+  }
+
+  const valueOptions = [...GLOBAL_VALUE_OPTIONS, ...(COMMAND_VALUE_OPTIONS[commandName] ?? [])];
+  const flagOptions = [...GLOBAL_FLAGS, ...(COMMAND_FLAGS[commandName] ?? [])];
+  for (const { name, value } of options) {
+    if (flagOptions.includes(name)) {
+      if (value !== undefined) {
+        return invalidArguments(`Option --${name} does not take a value`, name, value);
+      }
+      flags.add(name);
+    } else if (valueOptions.includes(name)) {
+      if (value === undefined || value.startsWith('--')) {
+        return invalidArguments(`Option --${name} requires a value`, name, value);
+      }
+      values.set(name, value);
+    } else {
+      return invalidArguments(`Unknown option for ${commandName}: --${name}`, name, value);
+    }
+  }
+
+  const [studentId = '', courseId = '', semester = ''] = commandArgs;
+  const command = buildCommand(commandName, { studentId, courseId, semester }, values, flags);
+  if (!command) {
+    return invalidArguments(`Unknown command: ${commandName}`, 'command', commandName);
+  }
+
+  const storePath = values.get('store');
+  const catalogPath = values.get('catalog');
+  return Ok({
+    command,
+    json: flags.has('json'),
+    ...(storePath !== undefined && { storePath }),
+    ...(catalogPath !== undefined && { catalogPath })
+  });
+}
+
+// === Private Helper Functions ===
+
+function buildCommand(
+  name: string,
+  target: { studentId: string; courseId: string; semester: string },
+  values: Map<string, string>,
+  flags: Set<string>
+): CliCommand | null {
+  switch (name) {
+    case 'request':
+      return { name, ...target, joinWaitlist: flags.has('waitlist') };
+    case 'show':
+    case 'events':
+      return { name, ...target };
+    case 'list': {
+      const semester = values.get('semester');
+      const status = values.get('status');
+      const page = values.get('page');
+      const pageSize = values.get('page-size');
+      return {
+        name,
+        studentId: target.studentId,
+        ...(semester !== undefined && { semester }),
+        ...(status !== undefined && { status }),
+        ...(page !== undefined && { page: Number(page) }),
+        ...(pageSize !== undefined && { pageSize: Number(pageSize) })
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function invalidArguments(message: string, field: string, value: unknown): Result<CliInvocation, ErrorResponse> {
+  return Err(mapErrorToResponse(createValidationError(message, 'INVALID_ARGUMENTS', field, value)));
+}
@@ -0,0 +1,268 @@
+import { Ok, Err, type Result } from '../../../../../shared/types/index';
+import {
+  StudentIdSchema,
+  CourseIdSchema,
+  SemesterSchema
+} from '../../../../../shared/types/index';
+import { createNotFoundError, createValidationError } from '../../../domain/errors/errors';
+import type { EnrollmentDomainEvent } from '../../../domain/events/domain-events';
+
+import type { CommandHandler } from '../../../application/bus/command-bus';
+import type { QueryHandler } from '../../../application/bus/query-bus';
+import type { IEnrollmentRepository } from '../../../application/ports/ports';
+import type { RequestEnrollmentCommand, ErrorResponse } from '../../../application/commands/dto';
+import { mapErrorToResponse } from '../../../application/commands/dto';
+import type {
+  EnrollmentResponse,
+  EnrollmentListResponse
+} from '../../../application/queries/dto';
+import { ListStudentEnrollmentsQuerySchema } from '../../../application/queries/dto';
+
+import { isServerError } from '../http/error-status';
+import { CLI_USAGE, type CliCommand, type CliInvocation } from './cli-arguments';
+import { formatRecord, formatTable } from './table-format';
+
+// === 入出力 ===
+
+export interface CliOutput {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+}
+
+/**
+ * 履修のイベント履歴の取得元（events サブコマンド）
+ */
+export type EnrollmentEventHistory = Pick<IEnrollmentRepository, 'getEventStream'>;
+
+// 結果の JSON 表現と端末向けの表現
+interface CliView {
+  json: unknown;
+  text: string;
+}
+
+// === 終了コード ===
+
+export const CLI_EXIT_SUCCESS = 0;
+
+// 利用者の入力ではなくストアなどの障害
+export const CLI_EXIT_INTERNAL_ERROR = 1;
+
+export const CLI_EXIT_CODES: Record<ErrorResponse['type'], number> = {
+  ValidationError: 2,
+  BusinessRuleError: 3,
+  NotFoundError: 4,
+  ConcurrencyError: 5
+};
+
+/**
+ * エラーDTOから終了コードへの対応（エラー種別ごと、障害は CLI_EXIT_INTERNAL_ERROR）
+ */
+export function exitCodeForError(error: ErrorResponse): number {
+  return isServerError(error) ? CLI_EXIT_INTERNAL_ERROR : CLI_EXIT_CODES[error.type];
+}
+
+/**
+ * エラーの出力（標準エラー出力）
+ */
+export function writeCliError(error: ErrorResponse, json: boolean, output: CliOutput): number {
+  output.stderr.write(json
+    ? `${JSON.stringify(error, null, 2)}\n`
+    : `Error: ${error.message} (${error.type}: ${error.code})\n`);
+  return exitCodeForError(error);
+}
+
+// === CLI ===
+
+/**
+ * 教務担当者向けの履修管理 CLI
+ *
+ * サブコマンド:
+ * - request  履修申請（RequestEnrollmentCommandHandler）
+ * - show     履修の取得（GetEnrollmentQueryHandler）
+ * - events   履修のイベント履歴（リポジトリの getEventStream）
+ * - list     学生の履修一覧（ListStudentEnrollmentsQueryHandler）
+ *
+ * 結果は標準出力に表または JSON（--json）で、エラーは標準エラー出力に書く。
+ * 終了コードはエラーDTOの種別を表す（exitCodeForError）。
+ * ストアやカタログの準備は runEnrollmentCli が行う。
+ */
+export class EnrollmentCli {
+  constructor(
+    private readonly requestEnrollmentHandler: CommandHandler<RequestEnrollmentCommand>,
+    private readonly getEnrollmentHandler: QueryHandler<'GetEnrollment'>,
+    private readonly listStudentEnrollmentsHandler: QueryHandler<'ListStudentEnrollments'>,
+    private readonly eventHistory: EnrollmentEventHistory
+  ) {}
+
+  /**
+   * サブコマンドの実行
+   *
+   * @returns 終了コード
+   */
+  async run(invocation: CliInvocation, output: CliOutput): Promise<number> {
+    let result: Result<CliView, ErrorResponse>;
+    try {
+      result = await this.execute(invocation.command);
+    } catch (error) {
+      result = Err(mapErrorToResponse(createValidationError(
+        'Unexpected error while running the command',
+        'INTERNAL_ERROR',
+        undefined,
+        { error: String(error) }
+      )));
+    }
+
+    if (!result.success) {
+      return writeCliError(result.error, invocation.json, output);
+    }
+
+    output.stdout.write(invocation.json ? `${JSON.stringify(result.data.json, null, 2)}\n` : result.data.text);
+    return CLI_EXIT_SUCCESS;
+  }
+
+  private async execute(command: CliCommand): Promise<Result<CliView, ErrorResponse>> {
+    switch (command.name) {
+      case 'request':
+        return this.requestEnrollment(command);
+      case 'show':
+        return this.showEnrollment(command);
+      case 'events':
+        return this.showEvents(command);
+      case 'list':
+        return this.listEnrollments(command);
+      case 'help':
+        return Ok({ json: { usage: CLI_USAGE }, text: CLI_USAGE });
+    }
+  }
+
+  // === サブコマンド ===
+
+  private async requestEnrollment(
+    command: Extract<CliCommand, { name: 'request' }>
+  ): Promise<Result<CliView, ErrorResponse>> {
+    const result = await this.requestEnrollmentHandler.handle({
+      studentId: command.studentId,
+      courseId: command.courseId,
+      semester: command.semester,
+      ...(command.joinWaitlist && { joinWaitlist: true })
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    return Ok({ json: result.data, text: formatEnrollment(result.data) });
+  }
+
+  private async showEnrollment(
+    command: Extract<CliCommand, { name: 'show' }>
+  ): Promise<Result<CliView, ErrorResponse>> {
+    const { studentId, courseId, semester } = command;
+    const result = await this.getEnrollmentHandler.handle({ studentId, courseId, semester });
+    if (!result.success) {
+      return result;
+    }
+    if (!result.data) {
+      return Err(mapErrorToResponse(createNotFoundError('Enrollment', `${studentId}-${courseId}-${semester}`)));
+    }
+
+    return Ok({ json: result.data, text: formatEnrollment(result.data) });
+  }
+
+  private async showEvents(
+    command: Extract<CliCommand, { name: 'events' }>
+  ): Promise<Result<CliView, ErrorResponse>> {
+    const studentId = StudentIdSchema.safeParse(command.studentId);
+    if (!studentId.success) {
+      return invalidIdentifier('student ID', 'INVALID_STUDENT_ID', 'studentId', command.studentId);
+    }
+    const courseId = CourseIdSchema.safeParse(command.courseId);
+    if (!courseId.success) {
+      return invalidIdentifier('course ID', 'INVALID_COURSE_ID', 'courseId', command.courseId);
+    }
+    const semester = SemesterSchema.safeParse(command.semester);
+    if (!semester.success) {
+      return invalidIdentifier('semester', 'INVALID_SEMESTER', 'semester', command.semester);
+    }
+
+    const result = await this.eventHistory.getEventStream(studentId.data, courseId.data, semester.data);
+    if (!result.success) {
+      return Err(mapErrorToResponse(result.error));
+    }
+    if (result.data.length === 0) {
+      return Err(mapErrorToResponse(createNotFoundError(
+        'Enrollment',
+        `${command.studentId}-${command.courseId}-${command.semester}`
+      )));
+    }
+
+    return Ok({ json: result.data, text: formatEvents(result.data) });
+  }
+
+  private async listEnrollments(
+    command: Extract<CliCommand, { name: 'list' }>
+  ): Promise<Result<CliView, ErrorResponse>> {
+    // 状態は文字列で受け取るため、ここで一覧の状態フィルターに絞り込む（他の値の検証はハンドラーが行う）
+    const status = ListStudentEnrollmentsQuerySchema.shape.status.safeParse(command.status);
+    if (!status.success) {
+      return Err(mapErrorToResponse(createValidationError(
+        `Invalid status: ${command.status}`,
+        'INVALID_STATUS',
+        'status',
+        command.status
+      )));
+    }
+
+    const result = await this.listStudentEnrollmentsHandler.handle({
+      studentId: command.studentId,
+      ...(command.semester !== undefined && { semester: command.semester }),
+      ...(status.data !== undefined && { status: status.data }),
+      ...(command.page !== undefined && { page: command.page }),
+      ...(command.pageSize !== undefined && { pageSize: command.pageSize })
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    return Ok({ json: result.data, text: formatEnrollmentList(result.data) });
+  }
+}
+
+// === Private Helper Functions ===
+
+function invalidIdentifier(
+  label: string,
+  code: string,
+  field: string,
+  value: string
+): Result<CliView, ErrorResponse> {
+  return Err(mapErrorToResponse(createValidationError(`Invalid ${label} format: ${value}`, code, field, value)));
+}
+
+function formatEnrollment(enrollment: EnrollmentResponse): string {
+  return formatRecord(Object.entries(enrollment));
+}
+
+function formatEvents(events: ReadonlyArray<EnrollmentDomainEvent>): string {
+  return formatTable<EnrollmentDomainEvent>([
+    { header: 'VERSION', value: event => String(event.version) },
+    { header: 'EVENT', value: event => event.eventType },
+    { header: 'OCCURRED AT', value: event => event.occurredAt.toISOString() },
+    { header: 'DATA', value: event => JSON.stringify(event.data) }
+  ], events);
+}
+
+function formatEnrollmentList(list: EnrollmentListResponse): string {
+  if (list.enrollments.length === 0) {
+    return 'No enrollments found.\n';
+  }
+
+  const table = formatTable<EnrollmentResponse>([
+    { header: 'COURSE', value: enrollment => enrollment.courseId },
+    { header: 'SEMESTER', value: enrollment => enrollment.semester },
+    { header: 'STATUS', value: enrollment => enrollment.status },
+    { header: 'REQUESTED AT', value: enrollment => enrollment.requestedAt },
+    { header: 'VERSION', value: enrollment => String(enrollment.version) }
+  ], list.enrollments);
+  const page = list.page !== undefined ? ` (page ${list.page})` : '';
+  return `${table}${list.enrollments.length} of ${list.total} enrollments${page}\n`;
+}
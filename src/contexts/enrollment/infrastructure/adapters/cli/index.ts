@@ -0,0 +1,40 @@
+/**
+ * CLI - 統合エクスポート
+ *
+ * 教務担当者向けの履修管理 CLI
+ * - コマンドライン引数の解析
+ * - サブコマンドの実行と表・JSON の出力
+ * - エラー種別ごとの終了コード
+ * - ファイルのイベントストアと JSON カタログを使った実行
+ */
+
+// === 実装 ===
+export {
+  EnrollmentCli,
+  CLI_EXIT_SUCCESS,
+  CLI_EXIT_INTERNAL_ERROR,
+  CLI_EXIT_CODES,
+  exitCodeForError,
+  writeCliError,
+  type CliOutput,
+  type EnrollmentEventHistory
+} from './enrollment-cli';
+
+export {
+  parseCliArguments,
+  CLI_USAGE,
+  type CliCommand,
+  type CliInvocation
+} from './cli-arguments';
+
+export {
+  formatTable,
+  formatRecord,
+  type TableColumn
+} from './table-format';
+
+export {
+  runEnrollmentCli,
+  DEFAULT_STORE_PATH,
+  DEFAULT_CATALOG_PATH
+} from './main';
@@ -0,0 +1,100 @@
+import { Ok, type Result } from '../../../../../shared/types/index';
+import type { EnrollmentError } from '../../../domain/errors/errors';
+import { mapErrorToResponse } from '../../../application/commands/dto';
+import { RequestEnrollmentCommandHandler } from '../../../application/commands/request-enrollment-command';
+import {
+  GetEnrollmentQueryHandler,
+  ListStudentEnrollmentsQueryHandler
+} from '../../../application/queries/index';
+
+import { FileEventStore, InMemoryCheckpointStore } from '../../event-store/index';
+import {
+  ProjectionRunner,
+  EnrollmentDetailsProjection,
+  StudentEnrollmentsProjection
+} from '../../projections/index';
+import { EventSourcedEnrollmentRepository } from '../../repositories/event-sourced-enrollment-repository';
+import {
+  loadJsonCatalog,
+  createJsonCatalogRepositories,
+  type JsonCatalogRepositories
+} from '../../repositories/json-catalog';
+
+import { CLI_USAGE, parseCliArguments } from './cli-arguments';
+import {
+  EnrollmentCli,
+  CLI_EXIT_SUCCESS,
+  writeCliError,
+  type CliOutput
+} from './enrollment-cli';
+
+export const DEFAULT_STORE_PATH = 'enrollment-events';
+export const DEFAULT_CATALOG_PATH = 'catalog.json';
+
+// 読み取りモデルを使うサブコマンド（実行前にプロジェクションを追いつかせる）
+const READ_MODEL_COMMANDS = new Set(['show', 'list']);
+
+/**
+ * CLI の実行（引数の解析からサブコマンドの出力まで）
+ *
+ * - イベントストアはディレクトリ上の FileEventStore（1履修 = 1ファイル）
+ * - 配信予定は同じストアの outbox に記録する（CLI は配信しない）
+ *   同じディレクトリを開いた OutboxDispatcher が後から配信する
+ * - 学生・科目の情報は JSON カタログから読む（request のみ）
+ * - show・list は起動のたびにプロジェクションをイベントストアの先頭から構築して読む
+ *
+ * @returns 終了コード
+ */
+export async function runEnrollmentCli(
+  args: ReadonlyArray<string>,
+  output: CliOutput = process,
+  env: Record<string, string | undefined> = process.env
+): Promise<number> {
+  const invocationResult = parseCliArguments(args);
+  if (!invocationResult.success) {
+    output.stderr.write(CLI_USAGE);
+    return writeCliError(invocationResult.error, args.includes('--json'), output);
+  }
+
+  const invocation = invocationResult.data;
+  if (invocation.command.name === 'help') {
+    output.stdout.write(CLI_USAGE);
+    return CLI_EXIT_SUCCESS;
+  }
+
+  // request 以外はカタログを参照しない
+  const catalogResult: Result<JsonCatalogRepositories, EnrollmentError> = invocation.command.name === 'request'
+    ? await loadJsonCatalog(invocation.catalogPath ?? env.ENROLLMENT_CATALOG_PATH ?? DEFAULT_CATALOG_PATH)
+    : Ok(createJsonCatalogRepositories());
+  if (!catalogResult.success) {
+    return writeCliError(mapErrorToResponse(catalogResult.error), invocation.json, output);
+  }
+
+  const eventStore = new FileEventStore(invocation.storePath ?? env.ENROLLMENT_STORE_PATH ?? DEFAULT_STORE_PATH);
+  const details = new EnrollmentDetailsProjection();
+  const studentEnrollments = new StudentEnrollmentsProjection();
+  const runner = new ProjectionRunner(eventStore, new InMemoryCheckpointStore());
+  runner.register(details);
+  runner.register(studentEnrollments);
+
+  try {
+    if (READ_MODEL_COMMANDS.has(invocation.command.name)) {
+      const startResult = await runner.start();
+      if (!startResult.success) {
+        return writeCliError(mapErrorToResponse(startResult.error), invocation.json, output);
+      }
+    }
+
+    const repository = new EventSourcedEnrollmentRepository(eventStore, undefined, eventStore);
+    const { students, courses } = catalogResult.data;
+    const cli = new EnrollmentCli(
+      new RequestEnrollmentCommandHandler(repository, students, courses),
+      new GetEnrollmentQueryHandler(details),
+      new ListStudentEnrollmentsQueryHandler(studentEnrollments),
+      repository
+    );
+    return await cli.run(invocation, output);
+  } finally {
+    await runner.stop();
+  }
+}
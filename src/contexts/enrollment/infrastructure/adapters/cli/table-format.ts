@@ -0,0 +1,53 @@
+/**
+ * 端末向けの表の整形
+ *
+ * 列幅は各列の最長の値に合わせる（全角文字の幅は考慮しない）
+ */
+
+export interface TableColumn<T> {
+  header: string;
+  value(row: T): string;
+}
+
+/**
+ * 見出し付きの表（1行 = 1レコード）
+ */
+export function formatTable<T>(columns: ReadonlyArray<TableColumn<T>>, rows: ReadonlyArray<T>): string {
+  const cells = rows.map(row => columns.map(column => column.value(row)));
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map(row => row[index]!.length))
+  );
+
+  const line = (values: ReadonlyArray<string>) =>
+    values.map((value, index) => value.padEnd(widths[index]!)).join('  ').trimEnd();
+
+  return [
+    line(columns.map(column => column.header)),
+    line(widths.map(width => '-'.repeat(width))),
+    ...cells.map(line)
+  ].join('\n') + '\n';
+}
+
+/**
+ * 1レコードの項目名と値の一覧（値のない項目は省く）
+ */
+export function formatRecord(fields: ReadonlyArray<[label: string, value: unknown]>): string {
+  const present = fields.filter(([, value]) => value !== undefined && value !== null);
+  const width = Math.max(0, ...present.map(([label]) => label.length));
+
+  return present
+    .map(([label, value]) => `${label.padEnd(width)}  ${formatValue(value)}`)
+    .join('\n') + '\n';
+}
+
+// === Private Helper Functions ===
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return JSON.stringify(value);
+}
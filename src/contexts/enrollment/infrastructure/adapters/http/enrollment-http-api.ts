@@ -0,0 +1,420 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { Ok, Err, type Result } from '../../../../../shared/types/index';
+import type { ZodIssue } from 'zod';
+import {
+  type EnrollmentError,
+  createBusinessRuleError,
+  createNotFoundError,
+  createValidationError
+} from '../../../domain/errors/errors';
+
+import type { CommandHandler } from '../../../application/bus/command-bus';
+import type { QueryHandler } from '../../../application/bus/query-bus';
+import type { RequestEnrollmentCommand, ErrorResponse } from '../../../application/commands/dto';
+import { RequestEnrollmentCommandSchema, mapErrorToResponse } from '../../../application/commands/dto';
+import {
+  ListStudentEnrollmentsQuerySchema,
+  GetCourseRosterQuerySchema
+} from '../../../application/queries/dto';
+
+import { httpStatusForError } from './error-status';
+
+// === HTTP の入出力 ===
+
+/**
+ * ルーティングに渡すリクエスト（本文は読み込み済み）
+ */
+export interface HttpRequest {
+  method: string;
+  url: string;  // パスとクエリ文字列
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;  // JSON に変換して返す
+}
+
+type RouteParams = Record<string, string>;
+
+interface Route {
+  method: 'GET' | 'POST';
+  segments: ReadonlyArray<string>;  // ':' で始まるセグメントはパラメータ
+  handle(params: RouteParams, request: HttpRequest, searchParams: URLSearchParams): Promise<HttpResponse>;
+}
+
+// 受け付けるリクエスト本文の上限
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const JSON_HEADERS = { 'content-type': 'application/json; charset=utf-8' };
+
+// === HTTP API ===
+
+/**
+ * 履修管理の HTTP API（Node 標準の http モジュール）
+ *
+ * エンドポイント:
+ * - POST /enrollments                                 履修申請（Idempotency-Key ヘッダーで冪等性キーを指定可能）
+ * - GET  /enrollments/:studentId/:courseId/:semester  履修の取得
+ * - GET  /students/:studentId/enrollments             学生の履修一覧（semester・status・page・pageSize）
+ * - GET  /courses/:courseId/:semester/roster          科目の名簿（sortOrder）
+ *
+ * 本文・クエリ文字列からコマンド・クエリを項目ごとに組み立て、ハンドラーと同じスキーマで検証してから渡す。
+ * エラーの判定はハンドラーに任せ、エラーDTOは httpStatusForError でステータスに変換する。
+ * handle はソケットを使わずにルーティングだけを行う（createServer で http.Server に載せる）。
+ */
+export class EnrollmentHttpApi {
+  private readonly routes: ReadonlyArray<Route>;
+
+  constructor(
+    private readonly requestEnrollmentHandler: CommandHandler<RequestEnrollmentCommand>,
+    private readonly getEnrollmentHandler: QueryHandler<'GetEnrollment'>,
+    private readonly listStudentEnrollmentsHandler: QueryHandler<'ListStudentEnrollments'>,
+    private readonly getCourseRosterHandler: QueryHandler<'GetCourseRoster'>
+  ) {
+    this.routes = [
+      {
+        method: 'POST',
+        segments: ['enrollments'],
+        handle: (_params, request) => this.requestEnrollment(request)
+      },
+      {
+        method: 'GET',
+        segments: ['enrollments', ':studentId', ':courseId', ':semester'],
+        handle: params => this.getEnrollment(params)
+      },
+      {
+        method: 'GET',
+        segments: ['students', ':studentId', 'enrollments'],
+        handle: (params, _request, searchParams) => this.listStudentEnrollments(params, searchParams)
+      },
+      {
+        method: 'GET',
+        segments: ['courses', ':courseId', ':semester', 'roster'],
+        handle: (params, _request, searchParams) => this.getCourseRoster(params, searchParams)
+      }
+    ];
+  }
+
+  /**
+   * リクエストのルーティングと実行
+   *
+   * - 該当するパスがなければ 404、メソッドが違えば 405（Allow ヘッダー付き）
+   * - ハンドラーが例外を投げた場合は 500（INTERNAL_ERROR）
+   */
+  async handle(request: HttpRequest): Promise<HttpResponse> {
+    const url = new URL(request.url, 'http://localhost');
+
+    let pathSegments: string[];
+    try {
+      pathSegments = url.pathname.split('/').filter(segment => segment.length > 0).map(decodeURIComponent);
+    } catch {
+      return errorResponse(mapErrorToResponse(createValidationError(
+        'Malformed URL path',
+        'INVALID_PATH',
+        'path',
+        url.pathname
+      )));
+    }
+
+    const matches = this.routes
+      .map(route => ({ route, params: matchSegments(route.segments, pathSegments) }))
+      .filter((match): match is { route: Route; params: RouteParams } => match.params !== null);
+
+    if (matches.length === 0) {
+      return errorResponse(mapErrorToResponse(createNotFoundError('Route', url.pathname)));
+    }
+
+    const match = matches.find(({ route }) => route.method === request.method.toUpperCase());
+    if (!match) {
+      const allowed = matches.map(({ route }) => route.method).join(', ');
+      return {
+        ...errorResponse(mapErrorToResponse(createValidationError(
+          `Method ${request.method} is not allowed for ${url.pathname}`,
+          'METHOD_NOT_ALLOWED',
+          'method',
+          request.method
+        ))),
+        status: 405,
+        headers: { ...JSON_HEADERS, allow: allowed }
+      };
+    }
+
+    try {
+      return await match.route.handle(match.params, request, url.searchParams);
+    } catch (error) {
+      return errorResponse(mapErrorToResponse(createValidationError(
+        'Unexpected error while handling the request',
+        'INTERNAL_ERROR',
+        undefined,
+        { error: String(error) }
+      )));
+    }
+  }
+
+  /**
+   * Node の http リクエストリスナー
+   *
+   * 応答の書き込みに失敗した場合は 500 で応答を終える
+   */
+  requestListener(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      this.respond(req, res).catch(error => {
+        if (!res.headersSent) {
+          res.writeHead(500, JSON_HEADERS);
+        }
+        res.end(JSON.stringify(mapErrorToResponse(createValidationError(
+          'Unexpected error while writing the response',
+          'INTERNAL_ERROR',
+          undefined,
+          { error: String(error) }
+        ))));
+      });
+    };
+  }
+
+  /**
+   * http.Server の作成（listen は呼び出し側で行う）
+   */
+  createServer(): Server {
+    return createServer(this.requestListener());
+  }
+
+  // === エンドポイント ===
+
+  private async requestEnrollment(request: HttpRequest): Promise<HttpResponse> {
+    const bodyResult = parseJsonObject(request.body);
+    if (!bodyResult.success) {
+      return errorResponse(bodyResult.error);
+    }
+
+    // 本文で指定されていなければ Idempotency-Key ヘッダーを冪等性キーとして使う
+    const body = bodyResult.data;
+    const commandResult = RequestEnrollmentCommandSchema.safeParse({
+      studentId: body.studentId,
+      courseId: body.courseId,
+      semester: body.semester,
+      joinWaitlist: body.joinWaitlist,
+      metadata: body.metadata,
+      correlationId: body.correlationId,
+      causationId: body.causationId,
+      idempotencyKey: body.idempotencyKey !== undefined
+        ? body.idempotencyKey
+        : headerValue(request.headers, 'idempotency-key')
+    });
+    if (!commandResult.success) {
+      return errorResponse(mapErrorToResponse(invalidCommandFormat(commandResult.error.issues)));
+    }
+
+    const command: RequestEnrollmentCommand = commandResult.data;
+    const result = await this.requestEnrollmentHandler.handle(command);
+    if (!result.success) {
+      return errorResponse(result.error);
+    }
+
+    const { studentId, courseId, semester } = result.data;
+    return {
+      status: 201,
+      headers: { ...JSON_HEADERS, location: enrollmentPath(studentId, courseId, semester) },
+      body: result.data
+    };
+  }
+
+  private async getEnrollment(params: RouteParams): Promise<HttpResponse> {
+    const { studentId = '', courseId = '', semester = '' } = params;
+    const result = await this.getEnrollmentHandler.handle({ studentId, courseId, semester });
+    if (!result.success) {
+      return errorResponse(result.error);
+    }
+    if (!result.data) {
+      return errorResponse(mapErrorToResponse(
+        createNotFoundError('Enrollment', `${studentId}-${courseId}-${semester}`)
+      ));
+    }
+
+    return jsonResponse(200, result.data);
+  }
+
+  private async listStudentEnrollments(
+    params: RouteParams,
+    searchParams: URLSearchParams
+  ): Promise<HttpResponse> {
+    const semester = searchParams.get('semester');
+    const status = searchParams.get('status');
+    const page = searchParams.get('page');
+    const pageSize = searchParams.get('pageSize');
+
+    const queryResult = ListStudentEnrollmentsQuerySchema.safeParse({
+      studentId: params.studentId ?? '',
+      semester: semester ?? undefined,
+      status: status ?? undefined,
+      page: page !== null ? Number(page) : undefined,
+      pageSize: pageSize !== null ? Number(pageSize) : undefined
+    });
+    if (!queryResult.success) {
+      return errorResponse(mapErrorToResponse(invalidQueryFormat(queryResult.error.issues)));
+    }
+
+    const result = await this.listStudentEnrollmentsHandler.handle(queryResult.data);
+    if (!result.success) {
+      return errorResponse(result.error);
+    }
+
+    return jsonResponse(200, result.data);
+  }
+
+  private async getCourseRoster(
+    params: RouteParams,
+    searchParams: URLSearchParams
+  ): Promise<HttpResponse> {
+    const sortOrder = searchParams.get('sortOrder');
+
+    const queryResult = GetCourseRosterQuerySchema.safeParse({
+      courseId: params.courseId ?? '',
+      semester: params.semester ?? '',
+      sortOrder: sortOrder ?? undefined
+    });
+    if (!queryResult.success) {
+      return errorResponse(mapErrorToResponse(invalidQueryFormat(queryResult.error.issues)));
+    }
+
+    const result = await this.getCourseRosterHandler.handle(queryResult.data);
+    if (!result.success) {
+      return errorResponse(result.error);
+    }
+
+    return jsonResponse(200, result.data);
+  }
+
+  // === Node の http との変換 ===
+
+  private async respond(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let response: HttpResponse;
+    try {
+      const body = await readBody(req);
+      response = body === null
+        ? {
+          ...errorResponse(mapErrorToResponse(createValidationError(
+            `Request body exceeds ${MAX_BODY_BYTES} bytes`,
+            'PAYLOAD_TOO_LARGE'
+          ))),
+          status: 413
+        }
+        : await this.handle({
+          method: req.method ?? 'GET',
+          url: req.url ?? '/',
+          headers: req.headers,
+          body
+        });
+    } catch (error) {
+      response = errorResponse(mapErrorToResponse(createValidationError(
+        'Failed to read the request',
+        'INTERNAL_ERROR',
+        undefined,
+        { error: String(error) }
+      )));
+    }
+
+    // 変換に失敗した場合にヘッダーを送らずに済むよう、先に本文を JSON に変換する
+    const payload = JSON.stringify(response.body);
+    res.writeHead(response.status, response.headers);
+    res.end(payload);
+  }
+}
+
+// === Private Helper Functions ===
+
+function matchSegments(pattern: ReadonlyArray<string>, path: ReadonlyArray<string>): RouteParams | null {
+  if (pattern.length !== path.length) {
+    return null;
+  }
+
+  const params: RouteParams = {};
+  for (const [index, segment] of pattern.entries()) {
+    const value = path[index]!;
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = value;
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function jsonResponse(status: number, body: unknown): HttpResponse {
+  return { status, headers: { ...JSON_HEADERS }, body };
+}
+
+function errorResponse(error: ErrorResponse): HttpResponse {
+  return jsonResponse(httpStatusForError(error), error);
+}
+
+function enrollmentPath(studentId: string, courseId: string, semester: string): string {
+  return `/${['enrollments', studentId, courseId, semester].map(encodeURIComponent).join('/')}`;
+}
+
+function headerValue(headers: HttpRequest['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * コマンドの検証エラー（ハンドラーの入力検証と同じ形）
+ */
+function invalidCommandFormat(issues: ZodIssue[]): EnrollmentError {
+  return createBusinessRuleError(
+    'INPUT_VALIDATION',
+    'Invalid input format',
+    'INVALID_COMMAND_FORMAT',
+    { validationErrors: issues }
+  );
+}
+
+/**
+ * クエリの検証エラー（ハンドラーの入力検証と同じ形）
+ */
+function invalidQueryFormat(issues: ZodIssue[]): EnrollmentError {
+  return {
+    type: 'ValidationError',
+    message: 'Invalid query format',
+    code: 'INVALID_QUERY_FORMAT',
+    timestamp: new Date(),
+    details: { validationErrors: issues }
+  };
+}
+
+function parseJsonObject(body: string): Result<Record<string, unknown>, ErrorResponse> {
+  const invalid = (message: string): Result<Record<string, unknown>, ErrorResponse> =>
+    Err(mapErrorToResponse(createValidationError(message, 'INVALID_JSON_BODY', 'body')));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return invalid('Request body must be valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return invalid('Request body must be a JSON object');
+  }
+  return Ok(parsed as Record<string, unknown>);
+}
+
+/**
+ * リクエスト本文の読み込み（上限を超えたら null）
+ *
+ * 上限を超えても応答を返せるよう、残りは読み捨てる
+ */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(buffer);
+    }
+  }
+  return size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8');
+}
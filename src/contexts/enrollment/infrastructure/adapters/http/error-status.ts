@@ -0,0 +1,59 @@
+import type { ErrorResponse } from '../../../application/commands/dto';
+
+/**
+ * エラーDTOから HTTP ステータスコードへの対応
+ *
+ * - ValidationError: 400（入力の誤り）
+ * - NotFoundError: 404
+ * - ConcurrencyError・重複: 409（同じ履修への競合する操作）
+ * - BusinessRuleError: 422（形式は正しいがビジネスルールに反する）
+ *
+ * リポジトリやイベントストアの障害も ValidationError で返るため、コードで 500 に振り分ける。
+ * コマンドの入力検証エラーは BusinessRuleError（rule: INPUT_VALIDATION）のため 400 とする。
+ */
+
+// 利用者の入力ではなくサーバー側の障害を表すコード
+const SERVER_ERROR_CODES = new Set([
+  'INTERNAL_ERROR',
+  'REPOSITORY_ERROR',
+  'EVENT_STORE_IO_ERROR',
+  'EVENT_STORE_CORRUPTED',
+  'INVALID_STORED_EVENT',
+  'INVALID_STORED_OUTBOX_ENTRY',
+  'INVALID_STORED_PARKED_MESSAGE',
+  'OUTBOX_NOT_CONFIGURED',
+  'OUTBOX_WITHOUT_EVENTS'
+]);
+
+// 既存の履修や実行中のコマンドと衝突するビジネスルール違反
+const CONFLICT_CODES = new Set([
+  'DUPLICATE_ENROLLMENT',
+  'IDEMPOTENCY_KEY_IN_PROGRESS'
+]);
+
+/**
+ * 利用者の入力ではなくサーバー側の障害によるエラーか
+ */
+export function isServerError(error: ErrorResponse): boolean {
+  return SERVER_ERROR_CODES.has(error.code);
+}
+
+export function httpStatusForError(error: ErrorResponse): number {
+  if (isServerError(error)) {
+    return 500;
+  }
+
+  switch (error.type) {
+    case 'ValidationError':
+      return 400;
+    case 'NotFoundError':
+      return 404;
+    case 'ConcurrencyError':
+      return 409;
+    case 'BusinessRuleError':
+      if (error.rule === 'INPUT_VALIDATION') {
+        return 400;
+      }
+      return CONFLICT_CODES.has(error.code) ? 409 : 422;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * HTTP - 統合エクスポート
+ *
+ * 履修管理の HTTP API（Node 標準の http モジュール）
+ * - ルーティングとハンドラーの呼び出し
+ * - エラーDTOから HTTP ステータスコードへの対応
+ * - OpenAPI 3.1 ドキュメントの生成
+ */
+
+// === 実装 ===
+export {
+  EnrollmentHttpApi,
+  type HttpRequest,
+  type HttpResponse
+} from './enrollment-http-api';
+
+export {
+  httpStatusForError,
+  isServerError
+} from './error-status';
+
+export {
+  generateOpenApiDocument,
+  OPENAPI_EXAMPLES,
+  type OpenApiDocument,
+  type OpenApiOptions
+} from './openapi';
@@ -0,0 +1,454 @@
+import type { ZodTypeAny } from 'zod';
+import { zodToJsonSchema, type JsonSchema } from '../../../../../shared/serialization/index';
+import type { EnrollmentError } from '../../../domain/errors/errors';
+import {
+  createBusinessRuleError,
+  createConcurrencyError,
+  createNotFoundError,
+  createValidationError
+} from '../../../domain/errors/errors';
+
+import {
+  RequestEnrollmentCommandSchema,
+  EnrollmentResponseSchema,
+  ErrorResponseSchema,
+  mapErrorToResponse,
+  type EnrollmentResponse,
+  type ErrorResponse,
+  type RequestEnrollmentCommand
+} from '../../../application/commands/dto';
+import {
+  EnrollmentListResponseSchema,
+  CourseRosterResponseSchema,
+  GetEnrollmentQuerySchema,
+  ListStudentEnrollmentsQuerySchema,
+  GetCourseRosterQuerySchema,
+  type EnrollmentListResponse,
+  type CourseRosterResponse
+} from '../../../application/queries/dto';
+
+import { httpStatusForError } from './error-status';
+
+/**
+ * OpenAPI 3.1 ドキュメントの生成
+ *
+ * EnrollmentHttpApi のエンドポイントを、DTO の zod スキーマから変換したスキーマで記述する
+ * - エラーは ErrorResponse の種別（type）ごとのスキーマと、その和（discriminator 付き）を載せる
+ * - エラーのステータスコードは httpStatusForError で決める（API の応答と一致させる）
+ * - リクエスト・レスポンス・エラーには例を付ける
+ */
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers?: Array<{ url: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+export interface OpenApiOptions {
+  version?: string;    // API のバージョン（info.version、既定は 1.0.0）
+  serverUrl?: string;  // 指定した場合のみ servers に載せる
+}
+
+// === エラーの種別 ===
+
+type ErrorType = ErrorResponse['type'];
+
+// 種別ごとに固有のフィールド（ErrorResponse の共通フィールド以外）
+const ERROR_VARIANT_FIELDS = {
+  ValidationError: ['field'],
+  BusinessRuleError: ['rule'],
+  NotFoundError: ['entity'],
+  ConcurrencyError: ['expectedVersion', 'actualVersion']
+} as const satisfies Record<ErrorType, ReadonlyArray<keyof ErrorResponse>>;
+
+const ERROR_TYPES = Object.keys(ERROR_VARIANT_FIELDS) as ErrorType[];
+
+const errorSchemaName = (type: ErrorType) => `${type}Response`;
+
+/**
+ * 種別ごとのエラーDTOのスキーマ（type を固定し、他の種別のフィールドを除く）
+ */
+function errorVariantSchema(type: ErrorType): JsonSchema {
+  const otherFields = ERROR_TYPES
+    .filter(other => other !== type)
+    .flatMap(other => ERROR_VARIANT_FIELDS[other]);
+  const omitted = Object.fromEntries(otherFields.map(field => [field, true])) as { [K in keyof ErrorResponse]?: true };
+  const schema = zodToJsonSchema(ErrorResponseSchema.omit(omitted));
+  const properties = schema.properties as Record<string, JsonSchema>;
+  return { ...schema, properties: { ...properties, type: { type: 'string', const: type } } };
+}
+
+// === 例 ===
+
+const EXAMPLE_TIMESTAMP = '2025-04-01T09:00:00.000Z';
+
+const exampleError = (error: EnrollmentError): ErrorResponse => ({
+  ...mapErrorToResponse(error),
+  timestamp: EXAMPLE_TIMESTAMP
+});
+
+/**
+ * エラーの例（コードごと）
+ *
+ * ハンドラー・リポジトリと同じファクトリ・引数で作り、載せるステータスは httpStatusForError で決める
+ */
+const ERROR_EXAMPLES = {
+  INVALID_JSON_BODY: exampleError(createValidationError(
+    'Request body must be valid JSON',
+    'INVALID_JSON_BODY',
+    'body'
+  )),
+  INVALID_COMMAND_FORMAT: exampleError(createBusinessRuleError(
+    'INPUT_VALIDATION',
+    'Invalid input format',
+    'INVALID_COMMAND_FORMAT',
+    { validationErrors: [{ code: 'too_small', path: ['courseId'], message: 'Course ID is required' }] }
+  )),
+  INVALID_QUERY_FORMAT: exampleError(createValidationError(
+    'Invalid query format',
+    'INVALID_QUERY_FORMAT'
+  )),
+  INVALID_STUDENT_ID: exampleError(createValidationError(
+    'Invalid student ID format: ST 001',
+    'INVALID_STUDENT_ID',
+    'studentId',
+    'ST 001'
+  )),
+  INVALID_COURSE_ID: exampleError(createValidationError(
+    'Invalid course ID format: cs-101',
+    'INVALID_COURSE_ID',
+    'courseId',
+    'cs-101'
+  )),
+  INVALID_SEMESTER: exampleError(createValidationError(
+    'Invalid semester format: 2025-autumn',
+    'INVALID_SEMESTER',
+    'semester',
+    '2025-autumn'
+  )),
+  IDEMPOTENCY_KEY_REUSED: exampleError(createValidationError(
+    'Idempotency key request-1 was already used for a different command',
+    'IDEMPOTENCY_KEY_REUSED',
+    'idempotencyKey',
+    'request-1'
+  )),
+  ENROLLMENT_NOT_FOUND: exampleError(createNotFoundError('Enrollment', 'ST001-CS101-2025-spring')),
+  COURSE_OFFERING_NOT_FOUND: exampleError(createNotFoundError('CourseOffering', 'CS101-2030-spring')),
+  COURSE_NOT_FOUND: exampleError(createBusinessRuleError(
+    'COURSE_NOT_FOUND',
+    'Course CS999 not found',
+    'COURSE_NOT_FOUND',
+    { courseId: 'CS999' }
+  )),
+  COURSE_NOT_OFFERED: exampleError(createBusinessRuleError(
+    'COURSE_NOT_OFFERED',
+    'Course CS101 is not offered in semester 2030-spring',
+    'COURSE_NOT_OFFERED',
+    { courseId: 'CS101', semester: '2030-spring' }
+  )),
+  DUPLICATE_ENROLLMENT: exampleError(createBusinessRuleError(
+    'DUPLICATE_ENROLLMENT',
+    'Enrollment already exists for student ST001, course CS101, semester 2025-spring',
+    'DUPLICATE_ENROLLMENT',
+    { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' }
+  )),
+  IDEMPOTENCY_KEY_IN_PROGRESS: exampleError(createBusinessRuleError(
+    'IDEMPOTENCY_KEY_IN_PROGRESS',
+    'A command with idempotency key request-1 is still being processed',
+    'IDEMPOTENCY_KEY_IN_PROGRESS',
+    { idempotencyKey: 'request-1', commandType: 'RequestEnrollment' }
+  )),
+  CONCURRENCY_ERROR: exampleError(createConcurrencyError(0, 1, 'enrollment-ST001-CS101-2025-spring')),
+  STUDENT_NOT_ACTIVE: exampleError(createBusinessRuleError(
+    'STUDENT_NOT_ACTIVE',
+    'Student ST001 is not active (status: graduated)',
+    'STUDENT_NOT_ACTIVE',
+    { studentId: 'ST001', status: 'graduated' }
+  )),
+  COURSE_CAPACITY_EXCEEDED: exampleError(createBusinessRuleError(
+    'COURSE_CAPACITY_EXCEEDED',
+    'Course CS101 has reached maximum capacity (30)',
+    'COURSE_CAPACITY_EXCEEDED',
+    { courseId: 'CS101', semester: '2025-spring', capacity: { max: 30, current: 30 }, waitlistLength: 0 }
+  )),
+  INTERNAL_ERROR: exampleError(createValidationError(
+    'Unexpected error while handling the request',
+    'INTERNAL_ERROR'
+  ))
+} satisfies Record<string, ErrorResponse>;
+
+type ErrorExampleName = keyof typeof ERROR_EXAMPLES;
+
+const REQUESTED_ENROLLMENT_EXAMPLE: EnrollmentResponse = {
+  id: 'ST001-CS101-2025-spring',
+  studentId: 'ST001',
+  courseId: 'CS101',
+  semester: '2025-spring',
+  status: 'requested',
+  requestedAt: EXAMPLE_TIMESTAMP,
+  version: 1
+};
+
+const APPROVED_ENROLLMENT_EXAMPLE: EnrollmentResponse = {
+  ...REQUESTED_ENROLLMENT_EXAMPLE,
+  status: 'approved',
+  approvedAt: '2025-04-02T10:00:00.000Z',
+  approvedBy: 'ADVISOR01',
+  version: 2
+};
+
+const REQUEST_ENROLLMENT_EXAMPLES: Record<string, RequestEnrollmentCommand> = {
+  basic: { studentId: 'ST001', courseId: 'CS101', semester: '2025-spring' },
+  joinWaitlist: {
+    studentId: 'ST001',
+    courseId: 'CS101',
+    semester: '2025-spring',
+    joinWaitlist: true,
+    idempotencyKey: 'request-cs101-2025-spring'
+  }
+};
+
+const ENROLLMENT_LIST_EXAMPLE: EnrollmentListResponse = {
+  enrollments: [APPROVED_ENROLLMENT_EXAMPLE],
+  total: 1,
+  page: 1,
+  pageSize: 20
+};
+
+const COURSE_ROSTER_EXAMPLE: CourseRosterResponse = {
+  courseId: 'CS101',
+  semester: '2025-spring',
+  enrolled: [APPROVED_ENROLLMENT_EXAMPLE],
+  requested: [{ ...REQUESTED_ENROLLMENT_EXAMPLE, id: 'ST002-CS101-2025-spring', studentId: 'ST002' }],
+  waitlisted: [],
+  counts: { enrolled: 1, requested: 1, waitlisted: 0 },
+  capacity: { max: 30, occupied: 2, available: 28 }
+};
+
+/**
+ * ドキュメントに載せる例（テストでスキーマとの整合を確かめる）
+ */
+export const OPENAPI_EXAMPLES = {
+  errors: ERROR_EXAMPLES,
+  requestEnrollment: REQUEST_ENROLLMENT_EXAMPLES,
+  enrollment: APPROVED_ENROLLMENT_EXAMPLE,
+  enrollmentList: ENROLLMENT_LIST_EXAMPLE,
+  courseRoster: COURSE_ROSTER_EXAMPLE
+};
+
+// === ドキュメント ===
+
+/**
+ * OpenAPI 3.1 ドキュメントの生成（JSON としてそのまま書き出せるオブジェクト）
+ */
+export function generateOpenApiDocument(options: OpenApiOptions = {}): OpenApiDocument {
+  const errorVariants = Object.fromEntries(
+    ERROR_TYPES.map(type => [errorSchemaName(type), errorVariantSchema(type)])
+  );
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Enrollment API',
+      version: options.version ?? '1.0.0',
+      description: '履修管理 API。エラーは ErrorResponse（type で種別を判別）で返す。'
+    },
+    ...(options.serverUrl !== undefined && { servers: [{ url: options.serverUrl }] }),
+    paths: {
+      '/enrollments': {
+        post: {
+          operationId: 'requestEnrollment',
+          summary: '履修申請',
+          description: '定員超過時は joinWaitlist が true ならウェイトリストに登録する。' +
+            'Idempotency-Key ヘッダー（または本文の idempotencyKey）が同じ再送には最初の結果を返す。',
+          parameters: [
+            {
+              name: 'Idempotency-Key',
+              in: 'header',
+              required: false,
+              schema: zodToJsonSchema(RequestEnrollmentCommandSchema.shape.idempotencyKey)
+            }
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: schemaRef('RequestEnrollmentCommand'),
+                examples: namedExamples(REQUEST_ENROLLMENT_EXAMPLES)
+              }
+            }
+          },
+          responses: {
+            201: {
+              description: '申請した履修（ウェイトリスト登録時は status が waitlisted）',
+              headers: {
+                Location: { description: '履修の取得先', schema: { type: 'string' } }
+              },
+              content: {
+                'application/json': {
+                  schema: schemaRef('EnrollmentResponse'),
+                  example: REQUESTED_ENROLLMENT_EXAMPLE
+                }
+              }
+            },
+            ...errorResponses([
+              'INVALID_JSON_BODY',
+              'INVALID_COMMAND_FORMAT',
+              'IDEMPOTENCY_KEY_REUSED',
+              'DUPLICATE_ENROLLMENT',
+              'IDEMPOTENCY_KEY_IN_PROGRESS',
+              'CONCURRENCY_ERROR',
+              'STUDENT_NOT_ACTIVE',
+              'COURSE_NOT_FOUND',
+              'COURSE_NOT_OFFERED',
+              'COURSE_CAPACITY_EXCEEDED',
+              'INTERNAL_ERROR'
+            ])
+          }
+        }
+      },
+      '/enrollments/{studentId}/{courseId}/{semester}': {
+        get: {
+          operationId: 'getEnrollment',
+          summary: '履修の取得',
+          parameters: parameters(GetEnrollmentQuerySchema.shape, 'path'),
+          responses: {
+            200: {
+              description: '履修',
+              content: {
+                'application/json': {
+                  schema: schemaRef('EnrollmentResponse'),
+                  example: APPROVED_ENROLLMENT_EXAMPLE
+                }
+              }
+            },
+            ...errorResponses([
+              'INVALID_QUERY_FORMAT',
+              'INVALID_STUDENT_ID',
+              'INVALID_COURSE_ID',
+              'INVALID_SEMESTER',
+              'ENROLLMENT_NOT_FOUND',
+              'INTERNAL_ERROR'
+            ])
+          }
+        }
+      },
+      '/students/{studentId}/enrollments': {
+        get: {
+          operationId: 'listStudentEnrollments',
+          summary: '学生の履修一覧（申請日時の昇順）',
+          parameters: [
+            ...parameters(ListStudentEnrollmentsQuerySchema.pick({ studentId: true }).shape, 'path'),
+            ...parameters(ListStudentEnrollmentsQuerySchema.omit({ studentId: true }).shape, 'query')
+          ],
+          responses: {
+            200: {
+              description: '履修一覧（total は絞り込み後の全件数）',
+              content: {
+                'application/json': {
+                  schema: schemaRef('EnrollmentListResponse'),
+                  example: ENROLLMENT_LIST_EXAMPLE
+                }
+              }
+            },
+            ...errorResponses(['INVALID_QUERY_FORMAT', 'INTERNAL_ERROR'])
+          }
+        }
+      },
+      '/courses/{courseId}/{semester}/roster': {
+        get: {
+          operationId: 'getCourseRoster',
+          summary: '科目の名簿',
+          parameters: [
+            ...parameters(GetCourseRosterQuerySchema.pick({ courseId: true, semester: true }).shape, 'path'),
+            ...parameters(GetCourseRosterQuerySchema.pick({ sortOrder: true }).shape, 'query')
+          ],
+          responses: {
+            200: {
+              description: '状態ごとの履修と定員',
+              content: {
+                'application/json': {
+                  schema: schemaRef('CourseRosterResponse'),
+                  example: COURSE_ROSTER_EXAMPLE
+                }
+              }
+            },
+            ...errorResponses([
+              'INVALID_QUERY_FORMAT',
+              'INVALID_COURSE_ID',
+              'INVALID_SEMESTER',
+              'COURSE_OFFERING_NOT_FOUND',
+              'INTERNAL_ERROR'
+            ])
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        RequestEnrollmentCommand: zodToJsonSchema(RequestEnrollmentCommandSchema),
+        EnrollmentResponse: zodToJsonSchema(EnrollmentResponseSchema),
+        EnrollmentListResponse: zodToJsonSchema(EnrollmentListResponseSchema),
+        CourseRosterResponse: zodToJsonSchema(CourseRosterResponseSchema),
+        ErrorResponse: {
+          oneOf: ERROR_TYPES.map(type => schemaRef(errorSchemaName(type))),
+          discriminator: {
+            propertyName: 'type',
+            mapping: Object.fromEntries(
+              ERROR_TYPES.map(type => [type, `#/components/schemas/${errorSchemaName(type)}`])
+            )
+          }
+        },
+        ...errorVariants
+      }
+    }
+  };
+}
+
+// === Private Helper Functions ===
+
+function schemaRef(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function namedExamples(examples: Record<string, unknown>): Record<string, { value: unknown }> {
+  return Object.fromEntries(Object.entries(examples).map(([name, value]) => [name, { value }]));
+}
+
+function parameters(shape: Record<string, ZodTypeAny>, location: 'path' | 'query'): JsonSchema[] {
+  return Object.entries(shape).map(([name, schema]) => ({
+    name,
+    in: location,
+    required: location === 'path' || !schema.isOptional(),
+    schema: zodToJsonSchema(schema)
+  }));
+}
+
+/**
+ * エラーの例をステータスコードごとにまとめたレスポンス
+ */
+function errorResponses(names: ReadonlyArray<ErrorExampleName>): Record<number, unknown> {
+  const byStatus = new Map<number, ErrorExampleName[]>();
+  for (const name of names) {
+    const status = httpStatusForError(ERROR_EXAMPLES[name]);
+    byStatus.set(status, [...(byStatus.get(status) ?? []), name]);
+  }
+
+  return Object.fromEntries([...byStatus].map(([status, statusNames]) => {
+    const types = [...new Set(statusNames.map(name => ERROR_EXAMPLES[name].type))];
+    const schema = types.length === 1
+      ? schemaRef(errorSchemaName(types[0]!))
+      : { oneOf: types.map(type => schemaRef(errorSchemaName(type))) };
+    return [status, {
+      description: `${types.join(' / ')} (${statusNames.map(name => ERROR_EXAMPLES[name].code).join(', ')})`,
+      content: {
+        'application/json': {
+          schema,
+          examples: namedExamples(Object.fromEntries(statusNames.map(name => [name, ERROR_EXAMPLES[name]])))
+        }
+      }
+    }];
+  }));
+}
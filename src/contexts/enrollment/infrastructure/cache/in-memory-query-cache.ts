@@ -0,0 +1,56 @@
+import { Ok, type Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { IQueryCache, QueryCacheEntry } from '../../application/ports/ports';
+
+/**
+ * クエリキャッシュのインメモリ保存（開発・テスト用）
+ *
+ * - 期限切れのエントリは取得時に削除する
+ * - 値は複製して保持・返却する（呼び出し側での変更の影響を受けない）
+ */
+export class InMemoryQueryCache implements IQueryCache {
+  private entries = new Map<string, QueryCacheEntry>();
+
+  async get(key: string, now: Date): Promise<Result<QueryCacheEntry | null, EnrollmentError>> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Ok(null);
+    }
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return Ok(null);
+    }
+    return Ok(structuredClone(entry));
+  }
+
+  async set(key: string, entry: QueryCacheEntry): Promise<Result<void, EnrollmentError>> {
+    this.entries.set(key, structuredClone(entry));
+    return Ok(undefined);
+  }
+
+  async invalidateTags(tags: ReadonlyArray<string>): Promise<Result<number, EnrollmentError>> {
+    const targets = new Set(tags);
+    let invalidated = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some(tag => targets.has(tag))) {
+        this.entries.delete(key);
+        invalidated++;
+      }
+    }
+    return Ok(invalidated);
+  }
+
+  /**
+   * 保持しているエントリ数（テスト用）
+   */
+  getEntryCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 全エントリ削除（テスト用）
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Cache - 統合エクスポート
+ *
+ * クエリバスの結果キャッシュ
+ * - インメモリ実装（開発・テスト用）
+ */
+
+// === 実装 ===
+export {
+  InMemoryQueryCache
+} from './in-memory-query-cache';
@@ -12,6 +12,11 @@ import type { IEventStore } from './interfaces';
  * - 集約特化の操作
  */
 
+/**
+ * すべての履修申請ストリームに共通する接頭辞
+ */
+export const ENROLLMENT_STREAM_PREFIX = 'enrollment-';
+
 /**
  * 履修申請のストリームIDを生成
  * 
@@ -22,7 +27,16 @@ export function createEnrollmentStreamId(
   courseId: CourseId,
   semester: Semester
 ): string {
-  return `enrollment-${studentId}-${courseId}-${semester}`;
+  return `${ENROLLMENT_STREAM_PREFIX}${studentId}-${courseId}-${semester}`;
+}
+
+/**
+ * 学生単位のストリームID接頭辞を生成
+ * 
+ * パターン: "enrollment-{studentId}-"
+ */
+export function createEnrollmentStreamPrefix(studentId: StudentId): string {
+  return `${ENROLLMENT_STREAM_PREFIX}${studentId}-`;
 }
 
 /**
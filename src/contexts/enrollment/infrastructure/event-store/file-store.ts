@@ -0,0 +1,754 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import {
+  EnrollmentErrorSchema,
+  createConcurrencyError,
+  createNotFoundError,
+  createValidationError
+} from '../../domain/errors/errors';
+import type { OutboxDestination, OutboxEntry } from '../../application/ports/ports';
+import type { IOutboxStore, OutboxMessage } from '../outbox/interfaces';
+import type { IEventStore, RecordedEvent } from './interfaces';
+import { serializeEvent, deserializeEvent, restoreDates } from './serialization';
+
+/**
+ * File Event Store実装（JSON Lines）
+ *
+ * ローカルディスク上の追記専用ストア
+ * - 1ストリーム = 1ファイル（{directory}/{encodeURIComponent(streamId)}.jsonl）
+ * - 1イベント = 1行、既存の行は書き換えない
+ * - 楽観的ロック対応（InMemoryEventStore と同じ ConcurrencyError）
+ * - 読み込み時にイベントスキーマで Date を復元
+ *
+ * クラッシュ耐性：
+ * 追記の途中で落ちると、最終行が途切れたり一括追記の一部だけが残ったりする。
+ * 各行に一括追記内の位置（batchIndex / batchSize）を持たせ、
+ * 読み込み時に末尾の不完全な行・不完全な一括追記を切り詰めて直前のコミット状態に戻す。
+ * 末尾以外の行が壊れている場合は自動修復せずエラーにする。
+ *
+ * グローバルなコミット位置：
+ * 各行にストア全体で単調増加する position を持たせる。
+ * 位置の採番から書き込みまでをストア全体のロックで直列化するため、
+ * readAll で見える位置の順序はコミット順と一致する（破棄された一括追記の分は欠番になる）。
+ *
+ * outbox：
+ * 配信予定は一括追記の最終行に載せて同じ1回の書き込みで記録する（途切れた一括追記と一緒に破棄される）。
+ * 配信結果は {directory}/$outbox.ndjson に追記し、読み込み時に配信予定へ重ねて現在の状態を求める。
+ * 未配信エントリの取得は全ストリームを読むため、ストリーム数に比例して遅くなる。
+ *
+ * 注意: 排他制御は同一プロセス内のみ（ストリーム単位で直列化）。
+ */
+
+interface StoredLine {
+  position: number;
+  version: number;
+  batchIndex: number;
+  batchSize: number;
+  recordedAt: string;
+  event: unknown;
+  // 一括追記の最終行にだけ載る配信予定
+  outbox?: StoredOutboxMessage[];
+}
+
+interface StoredOutboxMessage {
+  id: number;
+  destination: OutboxDestination;
+  event: unknown;
+}
+
+// 配信結果ログの1行（dispatchedAt があれば配信済み、なければ失敗）
+interface StoredOutboxAttempt {
+  id: number;
+  attemptedAt: string;
+  dispatchedAt: string | null;
+  error: unknown;
+  nextAttemptAt: string | null;
+}
+
+interface LoadedStream {
+  records: RecordedEvent[];
+  version: number;
+  // 記録時点（未配信）の配信予定
+  outbox: OutboxEntry[];
+}
+
+interface StoreCounters {
+  lastPosition: number;
+  lastOutboxId: number;
+}
+
+const FILE_EXTENSION = '.jsonl';
+// 配信結果ログ（拡張子がストリームと異なるため一覧に混ざらない）
+const OUTBOX_LOG_FILE = '$outbox.ndjson';
+// ストア全体のロックキー（ストリームIDと衝突しない）
+const ALL_STREAMS_LOCK = '$all';
+
+export class FileEventStore implements IEventStore, IOutboxStore {
+  // ストリーム単位の直列化（同一プロセス内の並行追記を防ぐ）
+  private locks = new Map<string, Promise<unknown>>();
+  // 採番済みの最終コミット位置と outbox ID（初回の追記時にディスクから求める）
+  private counters: StoreCounters | null = null;
+
+  constructor(private readonly directory: string) {}
+
+  // === IEventStore Implementation ===
+
+  async append(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.appendEvents(streamId, events, expectedVersion, []);
+  }
+
+  async getEvents(
+    streamId: string,
+    fromVersion: number = 1
+  ): Promise<Result<EnrollmentDomainEvent[], EnrollmentError>> {
+    const streamResult = await this.withStreamLock(streamId, () => this.loadStream(streamId));
+    if (!streamResult.success) {
+      return streamResult;
+    }
+
+    return Ok(
+      streamResult.data.records
+        .map(record => record.event)
+        .filter(event => event.version >= fromVersion)
+    );
+  }
+
+  async getCurrentVersion(streamId: string): Promise<Result<number, EnrollmentError>> {
+    const streamResult = await this.withStreamLock(streamId, () => this.loadStream(streamId));
+    if (!streamResult.success) {
+      return streamResult;
+    }
+
+    return Ok(streamResult.data.version);
+  }
+
+  async streamExists(streamId: string): Promise<Result<boolean, EnrollmentError>> {
+    const versionResult = await this.getCurrentVersion(streamId);
+    if (!versionResult.success) {
+      return versionResult;
+    }
+
+    return Ok(versionResult.data > 0);
+  }
+
+  async findStreamIds(prefix: string): Promise<Result<string[], EnrollmentError>> {
+    const listResult = await this.listStreamFiles(prefix);
+    if (!listResult.success) {
+      return listResult;
+    }
+
+    const streamIds: string[] = [];
+    for (const streamId of listResult.data) {
+      if (!streamId.startsWith(prefix)) {
+        continue;
+      }
+
+      const existsResult = await this.streamExists(streamId);
+      if (!existsResult.success) {
+        return existsResult;
+      }
+      if (existsResult.data) {
+        streamIds.push(streamId);
+      }
+    }
+
+    return Ok(streamIds);
+  }
+
+  /**
+   * 全ストリームを読み込み、コミット位置順に並べて返す
+   *
+   * ストア全体のロック中に読むため、書き込み途中の一括追記は見えない。
+   */
+  async readAll(
+    fromPosition: number = 1,
+    limit: number = Number.POSITIVE_INFINITY
+  ): Promise<Result<RecordedEvent[], EnrollmentError>> {
+    return this.withStreamLock(ALL_STREAMS_LOCK, async () => {
+      const recordsResult = await this.loadAllRecords();
+      if (!recordsResult.success) {
+        return recordsResult;
+      }
+
+      return Ok(
+        recordsResult.data
+          .filter(record => record.position >= fromPosition)
+          .slice(0, limit)
+      );
+    });
+  }
+
+  /**
+   * 採番済みの最終コミット位置
+   *
+   * 書き込みに失敗した一括追記の分も含む（欠番は readAll では見えない）
+   */
+  async getLastPosition(): Promise<Result<number, EnrollmentError>> {
+    return this.withStreamLock(ALL_STREAMS_LOCK, async () => {
+      const countersResult = await this.loadCounters();
+      if (!countersResult.success) {
+        return countersResult;
+      }
+
+      return Ok(countersResult.data.lastPosition);
+    });
+  }
+
+  // === IOutboxStore Implementation ===
+
+  async appendWithOutbox(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.appendEvents(streamId, events, expectedVersion, messages);
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    const entriesResult = await this.withStreamLock(ALL_STREAMS_LOCK, () => this.loadOutboxEntries());
+    if (!entriesResult.success) {
+      return entriesResult;
+    }
+
+    return Ok(
+      entriesResult.data
+        .filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now)
+        .slice(0, limit)
+    );
+  }
+
+  async markOutboxDispatched(id: number, dispatchedAt: Date): Promise<Result<void, EnrollmentError>> {
+    return this.appendOutboxAttempt({
+      id,
+      attemptedAt: dispatchedAt.toISOString(),
+      dispatchedAt: dispatchedAt.toISOString(),
+      error: null,
+      nextAttemptAt: null
+    });
+  }
+
+  async recordOutboxFailure(
+    id: number,
+    error: EnrollmentError,
+    attemptedAt: Date,
+    nextAttemptAt: Date | null
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.appendOutboxAttempt({
+      id,
+      attemptedAt: attemptedAt.toISOString(),
+      dispatchedAt: null,
+      error,
+      nextAttemptAt: nextAttemptAt?.toISOString() ?? null
+    });
+  }
+
+  async findStuckOutboxEntries(pendingSince: Date): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    const entriesResult = await this.withStreamLock(ALL_STREAMS_LOCK, () => this.loadOutboxEntries());
+    if (!entriesResult.success) {
+      return entriesResult;
+    }
+
+    return Ok(
+      entriesResult.data.filter(entry =>
+        entry.status === 'failed' ||
+        (entry.status === 'pending' && entry.createdAt < pendingSince)
+      )
+    );
+  }
+
+  // === Private Helper Methods ===
+
+  /**
+   * イベントの追記（配信予定があれば最終行に載せて同じ書き込みで記録する）
+   */
+  private async appendEvents(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    outboxMessages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.withStreamLock(streamId, async () => {
+      const streamResult = await this.loadStream(streamId);
+      if (!streamResult.success) {
+        return streamResult;
+      }
+
+      // 楽観的ロックチェック
+      const currentVersion = streamResult.data.version;
+      if (currentVersion !== expectedVersion) {
+        return Err(createConcurrencyError(expectedVersion, currentVersion, streamId));
+      }
+
+      if (events.length === 0) {
+        // 配信予定はイベントの行に載せるため、イベントを伴わない配信予定は記録できない
+        return outboxMessages.length === 0
+          ? Ok(undefined)
+          : Err(createValidationError(
+            'Outbox messages require at least one appended event',
+            'OUTBOX_WITHOUT_EVENTS',
+            undefined,
+            { streamId }
+          ));
+      }
+
+      return this.withStreamLock(ALL_STREAMS_LOCK, async () => {
+        const countersResult = await this.loadCounters();
+        if (!countersResult.success) {
+          return countersResult;
+        }
+
+        const { lastPosition, lastOutboxId } = countersResult.data;
+        const firstPosition = lastPosition + 1;
+        const recordedAt = new Date().toISOString();
+        const lines = events.map((event, index) => {
+          const version = expectedVersion + index + 1;
+          const stored: StoredLine = {
+            position: firstPosition + index,
+            version,
+            batchIndex: index,
+            batchSize: events.length,
+            recordedAt,
+            event: JSON.parse(serializeEvent({ ...event, version }))
+          };
+          if (index === events.length - 1 && outboxMessages.length > 0) {
+            stored.outbox = outboxMessages.map((message, messageIndex) => ({
+              id: lastOutboxId + messageIndex + 1,
+              destination: message.destination,
+              event: JSON.parse(serializeEvent(message.event))
+            }));
+          }
+          return `${JSON.stringify(stored)}\n`;
+        });
+
+        // 書き込みに失敗しても採番した位置・ID は再利用しない（欠番になる）
+        this.counters = {
+          lastPosition: lastPosition + events.length,
+          lastOutboxId: lastOutboxId + outboxMessages.length
+        };
+
+        try {
+          await fs.mkdir(this.directory, { recursive: true });
+          // 一括追記は1回の書き込みで行う
+          await fs.appendFile(this.streamPath(streamId), lines.join(''), 'utf8');
+        } catch (error) {
+          return Err(ioError('Failed to append events', streamId, error));
+        }
+
+        return Ok(undefined);
+      });
+    });
+  }
+
+  private streamPath(streamId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(streamId)}${FILE_EXTENSION}`);
+  }
+
+  /**
+   * ストリームファイルを読み込み、末尾の不完全な書き込みを切り詰める
+   */
+  private async loadStream(streamId: string): Promise<Result<LoadedStream, EnrollmentError>> {
+    const filePath = this.streamPath(streamId);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return Ok({ records: [], version: 0, outbox: [] });
+      }
+      return Err(ioError('Failed to read stream', streamId, error));
+    }
+
+    // 各行の開始位置（バイト）を保ちながら分割する
+    const records: Array<{ offset: number; stored: StoredLine }> = [];
+    let offset = 0;
+    let tornAt: number | null = null;
+
+    while (offset < content.length) {
+      const newlineIndex = content.indexOf('\n', offset);
+
+      // 改行で終わっていない最終行は書き込み途中とみなす（行と改行は1回で書き込むため）
+      if (newlineIndex === -1) {
+        tornAt = offset;
+        break;
+      }
+
+      const stored = parseStoredLine(content.slice(offset, newlineIndex));
+      if (!stored) {
+        return Err(createValidationError(
+          `Corrupted event line in stream ${streamId}`,
+          'EVENT_STORE_CORRUPTED',
+          undefined,
+          { streamId, byteOffset: Buffer.byteLength(content.slice(0, offset), 'utf8') }
+        ));
+      }
+
+      records.push({ offset, stored });
+      offset = newlineIndex + 1;
+    }
+
+    // 末尾の一括追記が途中で切れている場合はその一括追記ごと破棄する
+    const lastRecord = records[records.length - 1];
+    if (lastRecord && lastRecord.stored.batchIndex + 1 < lastRecord.stored.batchSize) {
+      const batchStart = records.length - 1 - lastRecord.stored.batchIndex;
+      const firstOfBatch = records[batchStart];
+      tornAt = firstOfBatch ? firstOfBatch.offset : 0;
+      records.splice(batchStart);
+    }
+
+    if (tornAt !== null) {
+      try {
+        await fs.truncate(filePath, Buffer.byteLength(content.slice(0, tornAt), 'utf8'));
+      } catch (error) {
+        return Err(ioError('Failed to recover torn stream', streamId, error));
+      }
+    }
+
+    const recorded: RecordedEvent[] = [];
+    const outbox: OutboxEntry[] = [];
+    for (const { stored } of records) {
+      const eventResult = deserializeEvent(stored.event);
+      if (!eventResult.success) {
+        return eventResult;
+      }
+      const recordedAt = new Date(stored.recordedAt);
+      recorded.push({
+        position: stored.position,
+        streamId,
+        event: eventResult.data,
+        recordedAt
+      });
+
+      for (const message of stored.outbox ?? []) {
+        const messageEventResult = deserializeEvent(message.event);
+        if (!messageEventResult.success) {
+          return messageEventResult;
+        }
+        outbox.push({
+          id: message.id,
+          streamId,
+          destination: message.destination,
+          event: messageEventResult.data,
+          status: 'pending',
+          attempts: 0,
+          createdAt: recordedAt,
+          nextAttemptAt: recordedAt,
+          lastAttemptAt: null,
+          dispatchedAt: null,
+          lastError: null
+        });
+      }
+    }
+
+    const lastRecorded = recorded[recorded.length - 1];
+    return Ok({ records: recorded, version: lastRecorded?.event.version ?? 0, outbox });
+  }
+
+  /**
+   * ディレクトリ内のストリームIDを列挙する（ディレクトリが無ければ空）
+   */
+  private async listStreamFiles(context: string): Promise<Result<string[], EnrollmentError>> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return Ok([]);
+      }
+      return Err(ioError('Failed to list streams', context, error));
+    }
+
+    return Ok(
+      fileNames
+        .filter(fileName => fileName.endsWith(FILE_EXTENSION))
+        .map(fileName => decodeURIComponent(fileName.slice(0, -FILE_EXTENSION.length)))
+    );
+  }
+
+  /**
+   * 全ストリームを読み込む（ストア全体のロック中に呼ぶ）
+   */
+  private async loadAllStreams(): Promise<Result<LoadedStream[], EnrollmentError>> {
+    const listResult = await this.listStreamFiles(ALL_STREAMS_LOCK);
+    if (!listResult.success) {
+      return listResult;
+    }
+
+    const streams: LoadedStream[] = [];
+    for (const streamId of listResult.data) {
+      const streamResult = await this.loadStream(streamId);
+      if (!streamResult.success) {
+        return streamResult;
+      }
+      streams.push(streamResult.data);
+    }
+
+    return Ok(streams);
+  }
+
+  /**
+   * 全ストリームの記録をコミット位置順に読み込む（ストア全体のロック中に呼ぶ）
+   */
+  private async loadAllRecords(): Promise<Result<RecordedEvent[], EnrollmentError>> {
+    const streamsResult = await this.loadAllStreams();
+    if (!streamsResult.success) {
+      return streamsResult;
+    }
+
+    return Ok(
+      streamsResult.data
+        .flatMap(stream => stream.records)
+        .sort((a, b) => a.position - b.position)
+    );
+  }
+
+  /**
+   * 採番済みの最終コミット位置と outbox ID（ストア全体のロック中に呼ぶ）
+   */
+  private async loadCounters(): Promise<Result<StoreCounters, EnrollmentError>> {
+    if (this.counters !== null) {
+      return Ok(this.counters);
+    }
+
+    const streamsResult = await this.loadAllStreams();
+    if (!streamsResult.success) {
+      return streamsResult;
+    }
+
+    let lastPosition = 0;
+    let lastOutboxId = 0;
+    for (const stream of streamsResult.data) {
+      for (const record of stream.records) {
+        lastPosition = Math.max(lastPosition, record.position);
+      }
+      for (const entry of stream.outbox) {
+        lastOutboxId = Math.max(lastOutboxId, entry.id);
+      }
+    }
+
+    this.counters = { lastPosition, lastOutboxId };
+    return Ok(this.counters);
+  }
+
+  /**
+   * 配信予定に配信結果ログを重ねて、現在の outbox を id の昇順で求める（ストア全体のロック中に呼ぶ）
+   */
+  private async loadOutboxEntries(): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    const streamsResult = await this.loadAllStreams();
+    if (!streamsResult.success) {
+      return streamsResult;
+    }
+
+    const attemptsResult = await this.loadOutboxAttempts();
+    if (!attemptsResult.success) {
+      return attemptsResult;
+    }
+
+    const entries = new Map<number, OutboxEntry>();
+    for (const entry of streamsResult.data.flatMap(stream => stream.outbox)) {
+      entries.set(entry.id, entry);
+    }
+
+    for (const attempt of attemptsResult.data) {
+      const entry = entries.get(attempt.id);
+      // 破棄された一括追記の配信予定に対する記録は無視する
+      if (!entry) {
+        continue;
+      }
+
+      const errorResult = restoreOutboxError(attempt);
+      if (!errorResult.success) {
+        return errorResult;
+      }
+
+      entry.attempts += 1;
+      entry.lastAttemptAt = new Date(attempt.attemptedAt);
+      if (attempt.dispatchedAt !== null) {
+        entry.status = 'dispatched';
+        entry.dispatchedAt = new Date(attempt.dispatchedAt);
+        entry.lastError = null;
+      } else {
+        entry.lastError = errorResult.data;
+        // nextAttemptAt は諦めた場合も最後の試行日時のまま残す
+        if (attempt.nextAttemptAt === null) {
+          entry.status = 'failed';
+        } else {
+          entry.nextAttemptAt = new Date(attempt.nextAttemptAt);
+        }
+      }
+    }
+
+    return Ok([...entries.values()].sort((a, b) => a.id - b.id));
+  }
+
+  /**
+   * 配信結果ログを読み込み、末尾の途切れた行を切り詰める（ストア全体のロック中に呼ぶ）
+   */
+  private async loadOutboxAttempts(): Promise<Result<StoredOutboxAttempt[], EnrollmentError>> {
+    const filePath = path.join(this.directory, OUTBOX_LOG_FILE);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return Ok([]);
+      }
+      return Err(ioError('Failed to read outbox log', OUTBOX_LOG_FILE, error));
+    }
+
+    const attempts: StoredOutboxAttempt[] = [];
+    let offset = 0;
+    while (offset < content.length) {
+      const newlineIndex = content.indexOf('\n', offset);
+
+      if (newlineIndex === -1) {
+        try {
+          await fs.truncate(filePath, Buffer.byteLength(content.slice(0, offset), 'utf8'));
+        } catch (error) {
+          return Err(ioError('Failed to recover torn outbox log', OUTBOX_LOG_FILE, error));
+        }
+        break;
+      }
+
+      const attempt = parseOutboxAttempt(content.slice(offset, newlineIndex));
+      if (!attempt) {
+        return Err(createValidationError(
+          'Corrupted outbox log line',
+          'EVENT_STORE_CORRUPTED',
+          undefined,
+          { streamId: OUTBOX_LOG_FILE, byteOffset: Buffer.byteLength(content.slice(0, offset), 'utf8') }
+        ));
+      }
+
+      attempts.push(attempt);
+      offset = newlineIndex + 1;
+    }
+
+    return Ok(attempts);
+  }
+
+  /**
+   * 配信結果の追記（存在しないエントリは NotFoundError）
+   */
+  private async appendOutboxAttempt(attempt: StoredOutboxAttempt): Promise<Result<void, EnrollmentError>> {
+    return this.withStreamLock(ALL_STREAMS_LOCK, async () => {
+      const entriesResult = await this.loadOutboxEntries();
+      if (!entriesResult.success) {
+        return entriesResult;
+      }
+
+      if (!entriesResult.data.some(entry => entry.id === attempt.id)) {
+        return Err(createNotFoundError('OutboxEntry', String(attempt.id)));
+      }
+
+      try {
+        await fs.appendFile(
+          path.join(this.directory, OUTBOX_LOG_FILE),
+          `${JSON.stringify(attempt)}\n`,
+          'utf8'
+        );
+      } catch (error) {
+        return Err(ioError('Failed to update outbox', OUTBOX_LOG_FILE, error));
+      }
+
+      return Ok(undefined);
+    });
+  }
+
+  /**
+   * 同一ストリームへの操作を直列化する
+   */
+  private async withStreamLock<T>(streamId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(streamId) ?? Promise.resolve();
+    const current = previous.then(operation, operation);
+    const settled = current.then(() => undefined, () => undefined);
+    this.locks.set(streamId, settled);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(streamId) === settled) {
+        this.locks.delete(streamId);
+      }
+    }
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+function parseStoredLine(line: string): StoredLine | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (
+      typeof parsed === 'object' && parsed !== null &&
+      'position' in parsed && typeof parsed.position === 'number' &&
+      'version' in parsed && typeof parsed.version === 'number' &&
+      'batchIndex' in parsed && typeof parsed.batchIndex === 'number' &&
+      'batchSize' in parsed && typeof parsed.batchSize === 'number' &&
+      'event' in parsed
+    ) {
+      return parsed as StoredLine;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function parseOutboxAttempt(line: string): StoredOutboxAttempt | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    if (
+      typeof parsed === 'object' && parsed !== null &&
+      'id' in parsed && typeof parsed.id === 'number' &&
+      'attemptedAt' in parsed && typeof parsed.attemptedAt === 'string' &&
+      'dispatchedAt' in parsed &&
+      'nextAttemptAt' in parsed
+    ) {
+      return parsed as StoredOutboxAttempt;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function restoreOutboxError(attempt: StoredOutboxAttempt): Result<EnrollmentError | null, EnrollmentError> {
+  if (attempt.error === null) {
+    return Ok(null);
+  }
+
+  const errorResult = EnrollmentErrorSchema.safeParse(restoreDates(EnrollmentErrorSchema, attempt.error));
+  if (!errorResult.success) {
+    return Err(createValidationError(
+      'Stored outbox error does not match error schema',
+      'INVALID_STORED_OUTBOX_ENTRY',
+      undefined,
+      { outboxEntryId: attempt.id, issues: errorResult.error.issues }
+    ));
+  }
+
+  return Ok(errorResult.data);
+}
+
+function isFileNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+}
+
+function ioError(message: string, streamId: string, error: unknown): EnrollmentError {
+  return createValidationError(
+    message,
+    'EVENT_STORE_IO_ERROR',
+    undefined,
+    { streamId, error: String(error) }
+  );
+}
@@ -2,14 +2,18 @@ import { Ok, Err, type Result } from '../../../../shared/types/index';
 import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
 import type { EnrollmentError } from '../../domain/errors/errors';
 import { createConcurrencyError, createNotFoundError } from '../../domain/errors/errors';
-import { getCurrentConfig } from '../../../../shared/config/index';
 import type { 
   IEventStore, 
   ISnapshotStore, 
   AggregateSnapshot,
   EventStreamMetadata,
-  IEventStreamMetadataStore
+  IEventStreamMetadataStore,
+  RecordedEvent
 } from './interfaces';
+import type { OutboxEntry } from '../../application/ports/ports';
+import type { IOutboxStore, OutboxMessage } from '../outbox/interfaces';
+import { InMemoryOutbox } from '../outbox/in-memory-outbox';
+import { snapshotEnrollmentIfDue } from './snapshots';
 
 /**
  * In-Memory Event Store実装
@@ -18,26 +22,27 @@ import type {
  * - メモリ内でのイベント管理
  * - 楽観的ロック対応
  * - スナップショット機能
+ * - 全ストリーム共通のコミット順ログ（readAll）
+ * - 追記と同時に記録する outbox
  */
 
 interface StoredEvent {
+  position: number;
   streamId: string;
   version: number;
   event: EnrollmentDomainEvent;
   timestamp: Date;
 }
 
-export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventStreamMetadataStore {
+export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventStreamMetadataStore, IOutboxStore {
   private events: Map<string, StoredEvent[]> = new Map();
-  private snapshots: Map<string, AggregateSnapshot> = new Map();
+  // 集約ごとのスナップショット（バージョン昇順）
+  private snapshots: Map<string, AggregateSnapshot[]> = new Map();
   private metadata: Map<string, EventStreamMetadata> = new Map();
-
-  /**
-   * 設定を取得する
-   */
-  private getConfig() {
-    return getCurrentConfig();
-  }
+  // コミット順の全イベント（$all ストリーム）
+  private log: StoredEvent[] = [];
+  private lastPosition = 0;
+  private outbox = new InMemoryOutbox();
 
   // === IEventStore Implementation ===
 
@@ -46,50 +51,7 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     events: EnrollmentDomainEvent[],
     expectedVersion: number
   ): Promise<Result<void, EnrollmentError>> {
-    // 現在のバージョンチェック（楽観的ロック）
-    const currentVersionResult = await this.getCurrentVersion(streamId);
-    if (!currentVersionResult.success) {
-      return currentVersionResult;
-    }
-
-    const currentVersion = currentVersionResult.data;
-    if (currentVersion !== expectedVersion) {
-      return Err(createConcurrencyError(
-        expectedVersion,
-        currentVersion,
-        streamId
-      ));
-    }
-
-    // イベントの追記
-    const streamEvents = this.events.get(streamId) || [];
-    const now = new Date();
-
-    for (let i = 0; i < events.length; i++) {
-      const event = events[i];
-      if (!event) continue;
-      
-      const storedEvent: StoredEvent = {
-        streamId,
-        version: expectedVersion + i + 1,
-        event: {
-          ...event,
-          version: expectedVersion + i + 1 // バージョンを更新
-        },
-        timestamp: now
-      };
-      streamEvents.push(storedEvent);
-    }
-
-    this.events.set(streamId, streamEvents);
-
-    // メタデータの更新
-    await this.updateStreamMetadata(streamId, streamEvents);
-
-    // 設定に基づくスナップショット作成
-    await this.createSnapshotIfNeeded(streamId, streamEvents);
-
-    return Ok(undefined);
+    return this.appendEvents(streamId, events, expectedVersion, []);
   }
 
   async getEvents(
@@ -120,16 +82,54 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     return Ok(exists);
   }
 
+  async findStreamIds(prefix: string): Promise<Result<string[], EnrollmentError>> {
+    const streamIds = Array.from(this.events.entries())
+      .filter(([streamId, events]) => streamId.startsWith(prefix) && events.length > 0)
+      .map(([streamId]) => streamId);
+
+    return Ok(streamIds);
+  }
+
+  async readAll(
+    fromPosition: number = 1,
+    limit: number = Number.POSITIVE_INFINITY
+  ): Promise<Result<RecordedEvent[], EnrollmentError>> {
+    const recorded: RecordedEvent[] = [];
+
+    for (const stored of this.log) {
+      if (recorded.length >= limit) {
+        break;
+      }
+      if (stored.position < fromPosition) {
+        continue;
+      }
+      recorded.push({
+        position: stored.position,
+        streamId: stored.streamId,
+        event: stored.event,
+        recordedAt: stored.timestamp
+      });
+    }
+
+    return Ok(recorded);
+  }
+
+  async getLastPosition(): Promise<Result<number, EnrollmentError>> {
+    return Ok(this.lastPosition);
+  }
+
   // === ISnapshotStore Implementation ===
 
   async saveSnapshot(
     snapshot: AggregateSnapshot
   ): Promise<Result<void, EnrollmentError>> {
     const key = `${snapshot.aggregateType}-${snapshot.aggregateId}`;
-    this.snapshots.set(key, {
+    const saved = (this.snapshots.get(key) ?? []).filter(existing => existing.version !== snapshot.version);
+    saved.push({
       ...snapshot,
       timestamp: new Date()
     });
+    this.snapshots.set(key, saved.sort((a, b) => a.version - b.version));
     return Ok(undefined);
   }
 
@@ -138,8 +138,21 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     aggregateType: string
   ): Promise<Result<AggregateSnapshot | null, EnrollmentError>> {
     const key = `${aggregateType}-${aggregateId}`;
-    const snapshot = this.snapshots.get(key) || null;
-    return Ok(snapshot);
+    const saved = this.snapshots.get(key) ?? [];
+    return Ok(saved[saved.length - 1] ?? null);
+  }
+
+  async pruneSnapshots(olderThan: Date): Promise<Result<number, EnrollmentError>> {
+    let pruned = 0;
+
+    for (const [key, saved] of this.snapshots) {
+      const latest = saved[saved.length - 1];
+      const kept = saved.filter(snapshot => snapshot === latest || snapshot.timestamp >= olderThan);
+      pruned += saved.length - kept.length;
+      this.snapshots.set(key, kept);
+    }
+
+    return Ok(pruned);
   }
 
   // === IEventStreamMetadataStore Implementation ===
@@ -161,8 +174,98 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     return Ok(undefined);
   }
 
+  // === IOutboxStore Implementation ===
+
+  async appendWithOutbox(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.appendEvents(streamId, events, expectedVersion, messages);
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    return this.outbox.getDueOutboxEntries(now, limit);
+  }
+
+  async markOutboxDispatched(id: number, dispatchedAt: Date): Promise<Result<void, EnrollmentError>> {
+    return this.outbox.markOutboxDispatched(id, dispatchedAt);
+  }
+
+  async recordOutboxFailure(
+    id: number,
+    error: EnrollmentError,
+    attemptedAt: Date,
+    nextAttemptAt: Date | null
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.outbox.recordOutboxFailure(id, error, attemptedAt, nextAttemptAt);
+  }
+
+  async findStuckOutboxEntries(pendingSince: Date): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    return this.outbox.findStuckOutboxEntries(pendingSince);
+  }
+
   // === Private Helper Methods ===
 
+  /**
+   * イベントの追記（配信予定があれば同じ処理の中で outbox に記録する）
+   */
+  private async appendEvents(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    outboxMessages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>> {
+    // 現在のバージョンチェック（楽観的ロック）
+    const currentVersionResult = await this.getCurrentVersion(streamId);
+    if (!currentVersionResult.success) {
+      return currentVersionResult;
+    }
+
+    const currentVersion = currentVersionResult.data;
+    if (currentVersion !== expectedVersion) {
+      return Err(createConcurrencyError(
+        expectedVersion,
+        currentVersion,
+        streamId
+      ));
+    }
+
+    // イベントの追記
+    const streamEvents = this.events.get(streamId) || [];
+    const now = new Date();
+
+    for (let i = 0; i < events.length; i++) {
+      const event = events[i];
+      if (!event) continue;
+      
+      const storedEvent: StoredEvent = {
+        position: ++this.lastPosition,
+        streamId,
+        version: expectedVersion + i + 1,
+        event: {
+          ...event,
+          version: expectedVersion + i + 1 // バージョンを更新
+        },
+        timestamp: now
+      };
+      streamEvents.push(storedEvent);
+      this.log.push(storedEvent);
+    }
+
+    this.events.set(streamId, streamEvents);
+    this.outbox.enqueue(streamId, outboxMessages, now);
+
+    // メタデータの更新
+    await this.updateStreamMetadata(streamId, streamEvents);
+
+    // 設定に基づくスナップショット作成
+    await snapshotEnrollmentIfDue(this, streamId, expectedVersion, expectedVersion + events.length);
+
+    return Ok(undefined);
+  }
+
   private async updateStreamMetadata(
     streamId: string,
     events: StoredEvent[]
@@ -188,49 +291,6 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     this.metadata.set(streamId, metadata);
   }
 
-  /**
-   * 設定に基づいてスナップショットを作成
-   */
-  private async createSnapshotIfNeeded(
-    streamId: string,
-    events: StoredEvent[]
-  ): Promise<void> {
-    const config = this.getConfig();
-    
-    if (!config.eventStore.snapshot.enabled) {
-      return;
-    }
-
-    if (events.length === 0) {
-      return;
-    }
-
-    const lastEvent = events[events.length - 1];
-    if (!lastEvent) {
-      return;
-    }
-
-    const interval = config.eventStore.snapshot.interval;
-    
-    // スナップショット間隔に達した場合にスナップショットを作成
-    if (lastEvent.version % interval === 0) {
-      // 簡略化実装: 実際にはイベントから集約を復元してスナップショットを作成
-      const snapshot: AggregateSnapshot = {
-        aggregateId: streamId,
-        aggregateType: 'Enrollment',
-        version: lastEvent.version,
-        data: {
-          // 簡略化: 実際には集約の状態データ
-          lastEventType: lastEvent.event.eventType,
-          streamId: streamId
-        },
-        timestamp: new Date()
-      };
-
-      await this.saveSnapshot(snapshot);
-    }
-  }
-
   // === Development/Testing Utilities ===
 
   /**
@@ -240,6 +300,9 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     this.events.clear();
     this.snapshots.clear();
     this.metadata.clear();
+    this.log = [];
+    this.lastPosition = 0;
+    this.outbox.clear();
   }
 
   /**
@@ -253,7 +316,8 @@ export class InMemoryEventStore implements IEventStore, ISnapshotStore, IEventSt
     const totalStreams = this.events.size;
     const totalEvents = Array.from(this.events.values())
       .reduce((sum, events) => sum + events.length, 0);
-    const totalSnapshots = this.snapshots.size;
+    const totalSnapshots = Array.from(this.snapshots.values())
+      .reduce((sum, saved) => sum + saved.length, 0);
 
     return {
       totalStreams,
@@ -4,16 +4,27 @@
  * イベントソーシング基盤の完全な実装
  * - インターフェース定義
  * - In-Memory実装（開発・テスト用）
+ * - ファイル実装（JSON Lines、ローカル永続化用）
+ * - SQLite実装（組み込みDB、ステージング環境用）
+ * - 永続購読（チェックポイント付きキャッチアップ購読）
  * - ドメイン固有のストリーム操作
  */
 
 // === インターフェース ===
 export {
   type IEventStore,
+  type RecordedEvent,
   type ISnapshotStore,
   type AggregateSnapshot,
   type EventStreamMetadata,
-  type IEventStreamMetadataStore
+  type IEventStreamMetadataStore,
+  type SubscriptionHandler,
+  type SubscriptionOptions,
+  type SubscriptionState,
+  type SubscriptionStatus,
+  type ParkedMessage,
+  type ICheckpointStore,
+  type ISubscriptionManager
 } from './interfaces';
 
 // === 実装 ===
@@ -21,9 +32,49 @@ export {
   InMemoryEventStore
 } from './in-memory-store';
 
+export {
+  FileEventStore
+} from './file-store';
+
+export {
+  SqliteEventStore
+} from './sqlite-store';
+
+export {
+  type SqliteMigration,
+  SQLITE_MIGRATIONS,
+  runSqliteMigrations
+} from './sqlite-migrations';
+
+// === 購読 ===
+export {
+  EventStoreSubscriptionManager,
+  InMemoryCheckpointStore
+} from './subscription-manager';
+
+// === スナップショット ===
+export {
+  type EnrollmentSnapshotData,
+  ENROLLMENT_AGGREGATE_TYPE,
+  ENROLLMENT_SNAPSHOT_SCHEMA_VERSION,
+  createEnrollmentSnapshot,
+  restoreEnrollmentSnapshot,
+  loadEnrollmentState,
+  snapshotEnrollmentIfDue
+} from './snapshots';
+
+// === シリアライズ ===
+export {
+  serializeEvent,
+  deserializeEvent,
+  restoreDates
+} from './serialization';
+
 // === ドメイン固有のストリーム操作 ===
 export {
+  ENROLLMENT_STREAM_PREFIX,
   createEnrollmentStreamId,
+  createEnrollmentStreamPrefix,
   parseEnrollmentStreamId,
   EnrollmentEventStream,
   EventStreamFactory
@@ -13,6 +13,18 @@ import type { EnrollmentError } from '../../domain/errors/errors';
 
 // === Event Store Core Interface ===
 
+/**
+ * 全ストリーム共通の順序付きログ（$all）上のイベント
+ *
+ * position はストア全体で単調増加するコミット位置（1始まり、欠番はありうる）
+ */
+export interface RecordedEvent {
+  position: number;
+  streamId: string;
+  event: EnrollmentDomainEvent;
+  recordedAt: Date;
+}
+
 export interface IEventStore {
   /**
    * イベントストリームへの追記
@@ -59,6 +71,39 @@ export interface IEventStore {
   streamExists(
     streamId: string
   ): Promise<Result<boolean, EnrollmentError>>;
+
+  /**
+   * ストリームIDの前方一致検索
+   * 
+   * @param prefix ストリームIDの接頭辞 (例: "enrollment-ST001-")
+   * @returns 一致するストリームID配列またはエラー
+   */
+  findStreamIds(
+    prefix: string
+  ): Promise<Result<string[], EnrollmentError>>;
+
+  /**
+   * 全ストリームのイベントをコミット順に取得（$all ストリーム）
+   * 
+   * プロジェクション・エクスポート・外部連携が履歴全体を順番に読むために使う
+   * 
+   * @param fromPosition 取得開始位置（この位置を含む、省略時は先頭から）
+   * @param limit 最大取得件数（省略時は全て）
+   * @returns コミット位置の昇順に並んだイベント配列またはエラー
+   */
+  readAll(
+    fromPosition?: number,
+    limit?: number
+  ): Promise<Result<RecordedEvent[], EnrollmentError>>;
+
+  /**
+   * 最後にコミットされたイベントの位置（$all ストリームの末尾）
+   *
+   * 履歴を読まずに購読やプロジェクションの遅れを求めるために使う
+   *
+   * @returns 最終コミット位置（イベントが無ければ 0）またはエラー
+   */
+  getLastPosition(): Promise<Result<number, EnrollmentError>>;
 }
 
 // === Aggregate Snapshot Support ===
@@ -74,18 +119,32 @@ export interface AggregateSnapshot {
 export interface ISnapshotStore {
   /**
    * スナップショットの保存
+   * 
+   * 集約ごとにバージョン違いを複数保持する（同じバージョンは上書き）
    */
   saveSnapshot(
     snapshot: AggregateSnapshot
   ): Promise<Result<void, EnrollmentError>>;
 
   /**
-   * スナップショットの取得
+   * 最新（バージョンが最大）のスナップショットの取得
    */
   getSnapshot(
     aggregateId: string,
     aggregateType: string
   ): Promise<Result<AggregateSnapshot | null, EnrollmentError>>;
+
+  /**
+   * 古いスナップショットの削除
+   * 
+   * 各集約の最新スナップショットは日時に関わらず残す
+   * 
+   * @param olderThan この日時より前に保存されたものを削除
+   * @returns 削除した件数またはエラー
+   */
+  pruneSnapshots(
+    olderThan: Date
+  ): Promise<Result<number, EnrollmentError>>;
 }
 
 // === Event Stream Metadata ===
@@ -113,4 +172,110 @@ export interface IEventStreamMetadataStore {
   updateMetadata(
     metadata: EventStreamMetadata
   ): Promise<Result<void, EnrollmentError>>;
-}
\ No newline at end of file
+}
+
+// === Subscriptions ===
+
+/**
+ * 購読ハンドラ
+ *
+ * 失敗（Err または例外）した配信は設定に従って再試行され、
+ * 再試行し尽くしたイベントは退避（パーク）される
+ */
+export type SubscriptionHandler = (
+  recorded: RecordedEvent
+) => Promise<Result<void, EnrollmentError>>;
+
+export interface SubscriptionOptions {
+  /** readAll 1回あたりの取得件数 */
+  batchSize?: number;
+  /** 追いついた後に新着イベントを確認する間隔 */
+  pollIntervalMs?: number;
+}
+
+export type SubscriptionState = 'catchingUp' | 'live' | 'stopped';
+
+export interface SubscriptionStatus {
+  name: string;
+  state: SubscriptionState;
+  /** 処理済み（成功またはパーク済み）の最終コミット位置 */
+  checkpoint: number;
+  lastError: EnrollmentError | null;
+}
+
+/**
+ * 再試行し尽くして退避したイベント
+ */
+export interface ParkedMessage {
+  subscriptionName: string;
+  recorded: RecordedEvent;
+  error: EnrollmentError;
+  attempts: number;
+  parkedAt: Date;
+}
+
+export interface ICheckpointStore {
+  /**
+   * チェックポイントの取得（未保存なら null）
+   */
+  getCheckpoint(
+    subscriptionName: string
+  ): Promise<Result<number | null, EnrollmentError>>;
+
+  /**
+   * チェックポイントの保存
+   */
+  saveCheckpoint(
+    subscriptionName: string,
+    position: number
+  ): Promise<Result<void, EnrollmentError>>;
+
+  /**
+   * パークしたイベントの記録
+   */
+  parkMessage(
+    message: ParkedMessage
+  ): Promise<Result<void, EnrollmentError>>;
+
+  /**
+   * パークしたイベントの取得（パークした順）
+   */
+  getParkedMessages(
+    subscriptionName: string
+  ): Promise<Result<ParkedMessage[], EnrollmentError>>;
+}
+
+/**
+ * 名前付きの永続購読（キャッチアップ購読）
+ *
+ * - チェックポイントの続きから履歴を読み（キャッチアップ）、追いついたら新着を配信（ライブ）
+ * - 少なくとも1回の配信: チェックポイントは処理後に保存するため、再起動時に重複配信がありうる
+ * - 同じ名前の購読は同時に1つまで
+ */
+export interface ISubscriptionManager {
+  /**
+   * 購読を開始する（キャッチアップが終わるまで待ってから返る）
+   */
+  subscribe(
+    name: string,
+    handler: SubscriptionHandler,
+    options?: SubscriptionOptions
+  ): Promise<Result<SubscriptionStatus, EnrollmentError>>;
+
+  /**
+   * 購読を停止する（処理中の配信が終わるまで待つ）
+   */
+  unsubscribe(name: string): Promise<void>;
+
+  /**
+   * 購読の状態（未登録なら null）
+   */
+  getStatus(name: string): SubscriptionStatus | null;
+
+  /**
+   * 購読でパークしたイベント
+   */
+  getParkedMessages(
+    name: string
+  ): Promise<Result<ParkedMessage[], EnrollmentError>>;
+}
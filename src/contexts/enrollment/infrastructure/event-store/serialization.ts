@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import {
+  EnrollmentDomainEventSchema,
+  type EnrollmentDomainEvent
+} from '../../domain/events/domain-events';
+import { upcastEvent } from '../../domain/events/upcasters';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createValidationError } from '../../domain/errors/errors';
+
+/**
+ * イベントのシリアライズ／デシリアライズ
+ *
+ * 永続化ストア（ファイル・DB）共通の変換処理
+ * - 書き込み: JSON.stringify（Date は ISO 8601 文字列になる）
+ * - 読み込み: 旧バージョンのイベントを upcaster で現在の形に変換し、
+ *   イベントスキーマを辿って z.date() の位置だけ Date に戻してから検証
+ *
+ * なぜ JSON.parse の reviver で日付文字列を一律変換しないのか？
+ * metadata のような自由形式の値まで Date に化けてしまうため、
+ * どのフィールドが日付かはスキーマに決めさせる
+ */
+
+/**
+ * イベントをJSON文字列へ変換
+ */
+export function serializeEvent(event: EnrollmentDomainEvent): string {
+  return JSON.stringify(event);
+}
+
+/**
+ * JSON由来の値をイベントとして復元・検証
+ */
+export function deserializeEvent(raw: unknown): Result<EnrollmentDomainEvent, EnrollmentError> {
+  const upcasted = upcastEvent(raw);
+  if (!upcasted.success) {
+    return upcasted;
+  }
+
+  const parsed = EnrollmentDomainEventSchema.safeParse(
+    restoreDates(EnrollmentDomainEventSchema, upcasted.data)
+  );
+  if (!parsed.success) {
+    return Err(createValidationError(
+      'Stored event does not match event schema',
+      'INVALID_STORED_EVENT',
+      undefined,
+      { issues: parsed.error.issues }
+    ));
+  }
+  return Ok(parsed.data);
+}
+
+/**
+ * スキーマ上で z.date() となっている位置の文字列を Date に戻す
+ *
+ * 検証は行わない（不正な値はそのまま残し、後続の safeParse に判定させる）
+ */
+export function restoreDates(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (schema instanceof z.ZodDate) {
+    return typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+  }
+
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable
+  ) {
+    return value === undefined || value === null ? value : restoreDates(schema.unwrap(), value);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return restoreDates(schema._def.innerType, value);
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return restoreDates(schema.innerType(), value);
+  }
+
+  if (schema instanceof z.ZodLazy) {
+    return restoreDates(schema.schema, value);
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return Array.isArray(value) ? value.map(item => restoreDates(schema.element, item)) : value;
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    const option = schema.optionsMap.get(value[schema.discriminator] as z.Primitive);
+    return option ? restoreDates(option, value) : value;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, fieldValue]) => {
+        const fieldSchema = shape[key];
+        return [key, fieldSchema ? restoreDates(fieldSchema, fieldValue) : fieldValue];
+      })
+    );
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, fieldValue]) => [key, restoreDates(schema.valueSchema, fieldValue)])
+    );
+  }
+
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
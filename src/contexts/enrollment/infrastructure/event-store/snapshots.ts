@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { Ok, type Result } from '../../../../shared/types/index';
+import { EnrollmentSchema, type Enrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { foldEvents } from '../../domain/aggregates/enrollment-aggregate';
+import { getCurrentConfig } from '../../../../shared/config/index';
+import type { IEventStore, ISnapshotStore, AggregateSnapshot } from './interfaces';
+import { restoreDates } from './serialization';
+
+/**
+ * 履修申請集約のスナップショット
+ *
+ * 復元済みの Enrollment を JSON 互換の形（Date は ISO 8601 文字列）で保存する
+ * - data には schemaVersion を持たせ、読み込み時に現在のバージョンと一致するものだけ使う
+ * - スナップショットはキャッシュに過ぎないため、読めないもの（旧形式・スキーマ不一致）は
+ *   エラーにせず無視してイベントを先頭から畳み込む
+ */
+
+export const ENROLLMENT_AGGREGATE_TYPE = 'Enrollment';
+
+/**
+ * 保存形式のバージョン（Enrollment の形を変えたら上げる）
+ */
+export const ENROLLMENT_SNAPSHOT_SCHEMA_VERSION = 1;
+
+const EnrollmentSnapshotDataSchema = z.object({
+  schemaVersion: z.number().int().positive(),
+  state: z.unknown()
+});
+
+export type EnrollmentSnapshotData = z.infer<typeof EnrollmentSnapshotDataSchema>;
+
+/**
+ * 集約の状態からスナップショットを作成
+ */
+export function createEnrollmentSnapshot(
+  streamId: string,
+  enrollment: Enrollment
+): AggregateSnapshot {
+  const data: EnrollmentSnapshotData = {
+    schemaVersion: ENROLLMENT_SNAPSHOT_SCHEMA_VERSION,
+    state: JSON.parse(JSON.stringify(enrollment)) as unknown
+  };
+
+  return {
+    aggregateId: streamId,
+    aggregateType: ENROLLMENT_AGGREGATE_TYPE,
+    version: enrollment.version,
+    data,
+    timestamp: new Date()
+  };
+}
+
+/**
+ * スナップショットから集約の状態を復元（使えない場合は null）
+ */
+export function restoreEnrollmentSnapshot(snapshot: AggregateSnapshot): Enrollment | null {
+  const data = EnrollmentSnapshotDataSchema.safeParse(snapshot.data);
+  if (!data.success || data.data.schemaVersion !== ENROLLMENT_SNAPSHOT_SCHEMA_VERSION) {
+    return null;
+  }
+
+  const state = EnrollmentSchema.safeParse(restoreDates(EnrollmentSchema, data.data.state));
+  if (!state.success || state.data.version !== snapshot.version) {
+    return null;
+  }
+
+  return state.data;
+}
+
+/**
+ * 最新のスナップショットと、それ以降のイベントから集約を復元
+ *
+ * スナップショットストアが無い・使えるスナップショットが無い場合は先頭から畳み込む
+ */
+export async function loadEnrollmentState(
+  eventStore: IEventStore,
+  snapshotStore: ISnapshotStore | undefined,
+  streamId: string
+): Promise<Result<Enrollment | null, EnrollmentError>> {
+  let initial: Enrollment | null = null;
+
+  if (snapshotStore) {
+    const snapshotResult = await snapshotStore.getSnapshot(streamId, ENROLLMENT_AGGREGATE_TYPE);
+    if (!snapshotResult.success) {
+      return snapshotResult;
+    }
+    initial = snapshotResult.data ? restoreEnrollmentSnapshot(snapshotResult.data) : null;
+  }
+
+  const eventsResult = await eventStore.getEvents(streamId, (initial?.version ?? 0) + 1);
+  if (!eventsResult.success) {
+    return eventsResult;
+  }
+
+  return foldEvents(initial, eventsResult.data);
+}
+
+/**
+ * 追記によってスナップショット間隔を跨いだら、追記後の状態のスナップショットを保存する
+ *
+ * 保存後は eventStore.snapshot.retentionDays より古いスナップショットを削除する。
+ * スナップショットの失敗は追記の成否に影響させない（次の間隔で作り直される）。
+ */
+export async function snapshotEnrollmentIfDue(
+  store: IEventStore & ISnapshotStore,
+  streamId: string,
+  previousVersion: number,
+  currentVersion: number
+): Promise<void> {
+  const { snapshot: snapshotConfig } = getCurrentConfig().eventStore;
+
+  if (!snapshotConfig.enabled) {
+    return;
+  }
+
+  const interval = snapshotConfig.interval;
+  if (Math.floor(currentVersion / interval) === Math.floor(previousVersion / interval)) {
+    return;
+  }
+
+  const stateResult = await loadEnrollmentState(store, store, streamId);
+  if (!stateResult.success || !stateResult.data) {
+    return;
+  }
+
+  const saveResult = await store.saveSnapshot(createEnrollmentSnapshot(streamId, stateResult.data));
+  if (!saveResult.success) {
+    return;
+  }
+
+  const retentionMs = snapshotConfig.retentionDays * 24 * 60 * 60 * 1000;
+  await store.pruneSnapshots(new Date(Date.now() - retentionMs));
+}
@@ -0,0 +1,159 @@
+import type BetterSqlite3 from 'better-sqlite3';
+
+/**
+ * SQLite Event Store のスキーママイグレーション
+ *
+ * - 適用済みのバージョンは schema_migrations に記録する
+ * - マイグレーションは追加のみ（適用済みのものは書き換えない）
+ * - 各マイグレーションは1トランザクションで適用する
+ */
+
+export interface SqliteMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const SQLITE_MIGRATIONS: ReadonlyArray<SqliteMigration> = [
+  {
+    version: 1,
+    name: 'create_event_store_tables',
+    sql: `
+      CREATE TABLE events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        recorded_at TEXT NOT NULL,
+        UNIQUE (stream_id, version)
+      );
+
+      CREATE TABLE snapshots (
+        aggregate_type TEXT NOT NULL,
+        aggregate_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        PRIMARY KEY (aggregate_type, aggregate_id)
+      );
+
+      CREATE TABLE stream_metadata (
+        stream_id TEXT PRIMARY KEY,
+        event_count INTEGER NOT NULL,
+        first_event_version INTEGER NOT NULL,
+        last_event_version INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        last_modified_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'keep_snapshot_history',
+    // 集約ごとにバージョン違いのスナップショットを保持する（保持期間で削除）
+    sql: `
+      CREATE TABLE snapshots_v2 (
+        aggregate_type TEXT NOT NULL,
+        aggregate_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        PRIMARY KEY (aggregate_type, aggregate_id, version)
+      );
+
+      INSERT INTO snapshots_v2 (aggregate_type, aggregate_id, version, data, timestamp)
+        SELECT aggregate_type, aggregate_id, version, data, timestamp FROM snapshots;
+
+      DROP TABLE snapshots;
+      ALTER TABLE snapshots_v2 RENAME TO snapshots;
+    `
+  },
+  {
+    version: 3,
+    name: 'create_outbox',
+    // イベントの追記と同じトランザクションで書く配信予定（Transactional Outbox）
+    sql: `
+      CREATE TABLE outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream_id TEXT NOT NULL,
+        destination TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        next_attempt_at TEXT NOT NULL,
+        last_attempt_at TEXT,
+        dispatched_at TEXT,
+        last_error TEXT
+      );
+
+      CREATE INDEX outbox_status_next_attempt ON outbox (status, next_attempt_at);
+    `
+  },
+  {
+    version: 4,
+    name: 'create_subscription_checkpoints',
+    // 購読のチェックポイントとパークしたイベント（再起動後も続きから配信する）
+    sql: `
+      CREATE TABLE subscription_checkpoints (
+        subscription_name TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE parked_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subscription_name TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        stream_id TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        recorded_at TEXT NOT NULL,
+        error TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        parked_at TEXT NOT NULL
+      );
+
+      CREATE INDEX parked_messages_subscription ON parked_messages (subscription_name, id);
+    `
+  }
+];
+
+/**
+ * 未適用のマイグレーションを順に適用し、適用後のスキーマバージョンを返す
+ */
+export function runSqliteMigrations(
+  db: BetterSqlite3.Database,
+  migrations: ReadonlyArray<SqliteMigration> = SQLITE_MIGRATIONS
+): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    (db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>)
+      .map(row => row.version)
+  );
+
+  const recordMigration = db.prepare(
+    'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)'
+  );
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      recordMigration.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
@@ -0,0 +1,750 @@
+import Database from 'better-sqlite3';
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import {
+  EnrollmentErrorSchema,
+  createConcurrencyError,
+  createNotFoundError,
+  createValidationError
+} from '../../domain/errors/errors';
+import type { OutboxDestination, OutboxEntry, OutboxEntryStatus } from '../../application/ports/ports';
+import type { IOutboxStore, OutboxMessage } from '../outbox/interfaces';
+import type {
+  IEventStore,
+  ISnapshotStore,
+  AggregateSnapshot,
+  EventStreamMetadata,
+  IEventStreamMetadataStore,
+  RecordedEvent,
+  ICheckpointStore,
+  ParkedMessage
+} from './interfaces';
+import { serializeEvent, deserializeEvent, restoreDates } from './serialization';
+import { runSqliteMigrations } from './sqlite-migrations';
+import { snapshotEnrollmentIfDue } from './snapshots';
+
+/**
+ * SQLite Event Store実装
+ *
+ * サーバー不要の組み込みDBによる永続化（ステージング環境向け）
+ * - 楽観的ロック: (stream_id, version) の一意制約
+ *   別プロセスとの競合も一意制約違反として ConcurrencyError になる
+ * - 追記・メタデータ更新は1トランザクション（BEGIN IMMEDIATE）
+ * - 起動時にスキーママイグレーションを適用
+ * - events.id（AUTOINCREMENT）をグローバルなコミット位置として使う
+ * - InMemoryEventStore と同じ振る舞い（スナップショット設定を含む）
+ *   スナップショットは集約ごとに履歴を持ち、保持期間を過ぎたものは削除する
+ * - outbox の配信予定はイベントと同じ追記トランザクションで書き込む
+ * - 購読のチェックポイントとパークしたイベントも保存する（再起動後は続きから配信）
+ */
+
+interface EventRow {
+  version: number;
+  payload: string;
+}
+
+interface RecordedEventRow {
+  id: number;
+  stream_id: string;
+  payload: string;
+  recorded_at: string;
+}
+
+interface SnapshotRow {
+  aggregate_type: string;
+  aggregate_id: string;
+  version: number;
+  data: string;
+  timestamp: string;
+}
+
+interface OutboxRow {
+  id: number;
+  stream_id: string;
+  destination: OutboxDestination;
+  payload: string;
+  status: OutboxEntryStatus;
+  attempts: number;
+  created_at: string;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  dispatched_at: string | null;
+  last_error: string | null;
+}
+
+interface ParkedMessageRow {
+  subscription_name: string;
+  position: number;
+  stream_id: string;
+  payload: string;
+  recorded_at: string;
+  error: string;
+  attempts: number;
+  parked_at: string;
+}
+
+interface MetadataRow {
+  stream_id: string;
+  event_count: number;
+  first_event_version: number;
+  last_event_version: number;
+  created_at: string;
+  last_modified_at: string;
+}
+
+export class SqliteEventStore
+  implements IEventStore, ISnapshotStore, IEventStreamMetadataStore, IOutboxStore, ICheckpointStore {
+  private readonly db: Database.Database;
+  private readonly schemaVersion: number;
+
+  /**
+   * @param filename データベースファイルのパス（':memory:' でインメモリ）
+   */
+  constructor(filename: string = ':memory:') {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.schemaVersion = runSqliteMigrations(this.db);
+  }
+
+  // === IEventStore Implementation ===
+
+  async append(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.appendEvents(streamId, events, expectedVersion, []);
+  }
+
+  async getEvents(
+    streamId: string,
+    fromVersion: number = 1
+  ): Promise<Result<EnrollmentDomainEvent[], EnrollmentError>> {
+    let rows: EventRow[];
+    try {
+      rows = this.db.prepare(
+        'SELECT version, payload FROM events WHERE stream_id = ? AND version >= ? ORDER BY version'
+      ).all(streamId, fromVersion) as EventRow[];
+    } catch (error) {
+      return Err(sqliteError('Failed to read events', streamId, error));
+    }
+
+    const events: EnrollmentDomainEvent[] = [];
+    for (const row of rows) {
+      const eventResult = parseStoredEvent(row.payload, { streamId, version: row.version });
+      if (!eventResult.success) {
+        return eventResult;
+      }
+      events.push(eventResult.data);
+    }
+
+    return Ok(events);
+  }
+
+  async getCurrentVersion(streamId: string): Promise<Result<number, EnrollmentError>> {
+    try {
+      return Ok(this.selectCurrentVersion(streamId));
+    } catch (error) {
+      return Err(sqliteError('Failed to read stream version', streamId, error));
+    }
+  }
+
+  async streamExists(streamId: string): Promise<Result<boolean, EnrollmentError>> {
+    const versionResult = await this.getCurrentVersion(streamId);
+    if (!versionResult.success) {
+      return versionResult;
+    }
+
+    return Ok(versionResult.data > 0);
+  }
+
+  async findStreamIds(prefix: string): Promise<Result<string[], EnrollmentError>> {
+    try {
+      const rows = this.db.prepare(
+        'SELECT DISTINCT stream_id FROM events WHERE substr(stream_id, 1, length(?)) = ? ORDER BY stream_id'
+      ).all(prefix, prefix) as Array<{ stream_id: string }>;
+      return Ok(rows.map(row => row.stream_id));
+    } catch (error) {
+      return Err(sqliteError('Failed to list streams', prefix, error));
+    }
+  }
+
+  async readAll(
+    fromPosition: number = 1,
+    limit?: number
+  ): Promise<Result<RecordedEvent[], EnrollmentError>> {
+    let rows: RecordedEventRow[];
+    try {
+      // LIMIT -1 は件数無制限
+      rows = this.db.prepare(
+        'SELECT id, stream_id, payload, recorded_at FROM events WHERE id >= ? ORDER BY id LIMIT ?'
+      ).all(fromPosition, limit ?? -1) as RecordedEventRow[];
+    } catch (error) {
+      return Err(sqliteError('Failed to read all events', '$all', error));
+    }
+
+    const recorded: RecordedEvent[] = [];
+    for (const row of rows) {
+      const eventResult = parseStoredEvent(row.payload, { streamId: row.stream_id, position: row.id });
+      if (!eventResult.success) {
+        return eventResult;
+      }
+      recorded.push({
+        position: row.id,
+        streamId: row.stream_id,
+        event: eventResult.data,
+        recordedAt: new Date(row.recorded_at)
+      });
+    }
+
+    return Ok(recorded);
+  }
+
+  async getLastPosition(): Promise<Result<number, EnrollmentError>> {
+    try {
+      const row = this.db.prepare('SELECT MAX(id) AS position FROM events').get() as { position: number | null };
+      return Ok(row.position ?? 0);
+    } catch (error) {
+      return Err(sqliteError('Failed to read last position', '$all', error));
+    }
+  }
+
+  // === ISnapshotStore Implementation ===
+
+  async saveSnapshot(
+    snapshot: AggregateSnapshot
+  ): Promise<Result<void, EnrollmentError>> {
+    try {
+      this.db.prepare(
+        `INSERT INTO snapshots (aggregate_type, aggregate_id, version, data, timestamp)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (aggregate_type, aggregate_id, version) DO UPDATE SET
+           data = excluded.data,
+           timestamp = excluded.timestamp`
+      ).run(
+        snapshot.aggregateType,
+        snapshot.aggregateId,
+        snapshot.version,
+        JSON.stringify(snapshot.data),
+        new Date().toISOString()
+      );
+      return Ok(undefined);
+    } catch (error) {
+      return Err(sqliteError('Failed to save snapshot', snapshot.aggregateId, error));
+    }
+  }
+
+  async getSnapshot(
+    aggregateId: string,
+    aggregateType: string
+  ): Promise<Result<AggregateSnapshot | null, EnrollmentError>> {
+    try {
+      const row = this.db.prepare(
+        `SELECT * FROM snapshots WHERE aggregate_type = ? AND aggregate_id = ?
+         ORDER BY version DESC LIMIT 1`
+      ).get(aggregateType, aggregateId) as SnapshotRow | undefined;
+
+      if (!row) {
+        return Ok(null);
+      }
+
+      return Ok({
+        aggregateId: row.aggregate_id,
+        aggregateType: row.aggregate_type,
+        version: row.version,
+        data: JSON.parse(row.data) as unknown,
+        timestamp: new Date(row.timestamp)
+      });
+    } catch (error) {
+      return Err(sqliteError('Failed to read snapshot', aggregateId, error));
+    }
+  }
+
+  async pruneSnapshots(olderThan: Date): Promise<Result<number, EnrollmentError>> {
+    try {
+      // 各集約の最新スナップショットは残す
+      const result = this.db.prepare(
+        `DELETE FROM snapshots
+         WHERE timestamp < ?
+           AND version < (
+             SELECT MAX(latest.version) FROM snapshots AS latest
+             WHERE latest.aggregate_type = snapshots.aggregate_type
+               AND latest.aggregate_id = snapshots.aggregate_id
+           )`
+      ).run(olderThan.toISOString());
+      return Ok(result.changes);
+    } catch (error) {
+      return Err(sqliteError('Failed to prune snapshots', '$all', error));
+    }
+  }
+
+  // === IOutboxStore Implementation ===
+
+  async appendWithOutbox(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.appendEvents(streamId, events, expectedVersion, messages);
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    let rows: OutboxRow[];
+    try {
+      rows = this.db.prepare(
+        `SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY id LIMIT ?`
+      ).all(now.toISOString(), limit) as OutboxRow[];
+    } catch (error) {
+      return Err(sqliteError('Failed to read outbox', '$outbox', error));
+    }
+
+    return mapOutboxRows(rows);
+  }
+
+  async markOutboxDispatched(id: number, dispatchedAt: Date): Promise<Result<void, EnrollmentError>> {
+    try {
+      const result = this.db.prepare(
+        `UPDATE outbox SET status = 'dispatched', attempts = attempts + 1,
+           last_attempt_at = ?, dispatched_at = ?, last_error = NULL
+         WHERE id = ?`
+      ).run(dispatchedAt.toISOString(), dispatchedAt.toISOString(), id);
+      return result.changes > 0 ? Ok(undefined) : Err(createNotFoundError('OutboxEntry', String(id)));
+    } catch (error) {
+      return Err(sqliteError('Failed to update outbox', '$outbox', error));
+    }
+  }
+
+  async recordOutboxFailure(
+    id: number,
+    error: EnrollmentError,
+    attemptedAt: Date,
+    nextAttemptAt: Date | null
+  ): Promise<Result<void, EnrollmentError>> {
+    try {
+      // next_attempt_at は諦めた場合も最後の試行日時のまま残す
+      const result = this.db.prepare(
+        `UPDATE outbox SET
+           status = CASE WHEN ? IS NULL THEN 'failed' ELSE status END,
+           attempts = attempts + 1,
+           last_attempt_at = ?,
+           next_attempt_at = COALESCE(?, next_attempt_at),
+           last_error = ?
+         WHERE id = ?`
+      ).run(
+        nextAttemptAt?.toISOString() ?? null,
+        attemptedAt.toISOString(),
+        nextAttemptAt?.toISOString() ?? null,
+        JSON.stringify(error),
+        id
+      );
+      return result.changes > 0 ? Ok(undefined) : Err(createNotFoundError('OutboxEntry', String(id)));
+    } catch (updateError) {
+      return Err(sqliteError('Failed to update outbox', '$outbox', updateError));
+    }
+  }
+
+  async findStuckOutboxEntries(pendingSince: Date): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    let rows: OutboxRow[];
+    try {
+      rows = this.db.prepare(
+        `SELECT * FROM outbox
+         WHERE status = 'failed' OR (status = 'pending' AND created_at < ?)
+         ORDER BY id`
+      ).all(pendingSince.toISOString()) as OutboxRow[];
+    } catch (error) {
+      return Err(sqliteError('Failed to read outbox', '$outbox', error));
+    }
+
+    return mapOutboxRows(rows);
+  }
+
+  // === ICheckpointStore Implementation ===
+
+  async getCheckpoint(subscriptionName: string): Promise<Result<number | null, EnrollmentError>> {
+    try {
+      const row = this.db.prepare(
+        'SELECT position FROM subscription_checkpoints WHERE subscription_name = ?'
+      ).get(subscriptionName) as { position: number } | undefined;
+      return Ok(row ? row.position : null);
+    } catch (error) {
+      return Err(sqliteError('Failed to read checkpoint', subscriptionName, error));
+    }
+  }
+
+  async saveCheckpoint(subscriptionName: string, position: number): Promise<Result<void, EnrollmentError>> {
+    try {
+      this.db.prepare(
+        `INSERT INTO subscription_checkpoints (subscription_name, position, updated_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (subscription_name) DO UPDATE SET
+           position = excluded.position,
+           updated_at = excluded.updated_at`
+      ).run(subscriptionName, position, new Date().toISOString());
+      return Ok(undefined);
+    } catch (error) {
+      return Err(sqliteError('Failed to save checkpoint', subscriptionName, error));
+    }
+  }
+
+  async parkMessage(message: ParkedMessage): Promise<Result<void, EnrollmentError>> {
+    try {
+      this.db.prepare(
+        `INSERT INTO parked_messages
+           (subscription_name, position, stream_id, payload, recorded_at, error, attempts, parked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        message.subscriptionName,
+        message.recorded.position,
+        message.recorded.streamId,
+        serializeEvent(message.recorded.event),
+        message.recorded.recordedAt.toISOString(),
+        JSON.stringify(message.error),
+        message.attempts,
+        message.parkedAt.toISOString()
+      );
+      return Ok(undefined);
+    } catch (error) {
+      return Err(sqliteError('Failed to park message', message.subscriptionName, error));
+    }
+  }
+
+  async getParkedMessages(subscriptionName: string): Promise<Result<ParkedMessage[], EnrollmentError>> {
+    let rows: ParkedMessageRow[];
+    try {
+      rows = this.db.prepare(
+        'SELECT * FROM parked_messages WHERE subscription_name = ? ORDER BY id'
+      ).all(subscriptionName) as ParkedMessageRow[];
+    } catch (error) {
+      return Err(sqliteError('Failed to read parked messages', subscriptionName, error));
+    }
+
+    return mapParkedMessageRows(rows);
+  }
+
+  // === IEventStreamMetadataStore Implementation ===
+
+  async getMetadata(
+    streamId: string
+  ): Promise<Result<EventStreamMetadata | null, EnrollmentError>> {
+    try {
+      const row = this.db.prepare(
+        'SELECT * FROM stream_metadata WHERE stream_id = ?'
+      ).get(streamId) as MetadataRow | undefined;
+
+      return Ok(row ? mapMetadataRow(row) : null);
+    } catch (error) {
+      return Err(sqliteError('Failed to read stream metadata', streamId, error));
+    }
+  }
+
+  async updateMetadata(
+    metadata: EventStreamMetadata
+  ): Promise<Result<void, EnrollmentError>> {
+    try {
+      this.upsertMetadata({ ...metadata, lastModifiedAt: new Date() });
+      return Ok(undefined);
+    } catch (error) {
+      return Err(sqliteError('Failed to update stream metadata', metadata.streamId, error));
+    }
+  }
+
+  // === Private Helper Methods ===
+
+  /**
+   * イベントの追記（配信予定があれば同じトランザクションで outbox に書き込む）
+   */
+  private async appendEvents(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    outboxMessages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>> {
+    const insertEvent = this.db.prepare(
+      `INSERT INTO events (stream_id, version, event_type, payload, recorded_at)
+       VALUES (?, ?, ?, ?, ?)`
+    );
+
+    const insertOutbox = this.db.prepare(
+      `INSERT INTO outbox (stream_id, destination, payload, status, attempts, created_at, next_attempt_at)
+       VALUES (?, ?, ?, 'pending', 0, ?, ?)`
+    );
+
+    const appendTransaction = this.db.transaction((): Result<void, EnrollmentError> => {
+      // 現在のバージョンチェック（楽観的ロック）
+      const currentVersion = this.selectCurrentVersion(streamId);
+      if (currentVersion !== expectedVersion) {
+        return Err(createConcurrencyError(expectedVersion, currentVersion, streamId));
+      }
+
+      const recordedAt = new Date().toISOString();
+      events.forEach((event, index) => {
+        const version = expectedVersion + index + 1;
+        insertEvent.run(
+          streamId,
+          version,
+          event.eventType,
+          serializeEvent({ ...event, version }),
+          recordedAt
+        );
+      });
+
+      if (events.length > 0) {
+        this.refreshStreamMetadata(streamId);
+      }
+
+      for (const message of outboxMessages) {
+        insertOutbox.run(streamId, message.destination, serializeEvent(message.event), recordedAt, recordedAt);
+      }
+
+      return Ok(undefined);
+    });
+
+    let result: Result<void, EnrollmentError>;
+    try {
+      result = appendTransaction.immediate();
+    } catch (error) {
+      // 他の接続が同じバージョンを先に書き込んだ場合
+      if (isUniqueConstraintViolation(error)) {
+        return Err(createConcurrencyError(
+          expectedVersion,
+          this.selectCurrentVersion(streamId),
+          streamId
+        ));
+      }
+      return Err(sqliteError('Failed to append events', streamId, error));
+    }
+
+    if (!result.success) {
+      return result;
+    }
+
+    // 設定に基づくスナップショット作成
+    await snapshotEnrollmentIfDue(this, streamId, expectedVersion, expectedVersion + events.length);
+
+    return Ok(undefined);
+  }
+
+  private selectCurrentVersion(streamId: string): number {
+    const row = this.db.prepare(
+      'SELECT MAX(version) AS version FROM events WHERE stream_id = ?'
+    ).get(streamId) as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  /**
+   * イベントテーブルからストリームメタデータを再計算（追記トランザクション内で呼ぶ）
+   */
+  private refreshStreamMetadata(streamId: string): void {
+    const stats = this.db.prepare(
+      `SELECT COUNT(*) AS event_count, MIN(version) AS first_version, MAX(version) AS last_version
+       FROM events WHERE stream_id = ?`
+    ).get(streamId) as { event_count: number; first_version: number; last_version: number };
+
+    const existing = this.db.prepare(
+      'SELECT created_at FROM stream_metadata WHERE stream_id = ?'
+    ).get(streamId) as { created_at: string } | undefined;
+
+    const now = new Date();
+    this.upsertMetadata({
+      streamId,
+      eventCount: stats.event_count,
+      firstEventVersion: stats.first_version,
+      lastEventVersion: stats.last_version,
+      createdAt: existing ? new Date(existing.created_at) : now,
+      lastModifiedAt: now
+    });
+  }
+
+  private upsertMetadata(metadata: EventStreamMetadata): void {
+    this.db.prepare(
+      `INSERT INTO stream_metadata
+         (stream_id, event_count, first_event_version, last_event_version, created_at, last_modified_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (stream_id) DO UPDATE SET
+         event_count = excluded.event_count,
+         first_event_version = excluded.first_event_version,
+         last_event_version = excluded.last_event_version,
+         last_modified_at = excluded.last_modified_at`
+    ).run(
+      metadata.streamId,
+      metadata.eventCount,
+      metadata.firstEventVersion,
+      metadata.lastEventVersion,
+      metadata.createdAt.toISOString(),
+      metadata.lastModifiedAt.toISOString()
+    );
+  }
+
+  // === Development/Testing Utilities ===
+
+  /**
+   * 適用済みのスキーマバージョン
+   */
+  getSchemaVersion(): number {
+    return this.schemaVersion;
+  }
+
+  /**
+   * 全データ削除（テスト用）
+   */
+  async clear(): Promise<void> {
+    this.db.exec(`
+      DELETE FROM events; DELETE FROM snapshots; DELETE FROM stream_metadata; DELETE FROM outbox;
+      DELETE FROM subscription_checkpoints; DELETE FROM parked_messages;
+    `);
+  }
+
+  /**
+   * データベース接続を閉じる
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+function mapMetadataRow(row: MetadataRow): EventStreamMetadata {
+  return {
+    streamId: row.stream_id,
+    eventCount: row.event_count,
+    firstEventVersion: row.first_event_version,
+    lastEventVersion: row.last_event_version,
+    createdAt: new Date(row.created_at),
+    lastModifiedAt: new Date(row.last_modified_at)
+  };
+}
+
+function mapOutboxRows(rows: OutboxRow[]): Result<OutboxEntry[], EnrollmentError> {
+  const entries: OutboxEntry[] = [];
+
+  for (const row of rows) {
+    const eventResult = parseStoredEvent(row.payload, { outboxEntryId: row.id });
+    if (!eventResult.success) {
+      return eventResult;
+    }
+
+    let lastError: EnrollmentError | null = null;
+    if (row.last_error !== null) {
+      const storedErrorResult = parseStoredJson(row.last_error, { outboxEntryId: row.id });
+      if (!storedErrorResult.success) {
+        return storedErrorResult;
+      }
+      const errorResult = EnrollmentErrorSchema.safeParse(
+        restoreDates(EnrollmentErrorSchema, storedErrorResult.data)
+      );
+      if (!errorResult.success) {
+        return Err(createValidationError(
+          'Stored outbox error does not match error schema',
+          'INVALID_STORED_OUTBOX_ENTRY',
+          undefined,
+          { outboxEntryId: row.id, issues: errorResult.error.issues }
+        ));
+      }
+      lastError = errorResult.data;
+    }
+
+    entries.push({
+      id: row.id,
+      streamId: row.stream_id,
+      destination: row.destination,
+      event: eventResult.data,
+      status: row.status,
+      attempts: row.attempts,
+      createdAt: new Date(row.created_at),
+      nextAttemptAt: new Date(row.next_attempt_at),
+      lastAttemptAt: row.last_attempt_at === null ? null : new Date(row.last_attempt_at),
+      dispatchedAt: row.dispatched_at === null ? null : new Date(row.dispatched_at),
+      lastError
+    });
+  }
+
+  return Ok(entries);
+}
+
+function mapParkedMessageRows(rows: ParkedMessageRow[]): Result<ParkedMessage[], EnrollmentError> {
+  const messages: ParkedMessage[] = [];
+
+  for (const row of rows) {
+    const context = { subscriptionName: row.subscription_name, position: row.position };
+    const eventResult = parseStoredEvent(row.payload, context);
+    if (!eventResult.success) {
+      return eventResult;
+    }
+
+    const storedErrorResult = parseStoredJson(row.error, context);
+    if (!storedErrorResult.success) {
+      return storedErrorResult;
+    }
+    const errorResult = EnrollmentErrorSchema.safeParse(
+      restoreDates(EnrollmentErrorSchema, storedErrorResult.data)
+    );
+    if (!errorResult.success) {
+      return Err(createValidationError(
+        'Stored parked message error does not match error schema',
+        'INVALID_STORED_PARKED_MESSAGE',
+        undefined,
+        { subscriptionName: row.subscription_name, position: row.position, issues: errorResult.error.issues }
+      ));
+    }
+
+    messages.push({
+      subscriptionName: row.subscription_name,
+      recorded: {
+        position: row.position,
+        streamId: row.stream_id,
+        event: eventResult.data,
+        recordedAt: new Date(row.recorded_at)
+      },
+      error: errorResult.data,
+      attempts: row.attempts,
+      parkedAt: new Date(row.parked_at)
+    });
+  }
+
+  return Ok(messages);
+}
+
+/**
+ * 保存済みの JSON 列の読み込み（壊れた行は例外にせず EVENT_STORE_CORRUPTED）
+ */
+function parseStoredJson(text: string, context: Record<string, unknown>): Result<unknown, EnrollmentError> {
+  try {
+    return Ok(JSON.parse(text) as unknown);
+  } catch (error) {
+    return Err(createValidationError(
+      'Stored row is not valid JSON',
+      'EVENT_STORE_CORRUPTED',
+      undefined,
+      { ...context, error: String(error) }
+    ));
+  }
+}
+
+function parseStoredEvent(
+  payload: string,
+  context: Record<string, unknown>
+): Result<EnrollmentDomainEvent, EnrollmentError> {
+  const rawResult = parseStoredJson(payload, context);
+  return rawResult.success ? deserializeEvent(rawResult.data) : rawResult;
+}
+
+function isUniqueConstraintViolation(error: unknown): boolean {
+  return error instanceof Database.SqliteError && (
+    error.code === 'SQLITE_CONSTRAINT_UNIQUE' ||
+    error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY'
+  );
+}
+
+function sqliteError(message: string, streamId: string, error: unknown): EnrollmentError {
+  return createValidationError(
+    message,
+    'EVENT_STORE_IO_ERROR',
+    undefined,
+    { streamId, error: String(error) }
+  );
+}
@@ -0,0 +1,302 @@
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createValidationError } from '../../domain/errors/errors';
+import { getCurrentConfig, computeRetryDelay } from '../../../../shared/config/index';
+import type {
+  IEventStore,
+  RecordedEvent,
+  ICheckpointStore,
+  ISubscriptionManager,
+  ParkedMessage,
+  SubscriptionHandler,
+  SubscriptionOptions,
+  SubscriptionStatus
+} from './interfaces';
+
+/**
+ * Event Store 購読マネージャー
+ *
+ * IEventStore.readAll をポーリングして名前付き購読へイベントを配信する
+ * - チェックポイントの続き（position + 1）から配信を再開
+ * - 1イベントずつ順番に配信し、処理後にチェックポイントを保存（少なくとも1回）
+ * - 失敗した配信は processing.retry の設定で再試行し、それでも失敗したらパークして先へ進む
+ * - readAll やチェックポイント保存の失敗は lastError に残し、次のポーリングでやり直す
+ *   （lastError は後のバッチがエラーなく処理できた時点で消す）
+ *
+ * ストアからの通知は使わないため、どの IEventStore 実装の上でも同じように動く。
+ */
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_POLL_INTERVAL_MS = 500;
+
+interface ActiveSubscription {
+  name: string;
+  handler: SubscriptionHandler;
+  batchSize: number;
+  pollIntervalMs: number;
+  status: SubscriptionStatus;
+  timer: ReturnType<typeof setTimeout> | null;
+  // 実行中のポーリング（停止時に完了を待つ）
+  pumping: Promise<void> | null;
+}
+
+// 1イベントの処理結果（parked はパークして先へ進んだ、failed は進めなかった）
+type ProcessOutcome = 'delivered' | 'parked' | 'failed';
+
+export class EventStoreSubscriptionManager implements ISubscriptionManager {
+  private subscriptions = new Map<string, ActiveSubscription>();
+
+  constructor(
+    private readonly eventStore: IEventStore,
+    private readonly checkpointStore: ICheckpointStore
+  ) {}
+
+  /**
+   * 設定を取得する
+   */
+  private getConfig() {
+    return getCurrentConfig();
+  }
+
+  async subscribe(
+    name: string,
+    handler: SubscriptionHandler,
+    options: SubscriptionOptions = {}
+  ): Promise<Result<SubscriptionStatus, EnrollmentError>> {
+    if (this.subscriptions.has(name)) {
+      return Err(createValidationError(
+        `Subscription ${name} is already active`,
+        'SUBSCRIPTION_ALREADY_ACTIVE',
+        'name',
+        name
+      ));
+    }
+
+    const checkpointResult = await this.checkpointStore.getCheckpoint(name);
+    if (!checkpointResult.success) {
+      return checkpointResult;
+    }
+
+    const subscription: ActiveSubscription = {
+      name,
+      handler,
+      batchSize: options.batchSize ?? DEFAULT_BATCH_SIZE,
+      pollIntervalMs: options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS,
+      status: {
+        name,
+        state: 'catchingUp',
+        checkpoint: checkpointResult.data ?? 0,
+        lastError: null
+      },
+      timer: null,
+      pumping: null
+    };
+    this.subscriptions.set(name, subscription);
+
+    // 初回のキャッチアップを待ってから返す
+    await this.runPump(subscription);
+
+    return Ok({ ...subscription.status });
+  }
+
+  async unsubscribe(name: string): Promise<void> {
+    const subscription = this.subscriptions.get(name);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.status.state = 'stopped';
+    if (subscription.timer) {
+      clearTimeout(subscription.timer);
+      subscription.timer = null;
+    }
+    await subscription.pumping;
+    this.subscriptions.delete(name);
+  }
+
+  getStatus(name: string): SubscriptionStatus | null {
+    const subscription = this.subscriptions.get(name);
+    return subscription ? { ...subscription.status } : null;
+  }
+
+  async getParkedMessages(
+    name: string
+  ): Promise<Result<ParkedMessage[], EnrollmentError>> {
+    return this.checkpointStore.getParkedMessages(name);
+  }
+
+  /**
+   * 全購読を停止する
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.subscriptions.keys()].map(name => this.unsubscribe(name)));
+  }
+
+  // === Private Helper Methods ===
+
+  private async runPump(subscription: ActiveSubscription): Promise<void> {
+    subscription.timer = null;
+    subscription.pumping = this.pump(subscription);
+    await subscription.pumping;
+    subscription.pumping = null;
+
+    if (!isStopped(subscription.status)) {
+      subscription.timer = setTimeout(() => {
+        void this.runPump(subscription);
+      }, subscription.pollIntervalMs);
+    }
+  }
+
+  /**
+   * 未処理のイベントが無くなるまで読み進める
+   */
+  private async pump(subscription: ActiveSubscription): Promise<void> {
+    const { status } = subscription;
+
+    while (!isStopped(status)) {
+      const batchResult = await this.eventStore.readAll(status.checkpoint + 1, subscription.batchSize);
+      if (!batchResult.success) {
+        status.lastError = batchResult.error;
+        return;
+      }
+
+      let parked = false;
+      for (const recorded of batchResult.data) {
+        if (isStopped(status)) {
+          return;
+        }
+
+        const outcome = await this.process(subscription, recorded);
+        if (outcome === 'failed') {
+          return;
+        }
+        parked ||= outcome === 'parked';
+      }
+
+      if (!parked) {
+        status.lastError = null;
+      }
+
+      if (batchResult.data.length < subscription.batchSize) {
+        status.state = 'live';
+        return;
+      }
+    }
+  }
+
+  /**
+   * 1イベントを配信し、チェックポイントを進める
+   *
+   * @returns 配信の結果（failed の場合は次のイベントへ進めない）
+   */
+  private async process(subscription: ActiveSubscription, recorded: RecordedEvent): Promise<ProcessOutcome> {
+    const { status } = subscription;
+    const delivery = await this.deliverWithRetry(subscription.handler, recorded);
+
+    if (!delivery.result.success) {
+      status.lastError = delivery.result.error;
+      const parkResult = await this.checkpointStore.parkMessage({
+        subscriptionName: subscription.name,
+        recorded,
+        error: delivery.result.error,
+        attempts: delivery.attempts,
+        parkedAt: new Date()
+      });
+      if (!parkResult.success) {
+        // パークできなければチェックポイントを進めない（次のポーリングで再配信）
+        status.lastError = parkResult.error;
+        return 'failed';
+      }
+    }
+
+    const saveResult = await this.checkpointStore.saveCheckpoint(subscription.name, recorded.position);
+    if (!saveResult.success) {
+      status.lastError = saveResult.error;
+      return 'failed';
+    }
+
+    status.checkpoint = recorded.position;
+    return delivery.result.success ? 'delivered' : 'parked';
+  }
+
+  private async deliverWithRetry(
+    handler: SubscriptionHandler,
+    recorded: RecordedEvent
+  ): Promise<{ result: Result<void, EnrollmentError>; attempts: number }> {
+    const retryConfig = this.getConfig().processing.retry;
+
+    let attempts = 0;
+    for (;;) {
+      attempts++;
+      const result = await invokeHandler(handler, recorded);
+
+      if (result.success || attempts >= retryConfig.maxAttempts) {
+        return { result, attempts };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, computeRetryDelay(attempts, retryConfig)));
+    }
+  }
+}
+
+/**
+ * チェックポイントとパークしたイベントのインメモリ保存（開発・テスト用）
+ */
+export class InMemoryCheckpointStore implements ICheckpointStore {
+  private checkpoints = new Map<string, number>();
+  private parked = new Map<string, ParkedMessage[]>();
+
+  async getCheckpoint(subscriptionName: string): Promise<Result<number | null, EnrollmentError>> {
+    return Ok(this.checkpoints.get(subscriptionName) ?? null);
+  }
+
+  async saveCheckpoint(subscriptionName: string, position: number): Promise<Result<void, EnrollmentError>> {
+    this.checkpoints.set(subscriptionName, position);
+    return Ok(undefined);
+  }
+
+  async parkMessage(message: ParkedMessage): Promise<Result<void, EnrollmentError>> {
+    const messages = this.parked.get(message.subscriptionName) ?? [];
+    messages.push(message);
+    this.parked.set(message.subscriptionName, messages);
+    return Ok(undefined);
+  }
+
+  async getParkedMessages(subscriptionName: string): Promise<Result<ParkedMessage[], EnrollmentError>> {
+    return Ok([...(this.parked.get(subscriptionName) ?? [])]);
+  }
+
+  /**
+   * 全データ削除（テスト用）
+   */
+  clear(): void {
+    this.checkpoints.clear();
+    this.parked.clear();
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+// 停止は配信の途中（await の間）にも起こりうるため、毎回読み直す
+function isStopped(status: SubscriptionStatus): boolean {
+  return status.state === 'stopped';
+}
+
+/**
+ * ハンドラの例外も配信失敗として扱う
+ */
+async function invokeHandler(
+  handler: SubscriptionHandler,
+  recorded: RecordedEvent
+): Promise<Result<void, EnrollmentError>> {
+  try {
+    return await handler(recorded);
+  } catch (error) {
+    return Err(createValidationError(
+      `Subscription handler threw: ${String(error)}`,
+      'SUBSCRIPTION_HANDLER_FAILED',
+      undefined,
+      { position: recorded.position, streamId: recorded.streamId }
+    ));
+  }
+}
@@ -0,0 +1,82 @@
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createNotFoundError } from '../../domain/errors/errors';
+import type {
+  IIdempotencyStore,
+  IdempotencyRecord,
+  IdempotentCommandOutcome
+} from '../../application/ports/ports';
+
+/**
+ * 冪等性キーのインメモリ保存（開発・テスト用）
+ *
+ * - 有効期限（expiresAt）を過ぎた記録は存在しないものとして扱い、予約時に削除する
+ * - 予約は同期的に行うため、同じキーの同時実行は一方だけが予約できる
+ * - 記録した結果は複製して保持する（呼び出し側での変更の影響を受けない）
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async reserve(
+    record: Omit<IdempotencyRecord, 'status' | 'outcome'>
+  ): Promise<Result<IdempotencyRecord | null, EnrollmentError>> {
+    this.purgeExpired(record.createdAt);
+
+    const existing = this.records.get(record.key);
+    if (existing) {
+      return Ok(structuredClone(existing));
+    }
+
+    this.records.set(record.key, { ...record, status: 'in_progress', outcome: null });
+    return Ok(null);
+  }
+
+  async complete(
+    key: string,
+    outcome: IdempotentCommandOutcome
+  ): Promise<Result<void, EnrollmentError>> {
+    const record = this.records.get(key);
+    if (!record) {
+      return Err(createNotFoundError('IdempotencyRecord', key));
+    }
+
+    record.status = 'completed';
+    record.outcome = structuredClone(outcome);
+    return Ok(undefined);
+  }
+
+  async release(key: string): Promise<Result<void, EnrollmentError>> {
+    this.records.delete(key);
+    return Ok(undefined);
+  }
+
+  /**
+   * 有効期限切れの記録を削除する
+   *
+   * @returns 削除した件数
+   */
+  purgeExpired(now: Date = new Date()): number {
+    let purged = 0;
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * 保持している記録数（テスト用）
+   */
+  getRecordCount(): number {
+    return this.records.size;
+  }
+
+  /**
+   * 全記録削除（テスト用）
+   */
+  clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Idempotency - 統合エクスポート
+ *
+ * コマンドの冪等性キーと実行結果の記録
+ * - インメモリ実装（開発・テスト用）
+ */
+
+// === 実装 ===
+export {
+  InMemoryIdempotencyStore
+} from './in-memory-idempotency-store';
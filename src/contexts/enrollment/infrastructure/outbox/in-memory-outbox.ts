@@ -0,0 +1,101 @@
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createNotFoundError } from '../../domain/errors/errors';
+import type { OutboxEntry } from '../../application/ports/ports';
+import type { IOutbox, OutboxMessage } from './interfaces';
+
+/**
+ * outbox のインメモリ保存（開発・テスト用）
+ *
+ * 追記側（InMemoryEventStore・InMemoryEnrollmentRepository）が同期的に enqueue するため、
+ * イベントの追記と配信予定の記録の間に他の処理が割り込むことはない
+ */
+export class InMemoryOutbox implements IOutbox {
+  private entries: OutboxEntry[] = [];
+  private lastId = 0;
+
+  /**
+   * 配信予定の記録（追記と同じ同期処理の中で呼ぶ）
+   */
+  enqueue(streamId: string, messages: ReadonlyArray<OutboxMessage>, createdAt: Date = new Date()): void {
+    for (const message of messages) {
+      this.entries.push({
+        id: ++this.lastId,
+        streamId,
+        destination: message.destination,
+        event: message.event,
+        status: 'pending',
+        attempts: 0,
+        createdAt,
+        nextAttemptAt: createdAt,
+        lastAttemptAt: null,
+        dispatchedAt: null,
+        lastError: null
+      });
+    }
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    return Ok(
+      this.entries
+        .filter(entry => entry.status === 'pending' && entry.nextAttemptAt <= now)
+        .slice(0, limit)
+        .map(entry => ({ ...entry }))
+    );
+  }
+
+  async markOutboxDispatched(id: number, dispatchedAt: Date): Promise<Result<void, EnrollmentError>> {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      return Err(createNotFoundError('OutboxEntry', String(id)));
+    }
+
+    entry.status = 'dispatched';
+    entry.attempts++;
+    entry.lastAttemptAt = dispatchedAt;
+    entry.dispatchedAt = dispatchedAt;
+    entry.lastError = null;
+    return Ok(undefined);
+  }
+
+  async recordOutboxFailure(
+    id: number,
+    error: EnrollmentError,
+    attemptedAt: Date,
+    nextAttemptAt: Date | null
+  ): Promise<Result<void, EnrollmentError>> {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      return Err(createNotFoundError('OutboxEntry', String(id)));
+    }
+
+    entry.attempts++;
+    entry.lastAttemptAt = attemptedAt;
+    entry.lastError = error;
+    if (nextAttemptAt) {
+      entry.nextAttemptAt = nextAttemptAt;
+    } else {
+      entry.status = 'failed';
+    }
+    return Ok(undefined);
+  }
+
+  async findStuckOutboxEntries(pendingSince: Date): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    return Ok(
+      this.entries
+        .filter(entry =>
+          entry.status === 'failed' ||
+          (entry.status === 'pending' && entry.createdAt < pendingSince)
+        )
+        .map(entry => ({ ...entry }))
+    );
+  }
+
+  /**
+   * 全エントリ削除（テスト用）
+   */
+  clear(): void {
+    this.entries = [];
+    this.lastId = 0;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Outbox - 統合エクスポート
+ *
+ * イベント追記と同一トランザクションで記録する配信予定（Transactional Outbox）
+ * - インターフェース定義
+ * - インメモリ実装（開発・テスト用）
+ * - 外部システムへのディスパッチャー
+ */
+
+// === インターフェース ===
+export {
+  type OutboxMessage,
+  type IOutbox,
+  type IOutboxStore,
+  type OutboxDispatcherOptions
+} from './interfaces';
+
+// === 実装 ===
+export {
+  InMemoryOutbox
+} from './in-memory-outbox';
+
+export {
+  OutboxDispatcher
+} from './outbox-dispatcher';
@@ -0,0 +1,82 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type {
+  OutboxDestination,
+  OutboxEntry,
+  IOutboxMonitor
+} from '../../application/ports/ports';
+
+/**
+ * Transactional Outbox インターフェース
+ *
+ * イベントの追記と「そのイベントを外部へ配信する予定」を1トランザクションで記録し、
+ * 配信はディスパッチャーが後から行う
+ * - 追記後・配信前にプロセスが落ちても、配信予定は outbox に残る
+ * - 配信は少なくとも1回（配信後・記録前に落ちると再配信される）
+ */
+
+/**
+ * 追記と同時に記録する配信予定
+ */
+export interface OutboxMessage {
+  destination: OutboxDestination;
+  event: EnrollmentDomainEvent;
+}
+
+/**
+ * ディスパッチャーが使う outbox の操作
+ */
+export interface IOutbox extends IOutboxMonitor {
+  /**
+   * 配信期限（nextAttemptAt）を過ぎた未配信エントリの取得（id の昇順）
+   */
+  getDueOutboxEntries(
+    now: Date,
+    limit: number
+  ): Promise<Result<OutboxEntry[], EnrollmentError>>;
+
+  /**
+   * 配信済みとして記録
+   */
+  markOutboxDispatched(
+    id: number,
+    dispatchedAt: Date
+  ): Promise<Result<void, EnrollmentError>>;
+
+  /**
+   * 配信失敗の記録
+   *
+   * @param nextAttemptAt 次に再試行する日時（null なら配信を諦めて failed にする）
+   */
+  recordOutboxFailure(
+    id: number,
+    error: EnrollmentError,
+    attemptedAt: Date,
+    nextAttemptAt: Date | null
+  ): Promise<Result<void, EnrollmentError>>;
+}
+
+/**
+ * イベントの追記と outbox の記録を1トランザクションで行えるストア
+ */
+export interface IOutboxStore extends IOutbox {
+  /**
+   * イベントの追記と配信予定の記録
+   *
+   * 楽観的ロックなど IEventStore.append と同じ条件で失敗し、その場合は何も記録しない
+   */
+  appendWithOutbox(
+    streamId: string,
+    events: EnrollmentDomainEvent[],
+    expectedVersion: number,
+    messages: ReadonlyArray<OutboxMessage>
+  ): Promise<Result<void, EnrollmentError>>;
+}
+
+export interface OutboxDispatcherOptions {
+  /** 1回のディスパッチで取得するエントリ数（省略時は processing.concurrency.batchSize） */
+  batchSize?: number;
+  /** 未配信エントリを確認する間隔 */
+  pollIntervalMs?: number;
+}
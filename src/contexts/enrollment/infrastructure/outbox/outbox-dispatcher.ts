@@ -0,0 +1,167 @@
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createValidationError } from '../../domain/errors/errors';
+import { getCurrentConfig, computeRetryDelay } from '../../../../shared/config/index';
+import type {
+  OutboxEntry,
+  IEventPublisher,
+  INotificationService
+} from '../../application/ports/ports';
+import type { IOutbox, OutboxDispatcherOptions } from './interfaces';
+
+/**
+ * outbox ディスパッチャー
+ *
+ * 配信期限を過ぎた outbox エントリを取り出し、宛先（IEventPublisher / INotificationService）へ配信する
+ * - 成功したエントリは dispatched として記録
+ * - 失敗したエントリは processing.retry の設定で次の試行日時を決め、
+ *   maxAttempts に達したら failed として配信を諦める（滞留エントリとして監視対象になる）
+ * - 配信はエントリ単位のため、再試行待ちのエントリより後のイベントが先に届くことがある
+ * - outbox の読み書きに失敗したら lastError に残し、次のポーリングでやり直す
+ */
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+export class OutboxDispatcher {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // 実行中のディスパッチ（停止時に完了を待つ）
+  private dispatching: Promise<unknown> | null = null;
+  private stopped = true;
+  private lastError: EnrollmentError | null = null;
+
+  constructor(
+    private readonly outbox: IOutbox,
+    private readonly eventPublisher: IEventPublisher,
+    private readonly notificationService: INotificationService,
+    private readonly options: OutboxDispatcherOptions = {}
+  ) {}
+
+  /**
+   * 設定を取得する
+   */
+  private getConfig() {
+    return getCurrentConfig();
+  }
+
+  /**
+   * バックグラウンドでのポーリングを開始する
+   */
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    void this.runLoop();
+  }
+
+  /**
+   * ポーリングを停止する（実行中のディスパッチが終わるまで待つ）
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.dispatching;
+  }
+
+  isRunning(): boolean {
+    return !this.stopped;
+  }
+
+  getLastError(): EnrollmentError | null {
+    return this.lastError;
+  }
+
+  /**
+   * 配信期限を過ぎたエントリを1バッチ分配信する
+   *
+   * @returns 配信に成功したエントリ数またはエラー
+   */
+  async dispatchPending(): Promise<Result<number, EnrollmentError>> {
+    const now = new Date();
+    const batchSize = this.options.batchSize ?? this.getConfig().processing.concurrency.batchSize;
+
+    const dueResult = await this.outbox.getDueOutboxEntries(now, batchSize);
+    if (!dueResult.success) {
+      this.lastError = dueResult.error;
+      return dueResult;
+    }
+
+    let dispatched = 0;
+    for (const entry of dueResult.data) {
+      const recordResult = await this.dispatchEntry(entry);
+      if (!recordResult.success) {
+        this.lastError = recordResult.error;
+        return recordResult;
+      }
+      if (recordResult.data) {
+        dispatched++;
+      }
+    }
+
+    return Ok(dispatched);
+  }
+
+  // === Private Helper Methods ===
+
+  private async runLoop(): Promise<void> {
+    this.timer = null;
+    this.dispatching = this.dispatchPending();
+    await this.dispatching;
+    this.dispatching = null;
+
+    if (!this.stopped) {
+      this.timer = setTimeout(() => {
+        void this.runLoop();
+      }, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * 1エントリを配信し、結果を outbox に記録する
+   *
+   * @returns 配信に成功したかどうか（記録の失敗はエラー）
+   */
+  private async dispatchEntry(entry: OutboxEntry): Promise<Result<boolean, EnrollmentError>> {
+    const delivery = await this.deliver(entry);
+    const attemptedAt = new Date();
+
+    if (delivery.success) {
+      const markResult = await this.outbox.markOutboxDispatched(entry.id, attemptedAt);
+      return markResult.success ? Ok(true) : markResult;
+    }
+
+    this.lastError = delivery.error;
+    const retryConfig = this.getConfig().processing.retry;
+    const attempts = entry.attempts + 1;
+    const nextAttemptAt = attempts >= retryConfig.maxAttempts
+      ? null
+      : new Date(attemptedAt.getTime() + computeRetryDelay(attempts, retryConfig));
+
+    const failureResult = await this.outbox.recordOutboxFailure(entry.id, delivery.error, attemptedAt, nextAttemptAt);
+    return failureResult.success ? Ok(false) : failureResult;
+  }
+
+  /**
+   * 宛先への配信（例外も配信失敗として扱う）
+   */
+  private async deliver(entry: OutboxEntry): Promise<Result<void, EnrollmentError>> {
+    try {
+      switch (entry.destination) {
+        case 'eventPublisher':
+          return await this.eventPublisher.publish([entry.event]);
+        case 'notificationService':
+          return await this.notificationService.notifyEnrollmentRequested(entry.event);
+      }
+    } catch (error) {
+      return Err(createValidationError(
+        `Outbox delivery threw: ${String(error)}`,
+        'OUTBOX_DELIVERY_FAILED',
+        undefined,
+        { outboxEntryId: entry.id, destination: entry.destination }
+      ));
+    }
+  }
+}
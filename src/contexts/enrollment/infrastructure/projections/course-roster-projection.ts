@@ -0,0 +1,60 @@
+import { Ok, type Result } from '../../../../shared/types/index';
+import type {
+  CourseId,
+  Semester
+} from '../../../../shared/types/index';
+import type { Enrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { ICourseRosterReadModel } from '../../application/ports/ports';
+import type { RecordedEvent } from '../event-store/interfaces';
+import type { IProjection, EnrollmentEventType } from './interfaces';
+import { InMemoryReadStore } from './read-store';
+import { foldRecordedEvent, ENROLLMENT_LIFECYCLE_EVENT_TYPES } from './enrollment-fold';
+
+/**
+ * 科目開講ごとの名簿プロジェクション
+ *
+ * "{courseId}-{semester}" をキーに、その開講の全履修申請（ストリームID → 最新状態）を保持する
+ */
+export class CourseRosterProjection implements IProjection, ICourseRosterReadModel {
+  readonly name = 'course-roster';
+
+  readonly handles: ReadonlyArray<EnrollmentEventType> = ENROLLMENT_LIFECYCLE_EVENT_TYPES;
+
+  private store = new InMemoryReadStore<ReadonlyMap<string, Enrollment>>();
+
+  // === IProjection Implementation ===
+
+  async apply(recorded: RecordedEvent): Promise<Result<void, EnrollmentError>> {
+    const key = offeringKey(recorded.event.courseId, recorded.event.data.semester);
+    const enrollments = this.store.get(key) ?? new Map<string, Enrollment>();
+
+    const nextResult = foldRecordedEvent(enrollments.get(recorded.streamId) ?? null, recorded);
+    if (!nextResult.success) {
+      return nextResult;
+    }
+
+    this.store.set(key, new Map(enrollments).set(recorded.streamId, nextResult.data));
+    return Ok(undefined);
+  }
+
+  async reset(): Promise<Result<void, EnrollmentError>> {
+    this.store.clear();
+    return Ok(undefined);
+  }
+
+  // === ICourseRosterReadModel Implementation ===
+
+  async findByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<Enrollment[], EnrollmentError>> {
+    return Ok([...(this.store.get(offeringKey(courseId, semester))?.values() ?? [])]);
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+function offeringKey(courseId: string, semester: string): string {
+  return `${courseId}-${semester}`;
+}
@@ -0,0 +1,69 @@
+import { Ok, type Result } from '../../../../shared/types/index';
+import type {
+  StudentId,
+  CourseId,
+  Semester
+} from '../../../../shared/types/index';
+import type {
+  Enrollment,
+  WaitlistedEnrollment
+} from '../../domain/entities/enrollment-types';
+import { isWaitlistedEnrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { IEnrollmentReadModel } from '../../application/ports/ports';
+import type { RecordedEvent } from '../event-store/interfaces';
+import { createEnrollmentStreamId } from '../event-store/event-stream';
+import type { IProjection, EnrollmentEventType } from './interfaces';
+import { InMemoryReadStore } from './read-store';
+import { foldRecordedEvent, ENROLLMENT_LIFECYCLE_EVENT_TYPES } from './enrollment-fold';
+
+/**
+ * 履修申請の詳細プロジェクション
+ *
+ * 各ストリームの最新状態を保持する（キーはストリームID）
+ */
+export class EnrollmentDetailsProjection implements IProjection, IEnrollmentReadModel {
+  readonly name = 'enrollment-details';
+
+  readonly handles: ReadonlyArray<EnrollmentEventType> = ENROLLMENT_LIFECYCLE_EVENT_TYPES;
+
+  private store = new InMemoryReadStore<Enrollment>();
+
+  // === IProjection Implementation ===
+
+  async apply(recorded: RecordedEvent): Promise<Result<void, EnrollmentError>> {
+    const nextResult = foldRecordedEvent(this.store.get(recorded.streamId) ?? null, recorded);
+    if (!nextResult.success) {
+      return nextResult;
+    }
+
+    this.store.set(recorded.streamId, nextResult.data);
+    return Ok(undefined);
+  }
+
+  async reset(): Promise<Result<void, EnrollmentError>> {
+    this.store.clear();
+    return Ok(undefined);
+  }
+
+  // === IEnrollmentReadModel Implementation ===
+
+  async findByStudentCourseAndSemester(
+    studentId: StudentId,
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<Enrollment | null, EnrollmentError>> {
+    return Ok(this.store.get(createEnrollmentStreamId(studentId, courseId, semester)) ?? null);
+  }
+
+  async findWaitlistedByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<WaitlistedEnrollment[], EnrollmentError>> {
+    return Ok(
+      this.store.values()
+        .filter(isWaitlistedEnrollment)
+        .filter(enrollment => enrollment.courseId === courseId && enrollment.semester === semester)
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { Ok, type Result } from '../../../../shared/types/index';
+import type { Enrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { applyEvent } from '../../domain/aggregates/enrollment-aggregate';
+import type { RecordedEvent } from '../event-store/interfaces';
+import type { EnrollmentEventType } from './interfaces';
+
+/**
+ * 履修申請の状態を畳み込むのに必要なイベント種別（ライフサイクル全体）
+ */
+export const ENROLLMENT_LIFECYCLE_EVENT_TYPES: ReadonlyArray<EnrollmentEventType> = [
+  'EnrollmentRequested',
+  'EnrollmentWaitlisted',
+  'WaitlistPromoted',
+  'EnrollmentApproved',
+  'EnrollmentCancelled',
+  'EnrollmentRejected'
+];
+
+/**
+ * 記録済みイベントを履修申請の読み取りモデルへ畳み込む
+ *
+ * 集約と同じ reducer（applyEvent）を使い、読み取り側で状態遷移を再実装しない。
+ * 反映済みより古いバージョンのイベントは現在の状態をそのまま返す（再配信に対して冪等）。
+ */
+export function foldRecordedEvent(
+  current: Enrollment | null,
+  recorded: RecordedEvent
+): Result<Enrollment, EnrollmentError> {
+  if (current && recorded.event.version <= current.version) {
+    return Ok(current);
+  }
+
+  return applyEvent(current, recorded.event);
+}
@@ -0,0 +1,43 @@
+/**
+ * Projections - 統合エクスポート
+ * 
+ * CQRS の読み取りモデル基盤
+ * - プロジェクションのインターフェース定義
+ * - 実行基盤（チェックポイント・再構築・状態API）
+ * - 読み取りストア
+ * - 履修申請の読み取りモデル（詳細・学生ごとの一覧・科目開講ごとの名簿）
+ */
+
+// === インターフェース ===
+export {
+  type IProjection,
+  type ProjectionStatus,
+  type EnrollmentEventType
+} from './interfaces';
+
+// === 実行基盤 ===
+export {
+  ProjectionRunner
+} from './projection-runner';
+
+export {
+  InMemoryReadStore
+} from './read-store';
+
+export {
+  foldRecordedEvent,
+  ENROLLMENT_LIFECYCLE_EVENT_TYPES
+} from './enrollment-fold';
+
+// === 読み取りモデル ===
+export {
+  EnrollmentDetailsProjection
+} from './enrollment-details-projection';
+
+export {
+  StudentEnrollmentsProjection
+} from './student-enrollments-projection';
+
+export {
+  CourseRosterProjection
+} from './course-roster-projection';
@@ -0,0 +1,43 @@
+import type { Result } from '../../../../shared/types/index';
+import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { RecordedEvent, SubscriptionState } from '../event-store/interfaces';
+
+/**
+ * Projection インターフェース
+ * 
+ * $all ストリームのイベントを読み取り用の形に畳み込む
+ * - 扱うイベント種別を宣言し、それ以外は配信されない
+ * - 読み取りストアはプロジェクションごとに持つ（他のプロジェクションと共有しない）
+ * - 配信は少なくとも1回のため、apply は同じイベントの再配信に対して冪等であること
+ */
+
+export type EnrollmentEventType = EnrollmentDomainEvent['eventType'];
+
+export interface IProjection {
+  /** プロジェクション名（チェックポイントのキーにもなる） */
+  readonly name: string;
+
+  /** 扱うイベント種別 */
+  readonly handles: ReadonlyArray<EnrollmentEventType>;
+
+  /**
+   * イベントを読み取りストアへ反映する
+   */
+  apply(recorded: RecordedEvent): Promise<Result<void, EnrollmentError>>;
+
+  /**
+   * 読み取りストアを空にする（再構築の前に呼ばれる）
+   */
+  reset(): Promise<Result<void, EnrollmentError>>;
+}
+
+export interface ProjectionStatus {
+  name: string;
+  state: SubscriptionState;
+  /** 反映済みの最終コミット位置（未処理なら 0） */
+  lastPosition: number;
+  /** まだ反映していないイベント数（最終コミット位置との差、欠番があれば多めになる） */
+  lag: number;
+  lastError: EnrollmentError | null;
+}
@@ -0,0 +1,183 @@
+import { Ok, Err, type Result } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createNotFoundError, createValidationError } from '../../domain/errors/errors';
+import type {
+  IEventStore,
+  ICheckpointStore,
+  RecordedEvent,
+  SubscriptionOptions
+} from '../event-store/interfaces';
+import { EventStoreSubscriptionManager } from '../event-store/subscription-manager';
+import type { IProjection, ProjectionStatus } from './interfaces';
+
+/**
+ * Projection Runner
+ *
+ * 登録されたプロジェクションをそれぞれ名前付き購読として動かす
+ * - チェックポイントはプロジェクション単位（購読名 "projection:{name}"）
+ * - 宣言していないイベント種別は apply を呼ばずにチェックポイントだけ進める
+ * - 再構築: 停止 → 読み取りストアを空にする → チェックポイントを 0 に戻す → 先頭から再開
+ * - 状態API: 反映済み位置・遅延（未反映イベント数）・最後のエラー
+ */
+
+const SUBSCRIPTION_PREFIX = 'projection:';
+
+export class ProjectionRunner {
+  private projections = new Map<string, IProjection>();
+  private subscriptionManager: EventStoreSubscriptionManager;
+
+  constructor(
+    private readonly eventStore: IEventStore,
+    private readonly checkpointStore: ICheckpointStore,
+    private readonly options: SubscriptionOptions = {}
+  ) {
+    this.subscriptionManager = new EventStoreSubscriptionManager(eventStore, checkpointStore);
+  }
+
+  /**
+   * プロジェクションの登録（開始は start で行う）
+   */
+  register(projection: IProjection): Result<void, EnrollmentError> {
+    if (this.projections.has(projection.name)) {
+      return Err(createValidationError(
+        `Projection ${projection.name} is already registered`,
+        'PROJECTION_ALREADY_REGISTERED',
+        'name',
+        projection.name
+      ));
+    }
+
+    this.projections.set(projection.name, projection);
+    return Ok(undefined);
+  }
+
+  /**
+   * 登録済みのプロジェクションを全て開始する（各々が追いつくまで待つ）
+   */
+  async start(): Promise<Result<void, EnrollmentError>> {
+    for (const projection of this.projections.values()) {
+      if (this.subscriptionManager.getStatus(subscriptionName(projection.name))) {
+        continue;
+      }
+
+      const startResult = await this.startProjection(projection);
+      if (!startResult.success) {
+        return startResult;
+      }
+    }
+
+    return Ok(undefined);
+  }
+
+  /**
+   * 全プロジェクションを停止する
+   */
+  async stop(): Promise<void> {
+    await this.subscriptionManager.close();
+  }
+
+  /**
+   * プロジェクションを先頭から再構築する
+   */
+  async rebuild(name: string): Promise<Result<ProjectionStatus, EnrollmentError>> {
+    const projection = this.projections.get(name);
+    if (!projection) {
+      return Err(createNotFoundError('Projection', name));
+    }
+
+    await this.subscriptionManager.unsubscribe(subscriptionName(name));
+
+    const resetResult = await projection.reset();
+    if (!resetResult.success) {
+      return resetResult;
+    }
+
+    const checkpointResult = await this.checkpointStore.saveCheckpoint(subscriptionName(name), 0);
+    if (!checkpointResult.success) {
+      return checkpointResult;
+    }
+
+    const startResult = await this.startProjection(projection);
+    if (!startResult.success) {
+      return startResult;
+    }
+
+    return this.getStatus(name);
+  }
+
+  /**
+   * プロジェクションの状態
+   */
+  async getStatus(name: string): Promise<Result<ProjectionStatus, EnrollmentError>> {
+    if (!this.projections.has(name)) {
+      return Err(createNotFoundError('Projection', name));
+    }
+
+    const subscriptionStatus = this.subscriptionManager.getStatus(subscriptionName(name));
+
+    let lastPosition = subscriptionStatus?.checkpoint;
+    if (lastPosition === undefined) {
+      // 停止中は保存済みのチェックポイントを使う
+      const checkpointResult = await this.checkpointStore.getCheckpoint(subscriptionName(name));
+      if (!checkpointResult.success) {
+        return checkpointResult;
+      }
+      lastPosition = checkpointResult.data ?? 0;
+    }
+
+    // 履歴は読まずに末尾の位置との差を遅れとする（欠番の分だけ多めに出ることがある）
+    const endResult = await this.eventStore.getLastPosition();
+    if (!endResult.success) {
+      return endResult;
+    }
+
+    return Ok({
+      name,
+      state: subscriptionStatus?.state ?? 'stopped',
+      lastPosition,
+      lag: Math.max(0, endResult.data - lastPosition),
+      lastError: subscriptionStatus?.lastError ?? null
+    });
+  }
+
+  /**
+   * 全プロジェクションの状態（登録順）
+   */
+  async getAllStatuses(): Promise<Result<ProjectionStatus[], EnrollmentError>> {
+    const statuses: ProjectionStatus[] = [];
+    for (const name of this.projections.keys()) {
+      const statusResult = await this.getStatus(name);
+      if (!statusResult.success) {
+        return statusResult;
+      }
+      statuses.push(statusResult.data);
+    }
+
+    return Ok(statuses);
+  }
+
+  // === Private Helper Methods ===
+
+  private async startProjection(projection: IProjection): Promise<Result<void, EnrollmentError>> {
+    const handles = new Set<string>(projection.handles);
+
+    const subscribeResult = await this.subscriptionManager.subscribe(
+      subscriptionName(projection.name),
+      async (recorded: RecordedEvent) => handles.has(recorded.event.eventType)
+        ? projection.apply(recorded)
+        : Ok(undefined),
+      this.options
+    );
+    if (!subscribeResult.success) {
+      return subscribeResult;
+    }
+
+    return Ok(undefined);
+  }
+}
+
+// === 内部ヘルパー関数 ===
+
+function subscriptionName(projectionName: string): string {
+  return `${SUBSCRIPTION_PREFIX}${projectionName}`;
+}
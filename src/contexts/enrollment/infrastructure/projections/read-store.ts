@@ -0,0 +1,33 @@
+/**
+ * プロジェクション用のインメモリ読み取りストア
+ * 
+ * キーと読み取りモデルの単純な対応表
+ * - 取得時はコピーを返さない（読み取りモデルは不変オブジェクトとして扱う）
+ */
+export class InMemoryReadStore<T> {
+  private records = new Map<string, T>();
+
+  get(key: string): T | undefined {
+    return this.records.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.records.set(key, value);
+  }
+
+  delete(key: string): void {
+    this.records.delete(key);
+  }
+
+  values(): T[] {
+    return [...this.records.values()];
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+}
@@ -0,0 +1,70 @@
+import { Ok, type Result } from '../../../../shared/types/index';
+import type {
+  StudentId,
+  Semester
+} from '../../../../shared/types/index';
+import type { Enrollment } from '../../domain/entities/enrollment-types';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import type { IStudentEnrollmentsReadModel } from '../../application/ports/ports';
+import type { RecordedEvent } from '../event-store/interfaces';
+import type { IProjection, EnrollmentEventType } from './interfaces';
+import { InMemoryReadStore } from './read-store';
+import { foldRecordedEvent, ENROLLMENT_LIFECYCLE_EVENT_TYPES } from './enrollment-fold';
+
+/**
+ * 学生ごとの履修申請一覧プロジェクション
+ *
+ * 学生IDをキーに、その学生の全履修申請（ストリームID → 最新状態）を保持する
+ * - 一覧取得で全学生分を走査しない
+ */
+export class StudentEnrollmentsProjection implements IProjection, IStudentEnrollmentsReadModel {
+  readonly name = 'student-enrollments';
+
+  readonly handles: ReadonlyArray<EnrollmentEventType> = ENROLLMENT_LIFECYCLE_EVENT_TYPES;
+
+  private store = new InMemoryReadStore<ReadonlyMap<string, Enrollment>>();
+
+  // === IProjection Implementation ===
+
+  async apply(recorded: RecordedEvent): Promise<Result<void, EnrollmentError>> {
+    const enrollments = this.store.get(recorded.event.studentId) ?? new Map<string, Enrollment>();
+
+    const nextResult = foldRecordedEvent(enrollments.get(recorded.streamId) ?? null, recorded);
+    if (!nextResult.success) {
+      return nextResult;
+    }
+
+    this.store.set(
+      recorded.event.studentId,
+      new Map(enrollments).set(recorded.streamId, nextResult.data)
+    );
+    return Ok(undefined);
+  }
+
+  async reset(): Promise<Result<void, EnrollmentError>> {
+    this.store.clear();
+    return Ok(undefined);
+  }
+
+  // === IStudentEnrollmentsReadModel Implementation ===
+
+  async findByStudent(
+    studentId: StudentId,
+    filter: {
+      semester?: Semester;
+      status?: Enrollment['status'];
+    } = {}
+  ): Promise<Result<Enrollment[], EnrollmentError>> {
+    const enrollments = [...(this.store.get(studentId)?.values() ?? [])];
+
+    return Ok(
+      enrollments
+        .filter(enrollment => filter.semester === undefined || enrollment.semester === filter.semester)
+        .filter(enrollment => filter.status === undefined || enrollment.status === filter.status)
+        .sort((a, b) =>
+          a.requestedAt.getTime() - b.requestedAt.getTime() ||
+          a.courseId.localeCompare(b.courseId)
+        )
+    );
+  }
+}
@@ -4,8 +4,11 @@ import type {
   CourseId, 
   Semester
 } from '../../../../shared/types/index';
-import type { 
-  Enrollment 
+import { 
+  type Enrollment,
+  type WaitlistedEnrollment,
+  isActiveEnrollment,
+  isWaitlistedEnrollment
 } from '../../domain/entities/enrollment-types';
 import type { EnrollmentError } from '../../domain/errors/errors';
 import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
@@ -15,18 +18,30 @@ import {
   createValidationError 
 } from '../../domain/errors/errors';
 import { Ok, Err } from '../../../../shared/types/index';
+import { applyEvent } from '../../domain/aggregates/enrollment-aggregate';
 
 import type { 
   IEnrollmentRepository,
+  OutboxDestination,
+  OutboxEntry,
   IStudentRepository,
-  ICourseRepository 
+  ICourseRepository,
+  ICoursePrerequisiteRepository,
+  IStudentCourseHistoryRepository
 } from '../../application/ports/ports';
+import type {
+  PrerequisiteTree,
+  CompletedCourse
+} from '../../domain/entities/prerequisite-types';
+import type { MeetingTime } from '../../domain/entities/schedule-types';
 
 import { 
   InMemoryEventStore,
   EventStreamFactory,
+  createEnrollmentStreamId,
   type IEventStore
 } from '../event-store/index';
+import { InMemoryOutbox, type IOutbox } from '../outbox/index';
 
 
 /**
@@ -43,9 +58,11 @@ import {
  * - 同じインターフェースなので変更は最小限
  */
 
-export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
+export class InMemoryEnrollmentRepository implements IEnrollmentRepository, IOutbox {
   private enrollments = new Map<string, Enrollment>();
   private events = new Map<string, EnrollmentDomainEvent[]>();
+  // 配信予定（保存と同じ同期処理の中で記録する）
+  private outbox = new InMemoryOutbox();
   
   // Event Store機能（オプショナル）
   private eventStore?: IEventStore;
@@ -116,6 +133,90 @@ export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
     }
   }
 
+  /**
+   * 学期内の有効な履修申請数
+   */
+  async countActiveByStudentAndSemester(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<number, EnrollmentError>> {
+    const enrollmentsResult = await this.findActiveByStudentAndSemester(studentId, semester);
+    if (!enrollmentsResult.success) {
+      return enrollmentsResult;
+    }
+    return Ok(enrollmentsResult.data.length);
+  }
+
+  /**
+   * 学期内の有効な履修申請一覧
+   */
+  async findActiveByStudentAndSemester(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<Enrollment[], EnrollmentError>> {
+    try {
+      const enrollments = Array.from(this.enrollments.values()).filter(enrollment =>
+        enrollment.studentId === studentId &&
+        enrollment.semester === semester &&
+        isActiveEnrollment(enrollment)
+      );
+      return Ok(enrollments.map(enrollment => ({ ...enrollment })));
+    } catch (error) {
+      return Err(createValidationError(
+        'Failed to find enrollments',
+        'REPOSITORY_ERROR',
+        undefined,
+        { error: String(error) }
+      ));
+    }
+  }
+
+  /**
+   * 科目開講で席を占めている履修申請数
+   */
+  async countActiveByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<number, EnrollmentError>> {
+    try {
+      const count = Array.from(this.enrollments.values()).filter(enrollment =>
+        enrollment.courseId === courseId &&
+        enrollment.semester === semester &&
+        isActiveEnrollment(enrollment)
+      ).length;
+      return Ok(count);
+    } catch (error) {
+      return Err(createValidationError(
+        'Failed to count enrollments',
+        'REPOSITORY_ERROR',
+        undefined,
+        { error: String(error) }
+      ));
+    }
+  }
+
+  /**
+   * 科目開講のウェイトリスト登録一覧
+   */
+  async findWaitlistedByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<WaitlistedEnrollment[], EnrollmentError>> {
+    try {
+      const waitlisted = Array.from(this.enrollments.values())
+        .filter(isWaitlistedEnrollment)
+        .filter(enrollment => enrollment.courseId === courseId && enrollment.semester === semester);
+      return Ok(waitlisted.map(enrollment => ({ ...enrollment })));
+    } catch (error) {
+      return Err(createValidationError(
+        'Failed to find waitlisted enrollments',
+        'REPOSITORY_ERROR',
+        undefined,
+        { error: String(error) }
+      ));
+    }
+  }
+
   /**
    * 履修申請の保存
    * 
@@ -127,7 +228,8 @@ export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
    */
   async save(
     enrollment: Enrollment,
-    domainEvent: EnrollmentDomainEvent
+    domainEvent: EnrollmentDomainEvent,
+    outbox: ReadonlyArray<OutboxDestination> = []
   ): Promise<Result<void, EnrollmentError>> {
     try {
       const aggregateId = this.generateAggregateId(
@@ -136,13 +238,18 @@ export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
         enrollment.semester
       );
 
-      // Event Store使用時の処理
-      if (this.eventStore && this.eventStreamFactory) {
-        return await this.saveWithEventStore(enrollment, domainEvent);
+      // Event Store使用時は Event Store へ、それ以外は従来のメモリ方式で保存
+      const saveResult = this.eventStore && this.eventStreamFactory
+        ? await this.saveWithEventStore(enrollment, domainEvent)
+        : await this.saveInMemory(enrollment, domainEvent, aggregateId);
+
+      // 配信予定は保存の直後に同期的に記録する（メモリ上のため間に失敗が挟まることはない）
+      if (saveResult.success) {
+        const streamId = createEnrollmentStreamId(enrollment.studentId, enrollment.courseId, enrollment.semester);
+        this.outbox.enqueue(streamId, outbox.map(destination => ({ destination, event: domainEvent })));
       }
 
-      // 従来のメモリ方式での処理
-      return await this.saveInMemory(enrollment, domainEvent, aggregateId);
+      return saveResult;
     } catch (error) {
       return Err(createValidationError(
         'Failed to save enrollment',
@@ -173,19 +280,33 @@ export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
     // 楽観的ロック用の期待バージョン
     const expectedVersion = enrollment.version - 1;
 
+    const aggregateId = this.generateAggregateId(
+      enrollment.studentId,
+      enrollment.courseId,
+      enrollment.semester
+    );
+
+    // 楽観的ロックチェック（Event Storeと同じ形式のエラーを返す）
+    const currentEnrollment = this.enrollments.get(aggregateId) ?? null;
+    const currentVersion = currentEnrollment?.version ?? 0;
+    if (currentVersion !== expectedVersion) {
+      return Err(createConcurrencyError(expectedVersion, currentVersion, stream.streamId));
+    }
+
+    // 状態遷移の検証（イベントを現在の状態に適用できるか）
+    const nextStateResult = applyEvent(currentEnrollment, domainEvent);
+    if (!nextStateResult.success) {
+      return nextStateResult;
+    }
+
     // Event Storeへの保存
     const appendResult = await stream.appendEvents([domainEvent], expectedVersion);
     if (!appendResult.success) {
       return appendResult;
     }
 
-    // メモリキャッシュも更新
-    const aggregateId = this.generateAggregateId(
-      enrollment.studentId,
-      enrollment.courseId,
-      enrollment.semester
-    );
-    this.enrollments.set(aggregateId, enrollment);
+    // メモリキャッシュも更新（イベントを畳み込んだ状態）
+    this.enrollments.set(aggregateId, nextStateResult.data);
 
     return Ok(undefined);
   }
@@ -208,17 +329,46 @@ export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
       ));
     }
 
+    // 状態遷移の検証（イベントを現在の状態に適用できるか）
+    const nextStateResult = applyEvent(existingEnrollment ?? null, domainEvent);
+    if (!nextStateResult.success) {
+      return nextStateResult;
+    }
+
     // イベントストリームの更新
     const existingEvents = this.events.get(aggregateId) || [];
     const updatedEvents = [...existingEvents, domainEvent];
     this.events.set(aggregateId, updatedEvents);
 
-    // 集約状態の更新
-    this.enrollments.set(aggregateId, enrollment);
+    // 集約状態の更新（イベントを畳み込んだ状態）
+    this.enrollments.set(aggregateId, nextStateResult.data);
 
     return Ok(undefined);
   }
 
+  // === IOutbox Implementation ===
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    return this.outbox.getDueOutboxEntries(now, limit);
+  }
+
+  async markOutboxDispatched(id: number, dispatchedAt: Date): Promise<Result<void, EnrollmentError>> {
+    return this.outbox.markOutboxDispatched(id, dispatchedAt);
+  }
+
+  async recordOutboxFailure(
+    id: number,
+    error: EnrollmentError,
+    attemptedAt: Date,
+    nextAttemptAt: Date | null
+  ): Promise<Result<void, EnrollmentError>> {
+    return this.outbox.recordOutboxFailure(id, error, attemptedAt, nextAttemptAt);
+  }
+
+  async findStuckOutboxEntries(pendingSince: Date): Promise<Result<OutboxEntry[], EnrollmentError>> {
+    return this.outbox.findStuckOutboxEntries(pendingSince);
+  }
+
   /**
    * イベントストリームの取得
    */
@@ -260,6 +410,7 @@ export class InMemoryEnrollmentRepository implements IEnrollmentRepository {
   clear(): void {
     this.enrollments.clear();
     this.events.clear();
+    this.outbox.clear();
   }
 
   /**
@@ -323,7 +474,12 @@ export class MockStudentRepository implements IStudentRepository {
 export class MockCourseRepository implements ICourseRepository {
   private courses = new Map<CourseId, {
     exists: boolean;
-    offerings: Map<Semester, { offered: boolean; maxCapacity: number; currentEnrollment: number }>;
+    offerings: Map<Semester, {
+      offered: boolean;
+      maxCapacity: number;
+      currentEnrollment: number;
+      meetingTimes: MeetingTime[];
+    }>;
   }>();
 
   /**
@@ -337,6 +493,7 @@ export class MockCourseRepository implements ICourseRepository {
       offered: boolean;
       maxCapacity: number;
       currentEnrollment: number;
+      meetingTimes?: MeetingTime[];
     }> = []
   ): void {
     const offeringsMap = new Map();
@@ -344,7 +501,8 @@ export class MockCourseRepository implements ICourseRepository {
       offeringsMap.set(offering.semester, {
         offered: offering.offered,
         maxCapacity: offering.maxCapacity,
-        currentEnrollment: offering.currentEnrollment
+        currentEnrollment: offering.currentEnrollment,
+        meetingTimes: offering.meetingTimes ?? []
       });
     });
     
@@ -389,11 +547,72 @@ export class MockCourseRepository implements ICourseRepository {
     });
   }
 
+  async getMeetingTimes(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<MeetingTime[], EnrollmentError>> {
+    const course = this.courses.get(courseId);
+    if (!course?.exists) {
+      return Err(createNotFoundError('Course', courseId));
+    }
+
+    const offering = course.offerings.get(semester);
+    return Ok([...(offering?.meetingTimes ?? [])]);
+  }
+
   clear(): void {
     this.courses.clear();
   }
 }
 
+/**
+ * モック用の前提科目リポジトリ実装
+ */
+export class MockCoursePrerequisiteRepository implements ICoursePrerequisiteRepository {
+  private prerequisites = new Map<CourseId, PrerequisiteTree>();
+
+  /**
+   * テスト用データの設定
+   */
+  setPrerequisites(courseId: CourseId, tree: PrerequisiteTree): void {
+    this.prerequisites.set(courseId, tree);
+  }
+
+  async getPrerequisites(
+    courseId: CourseId
+  ): Promise<Result<PrerequisiteTree | null, EnrollmentError>> {
+    return Ok(this.prerequisites.get(courseId) || null);
+  }
+
+  clear(): void {
+    this.prerequisites.clear();
+  }
+}
+
+/**
+ * モック用の修得履歴リポジトリ実装
+ */
+export class MockStudentCourseHistoryRepository implements IStudentCourseHistoryRepository {
+  private histories = new Map<StudentId, CompletedCourse[]>();
+
+  /**
+   * テスト用データの設定
+   */
+  setCompletedCourses(studentId: StudentId, courses: CompletedCourse[]): void {
+    this.histories.set(studentId, [...courses]);
+  }
+
+  async getCompletedCourses(
+    studentId: StudentId
+  ): Promise<Result<CompletedCourse[], EnrollmentError>> {
+    return Ok([...(this.histories.get(studentId) || [])]);
+  }
+
+  clear(): void {
+    this.histories.clear();
+  }
+}
+
 /**
  * インメモリリポジトリ設計の重要な判断
  * 
@@ -5,16 +5,27 @@ import type {
   Semester
 } from '../../../../shared/types/index';
 import type { 
-  Enrollment 
+  Enrollment,
+  WaitlistedEnrollment
 } from '../../domain/entities/enrollment-types';
 import type { EnrollmentError } from '../../domain/errors/errors';
 import type { EnrollmentDomainEvent } from '../../domain/events/domain-events';
-import { Ok } from '../../../../shared/types/index';
+import { Ok, Err } from '../../../../shared/types/index';
+import { createValidationError } from '../../domain/errors/errors';
 
-import type { IEnrollmentRepository } from '../../application/ports/ports';
-import type { IEventStore } from '../event-store/interfaces';
-import { EventStreamFactory } from '../event-store/event-stream';
-import { reconstructEnrollmentFromEvents } from '../../domain/aggregates/enrollment-aggregate';
+import type { IEnrollmentRepository, OutboxDestination } from '../../application/ports/ports';
+import type { IEventStore, ISnapshotStore } from '../event-store/interfaces';
+import type { IOutboxStore } from '../outbox/interfaces';
+import {
+  EventStreamFactory,
+  ENROLLMENT_STREAM_PREFIX,
+  createEnrollmentStreamId,
+  createEnrollmentStreamPrefix,
+  parseEnrollmentStreamId
+} from '../event-store/event-stream';
+import { applyEvent } from '../../domain/aggregates/enrollment-aggregate';
+import { loadEnrollmentState } from '../event-store/snapshots';
+import { isActiveEnrollment, isWaitlistedEnrollment } from '../../domain/entities/enrollment-types';
 
 /**
  * Event Store専用の履修申請リポジトリ
@@ -23,11 +34,17 @@ import { reconstructEnrollmentFromEvents } from '../../domain/aggregates/enrollm
  * - 集約の永続化はイベントストリームのみ
  * - 状態は常にイベントから復元
  * - 楽観的ロック対応
+ * - スナップショットストアを渡すと、最新スナップショット + 以降のイベントから復元
+ * - outbox ストア（イベントストア自身）を渡すと、配信予定をイベントと同じトランザクションで記録
  */
 export class EventSourcedEnrollmentRepository implements IEnrollmentRepository {
   private eventStreamFactory: EventStreamFactory;
 
-  constructor(private readonly eventStore: IEventStore) {
+  constructor(
+    private readonly eventStore: IEventStore,
+    private readonly snapshotStore?: ISnapshotStore,
+    private readonly outboxStore?: IOutboxStore
+  ) {
     this.eventStreamFactory = new EventStreamFactory(eventStore);
   }
 
@@ -49,36 +66,91 @@ export class EventSourcedEnrollmentRepository implements IEnrollmentRepository {
   /**
    * 学生・科目・学期による履修申請検索
    * 
-   * Event Storeからイベントを取得して集約を復元
+   * スナップショット（あれば）とEvent Storeのイベントから集約を復元
    */
   async findByStudentCourseAndSemester(
     studentId: StudentId,
     courseId: CourseId,
     semester: Semester
   ): Promise<Result<Enrollment | null, EnrollmentError>> {
-    const stream = this.eventStreamFactory.createEnrollmentStream(
-      studentId,
-      courseId,
-      semester
+    return loadEnrollmentState(
+      this.eventStore,
+      this.snapshotStore,
+      createEnrollmentStreamId(studentId, courseId, semester)
     );
+  }
 
-    // ストリーム存在確認
-    const existsResult = await stream.exists();
-    if (!existsResult.success) {
-      return existsResult;
+  /**
+   * 学期内の有効な履修申請数
+   * 
+   * 学生単位のストリームIDを前方一致で列挙し、対象学期の集約を復元して数える
+   */
+  async countActiveByStudentAndSemester(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<number, EnrollmentError>> {
+    const enrollmentsResult = await this.loadStudentEnrollments(studentId, semester);
+    if (!enrollmentsResult.success) {
+      return enrollmentsResult;
     }
 
-    if (!existsResult.data) {
-      return Ok(null);
+    return Ok(enrollmentsResult.data.filter(isActiveEnrollment).length);
+  }
+
+  /**
+   * 学期内の有効な履修申請一覧
+   */
+  async findActiveByStudentAndSemester(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<Enrollment[], EnrollmentError>> {
+    const enrollmentsResult = await this.loadStudentEnrollments(studentId, semester);
+    if (!enrollmentsResult.success) {
+      return enrollmentsResult;
     }
 
-    // イベントから集約を復元
-    const eventsResult = await stream.getAllEvents();
-    if (!eventsResult.success) {
-      return eventsResult;
+    return Ok(enrollmentsResult.data.filter(isActiveEnrollment));
+  }
+
+  /**
+   * 科目開講で席を占めている履修申請数
+   *
+   * 全ストリームを走査する（科目ごとのインデックスは持たない）
+   */
+  async countActiveByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<number, EnrollmentError>> {
+    const enrollmentsResult = await this.loadEnrollments(
+      ENROLLMENT_STREAM_PREFIX,
+      parsed => parsed.courseId === courseId && parsed.semester === semester
+    );
+    if (!enrollmentsResult.success) {
+      return enrollmentsResult;
     }
 
-    return reconstructEnrollmentFromEvents(eventsResult.data);
+    return Ok(enrollmentsResult.data.filter(isActiveEnrollment).length);
+  }
+
+  /**
+   * 科目開講のウェイトリスト登録一覧
+   * 
+   * ストリームIDは学生単位でしか前方一致できないため全履修ストリームを走査する
+   * 本来であれば科目単位の読み取りモデルが必要
+   */
+  async findWaitlistedByCourseAndSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<WaitlistedEnrollment[], EnrollmentError>> {
+    const enrollmentsResult = await this.loadEnrollments(
+      ENROLLMENT_STREAM_PREFIX,
+      parsed => parsed.courseId === courseId && parsed.semester === semester
+    );
+    if (!enrollmentsResult.success) {
+      return enrollmentsResult;
+    }
+
+    return Ok(enrollmentsResult.data.filter(isWaitlistedEnrollment));
   }
 
   /**
@@ -86,11 +158,21 @@ export class EventSourcedEnrollmentRepository implements IEnrollmentRepository {
    * 
    * Event Storeにイベントを追記するのみ
    * 集約の状態は永続化しない（イベントから復元）
+   * 追記前に applyEvent で状態遷移の妥当性を検証する
+   * 配信先の指定があれば outbox ストア経由で追記する
    */
   async save(
     enrollment: Enrollment,
-    domainEvent: EnrollmentDomainEvent
+    domainEvent: EnrollmentDomainEvent,
+    outbox: ReadonlyArray<OutboxDestination> = []
   ): Promise<Result<void, EnrollmentError>> {
+    if (outbox.length > 0 && !this.outboxStore) {
+      return Err(createValidationError(
+        'Outbox store is not configured for this repository',
+        'OUTBOX_NOT_CONFIGURED'
+      ));
+    }
+
     const stream = this.eventStreamFactory.createEnrollmentStream(
       enrollment.studentId,
       enrollment.courseId,
@@ -100,6 +182,34 @@ export class EventSourcedEnrollmentRepository implements IEnrollmentRepository {
     // 楽観的ロック用の期待バージョン
     const expectedVersion = enrollment.version - 1;
 
+    // 状態遷移の検証（現在の状態にイベントを適用できるか）
+    // バージョン不一致の場合は追記時に ConcurrencyError として検出される
+    const currentResult = await this.findByStudentCourseAndSemester(
+      enrollment.studentId,
+      enrollment.courseId,
+      enrollment.semester
+    );
+    if (!currentResult.success) {
+      return currentResult;
+    }
+
+    const current = currentResult.data;
+    if ((current?.version ?? 0) === expectedVersion) {
+      const nextStateResult = applyEvent(current, domainEvent);
+      if (!nextStateResult.success) {
+        return nextStateResult;
+      }
+    }
+
+    if (this.outboxStore && outbox.length > 0) {
+      return this.outboxStore.appendWithOutbox(
+        stream.streamId,
+        [domainEvent],
+        expectedVersion,
+        outbox.map(destination => ({ destination, event: domainEvent }))
+      );
+    }
+
     return stream.appendEvents([domainEvent], expectedVersion);
   }
 
@@ -124,6 +234,50 @@ export class EventSourcedEnrollmentRepository implements IEnrollmentRepository {
 
   // === Event Store固有のメソッド ===
 
+  /**
+   * 学生の履修申請を学期で絞り込んで復元
+   */
+  private async loadStudentEnrollments(
+    studentId: StudentId,
+    semester: Semester
+  ): Promise<Result<Enrollment[], EnrollmentError>> {
+    return this.loadEnrollments(
+      createEnrollmentStreamPrefix(studentId),
+      parsed => parsed.semester === semester
+    );
+  }
+
+  /**
+   * 接頭辞に一致するストリームのうち条件を満たすものを復元
+   */
+  private async loadEnrollments(
+    prefix: string,
+    predicate: (parsed: NonNullable<ReturnType<typeof parseEnrollmentStreamId>>) => boolean
+  ): Promise<Result<Enrollment[], EnrollmentError>> {
+    const streamIdsResult = await this.eventStore.findStreamIds(prefix);
+    if (!streamIdsResult.success) {
+      return streamIdsResult;
+    }
+
+    const enrollments: Enrollment[] = [];
+    for (const streamId of streamIdsResult.data) {
+      const parsed = parseEnrollmentStreamId(streamId);
+      if (!parsed || !predicate(parsed)) {
+        continue;
+      }
+
+      const enrollmentResult = await loadEnrollmentState(this.eventStore, this.snapshotStore, streamId);
+      if (!enrollmentResult.success) {
+        return enrollmentResult;
+      }
+      if (enrollmentResult.data) {
+        enrollments.push(enrollmentResult.data);
+      }
+    }
+
+    return Ok(enrollments);
+  }
+
   /**
    * 指定バージョン以降のイベントを取得
    * 
@@ -0,0 +1,185 @@
+import { promises as fs } from 'node:fs';
+import { z } from 'zod';
+import type { Result } from '../../../../shared/types/index';
+import type {
+  StudentId,
+  CourseId,
+  Semester
+} from '../../../../shared/types/index';
+import { Ok, Err } from '../../../../shared/types/index';
+import type { EnrollmentError } from '../../domain/errors/errors';
+import { createNotFoundError, createValidationError } from '../../domain/errors/errors';
+import {
+  type MeetingTime,
+  MeetingTimeSchema,
+  WeekdaySchema,
+  TimeOfDaySchema
+} from '../../domain/entities/schedule-types';
+
+import type {
+  IStudentRepository,
+  ICourseRepository
+} from '../../application/ports/ports';
+
+// === カタログファイルの形式 ===
+
+// 日付は ISO 8601 文字列で書く
+const CatalogMeetingTimeSchema = z.object({
+  weekday: WeekdaySchema,
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema,
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date()
+}).pipe(MeetingTimeSchema);
+
+const CatalogOfferingSchema = z.object({
+  maxCapacity: z.number().int().nonnegative(),
+  currentEnrollment: z.number().int().nonnegative().default(0),
+  meetingTimes: z.array(CatalogMeetingTimeSchema).default([])
+});
+
+export const EnrollmentCatalogSchema = z.object({
+  students: z.record(z.object({
+    status: z.enum(['active', 'inactive', 'graduated', 'withdrawn'])
+  })).default({}),
+  courses: z.record(z.object({
+    offerings: z.record(CatalogOfferingSchema).default({})  // 学期ごとの開講
+  })).default({})
+});
+
+// 省略可能な項目は既定値で補完される
+export type EnrollmentCatalog = z.input<typeof EnrollmentCatalogSchema>;
+
+type ParsedCatalog = z.output<typeof EnrollmentCatalogSchema>;
+
+export interface JsonCatalogRepositories {
+  students: JsonStudentRepository;
+  courses: JsonCourseRepository;
+}
+
+/**
+ * JSON ファイルの学生・科目カタログの読み込み
+ *
+ * 学務システムと連携していない環境（CLI での運用など）で学生と科目開講の情報を提供する
+ * - 学生ID → 在籍状況、科目ID → 学期ごとの開講（定員・授業時間）
+ * - カタログにない学期は開講していないものとして扱う
+ * - 定員の現在数はカタログの値をそのまま返す（履修申請では更新しない）
+ */
+export async function loadJsonCatalog(
+  filePath: string
+): Promise<Result<JsonCatalogRepositories, EnrollmentError>> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    return Err(createValidationError(
+      `Failed to read catalog file: ${filePath}`,
+      'CATALOG_IO_ERROR',
+      'catalog',
+      { path: filePath, error: String(error) }
+    ));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return Err(createValidationError(
+      `Catalog file is not valid JSON: ${filePath}`,
+      'INVALID_CATALOG',
+      'catalog',
+      filePath
+    ));
+  }
+
+  const catalogResult = EnrollmentCatalogSchema.safeParse(parsed);
+  if (!catalogResult.success) {
+    return Err(createValidationError(
+      `Invalid catalog file: ${filePath}`,
+      'INVALID_CATALOG',
+      'catalog',
+      { path: filePath, issues: catalogResult.error.issues }
+    ));
+  }
+
+  return Ok(createJsonCatalogRepositories(catalogResult.data));
+}
+
+/**
+ * 読み込み済みのカタログからのリポジトリ作成
+ */
+export function createJsonCatalogRepositories(catalog: EnrollmentCatalog = {}): JsonCatalogRepositories {
+  const parsed = EnrollmentCatalogSchema.parse(catalog);
+  return {
+    students: new JsonStudentRepository(parsed.students),
+    courses: new JsonCourseRepository(parsed.courses)
+  };
+}
+
+/**
+ * カタログの学生リポジトリ実装
+ */
+export class JsonStudentRepository implements IStudentRepository {
+  constructor(private readonly students: ParsedCatalog['students']) {}
+
+  async exists(studentId: StudentId): Promise<Result<boolean, EnrollmentError>> {
+    return Ok(this.students[studentId] !== undefined);
+  }
+
+  async getEnrollmentStatus(
+    studentId: StudentId
+  ): Promise<Result<'active' | 'inactive' | 'graduated' | 'withdrawn', EnrollmentError>> {
+    const student = this.students[studentId];
+    if (!student) {
+      return Err(createNotFoundError('Student', studentId));
+    }
+    return Ok(student.status);
+  }
+}
+
+/**
+ * カタログの科目リポジトリ実装
+ */
+export class JsonCourseRepository implements ICourseRepository {
+  constructor(private readonly courses: ParsedCatalog['courses']) {}
+
+  async exists(courseId: CourseId): Promise<Result<boolean, EnrollmentError>> {
+    return Ok(this.courses[courseId] !== undefined);
+  }
+
+  async isOfferedInSemester(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<boolean, EnrollmentError>> {
+    return Ok(this.courses[courseId]?.offerings[semester] !== undefined);
+  }
+
+  async getCapacity(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<{ max: number; current: number }, EnrollmentError>> {
+    const course = this.courses[courseId];
+    if (!course) {
+      return Err(createNotFoundError('Course', courseId));
+    }
+
+    const offering = course.offerings[semester];
+    if (!offering) {
+      return Err(createNotFoundError('CourseOffering', `${courseId}-${semester}`));
+    }
+
+    return Ok({ max: offering.maxCapacity, current: offering.currentEnrollment });
+  }
+
+  async getMeetingTimes(
+    courseId: CourseId,
+    semester: Semester
+  ): Promise<Result<MeetingTime[], EnrollmentError>> {
+    const course = this.courses[courseId];
+    if (!course) {
+      return Err(createNotFoundError('Course', courseId));
+    }
+
+    return Ok([...(course.offerings[semester]?.meetingTimes ?? [])]);
+  }
+}
@@ -61,6 +61,12 @@ function loadFromEnvironment(): Partial<EnrollmentConfig> {
     config.processing.timeout.defaultMs = parseInt(env[`${ENV_PREFIX}DEFAULT_TIMEOUT_MS`]!, 10);
   }
   
+  if (env[`${ENV_PREFIX}IDEMPOTENCY_TTL_SECONDS`]) {
+    config.processing = config.processing || {};
+    config.processing.idempotency = config.processing.idempotency || {};
+    config.processing.idempotency.ttlSeconds = parseInt(env[`${ENV_PREFIX}IDEMPOTENCY_TTL_SECONDS`]!, 10);
+  }
+  
   // ビジネスルール設定
   if (env[`${ENV_PREFIX}MAX_COURSES_PER_SEMESTER`]) {
     config.businessRules = config.businessRules || {};
@@ -34,6 +34,9 @@ export const DEFAULT_ENROLLMENT_CONFIG: EnrollmentConfig = {
     concurrency: {
       maxParallelRequests: 100,
       batchSize: 10
+    },
+    idempotency: {
+      ttlSeconds: 86400
     }
   },
 
@@ -105,6 +108,9 @@ export const MINIMAL_CONFIG: EnrollmentConfig = {
     concurrency: {
       maxParallelRequests: 5,
       batchSize: 2
+    },
+    idempotency: {
+      ttlSeconds: 60
     }
   },
 
@@ -49,6 +49,11 @@ export const ProcessingConfigSchema = z.object({
   concurrency: z.object({
     maxParallelRequests: z.number().min(1).max(1000).default(100),
     batchSize: z.number().min(1).max(100).default(10)
+  }).default({}),
+
+  /** 冪等性キー設定（同じキーのコマンド再送に記録済みの結果を返す期間） */
+  idempotency: z.object({
+    ttlSeconds: z.number().min(1).max(604800).default(86400)
   }).default({})
 });
 
@@ -159,6 +164,9 @@ export const DEVELOPMENT_CONFIG: Partial<EnrollmentConfig> = {
     concurrency: { 
       maxParallelRequests: 10,
       batchSize: 5
+    },
+    idempotency: {
+      ttlSeconds: 3600
     }
   },
   observability: {
@@ -191,6 +199,9 @@ export const TEST_CONFIG: Partial<EnrollmentConfig> = {
     concurrency: { 
       maxParallelRequests: 5,
       batchSize: 2
+    },
+    idempotency: {
+      ttlSeconds: 60
     }
   },
   observability: {
@@ -223,6 +234,9 @@ export const PRODUCTION_CONFIG: Partial<EnrollmentConfig> = {
     concurrency: { 
       maxParallelRequests: 200,
       batchSize: 20
+    },
+    idempotency: {
+      ttlSeconds: 86400
     }
   },
   eventStore: {
@@ -41,4 +41,8 @@ export {
   getCurrentConfig,
   reloadConfig,
   setConfigForTesting
-} from './config-loader';
\ No newline at end of file
+} from './config-loader';
+// 再試行
+export {
+  computeRetryDelay
+} from './retry';
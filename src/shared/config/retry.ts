@@ -0,0 +1,16 @@
+import type { ProcessingConfig } from './enrollment-config';
+
+type RetryConfig = ProcessingConfig['retry'];
+
+/**
+ * 再試行までの待ち時間（attempt は失敗した試行回数、1始まり）
+ *
+ * processing.retry の exponentialBackoff が有効なら baseDelayMs から倍々に伸ばし、
+ * maxDelayMs で頭打ちにする
+ */
+export function computeRetryDelay(attempt: number, retryConfig: RetryConfig): number {
+  const delay = retryConfig.exponentialBackoff
+    ? retryConfig.baseDelayMs * 2 ** (attempt - 1)
+    : retryConfig.baseDelayMs;
+  return Math.min(delay, retryConfig.maxDelayMs);
+}
@@ -0,0 +1,6 @@
+/**
+ * Serialization - 統合エクスポート
+ */
+
+export { stableStringify } from './stable-stringify';
+export { zodToJsonSchema, type JsonSchema } from './zod-json-schema';
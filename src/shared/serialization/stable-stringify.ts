@@ -0,0 +1,20 @@
+/**
+ * キーの順序に依存しない JSON 文字列化
+ *
+ * 同じ内容のオブジェクトから常に同じ文字列を得る（キャッシュキーや内容の比較用）
+ * - オブジェクトのキーは辞書順に並べる
+ * - 値が undefined のプロパティは省略する（JSON.stringify と同じ）
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([field, fieldValue]) => `${JSON.stringify(field)}:${stableStringify(fieldValue)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
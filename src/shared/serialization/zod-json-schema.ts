@@ -0,0 +1,130 @@
+import { z, type ZodTypeAny } from 'zod';
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * zod スキーマから JSON Schema（draft 2020-12、OpenAPI 3.1 のスキーマと同じ形式）への変換
+ *
+ * DTO で使っている型と検証だけを変換する
+ * - optional・default のプロパティは required に含めない（default は default として記載）
+ * - refine・transform の検証関数は表現できないため、元のスキーマとして出力する
+ * - 対応していない型は制約なし（{}）として出力する
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    return stringSchema(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return numberSchema(schema);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodObject) {
+    return objectSchema(schema);
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value })
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: [...schema.options].map((option: ZodTypeAny) => zodToJsonSchema(option)) };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodBranded) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  return {};
+}
+
+// === Private Helper Functions ===
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+function objectSchema(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [name, property] of Object.entries<ZodTypeAny>(schema.shape)) {
+    properties[name] = zodToJsonSchema(property);
+    if (!property.isOptional()) {
+      required.push(name);
+    }
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required })
+  };
+}